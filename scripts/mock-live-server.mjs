@@ -0,0 +1,244 @@
+// Small local server for the live channel (src/api/liveChannel.ts), no dependencies.
+//
+//   npm run mock:live
+//   VITE_LIVE_TRANSPORT=auto VITE_LIVE_URL=http://localhost:4010 npm run dev
+//
+// Serves /live/ws (WebSocket) and /live/stream (Server-Sent Events), pushes random vitals for every
+// subscribed device and an occasional alert, and replays buffered events newer than `since`.
+// MOCK_LIVE_PORT changes the port, MOCK_LIVE_DEVICES lists devices that raise alerts when
+// nobody subscribed to a device yet (comma separated).
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_LIVE_PORT || 4010);
+const DEFAULT_DEVICES = (process.env.MOCK_LIVE_DEVICES || 'vitals_monitor_001,vitals_monitor_002').split(',');
+const VITALS_EVERY_MS = 2000;
+const ALERT_CHANCE = 0.1;
+const HISTORY_SIZE = 500;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const clients = new Set();
+const history = [];
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Backend key format, YYYY-MM-DD_HH-MM-SS in server local time
+const timestamp = (date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+
+const between = (min, max) => Math.round((min + Math.random() * (max - min)) * 10) / 10;
+
+const topicsFor = (event) => [
+  `device:${event.deviceId}`,
+  ...(event.patientId ? [`patient:${event.patientId}`] : []),
+  ...(event.roomId ? [`room:${event.roomId}`] : []),
+  ...(event.type === 'alert' ? ['alerts:*', `alerts:${event.alert.type}`] : []),
+];
+
+const wants = (client, event) => topicsFor(event).some((topic) => client.topics.has(topic));
+
+const publish = (event) => {
+  history.push(event);
+  if (history.length > HISTORY_SIZE) history.shift();
+  clients.forEach((client) => {
+    if (wants(client, event)) client.send(event);
+  });
+};
+
+const replay = (client, since) => {
+  if (!since) return;
+  history.filter((event) => event.timestamp > since && wants(client, event)).forEach((event) => client.send(event));
+};
+
+const subscribedDevices = () => {
+  const ids = new Set();
+  clients.forEach((client) => client.topics.forEach((topic) => {
+    if (topic.startsWith('device:')) ids.add(topic.slice('device:'.length));
+  }));
+  return ids.size > 0 ? [...ids] : DEFAULT_DEVICES;
+};
+
+setInterval(() => {
+  if (clients.size === 0) return;
+  const now = timestamp();
+
+  subscribedDevices().forEach((deviceId) => {
+    publish({
+      type: 'vitals',
+      deviceId,
+      timestamp: now,
+      reading: {
+        heartRate: between(60, 110),
+        oxygenLevel: between(90, 100),
+        temperature: between(36.2, 38.4),
+        bloodPressure: { systolic: between(105, 150), diastolic: between(65, 95) },
+        respiratoryRate: between(12, 22),
+        deviceStatus: 'online',
+        batteryLevel: between(40, 100),
+        signalStrength: between(60, 100),
+        timestamp: now,
+      },
+    });
+
+    if (Math.random() < ALERT_CHANCE) {
+      const critical = Math.random() < 0.3;
+      publish({
+        type: 'alert',
+        deviceId,
+        alertId: `mock_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+        timestamp: now,
+        alert: {
+          type: critical ? 'critical' : 'warning',
+          message: critical ? 'Oxygen saturation below 90%' : 'Heart rate above threshold',
+          timestamp: now,
+          resolved: false,
+        },
+      });
+    }
+  });
+}, VITALS_EVERY_MS);
+
+// --- Server-Sent Events ---
+
+const openStream = (req, res, url) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  const client = {
+    topics: new Set((url.searchParams.get('topics') || '').split(',').filter(Boolean)),
+    send: (message) => res.write(`data: ${JSON.stringify(message)}\n\n`),
+  };
+  clients.add(client);
+  replay(client, url.searchParams.get('since'));
+
+  const heartbeat = setInterval(() => client.send({ type: 'heartbeat' }), 15000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+};
+
+// --- WebSocket, text frames only ---
+
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Returns [opcode, text, bytes consumed] for each complete frame at the start of `buffer`
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) payload.forEach((byte, index) => { payload[index] = byte ^ mask[index % 4]; });
+    frames.push([opcode, payload.toString('utf8')]);
+    offset = cursor + length;
+  }
+  return [frames, buffer.subarray(offset)];
+};
+
+const openSocket = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const client = {
+    topics: new Set(),
+    send: (message) => socket.write(encodeFrame(JSON.stringify(message))),
+  };
+  clients.add(client);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const [frames, rest] = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    frames.forEach(([opcode, text]) => {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0]));
+        return;
+      }
+      if (opcode !== 0x1) return;
+
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return;
+      }
+      if (message.type === 'ping') client.send({ type: 'pong' });
+      if (message.type === 'subscribe') {
+        message.topics.forEach((topic) => client.topics.add(topic));
+        replay(client, message.since);
+      }
+      if (message.type === 'unsubscribe') message.topics.forEach((topic) => client.topics.delete(topic));
+    });
+  });
+  socket.on('close', () => clients.delete(client));
+  socket.on('error', () => clients.delete(client));
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (url.pathname.endsWith('/live/stream')) {
+    openStream(req, res, url);
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (url.pathname.endsWith('/live/ws')) {
+    openSocket(req, socket);
+  } else {
+    socket.destroy();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`📡 Mock live server on http://localhost:${PORT} (ws: /live/ws, sse: /live/stream)`);
+});
@@ -1,11 +1,13 @@
 import { AuthProvider } from './contexts/AuthContext';
 import { HospitalDataProvider } from './contexts/HospitalDataContext';
 import AuthContainer from './components/auth/AuthContainer';
+import LockScreen from './components/auth/LockScreen';
+import SessionExpiryWarning from './components/auth/SessionExpiryWarning';
 import Dashboard from './components/dashboard/Dashboard';
 import { useAuth } from './contexts/AuthContext';
 
 function AppContent() {
-  const { user, loading } = useAuth();
+  const { user, loading, locked } = useAuth();
 
   if (loading) {
     return (
@@ -22,7 +24,15 @@ function AppContent() {
     return <AuthContainer />;
   }
 
-  return <Dashboard />;
+  return (
+    <>
+      {/* Stays mounted while locked, so open forms, filters and selections survive the unlock */}
+      <div hidden={!!locked}>
+        <Dashboard />
+      </div>
+      {locked ? <LockScreen /> : <SessionExpiryWarning />}
+    </>
+  );
 }
 
 function App() {
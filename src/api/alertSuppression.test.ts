@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import Api from './api';
+import { AlertSuppression, createSuppression, liftSuppression } from './alertSuppression';
+import { ENDPOINTS } from './config';
+import { escalationStatus } from './escalation';
+import { fetchAlert, minutesAfter, raiseAlert, setupMockBackend } from '../test/mockServer';
+
+// Monitor of Patricia Davis on the general ward
+const MONITOR = 'vitals_monitor_004';
+const PATIENT = 'patient_004';
+
+// The backend checks expiry against the wall clock
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+describe('Alert snoozing', () => {
+    const server = setupMockBackend('doctor@hospital.com');
+
+    const snoozeMonitor = async () => {
+        const response = await createSuppression(
+            { scope: 'device', target_id: MONITOR, reason: 'SpO2 probe being replaced', expires_at: hoursFromNow(1) },
+            'Vitals Monitor 004'
+        );
+        expect(response.error).toBeUndefined();
+        return response.data!;
+    };
+
+    it('silences open and new alerts of the device, which never escalate', async () => {
+        raiseAlert(server.backend, MONITOR, 'before');
+        const suppression = await snoozeMonitor();
+        expect((await fetchAlert(MONITOR, 'before')).suppressedBy).toBe(suppression.id);
+
+        raiseAlert(server.backend, MONITOR, 'during');
+        server.backend.escalateAlerts(minutesAfter(60));
+
+        const alert = await fetchAlert(MONITOR, 'during');
+        expect(alert.suppressedBy).toBe(suppression.id);
+        expect(alert.escalationHistory).toBeUndefined();
+        expect(escalationStatus(alert)).toEqual(expect.objectContaining({ state: 'snoozed', dueAt: null }));
+        expect((await Api.get<AlertSuppression[]>(ENDPOINTS.alerts.suppressions)).data).toEqual([suppression]);
+    });
+
+    it('records who snoozed what and why in the audit trail', async () => {
+        await snoozeMonitor();
+
+        expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+            action: 'create',
+            entity: expect.objectContaining({ type: 'suppression', name: 'Vitals Monitor 004' }),
+            reason: 'SpO2 probe being replaced',
+        }));
+    });
+
+    it('silences every device of a patient', async () => {
+        raiseAlert(server.backend, MONITOR, 'patient-scope');
+        const response = await createSuppression(
+            { scope: 'patient', target_id: PATIENT, reason: 'Palliative care, comfort measures only', expires_at: hoursFromNow(8) }
+        );
+        expect(response.error).toBeUndefined();
+        expect((await fetchAlert(MONITOR, 'patient-scope')).suppressedBy).toBe(response.data!.id);
+    });
+
+    it('refuses rules without a reason, for unknown targets or longer than a day', async () => {
+        const request = { scope: 'device' as const, target_id: MONITOR, reason: 'Probe loose', expires_at: hoursFromNow(1) };
+
+        expect((await createSuppression({ ...request, reason: '   ' })).error?.status).toBe(422);
+        expect((await createSuppression({ ...request, expires_at: hoursFromNow(25) })).error?.status).toBe(422);
+        expect((await createSuppression({ ...request, expires_at: hoursFromNow(-1) })).error?.status).toBe(422);
+        expect((await createSuppression({ ...request, target_id: 'vitals_monitor_999' })).error?.status).toBe(404);
+    });
+
+    it('lets alerts escalate again once lifted', async () => {
+        const suppression = await snoozeMonitor();
+        expect((await liftSuppression(suppression, 'Vitals Monitor 004')).error).toBeUndefined();
+
+        raiseAlert(server.backend, MONITOR, 'after');
+        server.backend.escalateAlerts(minutesAfter(6));
+
+        expect((await fetchAlert(MONITOR, 'after')).escalationHistory).toHaveLength(1);
+        expect((await Api.get<AlertSuppression[]>(ENDPOINTS.alerts.suppressions)).data).toEqual([]);
+        expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+            action: 'delete',
+            entity: expect.objectContaining({ type: 'suppression', id: suppression.id }),
+        }));
+    });
+});
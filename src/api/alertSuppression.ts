@@ -0,0 +1,66 @@
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { formatTimestamp, toTimestampMs } from '../utils/dateUtils';
+
+// Snoozing alerts: a suppression rule silences the alerts of one patient or one device until it
+// expires, e.g. while a loose sensor waits to be replaced. Alerts are still recorded and listed,
+// marked as snoozed, but raise no pop-ups and do not escalate. Every rule has a reason and is audited.
+
+export type SuppressionScope = 'patient' | 'device';
+
+export interface AlertSuppression {
+    id: string;
+    scope: SuppressionScope;
+    // Patient or device id, depending on the scope
+    target_id: string;
+    reason: string;
+    // ISO 8601; alerts are no longer silenced from then on
+    expires_at: string;
+    created_by: string;
+    created_at: string;
+}
+
+export type SuppressionRequest = Pick<AlertSuppression, 'scope' | 'target_id' | 'reason' | 'expires_at'>;
+
+// Longest a rule may run; the backend refuses longer ones
+export const MAX_SUPPRESSION_HOURS = 24;
+
+/**
+ * The rule silencing an alert of `deviceId`, which monitors `patientId`, at `now`; null when none does
+ */
+export const findSuppression = (
+    suppressions: AlertSuppression[],
+    alert: { deviceId: string; patientId?: string },
+    now: number = Date.now()
+): AlertSuppression | null =>
+    suppressions.find(suppression =>
+        toTimestampMs(suppression.expires_at) > now &&
+        suppression.target_id === (suppression.scope === 'device' ? alert.deviceId : alert.patientId)
+    ) ?? null;
+
+/**
+ * Silence the alerts of a patient or device. `targetName` names it in the audit trail.
+ */
+export const createSuppression = (request: SuppressionRequest, targetName?: string) =>
+    Api.post<AlertSuppression>(ENDPOINTS.alerts.suppressions, request, {
+        audit: {
+            action: 'create',
+            entity: { type: 'suppression', name: targetName ?? request.target_id },
+            description: `Snooze alerts of ${request.scope} ${targetName ?? request.target_id} until ${formatTimestamp(request.expires_at)}`,
+            reason: request.reason,
+        },
+    });
+
+/**
+ * End a rule before it expires
+ */
+export const liftSuppression = (suppression: AlertSuppression, targetName?: string) =>
+    Api.delete(ENDPOINTS.alerts.suppression(suppression.id), {
+        audit: {
+            action: 'delete',
+            entity: { type: 'suppression', id: suppression.id, name: targetName ?? suppression.target_id },
+            description: `Lift the snooze of ${suppression.scope} ${targetName ?? suppression.target_id}`,
+            before: suppression,
+            after: null,
+        },
+    });
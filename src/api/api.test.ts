@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Api, { ApiClient, getBackoffDelay } from './api';
+import { DEFAULT_RETRY_POLICY, ENDPOINTS } from './config';
+import { setupMockBackend } from '../test/mockServer';
+
+const clientAnswering = (status: number, body: unknown) => {
+    const client = new ApiClient('http://hospital.test');
+    client.setFetch(async () =>
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    );
+    return client;
+};
+
+describe('ApiClient.handleResponse', () => {
+    it('maps a FastAPI 422 detail list to field errors', async () => {
+        const client = clientAnswering(422, {
+            detail: [
+                { loc: ['body', 'personalInfo', 'name'], msg: 'field required', type: 'value_error.missing' },
+                { loc: ['body', 'personalInfo', 'age'], msg: 'value is not a valid integer', type: 'type_error.integer' },
+                { loc: ['query', 'limit'], msg: 'ensure this value is less than 100', type: 'value_error' },
+            ],
+        });
+
+        const response = await client.post('/patients/', {});
+
+        expect(response.status).toBe(422);
+        expect(response.data).toBeUndefined();
+        expect(response.error).toEqual({
+            kind: 'Validation',
+            message: 'Validation Error',
+            status: 422,
+            fieldErrors: {
+                'personalInfo.name': ['field required'],
+                'personalInfo.age': ['value is not a valid integer'],
+                limit: ['ensure this value is less than 100'],
+            },
+        });
+    });
+
+    it('collects several messages for the same field', async () => {
+        const client = clientAnswering(422, {
+            detail: [
+                { loc: ['body', 'email'], msg: 'field required' },
+                { loc: ['body', 'email'], msg: 'not a valid email address' },
+            ],
+        });
+
+        const response = await client.post('/auth/signup', {});
+
+        expect(response.error?.kind === 'Validation' && response.error.fieldErrors).toEqual({
+            email: ['field required', 'not a valid email address'],
+        });
+    });
+
+    it('files a plain string detail under general', async () => {
+        const response = await clientAnswering(422, { detail: 'Bed is already occupied' }).post('/beds/assign', {});
+
+        expect(response.error?.kind === 'Validation' && response.error.fieldErrors).toEqual({
+            general: ['Bed is already occupied'],
+        });
+    });
+
+    it('uses the detail of other error responses as the message', async () => {
+        const response = await clientAnswering(404, { detail: 'Patient patient_999 not found' }).get('/patients/patient_999');
+
+        expect(response.error).toEqual({ kind: 'NotFound', message: 'Patient patient_999 not found', status: 404 });
+    });
+
+    it('returns the body of a successful response', async () => {
+        const response = await clientAnswering(200, { patient_001: { ok: true } }).get('/patients/');
+
+        expect(response).toEqual({ data: { patient_001: { ok: true } }, status: 200, retries: 0 });
+    });
+
+    describe('against the mock backend', () => {
+        setupMockBackend();
+
+        it('reports missing body fields of a create request per field', async () => {
+            const response = await Api.post(ENDPOINTS.patients.create, { personalInfo: { gender: 'Female' } });
+
+            expect(response.status).toBe(422);
+            expect(response.error).toMatchObject({
+                kind: 'Validation',
+                fieldErrors: {
+                    'personalInfo.name': ['field required'],
+                    'personalInfo.age': ['field required'],
+                },
+            });
+        });
+    });
+});
+
+describe('ApiClient retries', () => {
+    // Answers with the given statuses in turn, the last one from then on, noting when each request came in
+    const clientAnsweringInTurn = (...statuses: number[]) => {
+        const requestedAt: number[] = [];
+        const fetch = vi.fn(async () => {
+            const status = statuses[Math.min(requestedAt.length, statuses.length - 1)];
+            requestedAt.push(Date.now());
+            return new Response(JSON.stringify({ detail: `HTTP ${status}` }), {
+                status,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        });
+        const client = new ApiClient('http://hospital.test');
+        client.setFetch(fetch);
+        return { client, fetch, delays: () => requestedAt.slice(1).map((at, index) => at - requestedAt[index]) };
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+        // Middle of the jittered half, so every delay is 3/4 of the exponential one
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const settle = async <T>(request: Promise<T>): Promise<T> => {
+        await vi.runAllTimersAsync();
+        return request;
+    };
+
+    it('does not retry a POST unless a policy is passed', async () => {
+        const { client, fetch } = clientAnsweringInTurn(503);
+
+        const response = await settle(client.post('/patients/', {}));
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(response).toEqual(expect.objectContaining({ status: 503, retries: 0 }));
+
+        fetch.mockClear();
+        await settle(client.post('/patients/', {}, { retry: {} }));
+        expect(fetch).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+    });
+
+    it('retries reads with growing equal-jitter delays until one gets through', async () => {
+        const { client, fetch, delays } = clientAnsweringInTurn(503, 502, 200);
+
+        const response = await settle(client.get('/patients/'));
+
+        expect(fetch).toHaveBeenCalledTimes(3);
+        expect(response).toEqual(expect.objectContaining({ status: 200, retries: 2 }));
+        expect(delays()).toEqual([getBackoffDelay(1, DEFAULT_RETRY_POLICY), getBackoffDelay(2, DEFAULT_RETRY_POLICY)]);
+        expect(delays()).toEqual([225, 450]);
+    });
+
+    it('caps the delay and gives up after the last attempt of the policy', async () => {
+        const { client, fetch, delays } = clientAnsweringInTurn(503);
+
+        const response = await settle(client.get('/patients/', undefined, {
+            retry: { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 2500 },
+        }));
+
+        expect(fetch).toHaveBeenCalledTimes(5);
+        expect(response).toEqual(expect.objectContaining({ status: 503, retries: 4 }));
+        expect(delays()).toEqual([750, 1500, 1875, 1875]);
+    });
+
+    it('does not retry statuses outside the policy', async () => {
+        const { client, fetch } = clientAnsweringInTurn(404);
+
+        await settle(client.get('/patients/patient_999'));
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying once the request is aborted', async () => {
+        const { client, fetch } = clientAnsweringInTurn(503);
+        const controller = new AbortController();
+
+        const request = client.get('/patients/', undefined, { signal: controller.signal });
+        // The first attempt failed and the client is waiting to retry
+        await vi.advanceTimersByTimeAsync(100);
+        controller.abort();
+        const response = await settle(request);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(response).toEqual(expect.objectContaining({
+            status: 0,
+            error: expect.objectContaining({ kind: 'NetworkError', message: 'Request aborted' }),
+        }));
+    });
+});
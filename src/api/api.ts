@@ -1,33 +1,183 @@
-import { API_BASE_URL, DEFAULT_HEADERS, REQUEST_TIMEOUT } from './config';
+import type { AuditOptions } from './audit';
+import { API_BASE_URL, DEFAULT_HEADERS, DEFAULT_RETRY_POLICY, REQUEST_TIMEOUT } from './config';
+import { ApiError, httpError, networkError, parseValidationDetail, timeoutError } from './errors';
+import { validateResponse } from './validation';
 
-interface ApiResponse<T = any> {
+export interface ApiResponse<T = any> {
     data?: T;
-    error?: string;
+    error?: ApiError;
     status: number;
-    validationErrors?: Record<string, string[]>;
+    // Number of retries it took to get this response (0 when the first attempt settled it)
+    retries?: number;
+    // Set when the server was unreachable and the data is the copy saved offline at this time
+    staleSince?: Date;
+    // Set when the server was unreachable and the write was queued to be sent later
+    queued?: boolean;
 }
 
-export default class Api {
-    private static async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    retryOnStatus: number[];
+    retryOnNetworkError: boolean;
+}
+
+export interface RequestOptions {
+    headers?: Record<string, string>;
+    timeout?: number;
+    // Skip the Authorization header and the 401 session handling (login, signup, logout)
+    skipAuth?: boolean;
+    // Override the retry policy for this call, or `false` to disable retries
+    retry?: Partial<RetryPolicy> | false;
+    // Cancels the request and any pending retries
+    signal?: AbortSignal;
+    // Queue this write when the server is unreachable instead of failing (see offline.ts)
+    queueOffline?: QueueOfflineOptions;
+    // Record the write in the audit trail once the server accepted it (see audit.ts)
+    audit?: AuditOptions;
+}
+
+export interface QueueOfflineOptions {
+    // Shown in the list of pending changes, e.g. "Mark Dr. Ali off duty"
+    description: string;
+    // Part of a snapshot endpoint (OFFLINE_SNAPSHOT_ENDPOINTS) the change is based on. If the server
+    // holds a different value there on replay than the snapshot did, the write is held as a conflict.
+    expect?: { endpoint: string; path: string[] };
+}
+
+// Status codes used for failures that never reached the server
+export const NETWORK_ERROR_STATUS = 0;
+export const TIMEOUT_STATUS = 408;
+
+// POST is not idempotent, so it is only retried when a policy is passed explicitly
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const id = setTimeout(done, ms);
+        function done() {
+            clearTimeout(id);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+        signal?.addEventListener('abort', done);
+    });
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other half random,
+ * so clients that failed together do not retry in lockstep.
+ */
+export const getBackoffDelay = (retry: number, policy: RetryPolicy): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+    return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const basePath = (() => {
+    try {
+        return new URL(API_BASE_URL).pathname.replace(/\/+$/, '');
+    } catch {
+        return '';
+    }
+})();
+
+/**
+ * Endpoint of a request URL relative to API_BASE_URL, as passed to `Api.request`,
+ * or null for URLs outside the API
+ */
+export const endpointFromUrl = (url: string): string | null => {
+    try {
+        const { pathname, search } = new URL(url);
+        if (!pathname.startsWith(basePath)) return null;
+        return `${pathname.slice(basePath.length)}${search}`;
+    } catch {
+        return null;
+    }
+};
+
+export interface ApiRequest extends RequestOptions {
+    method: HttpMethod;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+}
+
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+export type ResponseInterceptor = (
+    response: ApiResponse,
+    request: ApiRequest
+) => ApiResponse | Promise<ApiResponse>;
+
+export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export class ApiClient {
+    private requestInterceptors: RequestInterceptor[] = [];
+    private responseInterceptors: ResponseInterceptor[] = [];
+    private fetchFn: FetchFunction = (input, init) => fetch(input, init);
+
+    constructor(private readonly baseUrl: string = API_BASE_URL) {}
+
+    /**
+     * Send requests through `fetchFn` instead of the network, e.g. the mock backend.
+     * Returns a function that restores the previous one.
+     */
+    setFetch(fetchFn: FetchFunction): () => void {
+        const previous = this.fetchFn;
+        this.fetchFn = fetchFn;
+        return () => {
+            this.fetchFn = previous;
+        };
+    }
+
+    /**
+     * Register a request interceptor. Returns a function that removes it again.
+     */
+    addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+        this.requestInterceptors.push(interceptor);
+        return () => {
+            this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+        };
+    }
+
+    /**
+     * Register a response interceptor. Returns a function that removes it again.
+     */
+    addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+        this.responseInterceptors.push(interceptor);
+        return () => {
+            this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+        };
+    }
+
+    private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
+        const fail = (message: string, fieldErrors?: Record<string, string[]>): ApiResponse<T> => ({
+            error: httpError(response.status, message, fieldErrors),
+            status: response.status,
+        });
+
         try {
+            // DELETE and some assignment endpoints answer without a body
+            if (response.status === 204 || response.headers.get('content-length') === '0') {
+                return { status: response.status };
+            }
+
             const contentType = response.headers.get('content-type');
             if (contentType && contentType.includes('application/json')) {
                 const data = await response.json();
-                
+
                 // Handle FastAPI validation errors
                 if (response.status === 422 && data.detail) {
-                    return {
-                        error: 'Validation Error',
-                        validationErrors: Array.isArray(data.detail) 
-                            ? data.detail.reduce((acc: Record<string, string[]>, curr: any) => {
-                                const field = curr.loc[curr.loc.length - 1];
-                                if (!acc[field]) acc[field] = [];
-                                acc[field].push(curr.msg);
-                                return acc;
-                            }, {})
-                            : { general: [data.detail] },
-                        status: response.status,
-                    };
+                    return fail('Validation Error', parseValidationDetail(data.detail));
+                }
+
+                if (!response.ok) {
+                    return fail(
+                        typeof data?.detail === 'string'
+                            ? data.detail
+                            : data?.message || `HTTP ${response.status}: ${response.statusText}`
+                    );
                 }
 
                 return {
@@ -35,158 +185,192 @@ export default class Api {
                     status: response.status,
                 };
             }
-            
+
+            if (!response.ok) {
+                return fail(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
             return {
-                error: `Invalid response format: ${contentType}`,
+                error: httpError(500, `Invalid response format: ${contentType}`),
                 status: response.status,
             };
         } catch (error) {
             return {
-                error: 'Failed to parse response',
+                error: httpError(response.ok ? 500 : response.status, 'Failed to parse response'),
                 status: response.status,
             };
         }
     }
 
-    private static async fetchWithTimeout(
+    private async fetchWithTimeout(
         url: string,
-        options: RequestInit = {}
+        options: RequestInit = {},
+        timeout: number = REQUEST_TIMEOUT,
+        signal?: AbortSignal
     ): Promise<Response> {
         const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+        const id = setTimeout(() => controller.abort(), timeout);
+        const abortFromCaller = () => controller.abort();
+        signal?.addEventListener('abort', abortFromCaller);
 
         try {
-            console.log('🌐 Fetching URL:', url);
-            const response = await fetch(url, {
+            return await this.fetchFn(url, {
                 ...options,
                 signal: controller.signal,
             });
+        } finally {
             clearTimeout(id);
-            return response;
-        } catch (error) {
-            clearTimeout(id);
-            throw error;
+            signal?.removeEventListener('abort', abortFromCaller);
         }
     }
 
-    static async get<T = any>(endpoint: string, params?: Record<string, string>): Promise<ApiResponse<T>> {
-        try {
-            // Ensure API_BASE_URL is valid
-            if (!API_BASE_URL) {
-                throw new Error('API_BASE_URL is not configured');
-            }
+    private resolveRetryPolicy(method: HttpMethod, retry: RequestOptions['retry']): RetryPolicy | null {
+        if (retry === false) return null;
+        if (retry === undefined && !IDEMPOTENT_METHODS.includes(method)) return null;
+        return { ...DEFAULT_RETRY_POLICY, ...retry };
+    }
 
-            // Clean up endpoint to avoid double slashes
-            const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-            const baseUrl = API_BASE_URL.endsWith('/') ? API_BASE_URL.slice(0, -1) : API_BASE_URL;
-            
-            const finalUrl = `${baseUrl}${cleanEndpoint}`;
-            console.log('🌐 Final API URL:', finalUrl);
-            console.log('🔗 Base URL:', baseUrl);
-            console.log('🔗 Endpoint:', cleanEndpoint);
-            
-            const url = new URL(finalUrl);
-            if (params) {
-                Object.entries(params).forEach(([key, value]) => {
-                    url.searchParams.append(key, value);
-                });
-            }
+    private shouldRetry(response: ApiResponse, policy: RetryPolicy): boolean {
+        if (response.status === NETWORK_ERROR_STATUS || response.status === TIMEOUT_STATUS) {
+            return policy.retryOnNetworkError || policy.retryOnStatus.includes(response.status);
+        }
+        return policy.retryOnStatus.includes(response.status);
+    }
 
-            console.log('🚀 Making GET request to:', url.toString());
+    private buildUrl(endpoint: string, params?: Record<string, string>): string {
+        // Ensure API_BASE_URL is valid
+        if (!this.baseUrl) {
+            throw new Error('API_BASE_URL is not configured');
+        }
 
-            const response = await this.fetchWithTimeout(url.toString(), {
-                method: 'GET',
-                headers: DEFAULT_HEADERS,
-            });
+        // Clean up endpoint to avoid double slashes
+        const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+        const baseUrl = this.baseUrl.endsWith('/') ? this.baseUrl.slice(0, -1) : this.baseUrl;
 
-            console.log('📥 Response status:', response.status, response.statusText);
-            return this.handleResponse<T>(response);
-        } catch (error) {
-            console.error('API GET Error:', error);
-            return {
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 500,
-            };
+        const url = new URL(`${baseUrl}${cleanEndpoint}`);
+        if (params) {
+            Object.entries(params).forEach(([key, value]) => {
+                url.searchParams.append(key, value);
+            });
         }
+        return url.toString();
     }
 
-    static async post<T = any>(endpoint: string, data: any): Promise<ApiResponse<T>> {
+    async request<T = any>(
+        method: HttpMethod,
+        endpoint: string,
+        body?: unknown,
+        options: RequestOptions & { params?: Record<string, string> } = {}
+    ): Promise<ApiResponse<T>> {
+        const { params, headers, ...rest } = options;
+        let request: ApiRequest = {
+            ...rest,
+            method,
+            url: '',
+            headers: { ...DEFAULT_HEADERS, ...headers },
+            body,
+        };
+
+        let result: ApiResponse<T>;
         try {
-            // Ensure API_BASE_URL is valid
-            if (!API_BASE_URL) {
-                throw new Error('API_BASE_URL is not configured');
-            }
+            request.url = this.buildUrl(endpoint, params);
 
-            // Clean up endpoint to avoid double slashes
-            const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-            const baseUrl = API_BASE_URL.endsWith('/') ? API_BASE_URL.slice(0, -1) : API_BASE_URL;
-            
-            const response = await this.fetchWithTimeout(`${baseUrl}${cleanEndpoint}`, {
-                method: 'POST',
-                headers: DEFAULT_HEADERS,
-                body: JSON.stringify(data),
-            });
+            for (const interceptor of this.requestInterceptors) {
+                request = await interceptor(request);
+            }
 
-            return this.handleResponse<T>(response);
+            result = await this.send<T>(request);
         } catch (error) {
-            console.error('API POST Error:', error);
-            return {
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 500,
+            console.error(`API ${method} Error:`, error);
+            result = {
+                error: networkError(error instanceof Error ? error.message : undefined),
+                status: NETWORK_ERROR_STATUS,
+                retries: 0,
             };
         }
+
+        for (const interceptor of this.responseInterceptors) {
+            result = await interceptor(result, request);
+        }
+        return result;
     }
 
-    static async put<T = any>(endpoint: string, data: any): Promise<ApiResponse<T>> {
-        try {
-            // Ensure API_BASE_URL is valid
-            if (!API_BASE_URL) {
-                throw new Error('API_BASE_URL is not configured');
+    /**
+     * Perform the HTTP call, retrying according to the request's policy.
+     */
+    private async send<T>(request: ApiRequest): Promise<ApiResponse<T>> {
+        const policy = this.resolveRetryPolicy(request.method, request.retry);
+        const maxAttempts = policy ? Math.max(1, policy.maxAttempts) : 1;
+
+        let result: ApiResponse<T> = { status: NETWORK_ERROR_STATUS };
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            if (attempt > 1) {
+                const delay = getBackoffDelay(attempt - 1, policy!);
+                console.warn(`🔁 Retrying ${request.method} ${request.url} in ${Math.round(delay)}ms (attempt ${attempt}/${maxAttempts})`);
+                await sleep(delay, request.signal);
             }
 
-            // Clean up endpoint to avoid double slashes
-            const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-            const baseUrl = API_BASE_URL.endsWith('/') ? API_BASE_URL.slice(0, -1) : API_BASE_URL;
-            
-            const response = await this.fetchWithTimeout(`${baseUrl}${cleanEndpoint}`, {
-                method: 'PUT',
-                headers: DEFAULT_HEADERS,
-                body: JSON.stringify(data),
-            });
+            if (request.signal?.aborted) {
+                return { error: networkError('Request aborted'), status: NETWORK_ERROR_STATUS, retries: attempt - 1 };
+            }
 
-            return this.handleResponse<T>(response);
-        } catch (error) {
-            console.error('API PUT Error:', error);
-            return {
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 500,
-            };
+            try {
+                console.log(`🚀 ${request.method} ${request.url}`);
+                const response = await this.fetchWithTimeout(
+                    request.url,
+                    {
+                        method: request.method,
+                        headers: request.headers,
+                        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+                    },
+                    request.timeout,
+                    request.signal
+                );
+                result = await this.handleResponse<T>(response);
+            } catch (error) {
+                if (request.signal?.aborted) {
+                    return { error: networkError('Request aborted'), status: NETWORK_ERROR_STATUS, retries: attempt - 1 };
+                }
+                console.error(`API ${request.method} Error:`, error);
+                const timedOut = error instanceof Error && error.name === 'AbortError';
+                result = timedOut
+                    ? { error: timeoutError(), status: TIMEOUT_STATUS }
+                    : { error: networkError(error instanceof Error ? error.message : undefined), status: NETWORK_ERROR_STATUS };
+            }
+
+            result.retries = attempt - 1;
+            if (!policy || !this.shouldRetry(result, policy)) {
+                break;
+            }
         }
+        return result;
     }
 
-    static async delete<T = any>(endpoint: string): Promise<ApiResponse<T>> {
-        try {
-            // Ensure API_BASE_URL is valid
-            if (!API_BASE_URL) {
-                throw new Error('API_BASE_URL is not configured');
-            }
+    get<T = any>(endpoint: string, params?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+        return this.request<T>('GET', endpoint, undefined, { ...options, params });
+    }
 
-            // Clean up endpoint to avoid double slashes
-            const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-            const baseUrl = API_BASE_URL.endsWith('/') ? API_BASE_URL.slice(0, -1) : API_BASE_URL;
-            
-            const response = await this.fetchWithTimeout(`${baseUrl}${cleanEndpoint}`, {
-                method: 'DELETE',
-                headers: DEFAULT_HEADERS,
-            });
+    post<T = any>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
+        return this.request<T>('POST', endpoint, data, options);
+    }
 
-            return this.handleResponse<T>(response);
-        } catch (error) {
-            console.error('API DELETE Error:', error);
-            return {
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 500,
-            };
-        }
+    put<T = any>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
+        return this.request<T>('PUT', endpoint, data, options);
+    }
+
+    patch<T = any>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<ApiResponse<T>> {
+        return this.request<T>('PATCH', endpoint, data, options);
+    }
+
+    delete<T = any>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
+        return this.request<T>('DELETE', endpoint, undefined, options);
     }
-} 
\ No newline at end of file
+}
+
+// Single shared client; auth and session interceptors are registered on it
+const Api = new ApiClient();
+
+// Payloads are validated first, so later interceptors and hooks only see checked data
+Api.addResponseInterceptor(validateResponse);
+
+export default Api;
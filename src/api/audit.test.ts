@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import Api from './api';
+import {
+    AuditEntry,
+    auditEntriesToCsv,
+    auditQueryParams,
+    diffRecords,
+    flushAuditLog,
+    getPendingAuditEntries,
+    reviewAuditEntry,
+} from './audit';
+import { AUDIT_RETRY_MS, ENDPOINTS } from './config';
+import { requestEmergencyAccess } from './emergencyAccess';
+import { usePatients } from './hooks/usePatients';
+import { query } from './queryCache';
+import { Patient } from './types';
+import { updateWardThresholds } from './vitalThresholds';
+import { overrideRoute, setupMockBackend } from '../test/mockServer';
+
+describe('diffRecords', () => {
+    it('compares nested fields one by one and arrays as a whole', () => {
+        const before = { currentStatus: { diagnosis: 'Pneumonia', status: 'stable' }, conditions: ['COPD'] };
+        const after = { currentStatus: { diagnosis: 'Sepsis', status: 'stable' }, conditions: ['COPD', 'AKI'], ward: 'ICU' };
+
+        expect(diffRecords(before, after)).toEqual([
+            { field: 'conditions', before: ['COPD'], after: ['COPD', 'AKI'] },
+            { field: 'currentStatus.diagnosis', before: 'Pneumonia', after: 'Sepsis' },
+            { field: 'ward', before: undefined, after: 'ICU' },
+        ]);
+    });
+});
+
+describe('Audit trail', () => {
+    const server = setupMockBackend('admin@hospital.com');
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const changeDiagnosis = async (diagnosis: string, reason: string) => {
+        await query(ENDPOINTS.patients.getAll);
+        const { result } = renderHook(() => usePatients());
+        const patient = result.current.patients.patient_001;
+        await act(() => result.current.updatePatient(
+            'patient_001',
+            { ...patient, currentStatus: { ...patient.currentStatus, diagnosis } } as Patient,
+            reason
+        ));
+        return patient;
+    };
+
+    it('records who changed a patient, the changed fields and the reason', async () => {
+        const patient = await changeDiagnosis('Sepsis', 'Revised after blood cultures');
+        await flushAuditLog();
+
+        const [entry] = server.backend.db.audit;
+        expect(entry).toMatchObject({
+            actor: { id: 'admin-1', name: 'Sarah Johnson' },
+            action: 'update',
+            entity: { type: 'patient', id: 'patient_001', name: patient.personalInfo.name },
+            reason: 'Revised after blood cultures',
+            request: 'PUT /patients/patient_001/',
+            changes: [{ field: 'currentStatus.diagnosis', before: patient.currentStatus.diagnosis, after: 'Sepsis' }],
+        });
+        expect(getPendingAuditEntries()).toEqual([]);
+
+        const log = await Api.get<AuditEntry[]>(ENDPOINTS.audit.getAll, { q: 'blood cultures' });
+        expect(log.data?.map(item => item.id)).toEqual([entry.id]);
+    });
+
+    it('records nothing for writes the server rejected', async () => {
+        overrideRoute(server.backend, 'PUT', '/patients/patient_001/', 500, { detail: 'Database unavailable' });
+
+        await changeDiagnosis('Sepsis', '');
+        await flushAuditLog();
+
+        expect(server.backend.db.audit).toEqual([]);
+        expect(getPendingAuditEntries()).toEqual([]);
+    });
+
+    it('keeps entries the backend did not accept and sends them again later', async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout'] });
+        overrideRoute(server.backend, 'POST', ENDPOINTS.audit.record, 503, { detail: 'Audit store unavailable' });
+
+        await changeDiagnosis('Sepsis', '');
+        await flushAuditLog();
+        expect(getPendingAuditEntries()).toHaveLength(1);
+        expect(server.backend.db.audit).toEqual([]);
+
+        Api.setFetch(server.backend.fetch);
+        await vi.advanceTimersByTimeAsync(AUDIT_RETRY_MS);
+        await flushAuditLog();
+
+        expect(getPendingAuditEntries()).toEqual([]);
+        expect(server.backend.db.audit).toHaveLength(1);
+    });
+
+    it('keeps high-priority entries in the review queue until an admin reviewed them', async () => {
+        await requestEmergencyAccess('Testing the emergency access procedure');
+        await flushAuditLog();
+
+        const queue = auditQueryParams({ priority: 'high', unreviewed: true });
+        const waiting = await Api.get<AuditEntry[]>(ENDPOINTS.audit.getAll, queue);
+        expect(waiting.data).toHaveLength(1);
+
+        const reviewed = await reviewAuditEntry(waiting.data![0].id, 'appropriate', ' Planned drill ');
+        expect(reviewed.data?.review).toMatchObject({
+            by: { id: 'admin-1', name: 'Sarah Johnson' },
+            outcome: 'appropriate',
+            note: 'Planned drill',
+        });
+        expect((await Api.get<AuditEntry[]>(ENDPOINTS.audit.getAll, queue)).data).toEqual([]);
+    });
+
+    it('exports one CSV row per changed field', async () => {
+        await changeDiagnosis('Sepsis, suspected', 'Revised');
+        await flushAuditLog();
+
+        const [header, row] = auditEntriesToCsv(server.backend.db.audit).split('\n');
+        expect(header).toContain('Field,Before,After');
+        expect(row).toContain('currentStatus.diagnosis');
+        expect(row).toContain('"Sepsis, suspected"');
+    });
+
+    it('keeps spreadsheets from running exported text as a formula', async () => {
+        await changeDiagnosis('=HYPERLINK("http://evil.test","Sepsis")', '@SUM(1+1)');
+        await flushAuditLog();
+
+        const [, row] = auditEntriesToCsv(server.backend.db.audit).split('\n');
+        expect(row).toContain(`"'=HYPERLINK(""http://evil.test"",""Sepsis"")"`);
+        expect(row).toContain(`'@SUM(1+1)`);
+        expect(auditEntriesToCsv([{ ...server.backend.db.audit[0], changes: [{ field: 'age', before: -1, after: 67 }] }]))
+            .toContain('age,-1,67');
+    });
+});
+
+describe('Audit trail across a token refresh', () => {
+    const MINUTE = 60 * 1000;
+    const server = setupMockBackend('admin@hospital.com', { accessTokenTtlMs: 5 * MINUTE, sessionTtlMs: 60 * MINUTE });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('records a write repeated with a refreshed token once', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + 6 * MINUTE);
+
+        const response = await updateWardThresholds('General', [
+            { field: 'heartRate', operator: '>', value: 120, level: 'warning', for_minutes: 5 },
+        ]);
+        expect(response.error).toBeUndefined();
+        await flushAuditLog();
+
+        // Sent or still in the outbox, there is one entry
+        expect([...server.backend.db.audit, ...getPendingAuditEntries()]).toHaveLength(1);
+    });
+});
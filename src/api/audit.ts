@@ -0,0 +1,289 @@
+import Api, { ApiRequest, ApiResponse, endpointFromUrl } from './api';
+import { authAPI } from './auth';
+import { AUDIT_RETRY_MS, ENDPOINTS } from './config';
+import { toDateInputValue } from '../utils/dateUtils';
+
+// Audit trail. Writes made with the `audit` request option are recorded once the server accepted
+// them: who, when, what changed field by field, and why. Entries wait in an outbox in localStorage
+// until the backend's audit endpoint accepted them, so a failed upload or a reload loses nothing.
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'assign' | 'unassign' | 'discharge' | 'acknowledge' | 'resolve' | 'emergency_access';
+
+export type AuditEntityType = 'patient' | 'staff' | 'room' | 'bed' | 'device' | 'alert' | 'suppression' | 'user' | 'ward' | 'setting';
+
+// High-priority entries wait in the admins' review queue until someone reviewed them
+export type AuditPriority = 'normal' | 'high';
+
+export interface AuditEntity {
+    type: AuditEntityType;
+    // Missing for creates; taken from the server's answer then
+    id?: string;
+    // Readable name at the time of the change, e.g. the patient's name
+    name?: string;
+}
+
+export interface AuditOptions {
+    action: AuditAction;
+    entity: AuditEntity;
+    // Shown in the audit log, e.g. "Assign John Doe to monitor monitor_002"
+    description: string;
+    // The record before the change and after it; `after` defaults to the request body
+    before?: unknown;
+    after?: unknown;
+    // Why the change was made, as entered by the user
+    reason?: string;
+    // When the change was made, if earlier than the request (writes queued offline)
+    madeAt?: Date;
+    priority?: AuditPriority;
+}
+
+export interface AuditChange {
+    // Dotted path, e.g. 'medicalHistory.diagnosis'
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditEntry {
+    id: string;
+    // ISO 8601
+    at: string;
+    actor: { id: string; name: string } | null;
+    action: AuditAction;
+    entity: AuditEntity;
+    description: string;
+    changes: AuditChange[];
+    reason?: string;
+    // Method and endpoint of the write, e.g. 'PUT /patients/patient_001/'
+    request: string;
+    // Missing for normal entries
+    priority?: AuditPriority;
+    review?: AuditReview;
+}
+
+export type AuditReviewOutcome = 'appropriate' | 'inappropriate';
+
+export interface AuditReview {
+    by: { id: string; name: string } | null;
+    // ISO 8601
+    at: string;
+    outcome: AuditReviewOutcome;
+    note?: string;
+}
+
+export interface AuditFilters {
+    // Matched against the description, entity, actor and reason
+    search?: string;
+    entityType?: AuditEntityType;
+    action?: AuditAction;
+    // Days as YYYY-MM-DD in the hospital time zone, both inclusive
+    from?: string;
+    to?: string;
+    priority?: AuditPriority;
+    // Only entries nobody reviewed yet
+    unreviewed?: boolean;
+}
+
+const OUTBOX_KEY = 'audit_outbox';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const flatten = (value: unknown, prefix: string, into: Record<string, unknown>) => {
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+        Object.entries(value).forEach(([key, inner]) => flatten(inner, prefix ? `${prefix}.${key}` : key, into));
+    } else if (prefix) {
+        into[prefix] = value;
+    }
+    return into;
+};
+
+/**
+ * Fields that differ between two records, nested objects compared field by field and arrays as a whole
+ */
+export const diffRecords = (before: unknown, after: unknown): AuditChange[] => {
+    const old = flatten(before, '', {});
+    const current = flatten(after, '', {});
+    return [...new Set([...Object.keys(old), ...Object.keys(current)])]
+        .filter(field => JSON.stringify(old[field]) !== JSON.stringify(current[field]))
+        .sort()
+        .map(field => ({ field, before: old[field], after: current[field] }));
+};
+
+let pending: AuditEntry[] = [];
+const listeners = new Set<() => void>();
+
+const readOutbox = (): AuditEntry[] => {
+    try {
+        return JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+};
+
+const writeOutbox = (entries: AuditEntry[]) => {
+    if (entries.length > 0) {
+        localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    } else {
+        localStorage.removeItem(OUTBOX_KEY);
+    }
+    pending = entries;
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Entries the backend has not accepted yet, oldest first
+ */
+export const getPendingAuditEntries = (): AuditEntry[] => pending;
+
+/**
+ * Subscribe to changes of the pending entries. Returns a function that unsubscribes again.
+ */
+export const subscribeToPendingAudit = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const sendOutbox = async () => {
+    const entries = readOutbox();
+    if (entries.length === 0 || !authAPI.isAuthenticated()) return;
+
+    const response = await Api.post(ENDPOINTS.audit.record, { entries }, { retry: false });
+    if (response.error) {
+        console.warn(`🧾 ${entries.length} audit entries not sent yet:`, response.error.message);
+        if (!retryTimer) {
+            retryTimer = setTimeout(() => {
+                retryTimer = null;
+                flushAuditLog();
+            }, AUDIT_RETRY_MS);
+        }
+        return;
+    }
+
+    // Entries recorded while the upload was under way stay for the next one
+    const sent = new Set(entries.map(entry => entry.id));
+    writeOutbox(readOutbox().filter(entry => !sent.has(entry.id)));
+};
+
+/**
+ * Send the pending entries to the backend. Entries it does not accept are kept and sent again later.
+ */
+export const flushAuditLog = (): Promise<void> => {
+    if (!flushing) {
+        flushing = sendOutbox().finally(() => {
+            flushing = null;
+        });
+    }
+    return flushing;
+};
+
+// Ids of created records in the server's answer, e.g. { patient_id } or { roomId }
+const createdId = (data: unknown): string | undefined => {
+    if (!isPlainObject(data)) return undefined;
+    const id = ['id', 'patient_id', 'roomId', 'device_id'].map(key => data[key]).find(value => typeof value === 'string');
+    return id as string | undefined;
+};
+
+const recordAudit = (response: ApiResponse, request: ApiRequest): ApiResponse => {
+    const { audit } = request;
+    // Queued writes are recorded when they are replayed
+    if (!audit || response.error || response.queued) return response;
+
+    const endpoint = endpointFromUrl(request.url) ?? request.url;
+    const entry: AuditEntry = {
+        id: crypto.randomUUID(),
+        at: (audit.madeAt ?? new Date()).toISOString(),
+        actor: authAPI.getSessionUser() ?? null,
+        action: audit.action,
+        entity: { ...audit.entity, id: audit.entity.id ?? createdId(response.data) },
+        description: audit.description,
+        changes: diffRecords(audit.before, audit.after === undefined ? request.body : audit.after),
+        reason: audit.reason?.trim() || undefined,
+        request: `${request.method} ${endpoint}`,
+        priority: audit.priority === 'high' ? 'high' : undefined,
+    };
+
+    console.log(`🧾 Audit: ${entry.description}`);
+    writeOutbox([...readOutbox(), entry]);
+    flushAuditLog();
+    return response;
+};
+
+Api.addResponseInterceptor(recordAudit);
+
+// Entries left from an earlier session are sent with the next sign-in, see AuthContext
+pending = readOutbox();
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+        flushAuditLog();
+    });
+}
+
+/**
+ * Keep only the entries matching `filters`, e.g. the pending ones shown next to the server's
+ */
+export const filterAuditEntries = (entries: AuditEntry[], filters: AuditFilters): AuditEntry[] => {
+    const search = filters.search?.trim().toLowerCase();
+    return entries.filter(entry => {
+        const day = toDateInputValue(entry.at);
+        return (!filters.entityType || entry.entity.type === filters.entityType)
+            && (!filters.action || entry.action === filters.action)
+            && (!filters.from || day >= filters.from)
+            && (!filters.to || day <= filters.to)
+            && (!filters.priority || (entry.priority ?? 'normal') === filters.priority)
+            && (!filters.unreviewed || !entry.review)
+            && (!search || [entry.description, entry.entity.id, entry.entity.name, entry.actor?.name, entry.reason]
+                .some(text => text?.toLowerCase().includes(search)));
+    });
+};
+
+/**
+ * Query parameters of the audit endpoint for `filters`
+ */
+export const auditQueryParams = (filters: AuditFilters): Record<string, string> => {
+    const params: Record<string, string> = {};
+    if (filters.search?.trim()) params.q = filters.search.trim();
+    if (filters.entityType) params.entity_type = filters.entityType;
+    if (filters.action) params.action = filters.action;
+    if (filters.from) params.from = filters.from;
+    if (filters.to) params.to = filters.to;
+    if (filters.priority) params.priority = filters.priority;
+    if (filters.unreviewed) params.reviewed = 'false';
+    return params;
+};
+
+/**
+ * Record the outcome of an admin's review of a high-priority entry
+ */
+export const reviewAuditEntry = (id: string, outcome: AuditReviewOutcome, note?: string): Promise<ApiResponse<AuditEntry>> =>
+    Api.post<AuditEntry>(ENDPOINTS.audit.review(id), { outcome, note: note?.trim() || undefined }, { retry: false });
+
+// Spreadsheets run text starting with these as a formula, e.g. a diagnosis typed as "=HYPERLINK(...)";
+// a leading quote makes them show it as text. Numbers such as -2 are safe and stay as they are.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+    const raw = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    const text = typeof value !== 'number' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per changed field, so spreadsheets can filter by field; entries without field changes
+ * (e.g. assignments) get a single row
+ */
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+    const header = ['Time', 'Actor', 'Action', 'Entity type', 'Entity id', 'Entity name', 'Description', 'Reason', 'Field', 'Before', 'After', 'Request', 'Priority', 'Review'];
+    const rows = entries.flatMap(entry => {
+        const base = [entry.at, entry.actor?.name ?? '', entry.action, entry.entity.type, entry.entity.id ?? '', entry.entity.name ?? '', entry.description, entry.reason ?? ''];
+        const changes: (AuditChange | null)[] = entry.changes.length > 0 ? entry.changes : [null];
+        return changes.map(change => [...base, change?.field ?? '', change?.before, change?.after, entry.request, entry.priority ?? 'normal', entry.review?.outcome ?? '']);
+    });
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Api from './api';
+import { authAPI } from './auth';
+import { ENDPOINTS } from './config';
+import { setupMockBackend } from '../test/mockServer';
+
+const MINUTE = 60 * 1000;
+
+describe('AuthAPI token refresh', () => {
+    const server = setupMockBackend('staff@hospital.com', { accessTokenTtlMs: 5 * MINUTE, sessionTtlMs: 60 * MINUTE });
+
+    // Only the clock moves; the scheduled refresh stays pending, so requests have to recover on their own
+    const advanceClock = (ms: number) => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + ms);
+    };
+
+    const countRefreshes = () => {
+        const calls: string[] = [];
+        Api.setFetch((input, init) => {
+            if (new URL(input.toString()).pathname === ENDPOINTS.auth.refresh) calls.push(String(init?.body));
+            return server.backend.fetch(input, init);
+        });
+        return calls;
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('refreshes an expired access token and repeats the request', async () => {
+        const expiredToken = authAPI.getToken();
+        advanceClock(6 * MINUTE);
+
+        const response = await Api.get(ENDPOINTS.patients.getAll);
+
+        expect(response.status).toBe(200);
+        expect(response.data).toHaveProperty('patient_001');
+        expect(authAPI.getToken()).not.toBe(expiredToken);
+    });
+
+    it('refreshes once for requests failing together', async () => {
+        const refreshes = countRefreshes();
+        advanceClock(6 * MINUTE);
+
+        const responses = await Promise.all([
+            Api.get(ENDPOINTS.patients.getAll),
+            Api.get(ENDPOINTS.staff.getAll),
+            Api.get(ENDPOINTS.rooms.getAll),
+        ]);
+
+        expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+        expect(refreshes).toHaveLength(1);
+    });
+
+    it('rotates the refresh token, so each one works only once', async () => {
+        const refreshes = countRefreshes();
+
+        expect(await authAPI.refresh()).toBe(true);
+        expect(await authAPI.refresh()).toBe(true);
+
+        const [first, second] = refreshes.map(body => JSON.parse(body).refresh_token);
+        expect(first).not.toBe(second);
+        const reused = await Api.post(ENDPOINTS.auth.refresh, { refresh_token: first }, { skipAuth: true });
+        expect(reused.status).toBe(401);
+    });
+
+    it('keeps the end of the session across refreshes', async () => {
+        const sessionEnd = authAPI.getSessionExpiry()!.getTime();
+        advanceClock(20 * MINUTE);
+
+        await authAPI.refresh();
+
+        expect(Math.abs(authAPI.getSessionExpiry()!.getTime() - sessionEnd)).toBeLessThan(2000);
+    });
+
+    it('returns the 401 once the session has ended', async () => {
+        advanceClock(61 * MINUTE);
+
+        const response = await Api.get(ENDPOINTS.patients.getAll);
+
+        expect(response.status).toBe(401);
+        expect(await authAPI.refresh()).toBe(false);
+    });
+});
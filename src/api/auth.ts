@@ -1,8 +1,11 @@
-import { API_BASE_URL, DEFAULT_HEADERS } from './config';
+import Api, { ApiRequest, ApiResponse, endpointFromUrl } from './api';
+import { ENDPOINTS, TOKEN_REFRESH_LEEWAY_MS } from './config';
 
 export interface LoginRequest {
   email: string;
   password: string;
+  // Authenticator or backup code, to sign in without a separate challenge step
+  mfa_code?: string;
 }
 
 export interface SignupRequest {
@@ -10,7 +13,8 @@ export interface SignupRequest {
   password: string;
   first_name: string;
   last_name: string;
-  role: 'admin' | 'doctor' | 'staff';
+  // The role asked for; an admin decides on approval. Admin accounts are only created by invitation.
+  role: 'doctor' | 'staff';
   phone?: string;
   department?: string;
   specialization?: string;
@@ -26,124 +30,447 @@ export interface User {
   department?: string;
   specialization?: string;
   created_at: string;
+  // Whether the account signs in with a second factor
+  mfa_enabled?: boolean;
+  // Missing on backends without account management, which means active
+  status?: AccountStatus;
+  // Backend timestamp of the last sign-in, missing if the account never signed in
+  last_login_at?: string;
+  // Staff record of this account, for schedules and job-role permissions
+  staff_id?: string | null;
+  // Facilities the account works in, the first one by default; missing on single-site backends
+  facility_ids?: string[];
 }
 
-export interface AuthResponse {
+// 'pending' accounts signed up themselves and wait for an admin's approval; 'invited' ones were
+// created by an admin and have not signed in yet
+export type AccountStatus = 'active' | 'pending' | 'invited' | 'deactivated';
+
+export interface AuthTokens {
   access_token: string;
   token_type: string;
+  // Sent by backends that rotate refresh tokens; the access token then expires after expires_in seconds
+  refresh_token?: string;
+  expires_in?: number;
+  // Seconds until the sign-in itself ends and refreshing stops working
+  refresh_expires_in?: number;
+}
+
+export interface AuthResponse extends AuthTokens {
   user: User;
 }
 
+// Sent by login and signup instead of tokens when the password was right but a second factor is
+// needed. `mfa_token` stands for the password step until the code is checked.
+export interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+  // The account has no second factor yet but its role must have one: enroll first
+  enrollment_required?: boolean;
+}
+
+export interface MfaEnrollment {
+  // Base32, for typing into the authenticator app by hand
+  secret: string;
+  // otpauth:// URI, shown as a QR code
+  otpauth_uri: string;
+}
+
+// Backup codes work once each, in place of an authenticator code. Enrollment during sign-in
+// also returns the session.
+export interface MfaConfirmation extends Partial<AuthResponse> {
+  backup_codes: string[];
+}
+
+export interface MfaPolicy {
+  // Roles whose accounts have to use a second factor
+  required_roles: Array<'admin' | 'doctor' | 'staff'>;
+}
+
+// Sent by signup instead of a session: the account exists but cannot sign in before an admin approved it
+export interface SignupPending {
+  approval_required: true;
+  user: User;
+}
+
+export const isMfaChallenge = (response: AuthResponse | MfaChallenge | SignupPending): response is MfaChallenge =>
+  'mfa_required' in response && response.mfa_required;
+
+export const isSignupPending = (response: AuthResponse | MfaChallenge | SignupPending): response is SignupPending =>
+  'approval_required' in response && response.approval_required;
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds
+  accessExpiresAt?: number;
+  sessionEndsAt?: number;
+  // Who signed in, so work done with the session can be attributed without another request
+  user?: { id: string; name: string };
+}
+
+const SESSION_KEY = 'auth_session';
+// Where earlier versions kept a bare access token
+const LEGACY_TOKEN_KEY = 'auth_token';
+
+// setTimeout fires immediately for delays beyond 2^31 - 1 ms
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Unreadable, treated as signed out
+  }
+  const legacyToken = localStorage.getItem(LEGACY_TOKEN_KEY);
+  return legacyToken ? { accessToken: legacyToken } : null;
+};
+
+const sessionFromTokens = (tokens: AuthTokens, user: AuthSession['user'], now = Date.now()): AuthSession => ({
+  accessToken: tokens.access_token,
+  refreshToken: tokens.refresh_token,
+  accessExpiresAt: tokens.expires_in ? now + tokens.expires_in * 1000 : undefined,
+  sessionEndsAt: tokens.refresh_expires_in ? now + tokens.refresh_expires_in * 1000 : undefined,
+  user,
+});
+
+const sessionUser = (user: User): AuthSession['user'] => ({ id: user.id, name: `${user.first_name} ${user.last_name}` });
+
 class AuthAPI {
-  private token: string | null = null;
+  private session: AuthSession | null;
+  private refreshing: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
 
   constructor() {
-    // Load token from localStorage on initialization
-    this.token = localStorage.getItem('auth_token');
+    this.session = readStoredSession();
+    this.scheduleRefresh();
+
+    // Another tab signed in, out or rotated the tokens
+    window.addEventListener('storage', (event) => {
+      if (event.key !== SESSION_KEY) return;
+      this.session = readStoredSession();
+      this.scheduleRefresh();
+      this.notify();
+    });
   }
 
-  private getHeaders() {
-    const headers: Record<string, string> = { ...DEFAULT_HEADERS };
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+  private setSession(session: AuthSession | null) {
+    this.session = session;
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_KEY);
     }
-    return headers;
+    this.scheduleRefresh();
+    this.notify();
   }
 
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: DEFAULT_HEADERS,
-        body: JSON.stringify(credentials),
-      });
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Login failed');
-      }
+  // Refreshes silently shortly before the access token expires
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    const { refreshToken, accessExpiresAt } = this.session ?? {};
+    if (!refreshToken || !accessExpiresAt) return;
+    const delay = Math.min(MAX_TIMER_DELAY_MS, Math.max(0, accessExpiresAt - Date.now() - TOKEN_REFRESH_LEEWAY_MS));
+    this.refreshTimer = setTimeout(() => this.refresh(), delay);
+  }
+
+  private bearer(): string | undefined {
+    return this.session ? `Bearer ${this.session.accessToken}` : undefined;
+  }
 
-      const data: AuthResponse = await response.json();
-      this.token = data.access_token;
-      localStorage.setItem('auth_token', this.token);
-      return data;
-    } catch (error) {
-      console.error('Login error:', error);
-      throw error;
+  /**
+   * Request interceptor that attaches the bearer token to every API call.
+   */
+  authorize = (request: ApiRequest): ApiRequest => {
+    const bearer = this.bearer();
+    if (!bearer || request.skipAuth || request.headers['Authorization']) {
+      return request;
+    }
+    return {
+      ...request,
+      headers: { ...request.headers, Authorization: bearer },
+    };
+  };
+
+  /**
+   * Response interceptor that answers a 401 by refreshing the access token and sending the
+   * request once more. Whatever the retry returns goes back to the caller.
+   */
+  recoverUnauthorized = async (response: ApiResponse, request: ApiRequest): Promise<ApiResponse> => {
+    if (response.status !== 401 || request.skipAuth || !this.session) {
+      return response;
+    }
+    // A request sent with a token that has been replaced since only needs the new one
+    const renewed = request.headers['Authorization'] !== this.bearer() || await this.refresh();
+    const bearer = this.bearer();
+    const endpoint = endpointFromUrl(request.url);
+    if (!renewed || !bearer || endpoint === null) {
+      return response;
     }
+    // skipAuth keeps a second 401 from refreshing again; the caller's 401 handling still sees it.
+    // The original request records its audit entry and queues offline, so the replay must not as well.
+    return Api.request(request.method, endpoint, request.body, {
+      ...request,
+      audit: undefined,
+      queueOffline: undefined,
+      skipAuth: true,
+      headers: { ...request.headers, Authorization: bearer },
+    });
+  };
+
+  /**
+   * Exchange the refresh token for new tokens. Concurrent calls share one request.
+   * Resolves false when there is no refresh token or the backend refused it.
+   */
+  refresh(): Promise<boolean> {
+    this.refreshing ??= this.rotateTokens().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
   }
 
-  async signup(userData: SignupRequest): Promise<AuthResponse> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/auth/signup`, {
-        method: 'POST',
-        headers: DEFAULT_HEADERS,
-        body: JSON.stringify(userData),
-      });
+  private async rotateTokens(): Promise<boolean> {
+    const refreshToken = this.session?.refreshToken;
+    if (!refreshToken) return false;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Signup failed');
-      }
+    const response = await Api.post<AuthTokens>(
+      ENDPOINTS.auth.refresh,
+      { refresh_token: refreshToken },
+      { skipAuth: true }
+    );
+    if (response.data && !response.error) {
+      this.setSession(sessionFromTokens(response.data, this.session?.user));
+      return true;
+    }
+
+    // Another tab may have rotated the token first and stored the new one
+    const stored = readStoredSession();
+    if (stored?.refreshToken && stored.refreshToken !== refreshToken) {
+      this.session = stored;
+      this.scheduleRefresh();
+      this.notify();
+      return true;
+    }
+    console.error('Token refresh error:', response.error);
+    return false;
+  }
+
+  /**
+   * Sign in with email and password. Accounts with a second factor get an MfaChallenge instead
+   * of a session, answered with verifyMfa (or enrollMfa and confirmMfa when enrollment_required).
+   */
+  async login(credentials: LoginRequest): Promise<AuthResponse | MfaChallenge> {
+    const response = await Api.post<AuthResponse | MfaChallenge>(ENDPOINTS.auth.login, credentials, { skipAuth: true });
+
+    if (response.error || !response.data) {
+      console.error('Login error:', response.error);
+      throw new Error(response.error?.message || 'Login failed');
+    }
+
+    if (!isMfaChallenge(response.data)) {
+      this.setSession(sessionFromTokens(response.data, sessionUser(response.data.user)));
+    }
+    return response.data;
+  }
+
+  /**
+   * Register a new account. Backends with account management answer with SignupPending until an
+   * admin approved it; others sign in right away like login.
+   */
+  async signup(userData: SignupRequest): Promise<AuthResponse | MfaChallenge | SignupPending> {
+    const response = await Api.post<AuthResponse | MfaChallenge | SignupPending>(ENDPOINTS.auth.signup, userData, { skipAuth: true });
+
+    if (response.error || !response.data) {
+      console.error('Signup error:', response.error);
+      throw new Error(response.error?.message || 'Signup failed');
+    }
+
+    if (!isMfaChallenge(response.data) && !isSignupPending(response.data)) {
+      this.setSession(sessionFromTokens(response.data, sessionUser(response.data.user)));
+    }
+    return response.data;
+  }
+
+  /**
+   * Finish a sign-in with the code from the authenticator app or a backup code
+   */
+  async verifyMfa(mfaToken: string, code: string): Promise<AuthResponse> {
+    const response = await Api.post<AuthResponse>(
+      ENDPOINTS.auth.mfa.verify,
+      { mfa_token: mfaToken, code: code.trim() },
+      { skipAuth: true, retry: false }
+    );
+
+    if (response.error || !response.data) {
+      throw new Error(response.error?.message || 'Verification failed');
+    }
+
+    this.setSession(sessionFromTokens(response.data, sessionUser(response.data.user)));
+    return response.data;
+  }
+
+  /**
+   * Start adding an authenticator app: for the signed-in user, or during sign-in with the
+   * challenge's token. Nothing changes until confirmMfa checked the first code.
+   */
+  async enrollMfa(mfaToken?: string): Promise<MfaEnrollment> {
+    const response = await Api.post<MfaEnrollment>(
+      ENDPOINTS.auth.mfa.enroll,
+      mfaToken ? { mfa_token: mfaToken } : {},
+      { skipAuth: !!mfaToken, retry: false }
+    );
+
+    if (response.error || !response.data) {
+      throw new Error(response.error?.message || 'Could not start two-factor setup');
+    }
+    return response.data;
+  }
+
+  /**
+   * Turn the second factor on with a first code from the app. During sign-in this also signs in.
+   */
+  async confirmMfa(code: string, mfaToken?: string): Promise<MfaConfirmation> {
+    const response = await Api.post<MfaConfirmation>(
+      ENDPOINTS.auth.mfa.confirm,
+      { code: code.trim(), ...(mfaToken ? { mfa_token: mfaToken } : {}) },
+      { skipAuth: !!mfaToken, retry: false }
+    );
+
+    if (response.error || !response.data) {
+      throw new Error(response.error?.message || 'Verification failed');
+    }
+
+    const { access_token, user } = response.data;
+    if (access_token && user) {
+      this.setSession(sessionFromTokens(response.data as AuthTokens, sessionUser(user)));
+    }
+    return response.data;
+  }
 
-      const data: AuthResponse = await response.json();
-      this.token = data.access_token;
-      localStorage.setItem('auth_token', this.token);
-      return data;
-    } catch (error) {
-      console.error('Signup error:', error);
-      throw error;
+  /**
+   * Turn the signed-in user's second factor off; needs a current code
+   */
+  async disableMfa(code: string): Promise<void> {
+    const response = await Api.post(ENDPOINTS.auth.mfa.disable, { code: code.trim() }, { retry: false });
+    if (response.error) {
+      throw new Error(response.error.message || 'Could not turn two-factor authentication off');
     }
   }
 
+  async getMfaPolicy(): Promise<MfaPolicy> {
+    const response = await Api.get<MfaPolicy>(ENDPOINTS.auth.mfa.policy);
+    if (response.error || !response.data) {
+      throw new Error(response.error?.message || 'Could not load the two-factor policy');
+    }
+    return response.data;
+  }
+
+  /**
+   * Which roles have to use a second factor. Accounts without one enroll at their next sign-in.
+   */
+  async updateMfaPolicy(policy: MfaPolicy): Promise<MfaPolicy> {
+    const response = await Api.put<MfaPolicy>(ENDPOINTS.auth.mfa.policy, policy);
+    if (response.error || !response.data) {
+      throw new Error(response.error?.message || 'Could not save the two-factor policy');
+    }
+    return response.data;
+  }
+
   async getCurrentUser(): Promise<User> {
-    try {
-      if (!this.token) {
-        throw new Error('No authentication token');
-      }
+    if (!this.session) {
+      throw new Error('No authentication token');
+    }
 
-      const response = await fetch(`${API_BASE_URL}/auth/me`, {
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
+    const response = await Api.get<User>(ENDPOINTS.auth.me);
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          this.logout(); // Clear invalid token
-        }
-        throw new Error('Failed to get user info');
+    if (response.error || !response.data) {
+      console.error('Get current user error:', response.error);
+      if (response.status === 401) {
+        this.setSession(null); // Clear invalid token
       }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Get current user error:', error);
-      throw error;
+      throw new Error('Failed to get user info');
     }
+
+    return response.data;
   }
 
   async logout(): Promise<void> {
-    try {
-      if (this.token) {
-        await fetch(`${API_BASE_URL}/auth/logout`, {
-          method: 'POST',
-          headers: this.getHeaders(),
-        });
+    const token = this.session?.accessToken;
+    this.setSession(null);
+
+    if (token) {
+      // Send the token explicitly: a 401 here must not trigger another session logout
+      const response = await Api.post(ENDPOINTS.auth.logout, undefined, {
+        skipAuth: true,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (response.error) {
+        console.error('Logout error:', response.error);
       }
-    } catch (error) {
-      console.error('Logout error:', error);
-    } finally {
-      this.token = null;
-      localStorage.removeItem('auth_token');
     }
   }
 
+  /**
+   * Stop using the current session without ending it on the server, so it can be
+   * restored later, e.g. when another user takes over the terminal
+   */
+  detachSession(): AuthSession | null {
+    const session = this.session;
+    this.setSession(null);
+    return session;
+  }
+
+  restoreSession(session: AuthSession) {
+    this.setSession(session);
+  }
+
+  /**
+   * The user the current session belongs to
+   */
+  getSessionUser(): AuthSession['user'] | null {
+    return this.session?.user ?? null;
+  }
+
   isAuthenticated(): boolean {
-    return !!this.token;
+    return !!this.session;
   }
 
   getToken(): string | null {
-    return this.token;
+    return this.session?.accessToken ?? null;
+  }
+
+  /**
+   * When the user has to sign in again: the end of the session, or of the access token when it
+   * cannot be refreshed. Null when the backend did not say.
+   */
+  getSessionExpiry(): Date | null {
+    const { refreshToken, accessExpiresAt, sessionEndsAt } = this.session ?? {};
+    const expiresAt = sessionEndsAt ?? (refreshToken ? undefined : accessExpiresAt);
+    return expiresAt ? new Date(expiresAt) : null;
   }
+
+  /**
+   * Subscribe to sign-in, sign-out and token refreshes. Returns a function that unsubscribes again.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
 }
 
 export const authAPI = new AuthAPI();
+
+// Every request made through the shared client carries the current token
+Api.addRequestInterceptor(authAPI.authorize);
+Api.addResponseInterceptor(authAPI.recoverUnauthorized);
@@ -2,6 +2,15 @@
 const baseUrl = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000';
 export const API_BASE_URL = baseUrl.trim(); // Remove any trailing/leading spaces
 
+// IANA time zone the backend writes its timestamps in (they carry no offset).
+// Defaults to the browser's zone, which matches a workstation inside the hospital.
+export const HOSPITAL_TIME_ZONE: string =
+    import.meta.env.VITE_HOSPITAL_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Answer every API call from the in-memory mock backend in src/api/mock instead of the FastAPI
+// service, for demos and automated tests. Sign in with a fixture account, e.g. doctor@hospital.com.
+export const MOCK_API = import.meta.env.VITE_MOCK_API === 'true';
+
 // Validate API configuration
 export const validateApiConfig = () => {
     if (!API_BASE_URL) {
@@ -20,6 +29,7 @@ export const validateApiConfig = () => {
 
 // Check if API server is reachable
 export const checkApiHealth = async (): Promise<boolean> => {
+    if (MOCK_API) return true;
     try {
         // Use /docs endpoint since it's available and reliable
         const response = await fetch(`${API_BASE_URL}/docs`, { 
@@ -58,9 +68,57 @@ export const DEFAULT_HEADERS = {
     'Content-Type': 'application/json',
 };
 
+// Names the facility (hospital site) a request is about; see api/facility.ts
+export const FACILITY_HEADER = 'X-Facility-Id';
+
 // Timeout duration for API requests (in milliseconds)
 export const REQUEST_TIMEOUT = 30000;
 
+// Retry policy for idempotent requests (GET/PUT/DELETE) on flaky ward networks
+export const DEFAULT_RETRY_POLICY = {
+    maxAttempts: 3,            // total attempts, including the first one
+    baseDelayMs: 300,          // delay before the first retry, doubled each attempt
+    maxDelayMs: 5000,          // upper bound for a single backoff delay
+    retryOnStatus: [408, 429, 502, 503, 504],
+    retryOnNetworkError: true,
+};
+
+// Access tokens are refreshed this long before they expire
+export const TOKEN_REFRESH_LEEWAY_MS = 60000;
+// The session expiry warning opens this long before the session ends
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+// Shared terminals lock after this many minutes without input; 0 turns the idle lock off
+export const IDLE_LOCK_MINUTES = Number(import.meta.env.VITE_IDLE_LOCK_MINUTES || 10);
+
+// Audit entries the backend has not accepted yet are sent again this often
+export const AUDIT_RETRY_MS = 30000;
+// Emergency ("break-the-glass") access to patients outside one's own assignments lasts this many minutes
+export const EMERGENCY_ACCESS_MINUTES = Number(import.meta.env.VITE_EMERGENCY_ACCESS_MINUTES || 30);
+
+// How long a cached GET response counts as fresh before the next query refetches it
+export const QUERY_STALE_TIME = 15000;
+
+// Push channel for vitals and alerts (see liveChannel.ts). 'auto' tries a WebSocket first and
+// Server-Sent Events second; 'off' keeps the polling hooks. Off unless the backend serves it.
+export type LiveTransport = 'auto' | 'websocket' | 'sse' | 'off';
+export const LIVE_TRANSPORT: LiveTransport = (import.meta.env.VITE_LIVE_TRANSPORT as LiveTransport) || 'off';
+// Server for the channel: `${LIVE_URL}/live/ws` and `${LIVE_URL}/live/stream`
+export const LIVE_URL: string = (import.meta.env.VITE_LIVE_URL || API_BASE_URL).trim();
+// Client ping interval; the connection counts as dead after three intervals without traffic
+export const LIVE_HEARTBEAT_MS = 15000;
+
+// Resources to refetch after a successful write, keyed by the first path segment of the write.
+// Assignments touch several resources, e.g. assigning a monitor changes the device and the patient.
+export const MUTATION_INVALIDATES: Record<string, string[]> = {
+    patients: ['patients', 'rooms', 'beds', 'iotData'],
+    iotData: ['iotData', 'patients', 'rooms'],
+    rooms: ['rooms', 'beds', 'patients', 'iotData'],
+    beds: ['beds', 'rooms', 'patients'],
+    staff: ['staff'],
+    // Snoozing alerts marks the alerts of the devices it covers
+    alerts: ['alerts', 'iotData'],
+};
+
 // API endpoints
 export const ENDPOINTS = {
     // Authentication endpoints
@@ -68,8 +126,39 @@ export const ENDPOINTS = {
         login: '/auth/login',
         signup: '/auth/signup',
         logout: '/auth/logout',
+        refresh: '/auth/refresh',
         me: '/auth/me',
-        users: '/auth/users'
+        users: '/auth/users',
+        // Account management for admins
+        user: (id: string) => `/auth/users/${id}`,
+        inviteUser: '/auth/users/invite',
+        resetPassword: (id: string) => `/auth/users/${id}/reset-password`,
+        // Second factor (TOTP authenticator apps and backup codes)
+        mfa: {
+            verify: '/auth/mfa/verify',
+            enroll: '/auth/mfa/enroll',
+            confirm: '/auth/mfa/enroll/confirm',
+            disable: '/auth/mfa/disable',
+            policy: '/auth/mfa/policy',
+        },
+    },
+
+    // Settings admins make for everyone
+    settings: {
+        privacy: '/settings/privacy',
+        // Acknowledgement deadlines of alerts per severity and ward. The backend escalates by them on
+        // its own clock; without that, deadlines only show as overdue (see components/ui/AlertEscalation)
+        escalation: '/settings/escalation',
+        // Vital sign thresholds per ward and patient; doctors change them
+        vitalThresholds: '/settings/vital-thresholds',
+        wardThresholds: (ward: string) => `/settings/vital-thresholds/wards/${encodeURIComponent(ward)}`,
+        patientThresholds: (patientId: string) => `/settings/vital-thresholds/patients/${patientId}`,
+    },
+
+    // Hospital sites of the group; every other endpoint answers for the one in FACILITY_HEADER
+    facilities: {
+        getAll: '/facilities',
+        summary: '/facilities/summary',
     },
 
     // Patient endpoints
@@ -92,7 +181,50 @@ export const ENDPOINTS = {
         getAll: '/iotData/',
         getById: (id: string) => `/iotData/${id}/`,
         vitals: (deviceId: string) => `/iotData/${deviceId}/vitals/`,
+        latestVitals: (deviceId: string) => `/iotData/${deviceId}/vitals/latest`,
+        envSensorLatestVitals: (sensorId: string) => `/iotData/env-sensors/${sensorId}/vitals/latest`,
+        deviceInfo: (deviceId: string) => `/iotData/${deviceId}/deviceInfo`,
         alerts: (deviceId: string) => `/iotData/${deviceId}/alerts/`,
+        latestAlerts: (deviceId: string) => `/iotData/${deviceId}/alerts/latest`,
+        resolveAlert: (deviceId: string, alertId: string) =>
+            `/iotData/${deviceId}/alerts/${encodeURIComponent(alertId)}/resolve`,
+        acknowledgeAlert: (deviceId: string, alertId: string) =>
+            `/iotData/${deviceId}/alerts/${encodeURIComponent(alertId)}/acknowledge`,
+        assignPatient: (deviceId: string) => `/iotData/${deviceId}/assign-patient`,
+        unassignPatient: (deviceId: string) => `/iotData/${deviceId}/unassign-patient`,
+        availablePatients: (deviceId: string) => `/iotData/${deviceId}/available-patients`,
+    },
+
+    // Room endpoints
+    rooms: {
+        base: '/rooms',
+        getAll: '/rooms',
+        getById: (id: string) => `/rooms/${id}`,
+        create: '/rooms',
+        update: (id: string) => `/rooms/${id}`,
+        delete: (id: string) => `/rooms/${id}`,
+        assignPatient: (roomId: string, patientId: string) => `/rooms/${roomId}/assign-patient/${patientId}`,
+        assignDevice: (roomId: string, deviceId: string) => `/rooms/${roomId}/assign-device/${deviceId}`,
+        unassignPatient: (patientId: string) => `/rooms/unassign-patient/${patientId}`,
+        unassignDevice: (deviceId: string) => `/rooms/unassign-device/${deviceId}`,
+        occupancyStats: '/rooms/stats/occupancy',
+    },
+
+    // Bed endpoints
+    beds: {
+        base: '/beds/',
+        getAll: '/beds/',
+        byRoom: (roomId: string) => `/beds/room/${roomId}`,
+        availableInRoom: (roomId: string) => `/beds/room/${roomId}/available`,
+        assignPatient: (bedId: string, patientId: string) => `/beds/${bedId}/assign-patient/${patientId}`,
+        dischargePatient: (bedId: string, patientId: string) => `/beds/${bedId}/discharge-patient/${patientId}`,
+        forPatient: (patientId: string) => `/beds/patient/${patientId}`,
+        occupancyStats: '/beds/stats/occupancy',
+    },
+
+    // Risk prediction endpoints (ML model)
+    predict: {
+        risk: (patientId: string) => `/predict/risk/${patientId}`,
     },
 
     // Staff endpoints
@@ -133,5 +265,30 @@ export const ENDPOINTS = {
         getById: (id: string) => `/alerts/${id}/`,
         forPatient: (patientId: string) => `/alerts/patient/${patientId}/`,
         forDevice: (deviceId: string) => `/alerts/device/${deviceId}/`,
+        // Rules snoozing the alerts of a patient or device
+        suppressions: '/alerts/suppressions',
+        suppression: (id: string) => `/alerts/suppressions/${id}`,
+    },
+
+    // Audit trail of changes made through the dashboard
+    audit: {
+        base: '/audit/',
+        getAll: '/audit/',
+        record: '/audit/',
+        review: (id: string) => `/audit/${id}/review/`,
     },
-} as const; 
\ No newline at end of file
+
+    // Time-limited access to patient records outside one's own assignments
+    emergencyAccess: {
+        request: '/access/emergency/',
+        end: (id: string) => `/access/emergency/${id}/end/`,
+    },
+} as const; 
+
+// Reads whose last response is kept in IndexedDB and served read-only while the backend is unreachable
+export const OFFLINE_SNAPSHOT_ENDPOINTS: string[] = [
+    ENDPOINTS.patients.getAll,
+    ENDPOINTS.staff.getAll,
+    ENDPOINTS.iot.getAll,
+    ENDPOINTS.rooms.getAll,
+];
@@ -0,0 +1,60 @@
+// Malformed backend payloads seen by the validation layer, shown in the admin diagnostics view
+
+export type PayloadEntity = 'patient' | 'staff' | 'device' | 'vitals' | 'alert' | 'room' | 'bed';
+
+export interface PayloadIssue {
+    key: string;
+    endpoint: string;
+    entity: PayloadEntity;
+    recordId?: string;
+    // 'repaired' records were kept with defaults filled in, 'dropped' ones never reached the UI
+    action: 'repaired' | 'dropped';
+    problems: string[];
+    count: number;
+    firstSeen: Date;
+    lastSeen: Date;
+}
+
+export type PayloadIssueReport = Pick<PayloadIssue, 'endpoint' | 'entity' | 'recordId' | 'action' | 'problems'>;
+
+// Polling re-reports the same broken record every few seconds, so identical reports are merged
+const MAX_ISSUES = 200;
+
+let issues: PayloadIssue[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const reportPayloadIssue = (report: PayloadIssueReport) => {
+    const key = [report.endpoint, report.entity, report.recordId ?? '', report.action, ...report.problems].join('|');
+    const now = new Date();
+    const existing = issues.find(issue => issue.key === key);
+
+    if (existing) {
+        issues = [
+            { ...existing, count: existing.count + 1, lastSeen: now },
+            ...issues.filter(issue => issue !== existing),
+        ];
+    } else {
+        console.warn(`🩺 Malformed ${report.entity}${report.recordId ? ` "${report.recordId}"` : ''} from ${report.endpoint} (${report.action}):`, report.problems);
+        issues = [{ ...report, key, count: 1, firstSeen: now, lastSeen: now }, ...issues].slice(0, MAX_ISSUES);
+    }
+    notify();
+};
+
+export const getPayloadIssues = (): PayloadIssue[] => issues;
+
+export const clearPayloadIssues = () => {
+    issues = [];
+    notify();
+};
+
+/**
+ * Subscribe to issue changes. Returns a function that unsubscribes again.
+ */
+export const subscribeToPayloadIssues = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
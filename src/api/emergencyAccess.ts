@@ -0,0 +1,137 @@
+import Api, { ApiResponse } from './api';
+import { authAPI } from './auth';
+import { EMERGENCY_ACCESS_MINUTES, ENDPOINTS } from './config';
+
+// Emergency ("break-the-glass") access. Clinicians normally see only the patients on their own
+// schedule; in an emergency they can open every record for a limited time after stating why. The
+// grant is recorded as a high-priority audit entry that admins review, and a banner stays up while
+// it lasts. The grant belongs to the user who asked for it and is kept across reloads until it ends.
+
+export interface EmergencyAccessGrant {
+    id: string;
+    userId: string;
+    justification: string;
+    // ISO 8601
+    grantedAt: string;
+    expiresAt: string;
+}
+
+interface GrantResponse {
+    grant_id: string;
+    granted_at: string;
+    expires_at: string;
+}
+
+const STORAGE_KEY = 'emergency_access';
+
+const listeners = new Set<() => void>();
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const readGrant = (): EmergencyAccessGrant | null => {
+    try {
+        const stored: EmergencyAccessGrant | null = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return stored && Date.parse(stored.expiresAt) > Date.now() ? stored : null;
+    } catch {
+        return null;
+    }
+};
+
+let grant: EmergencyAccessGrant | null = null;
+
+const setGrant = (next: EmergencyAccessGrant | null) => {
+    if (expiryTimer) {
+        clearTimeout(expiryTimer);
+        expiryTimer = null;
+    }
+    if (next) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        expiryTimer = setTimeout(() => {
+            console.log('🚨 Emergency access expired');
+            setGrant(null);
+        }, Date.parse(next.expiresAt) - Date.now());
+    } else {
+        localStorage.removeItem(STORAGE_KEY);
+    }
+    grant = next;
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * The signed-in user's emergency access while it lasts, otherwise null
+ */
+export const getEmergencyAccess = (): EmergencyAccessGrant | null =>
+    grant && grant.userId === authAPI.getSessionUser()?.id ? grant : null;
+
+/**
+ * Subscribe to grants starting and ending. Returns a function that unsubscribes again.
+ */
+export const subscribeToEmergencyAccess = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Open every patient record for `minutes`. The justification is required and goes into the
+ * audit entry admins review.
+ */
+export const requestEmergencyAccess = async (
+    justification: string,
+    minutes: number = EMERGENCY_ACCESS_MINUTES
+): Promise<ApiResponse<GrantResponse>> => {
+    const user = authAPI.getSessionUser();
+    const reason = justification.trim();
+    if (!user || !reason) {
+        throw new Error('A justification is required for emergency access');
+    }
+
+    const response = await Api.post<GrantResponse>(ENDPOINTS.emergencyAccess.request, { justification: reason, minutes }, {
+        retry: false,
+        audit: {
+            action: 'emergency_access',
+            priority: 'high',
+            entity: { type: 'patient', name: 'All patient records' },
+            description: `Emergency access to all patient records for ${minutes} minutes`,
+            after: { minutes },
+            reason,
+        },
+    });
+
+    if (response.data) {
+        setGrant({
+            id: response.data.grant_id,
+            userId: user.id,
+            justification: reason,
+            grantedAt: response.data.granted_at,
+            expiresAt: response.data.expires_at,
+        });
+    }
+    return response;
+};
+
+/**
+ * End the signed-in user's emergency access before it expires
+ */
+export const endEmergencyAccess = async (): Promise<void> => {
+    const current = getEmergencyAccess();
+    if (!current) return;
+    setGrant(null);
+    // The backend lets the grant expire on its own if this does not get through
+    await Api.post(ENDPOINTS.emergencyAccess.end(current.id), undefined, { retry: false });
+};
+
+/**
+ * Forget the grant without telling the backend, e.g. on logout
+ */
+export const clearEmergencyAccess = () => {
+    if (grant) setGrant(null);
+};
+
+// A grant from before a reload keeps running until it expires
+const stored = readGrant();
+if (stored) {
+    setGrant(stored);
+} else {
+    localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,120 @@
+// Typed API errors shared by the HTTP client, hooks and screens
+
+export type FieldErrors = Record<string, string[]>;
+
+export type ApiError =
+    | { kind: 'NetworkError'; message: string; status: 0 }
+    | { kind: 'Timeout'; message: string; status: 408 }
+    | { kind: 'Unauthorized'; message: string; status: 401 }
+    | { kind: 'Forbidden'; message: string; status: 403 }
+    | { kind: 'NotFound'; message: string; status: 404 }
+    | { kind: 'Validation'; message: string; status: 400 | 422; fieldErrors: FieldErrors }
+    | { kind: 'Conflict'; message: string; status: 409 }
+    | { kind: 'Server'; message: string; status: number };
+
+export type ApiErrorKind = ApiError['kind'];
+
+/**
+ * Result returned by hook mutations: either the data or a typed error, never both.
+ */
+export type ApiResult<T = void> =
+    | { success: true; data: T }
+    | { success: false; error: ApiError };
+
+export const networkError = (message = 'Unable to reach the server'): ApiError => ({
+    kind: 'NetworkError',
+    message,
+    status: 0,
+});
+
+export const timeoutError = (message = 'Request timed out - server may be unavailable'): ApiError => ({
+    kind: 'Timeout',
+    message,
+    status: 408,
+});
+
+// Also used for actions the client itself refuses, see utils/permissions.ts
+export const forbiddenError = (message = 'Permission denied'): ApiError => ({
+    kind: 'Forbidden',
+    message,
+    status: 403,
+});
+
+/**
+ * Map an HTTP error status (and optional FastAPI field map) to its error kind.
+ */
+export const httpError = (status: number, message: string, fieldErrors?: FieldErrors): ApiError => {
+    switch (status) {
+        case 0:
+            return networkError(message);
+        case 400:
+        case 422:
+            return { kind: 'Validation', message, status, fieldErrors: fieldErrors || {} };
+        case 401:
+            return { kind: 'Unauthorized', message, status };
+        case 403:
+            return { kind: 'Forbidden', message, status };
+        case 404:
+            return { kind: 'NotFound', message, status };
+        case 408:
+            return timeoutError(message);
+        case 409:
+            return { kind: 'Conflict', message, status };
+        default:
+            return { kind: 'Server', message, status };
+    }
+};
+
+/**
+ * Build a FastAPI-style field map from a 422 `detail` payload.
+ * `loc` is joined without its leading `body`/`query` segment, e.g. `personalInfo.name`.
+ */
+export const parseValidationDetail = (detail: unknown): FieldErrors => {
+    if (!Array.isArray(detail)) {
+        return { general: [String(detail)] };
+    }
+    return detail.reduce<FieldErrors>((acc, curr: { loc?: Array<string | number>; msg?: string }) => {
+        const loc = (curr.loc || []).filter((part, index) =>
+            !(index === 0 && ['body', 'query', 'path'].includes(String(part)))
+        );
+        const field = loc.length > 0 ? loc.join('.') : 'general';
+        if (!acc[field]) acc[field] = [];
+        acc[field].push(curr.msg || 'Invalid value');
+        return acc;
+    }, {});
+};
+
+/**
+ * Field errors for a form, or an empty map for non-validation errors.
+ */
+export const getFieldErrors = (error: ApiError | null | undefined): FieldErrors =>
+    error?.kind === 'Validation' ? error.fieldErrors : {};
+
+export const isOfflineError = (error: ApiError | null | undefined): boolean =>
+    error?.kind === 'NetworkError' || error?.kind === 'Timeout';
+
+/**
+ * Short, user-facing description of an error for banners and inline messages.
+ */
+export const describeApiError = (error: ApiError): string => {
+    switch (error.kind) {
+        case 'NetworkError':
+            return 'Cannot reach the hospital server. Check the network connection.';
+        case 'Timeout':
+            return 'The server took too long to respond. Please try again.';
+        case 'Unauthorized':
+            return 'Your session has expired. Please sign in again.';
+        case 'Forbidden':
+            return 'You do not have permission to perform this action.';
+        case 'NotFound':
+            return error.message || 'The requested record was not found.';
+        case 'Validation':
+            return Object.keys(error.fieldErrors).length > 0
+                ? 'Please fix the highlighted fields.'
+                : error.message;
+        case 'Conflict':
+            return error.message || 'This record was changed by someone else. Reload and try again.';
+        case 'Server':
+            return error.message || 'The server encountered an error.';
+    }
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import Api from './api';
+import { authAPI } from './auth';
+import { flushAuditLog } from './audit';
+import { ENDPOINTS } from './config';
+import {
+    DEFAULT_ESCALATION_POLICY,
+    EscalationPolicy,
+    acknowledgeAlert,
+    escalationStatus,
+    updateEscalationPolicy,
+} from './escalation';
+import { MOCK_PASSWORD } from './mock/fixtures';
+import { fetchAlert, minutesAfter, raiseAlert, setupMockBackend } from '../test/mockServer';
+
+// Monitor of Patricia Davis on the general ward
+const GENERAL_MONITOR = 'vitals_monitor_004';
+const ALERT_ID = 'escalation-test';
+
+describe('Alert escalation', () => {
+    const server = setupMockBackend('staff@hospital.com');
+
+    it('stops once the alert was acknowledged', async () => {
+        raiseAlert(server.backend, GENERAL_MONITOR, ALERT_ID);
+        server.backend.escalateAlerts(minutesAfter(6));
+
+        const result = await acknowledgeAlert(GENERAL_MONITOR, ALERT_ID, 'Emma Wilson', 'SpO2 86%');
+        expect(result.success).toBe(true);
+        server.backend.escalateAlerts(minutesAfter(30));
+
+        const alert = await fetchAlert(GENERAL_MONITOR, ALERT_ID);
+        expect(alert).toEqual(expect.objectContaining({ acknowledged: true, acknowledgedBy: 'Emma Wilson' }));
+        expect(alert.escalationHistory).toHaveLength(1);
+        expect(escalationStatus(alert)).toEqual(expect.objectContaining({ state: 'acknowledged', level: 1, dueAt: null }));
+        expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+            action: 'acknowledge',
+            entity: expect.objectContaining({ type: 'alert', id: `${GENERAL_MONITOR}_${ALERT_ID}` }),
+        }));
+    });
+
+    it('refuses to acknowledge a resolved alert', async () => {
+        raiseAlert(server.backend, GENERAL_MONITOR, ALERT_ID);
+        await Api.post(ENDPOINTS.iot.resolveAlert(GENERAL_MONITOR, ALERT_ID), {});
+
+        const response = await Api.post(ENDPOINTS.iot.acknowledgeAlert(GENERAL_MONITOR, ALERT_ID), {});
+        expect(response.error?.status).toBe(409);
+    });
+
+    it('lets only admins change the policy, with an audit entry', async () => {
+        const policy: EscalationPolicy = {
+            ...DEFAULT_ESCALATION_POLICY,
+            wards: { General: { warning: { acknowledge_minutes: 30 } } },
+        };
+        expect((await updateEscalationPolicy(policy)).error?.status).toBe(403);
+
+        await authAPI.login({ email: 'admin@hospital.com', password: MOCK_PASSWORD });
+        const invalid = { ...policy, severities: { ...policy.severities, critical: { acknowledge_minutes: 0 } } };
+        expect((await updateEscalationPolicy(invalid)).error?.status).toBe(422);
+
+        expect((await updateEscalationPolicy(policy, DEFAULT_ESCALATION_POLICY)).data).toEqual(policy);
+        expect((await Api.get(ENDPOINTS.settings.escalation)).data).toEqual(policy);
+        await flushAuditLog();
+        expect(server.backend.db.audit).toEqual([expect.objectContaining({
+            action: 'update',
+            entity: expect.objectContaining({ type: 'setting', id: 'escalation' }),
+            changes: expect.arrayContaining([expect.objectContaining({ field: 'wards.General.warning.acknowledge_minutes', after: 30 })]),
+        })]);
+    });
+});
@@ -0,0 +1,111 @@
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { optimisticChange, optimisticMutation, patchRecord } from './optimistic';
+import { AlertEscalationStep, IoTDevice } from './types';
+import { toTimestampMs } from '../utils/dateUtils';
+
+// Escalation of alerts nobody acknowledged. An open alert has to be acknowledged within the minutes
+// its policy rule gives; past that it goes to the charge nurse of the ward, and after as many minutes
+// again to the on-call doctor. The backend runs the deadlines, so alerts escalate with no dashboard
+// open, and keeps every step with the alert; screens show the state and count down to the next step.
+// The mock backend's version of the deadlines is in mock/escalation.ts.
+
+type DeviceAlert = IoTDevice['alerts'][string];
+
+export type AlertSeverity = DeviceAlert['type'];
+
+// What screens need of an alert to show where it stands
+export type AlertEscalationFields = Pick<
+    DeviceAlert, 'resolved' | 'acknowledged' | 'acknowledgedBy' | 'escalationDueAt' | 'escalationHistory' | 'suppressedBy'
+>;
+
+export type EscalationTarget = AlertEscalationStep['target'];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+// Steps in order; an alert at level n went through the first n of them
+export const ESCALATION_CHAIN: EscalationTarget[] = ['charge_nurse', 'on_call_doctor'];
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+    charge_nurse: 'Charge nurse',
+    on_call_doctor: 'On-call doctor',
+};
+
+export interface EscalationRule {
+    // Minutes to acknowledge before each step up the chain; null never escalates
+    acknowledge_minutes: number | null;
+}
+
+export interface EscalationPolicy {
+    severities: Record<AlertSeverity, EscalationRule>;
+    // Wards whose rules differ from the severity's, e.g. shorter deadlines in the ICU
+    wards: Record<string, Partial<Record<AlertSeverity, EscalationRule>>>;
+}
+
+// Used until the backend's policy has loaded, and when it cannot be loaded
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+    severities: {
+        critical: { acknowledge_minutes: 5 },
+        warning: { acknowledge_minutes: 15 },
+        info: { acknowledge_minutes: null },
+    },
+    wards: {
+        ICU: { critical: { acknowledge_minutes: 2 }, warning: { acknowledge_minutes: 10 } },
+    },
+};
+
+export type EscalationState = 'open' | 'escalated' | 'acknowledged' | 'snoozed' | 'resolved';
+
+/**
+ * Where an alert stands: its state, the last step it went through and when the next one is due (ms)
+ */
+export const escalationStatus = (alert: AlertEscalationFields) => {
+    const history = alert.escalationHistory ?? [];
+    const latest: AlertEscalationStep | undefined = history[history.length - 1];
+    const state: EscalationState = alert.resolved
+        ? 'resolved'
+        : alert.acknowledged ? 'acknowledged' : alert.suppressedBy ? 'snoozed' : latest ? 'escalated' : 'open';
+    const dueAt = state === 'open' || state === 'escalated' ? toTimestampMs(alert.escalationDueAt) : Number.NaN;
+    return { state, level: history.length, latest, dueAt: Number.isNaN(dueAt) ? null : dueAt };
+};
+
+/**
+ * Mark an alert as seen, which stops its escalation. Shown right away; undone with a toast when
+ * the backend refuses it.
+ */
+export const acknowledgeAlert = (deviceId: string, alertId: string, acknowledgedBy: string | undefined, message?: string) => {
+    const acknowledgement = { acknowledgedBy, acknowledgedAt: new Date().toISOString() };
+    return optimisticMutation(
+        [optimisticChange(ENDPOINTS.iot.getAll, patchRecord<IoTDevice>(deviceId, device => ({
+            ...device,
+            alerts: {
+                ...device.alerts,
+                [alertId]: { ...device.alerts[alertId], acknowledged: true, ...acknowledgement, escalationDueAt: undefined },
+            },
+        })))],
+        () => Api.post(ENDPOINTS.iot.acknowledgeAlert(deviceId, alertId), acknowledgement, {
+            audit: {
+                action: 'acknowledge',
+                entity: { type: 'alert', id: `${deviceId}_${alertId}`, name: message },
+                description: `Acknowledge alert on ${deviceId}`,
+                before: { acknowledged: false },
+                after: { acknowledged: true, ...acknowledgement },
+            },
+        }),
+        'Alert was not acknowledged'
+    );
+};
+
+/**
+ * Replace the escalation policy; `before` is the policy it replaces, for the audit trail
+ */
+export const updateEscalationPolicy = (policy: EscalationPolicy, before?: EscalationPolicy) =>
+    Api.put<EscalationPolicy>(ENDPOINTS.settings.escalation, policy, {
+        audit: {
+            action: 'update',
+            entity: { type: 'setting', id: 'escalation', name: 'Alert escalation policy' },
+            description: 'Change the alert escalation policy',
+            before: before ?? null,
+            after: policy,
+        },
+    });
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Api from './api';
+import { authAPI } from './auth';
+import { ENDPOINTS, FACILITY_HEADER } from './config';
+import {
+    Facility,
+    FacilitySummary,
+    getFacilityId,
+    selectFacility,
+    subscribeToFacility,
+    sumFacilitySummaries,
+} from './facility';
+import { MOCK_PASSWORD } from './mock/fixtures';
+import { getCachedQuery, query } from './queryCache';
+import { Patient } from './types';
+import { setupMockBackend } from '../test/mockServer';
+
+describe('Facilities', () => {
+    const server = setupMockBackend('admin@hospital.com');
+
+    afterEach(() => {
+        localStorage.clear();
+    });
+
+    const patientIds = async () =>
+        Object.keys((await query<Record<string, Patient>>(ENDPOINTS.patients.getAll)).data ?? {}).sort();
+
+    it('lists the facilities of the account', async () => {
+        const { data } = await Api.get<Facility[]>(ENDPOINTS.facilities.getAll);
+        expect(data?.map(facility => facility.id)).toEqual(['central', 'northside']);
+        expect(data?.[1].room_types).toEqual(['general', 'surgery']);
+    });
+
+    it('scopes every request to the selected facility', async () => {
+        expect(await patientIds()).not.toContain('patient_007');
+
+        selectFacility('northside');
+        expect(await patientIds()).toEqual(['patient_007', 'patient_008']);
+
+        const created = await Api.post<{ patient_id: string }>(ENDPOINTS.patients.create, {
+            personalInfo: { name: 'Nora Quinn', age: 51, ward: 'Maternity' },
+        });
+        expect(server.backend.db.facilityOf[created.data!.patient_id]).toBe('northside');
+
+        const room = await Api.get(ENDPOINTS.rooms.getById('room_101'));
+        expect(room.error?.status).toBe(404);
+    });
+
+    it('remembers the choice per user', async () => {
+        selectFacility('northside');
+        expect(getFacilityId()).toBe('northside');
+
+        await authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD });
+        expect(getFacilityId()).toBeNull();
+    });
+
+    it('follows the facility of whoever signs in next, with its own cached responses', async () => {
+        selectFacility('northside');
+        expect(await patientIds()).toEqual(['patient_007', 'patient_008']);
+        const listener = vi.fn();
+        const unsubscribe = subscribeToFacility(listener);
+
+        await authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD });
+        unsubscribe();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(getCachedQuery(ENDPOINTS.patients.getAll)).toBeUndefined();
+        expect(await patientIds()).not.toContain('patient_007');
+    });
+
+    it('refuses records of a facility the user does not work in', async () => {
+        await authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD });
+
+        const { data } = await Api.get<Facility[]>(ENDPOINTS.facilities.getAll);
+        expect(data?.map(facility => facility.id)).toEqual(['central']);
+
+        const patients = await Api.get(ENDPOINTS.patients.getAll, undefined, { headers: { [FACILITY_HEADER]: 'northside' } });
+        expect(patients.error?.status).toBe(403);
+    });
+
+    it('compares the facilities for admins only', async () => {
+        const { data } = await Api.get<FacilitySummary[]>(ENDPOINTS.facilities.summary);
+        expect(data).toEqual([
+            expect.objectContaining({ facility_id: 'central', patients: 6, rooms: 4, beds_total: 8 }),
+            expect.objectContaining({ facility_id: 'northside', patients: 2, rooms: 2, beds_total: 3 }),
+        ]);
+        expect(sumFacilitySummaries(data!)).toEqual(expect.objectContaining({ patients: 8, rooms: 6, beds_total: 11 }));
+
+        await authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD });
+        expect((await Api.get(ENDPOINTS.facilities.summary)).error?.status).toBe(403);
+    });
+});
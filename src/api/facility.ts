@@ -0,0 +1,126 @@
+import Api, { ApiRequest } from './api';
+import { authAPI } from './auth';
+import { FACILITY_HEADER } from './config';
+import type { Room } from './hooks/useRooms';
+
+// Facilities are the hospital sites of the group. Patients, staff, rooms, beds and devices each
+// belong to one of them, and every request names the facility it is about in FACILITY_HEADER.
+// Without it the backend answers for the first facility of the account.
+
+export interface Facility {
+    id: string;
+    name: string;
+    // For tight spaces such as the facility switcher
+    short_name: string;
+    // CSS color the dashboard is themed with while working in the facility
+    accent_color: string;
+    // Catalogs of the site, offered when admitting patients and setting up rooms
+    wards: string[];
+    room_types: Array<Room['roomType']>;
+}
+
+// Counts for one facility, for comparing sites; from GET /facilities/summary
+export interface FacilitySummary {
+    facility_id: string;
+    patients: number;
+    critical_patients: number;
+    rooms: number;
+    beds_total: number;
+    beds_occupied: number;
+    devices: number;
+    devices_online: number;
+    active_alerts: number;
+}
+
+export type FacilityTotals = Omit<FacilitySummary, 'facility_id'>;
+
+const STORAGE_PREFIX = 'facility:';
+
+const listeners = new Set<() => void>();
+
+// Kept per user, so a shared workstation opens each user's own site
+const storageKey = () => {
+    const user = authAPI.getSessionUser();
+    return user ? `${STORAGE_PREFIX}${user.id}` : null;
+};
+
+/**
+ * The facility the signed-in user works in, or null for the backend's default
+ */
+export const getFacilityId = (): string | null => {
+    const key = storageKey();
+    if (!key) return null;
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+let notifiedFacilityId = getFacilityId();
+
+const notifyIfChanged = () => {
+    const facilityId = getFacilityId();
+    if (facilityId === notifiedFacilityId) return;
+    notifiedFacilityId = facilityId;
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Work in another facility; subscribers reload what they show
+ */
+export const selectFacility = (id: string) => {
+    const key = storageKey();
+    if (!key || getFacilityId() === id) return;
+    try {
+        localStorage.setItem(key, id);
+    } catch {
+        // Without storage the choice still holds until the next reload
+    }
+    notifyIfChanged();
+};
+
+// Another user's session comes with that user's facility
+authAPI.subscribe(notifyIfChanged);
+
+/**
+ * Subscribe to changes of the facility, chosen or with the session. Returns a function that
+ * unsubscribes again.
+ */
+export const subscribeToFacility = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Group-wide totals of per-facility counts
+ */
+export const sumFacilitySummaries = (summaries: FacilitySummary[]): FacilityTotals =>
+    summaries.reduce<FacilityTotals>((totals, summary) => ({
+        patients: totals.patients + summary.patients,
+        critical_patients: totals.critical_patients + summary.critical_patients,
+        rooms: totals.rooms + summary.rooms,
+        beds_total: totals.beds_total + summary.beds_total,
+        beds_occupied: totals.beds_occupied + summary.beds_occupied,
+        devices: totals.devices + summary.devices,
+        devices_online: totals.devices_online + summary.devices_online,
+        active_alerts: totals.active_alerts + summary.active_alerts,
+    }), {
+        patients: 0,
+        critical_patients: 0,
+        rooms: 0,
+        beds_total: 0,
+        beds_occupied: 0,
+        devices: 0,
+        devices_online: 0,
+        active_alerts: 0,
+    });
+
+// Every request made through the shared client is scoped to the current facility
+Api.addRequestInterceptor((request: ApiRequest): ApiRequest => {
+    const facilityId = getFacilityId();
+    if (!facilityId || request.headers[FACILITY_HEADER]) return request;
+    return { ...request, headers: { ...request.headers, [FACILITY_HEADER]: facilityId } };
+});
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { AlertSuppression } from '../alertSuppression';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { getCachedQuery, query, subscribeToQuery } from '../queryCache';
+
+/**
+ * Snooze rules that have not expired yet. Reloaded after every change to them.
+ */
+export const useAlertSuppressions = () => {
+  const [suppressions, setSuppressions] = useState<AlertSuppression[] | null>(
+    () => getCachedQuery<AlertSuppression[]>(ENDPOINTS.alerts.suppressions) ?? null
+  );
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    query<AlertSuppression[]>(ENDPOINTS.alerts.suppressions).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setSuppressions(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<AlertSuppression[]>(ENDPOINTS.alerts.suppressions, data => {
+      if (data) setSuppressions(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { suppressions: suppressions ?? [], loaded: suppressions !== null, error };
+};
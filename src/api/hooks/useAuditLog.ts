@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  AuditEntry,
+  AuditFilters,
+  auditQueryParams,
+  filterAuditEntries,
+  getPendingAuditEntries,
+  subscribeToPendingAudit,
+} from '../audit';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { query, subscribeToQuery } from '../queryCache';
+
+/**
+ * Audit entries matching `filters`, newest first. `pending` holds the matching entries recorded
+ * on this terminal that the backend has not accepted yet. Keep `filters` in state, a new object
+ * on every render refetches every time.
+ */
+export const useAuditLog = (filters: AuditFilters) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const allPending = useSyncExternalStore(subscribeToPendingAudit, getPendingAuditEntries);
+
+  const params = useMemo(() => auditQueryParams(filters), [filters]);
+
+  const load = useCallback(async (options: { force?: boolean } = {}) => {
+    setLoading(true);
+    setError(null);
+    const response = await query<AuditEntry[]>(ENDPOINTS.audit.getAll, { ...options, params });
+    if (response.error) {
+      setError(response.error);
+    } else {
+      setEntries(response.data || []);
+    }
+    setLoading(false);
+  }, [params]);
+
+  useEffect(() => {
+    load();
+    // Uploads of new entries invalidate the audit queries, so this picks them up
+    return subscribeToQuery<AuditEntry[]>(ENDPOINTS.audit.getAll, data => setEntries(data || []), params);
+  }, [load, params]);
+
+  const pending = useMemo(() => [...filterAuditEntries(allPending, filters)].reverse(), [allPending, filters]);
+
+  return { entries, pending, loading, error, refresh: () => load({ force: true }) };
+};
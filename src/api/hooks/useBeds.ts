@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
-import { API_BASE_URL } from '../config';
+import Api from '../api';
+import { ENDPOINTS } from '../config';
+import { getCachedQuery, query, subscribeToQuery } from '../queryCache';
+import { ApiError, ApiResult } from '../errors';
+import { optimisticChange, optimisticMutation } from '../optimistic';
 
 export interface Bed {
   roomId: string;
@@ -16,142 +20,118 @@ export interface Bed {
   };
 }
 
+/**
+ * Beds after assigning `patientId` to `bedId`; a patient only ever occupies one bed
+ */
+export const withPatientAssigned = (beds: Record<string, Bed>, bedId: string, patientId: string): Record<string, Bed> =>
+  Object.fromEntries(Object.entries(beds).map(([id, bed]) => {
+    if (id === bedId) return [id, { ...bed, patientId, status: 'occupied' }];
+    if (bed.patientId === patientId) return [id, { ...bed, patientId: undefined, status: 'available' }];
+    return [id, bed];
+  }));
+
+/**
+ * Beds after discharging whoever occupies `bedId`
+ */
+export const withPatientDischarged = (beds: Record<string, Bed>, bedId: string): Record<string, Bed> =>
+  beds[bedId] ? { ...beds, [bedId]: { ...beds[bedId], patientId: undefined, status: 'available' } } : beds;
+
 export const useBeds = () => {
-  const [beds, setBeds] = useState<Record<string, Bed>>({});
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [beds, setBeds] = useState<Record<string, Bed>>(() => getCachedQuery<Record<string, Bed>>(ENDPOINTS.beds.getAll) || {});
+  const [loading, setLoading] = useState(() => !getCachedQuery(ENDPOINTS.beds.getAll));
+  const [error, setError] = useState<ApiError | null>(null);
 
   const fetchBeds = async () => {
-    try {
+    if (!getCachedQuery(ENDPOINTS.beds.getAll)) {
       setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/beds/`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      setBeds(data);
+    }
+    const response = await query<Record<string, Bed>>(ENDPOINTS.beds.getAll);
+    
+    if (response.error) {
+      setError(response.error);
+      console.error('Error fetching beds:', response.error);
+    } else {
+      setBeds(response.data || {});
       setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch beds');
-      console.error('Error fetching beds:', err);
-    } finally {
-      setLoading(false);
     }
+    setLoading(false);
   };
 
   const getRoomBeds = async (roomId: string): Promise<Record<string, Bed>> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/room/${roomId}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (err) {
-      console.error('Error fetching room beds:', err);
+    const response = await Api.get<Record<string, Bed>>(ENDPOINTS.beds.byRoom(roomId));
+    if (response.error) {
+      console.error('Error fetching room beds:', response.error);
       return {};
     }
+    return response.data || {};
   };
 
   const getAvailableBedsInRoom = async (roomId: string): Promise<Record<string, Bed>> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/room/${roomId}/available`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (err) {
-      console.error('Error fetching available beds:', err);
+    const response = await Api.get<Record<string, Bed>>(ENDPOINTS.beds.availableInRoom(roomId));
+    if (response.error) {
+      console.error('Error fetching available beds:', response.error);
       return {};
     }
+    return response.data || {};
   };
 
-  const assignPatientToBed = async (bedId: string, patientId: string): Promise<{ success: boolean; error?: string }> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/${bedId}/assign-patient/${patientId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+  // Bed changes show up in the bed lists right away and are undone with a toast if rejected
+  const assignPatientToBed = async (bedId: string, patientId: string): Promise<ApiResult> => {
+    const result = await optimisticMutation(
+      [optimisticChange<Record<string, Bed>>(ENDPOINTS.beds.getAll, beds => beds && withPatientAssigned(beds, bedId, patientId))],
+      () => Api.post(ENDPOINTS.beds.assignPatient(bedId, patientId), undefined, {
+        audit: {
+          action: 'assign',
+          entity: { type: 'bed', id: bedId },
+          description: `Assign patient ${patientId} to bed ${bedId}`,
+          after: { patientId },
         },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      await fetchBeds(); // Refresh beds data
-      return { success: true };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to assign patient to bed';
-      console.error('Error assigning patient to bed:', err);
-      return { success: false, error: errorMessage };
-    }
+      }),
+      'Bed assignment was not saved'
+    );
+    return result.success ? { success: true, data: undefined } : result;
   };
 
-  const dischargePatientFromBed = async (bedId: string, patientId: string): Promise<{ success: boolean; error?: string }> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/${bedId}/discharge-patient/${patientId}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
+  const dischargePatientFromBed = async (bedId: string, patientId: string): Promise<ApiResult> => {
+    const result = await optimisticMutation(
+      [optimisticChange<Record<string, Bed>>(ENDPOINTS.beds.getAll, beds => beds && withPatientDischarged(beds, bedId))],
+      () => Api.delete(ENDPOINTS.beds.dischargePatient(bedId, patientId), {
+        audit: {
+          action: 'discharge',
+          entity: { type: 'bed', id: bedId },
+          description: `Discharge patient ${patientId} from bed ${bedId}`,
+          before: { patientId },
         },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      await fetchBeds(); // Refresh beds data
-      return { success: true };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to discharge patient from bed';
-      console.error('Error discharging patient from bed:', err);
-      return { success: false, error: errorMessage };
-    }
+      }),
+      'Bed discharge was not saved'
+    );
+    return result.success ? { success: true, data: undefined } : result;
   };
 
   const getPatientBed = async (patientId: string): Promise<{ bed_id?: string; bed_data?: Bed } | null> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/patient/${patientId}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      return data.bed ? data : null;
-    } catch (err) {
-      console.error('Error fetching patient bed:', err);
+    const response = await Api.get(ENDPOINTS.beds.forPatient(patientId));
+    if (response.error) {
+      console.error('Error fetching patient bed:', response.error);
       return null;
     }
+    return response.data?.bed ? response.data : null;
   };
 
   const getBedOccupancyStats = async () => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/beds/stats/occupancy`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (err) {
-      console.error('Error fetching bed occupancy stats:', err);
+    const response = await Api.get(ENDPOINTS.beds.occupancyStats);
+    if (response.error) {
+      console.error('Error fetching bed occupancy stats:', response.error);
       return null;
     }
+    return response.data;
   };
 
   useEffect(() => {
     fetchBeds();
   }, []);
 
+  useEffect(() => subscribeToQuery<Record<string, Bed>>(ENDPOINTS.beds.getAll, data => setBeds(data || {})), []);
+
   return {
     beds,
     loading,
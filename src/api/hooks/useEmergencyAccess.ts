@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { EmergencyAccessGrant, getEmergencyAccess, subscribeToEmergencyAccess } from '../emergencyAccess';
+
+/**
+ * The signed-in user's emergency access while it lasts, otherwise null
+ */
+export const useEmergencyAccess = (): EmergencyAccessGrant | null =>
+  useSyncExternalStore(subscribeToEmergencyAccess, getEmergencyAccess);
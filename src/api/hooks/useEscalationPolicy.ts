@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { DEFAULT_ESCALATION_POLICY, EscalationPolicy } from '../escalation';
+import { query, subscribeToQuery } from '../queryCache';
+
+/**
+ * The alert escalation policy. Until it has loaded, or when it cannot be, the default applies.
+ */
+export const useEscalationPolicy = () => {
+  const [policy, setPolicy] = useState<EscalationPolicy | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    query<EscalationPolicy>(ENDPOINTS.settings.escalation).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setPolicy(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<EscalationPolicy>(ENDPOINTS.settings.escalation, data => {
+      if (data) setPolicy(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { policy: policy ?? DEFAULT_ESCALATION_POLICY, loaded: policy !== null, error };
+};
@@ -0,0 +1,93 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { authAPI } from '../auth';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { Facility, FacilitySummary, getFacilityId, selectFacility, subscribeToFacility } from '../facility';
+import { getCachedQuery, query, subscribeToQuery } from '../queryCache';
+
+// The stored choice is per user, so it changes with the session as well
+const subscribe = (listener: () => void) => {
+  const unsubscribeFacility = subscribeToFacility(listener);
+  const unsubscribeAuth = authAPI.subscribe(listener);
+  return () => {
+    unsubscribeFacility();
+    unsubscribeAuth();
+  };
+};
+
+/**
+ * Id of the facility the user chose, null until they chose one
+ */
+export const useFacilityId = (): string | null => useSyncExternalStore(subscribe, getFacilityId);
+
+/**
+ * The facilities the user works in and the current one: the chosen facility, or the first one
+ * while none is chosen. A choice the account lost access to falls back to the first facility.
+ */
+export const useFacilities = () => {
+  const [facilities, setFacilities] = useState<Facility[] | null>(
+    () => getCachedQuery<Facility[]>(ENDPOINTS.facilities.getAll) ?? null
+  );
+  const [error, setError] = useState<ApiError | null>(null);
+  const selectedId = useFacilityId();
+
+  useEffect(() => {
+    let cancelled = false;
+    query<Facility[]>(ENDPOINTS.facilities.getAll).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setFacilities(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<Facility[]>(ENDPOINTS.facilities.getAll, data => {
+      if (data) setFacilities(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (facilities && facilities.length > 0 && selectedId && !facilities.some(facility => facility.id === selectedId)) {
+      selectFacility(facilities[0].id);
+    }
+  }, [facilities, selectedId]);
+
+  const list = facilities ?? [];
+  const current = list.find(facility => facility.id === selectedId) ?? list[0] ?? null;
+
+  return { facilities: list, current, loaded: facilities !== null, error };
+};
+
+/**
+ * Counts per facility of the user, for admins comparing sites. Loaded only while `enabled`.
+ */
+export const useFacilitySummaries = (enabled = true) => {
+  const [summaries, setSummaries] = useState<FacilitySummary[] | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    query<FacilitySummary[]>(ENDPOINTS.facilities.summary).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setSummaries(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<FacilitySummary[]>(ENDPOINTS.facilities.summary, data => {
+      if (data) setSummaries(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  return { summaries: summaries ?? [], loaded: summaries !== null, error };
+};
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { liveChannel, LiveEvent, LiveStatus, LiveSubscription, topicOf } from '../liveChannel';
+
+/**
+ * Current state of the live channel. Polling hooks keep polling unless this is 'live'.
+ */
+export const useLiveStatus = (): LiveStatus =>
+  useSyncExternalStore(liveChannel.subscribeToStatus, liveChannel.getStatus);
+
+/**
+ * Receive pushed events for the given subscriptions while the component is mounted.
+ * Resubscribes only when the set of topics changes, so an inline array is fine.
+ */
+export const useLiveSubscription = (subscriptions: LiveSubscription[], onEvent: (event: LiveEvent) => void) => {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const subscriptionsRef = useRef(subscriptions);
+  subscriptionsRef.current = subscriptions;
+
+  const topicsKey = subscriptions.map(topicOf).sort().join(',');
+
+  useEffect(() => {
+    if (!topicsKey) return;
+    const unsubscribers = subscriptionsRef.current.map(subscription =>
+      liveChannel.subscribe(subscription, event => onEventRef.current(event))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [topicsKey]);
+};
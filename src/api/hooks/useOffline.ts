@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineState, OfflineState, subscribeToOffline } from '../offline';
+
+/**
+ * Whether data is served from the offline copy, since when, and the writes waiting to be sent
+ */
+export const useOfflineStatus = (): OfflineState =>
+  useSyncExternalStore(subscribeToOffline, getOfflineState);
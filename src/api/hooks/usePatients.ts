@@ -1,31 +1,19 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import Api from '../api';
 import { ENDPOINTS } from '../config';
+import { findCachedRecord, getCachedQuery, query, subscribeToQuery } from '../queryCache';
 import { Patient } from '../types';
-
-interface ValidationErrors {
-  [key: string]: string[];
-}
-
-interface ApiError {
-  message: string;
-  validationErrors?: ValidationErrors;
-}
-
-interface ApiResult<T> {
-  success: boolean;
-  data?: T;
-  errors?: ApiError;
-}
+import { ApiError, ApiResult } from '../errors';
+import { optimisticChange, optimisticMutation, patchRecord } from '../optimistic';
 
 interface UsePatientResult {
   patients: Record<string, Patient>;
   loading: boolean;
-  error: string | null;
-  getPatients: (params?: { ward?: string; status?: string; riskLevel?: string }) => Promise<void>;
+  error: ApiError | null;
+  getPatients: (params?: { ward?: string; status?: string; riskLevel?: string }, options?: { force?: boolean }) => Promise<void>;
   getPatient: (id: string) => Promise<Patient | null>;
   createPatient: (patient: Patient) => Promise<ApiResult<{ patientId: string }>>;
-  updatePatient: (id: string, patient: Patient) => Promise<ApiResult<void>>;
+  updatePatient: (id: string, patient: Patient, reason?: string) => Promise<ApiResult<void>>;
   deletePatient: (id: string) => Promise<boolean>;
   getPatientVitals: (id: string, params?: { startTime?: string; endTime?: string; limit?: number }) => Promise<any[]>;
   getPatientsByWard: (wardId: string, status?: string) => Promise<Record<string, Patient>>;
@@ -33,182 +21,161 @@ interface UsePatientResult {
 }
 
 export function usePatients(): UsePatientResult {
-  const [patients, setPatients] = useState<Record<string, Patient>>({});
+  const [patients, setPatients] = useState<Record<string, Patient>>(
+      () => getCachedQuery<Record<string, Patient>>(ENDPOINTS.patients.getAll) || {}
+  );
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const getPatients = useCallback(async (params?: { ward?: string; status?: string; riskLevel?: string }) => {
-        try {
+  const [error, setError] = useState<ApiError | null>(null);
+
+  // Background refetches of the full list, e.g. after another screen created a patient
+  useEffect(() => subscribeToQuery<Record<string, Patient>>(
+      ENDPOINTS.patients.getAll,
+      data => setPatients(data || {})
+  ), []);
+
+  const getPatients = useCallback(async (
+        params?: { ward?: string; status?: string; riskLevel?: string },
+        options: { force?: boolean } = {}
+    ) => {
+        const queryParams: Record<string, string> = {};
+        if (params?.ward) queryParams.ward = params.ward;
+        if (params?.status) queryParams.status = params.status;
+        if (params?.riskLevel) queryParams.risk_level = params.riskLevel;
+
+        if (!getCachedQuery(ENDPOINTS.patients.getAll, queryParams)) {
             setLoading(true);
-            setError(null);
-            
-            const queryParams = new URLSearchParams();
-            if (params?.ward) queryParams.append('ward', params.ward);
-            if (params?.status) queryParams.append('status', params.status);
-            if (params?.riskLevel) queryParams.append('risk_level', params.riskLevel);
-
-            const response = await Api.get<Record<string, Patient>>(
-                `${ENDPOINTS.patients.getAll}?${queryParams.toString()}`
-            );
-            
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            if (response.data) {
-                setPatients(response.data);
-            }
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch patients');
-        } finally {
-            setLoading(false);
         }
+        setError(null);
+
+        const response = await query<Record<string, Patient>>(ENDPOINTS.patients.getAll, { ...options, params: queryParams });
+        
+        if (response.error) {
+            setError(response.error);
+        } else if (response.data) {
+            setPatients(response.data);
+        }
+        setLoading(false);
     }, []);
 
     const getPatient = useCallback(async (id: string): Promise<Patient | null> => {
-        try {
-            const response = await Api.get<Patient>(ENDPOINTS.patients.getById(id));
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || null;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch patient');
+        const response = await Api.get<Patient>(ENDPOINTS.patients.getById(id));
+        if (response.error) {
+            setError(response.error);
             return null;
         }
+        return response.data || null;
     }, []);
 
     const createPatient = useCallback(async (patient: Patient): Promise<ApiResult<{ patientId: string }>> => {
-        try {
-            const response = await Api.post<{ patient_id: string }>(ENDPOINTS.patients.create, patient);
-            if (response.error || response.validationErrors) {
-                return {
-                    success: false,
-                    errors: {
-                        message: response.error || 'Failed to create patient',
-                        validationErrors: response.validationErrors
-                    }
-                };
-            }
-            return {
-                success: true,
-                data: { patientId: response.data?.patient_id || '' }
-            };
-        } catch (err) {
-            return {
-                success: false,
-                errors: {
-                    message: err instanceof Error ? err.message : 'Failed to create patient'
-                }
-            };
+        const response = await Api.post<{ patient_id: string }>(ENDPOINTS.patients.create, patient, {
+            audit: {
+                action: 'create',
+                entity: { type: 'patient', name: patient.personalInfo.name },
+                description: `Admit patient ${patient.personalInfo.name}`,
+            },
+        });
+        if (response.error) {
+            return { success: false, error: response.error };
         }
+        return {
+            success: true,
+            data: { patientId: response.data?.patient_id || '' }
+        };
     }, []);
 
-    const updatePatient = useCallback(async (id: string, patient: Patient): Promise<ApiResult<void>> => {
-        try {
-            const response = await Api.put(ENDPOINTS.patients.update(id), patient);
-            if (response.error || response.validationErrors) {
-                return {
-                    success: false,
-                    errors: {
-                        message: response.error || 'Failed to update patient',
-                        validationErrors: response.validationErrors
-                    }
-                };
-            }
-            return { success: true };
-        } catch (err) {
-            return {
-                success: false,
-                errors: {
-                    message: err instanceof Error ? err.message : 'Failed to update patient'
-                }
-            };
-        }
+    // Shown in every patient list right away and undone if the server rejects it
+    const updatePatient = useCallback(async (id: string, patient: Patient, reason?: string): Promise<ApiResult<void>> => {
+        const before = findCachedRecord<Patient>(ENDPOINTS.patients.getAll, id);
+        const result = await optimisticMutation(
+            [optimisticChange(ENDPOINTS.patients.getAll, patchRecord<Patient>(id, () => patient))],
+            () => Api.put(ENDPOINTS.patients.update(id), patient, {
+                audit: {
+                    action: 'update',
+                    entity: { type: 'patient', id, name: patient.personalInfo.name },
+                    description: `Update patient ${patient.personalInfo.name}`,
+                    before,
+                    reason,
+                },
+            }),
+            'Patient changes were not saved'
+        );
+        return result.success ? { success: true, data: undefined } : result;
     }, []);
 
     const deletePatient = useCallback(async (id: string): Promise<boolean> => {
-        try {
-            const response = await Api.delete(ENDPOINTS.patients.delete(id));
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to delete patient');
+        const before = findCachedRecord<Patient>(ENDPOINTS.patients.getAll, id);
+        const response = await Api.delete(ENDPOINTS.patients.delete(id), {
+            audit: {
+                action: 'delete',
+                entity: { type: 'patient', id, name: before?.personalInfo.name },
+                description: `Remove patient ${before?.personalInfo.name ?? id}`,
+                before,
+            },
+        });
+        if (response.error) {
+            setError(response.error);
             return false;
         }
+        return true;
     }, []);
 
     const getPatientVitals = useCallback(async (
         id: string,
         params?: { startTime?: string; endTime?: string; limit?: number }
     ): Promise<any[]> => {
-        try {
-            const queryParams = new URLSearchParams();
-            if (params?.startTime) queryParams.append('start_time', params.startTime);
-            if (params?.endTime) queryParams.append('end_time', params.endTime);
-            if (params?.limit) queryParams.append('limit', params.limit.toString());
-
-            const response = await Api.get<any[]>(
-                `${ENDPOINTS.patients.vitals(id)}?${queryParams.toString()}`
-            );
-            
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            return response.data || [];
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch patient vitals');
+        const queryParams = new URLSearchParams();
+        if (params?.startTime) queryParams.append('start_time', params.startTime);
+        if (params?.endTime) queryParams.append('end_time', params.endTime);
+        if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+        const response = await Api.get<any[]>(
+            `${ENDPOINTS.patients.vitals(id)}?${queryParams.toString()}`
+        );
+        
+        if (response.error) {
+            setError(response.error);
             return [];
         }
+
+        return response.data || [];
     }, []);
 
     const getPatientsByWard = useCallback(async (
         wardId: string,
         status?: string
     ): Promise<Record<string, Patient>> => {
-        try {
-            const queryParams = new URLSearchParams();
-            if (status) queryParams.append('status', status);
-
-            const response = await Api.get<Record<string, Patient>>(
-                `${ENDPOINTS.patients.byWard(wardId)}?${queryParams.toString()}`
-            );
-            
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch ward patients');
+        const queryParams = new URLSearchParams();
+        if (status) queryParams.append('status', status);
+
+        const response = await Api.get<Record<string, Patient>>(
+            `${ENDPOINTS.patients.byWard(wardId)}?${queryParams.toString()}`
+        );
+        
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+
+        return response.data || {};
     }, []);
 
     const getPatientsByRisk = useCallback(async (
         riskLevel: string,
         ward?: string
     ): Promise<Record<string, Patient>> => {
-        try {
-            const queryParams = new URLSearchParams();
-            if (ward) queryParams.append('ward', ward);
-
-            const response = await Api.get<Record<string, Patient>>(
-                `${ENDPOINTS.patients.byRisk(riskLevel)}?${queryParams.toString()}`
-            );
-            
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch risk-level patients');
+        const queryParams = new URLSearchParams();
+        if (ward) queryParams.append('ward', ward);
+
+        const response = await Api.get<Record<string, Patient>>(
+            `${ENDPOINTS.patients.byRisk(riskLevel)}?${queryParams.toString()}`
+        );
+        
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+
+        return response.data || {};
     }, []);
 
     return {
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { DEFAULT_PRIVACY_POLICY, PrivacyPolicy } from '../privacy';
+import { query, subscribeToQuery } from '../queryCache';
+
+/**
+ * The privacy mode policy. Until it has loaded, or when it cannot be, the default applies, so
+ * screens are masked rather than shown when in doubt.
+ */
+export const usePrivacyPolicy = () => {
+  const [policy, setPolicy] = useState<PrivacyPolicy | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    query<PrivacyPolicy>(ENDPOINTS.settings.privacy).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setPolicy(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<PrivacyPolicy>(ENDPOINTS.settings.privacy, data => {
+      if (data) setPolicy(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { policy: policy ?? DEFAULT_PRIVACY_POLICY, loaded: policy !== null, error };
+};
@@ -1,6 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
-import Api from '../api';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { query } from '../queryCache';
+import { ENDPOINTS } from '../config';
 import { IoTDevice } from '../types';
+import { LiveEvent } from '../liveChannel';
+import { useLiveStatus, useLiveSubscription } from './useLiveChannel';
 
 interface LatestVitalsResponse {
   timestamp: string;
@@ -13,6 +16,8 @@ interface UseRealTimeVitalsResult {
   loading: boolean;
   error: string | null;
   refreshVitals: () => Promise<void>;
+  // True while readings are pushed over the live channel instead of polled
+  isLive: boolean;
   getDeviceLatestVitals: (deviceId: string) => Promise<IoTDevice['vitals'][string] | null>;
 }
 
@@ -24,7 +29,11 @@ export function useRealTimeVitals(deviceIds: string[], intervalMs: number = 5000
 
   const getDeviceLatestVitals = useCallback(async (deviceId: string): Promise<IoTDevice['vitals'][string] | null> => {
     try {
-      const response = await Api.get<LatestVitalsResponse>(`/iotData/${deviceId}/vitals/latest`);
+      // No retries: the next poll is only a few seconds away
+      const response = await query<LatestVitalsResponse>(ENDPOINTS.iot.latestVitals(deviceId), {
+        retry: false,
+        staleTime: intervalMs / 2,
+      });
       
       if (response.error) {
         console.warn(`Failed to fetch vitals for device ${deviceId}:`, response.error);
@@ -36,7 +45,7 @@ export function useRealTimeVitals(deviceIds: string[], intervalMs: number = 5000
       console.error(`Error fetching vitals for device ${deviceId}:`, err);
       return null;
     }
-  }, []);
+  }, [intervalMs]);
 
   const refreshVitals = useCallback(async () => {
     if (deviceIds.length === 0) return;
@@ -74,20 +83,32 @@ export function useRealTimeVitals(deviceIds: string[], intervalMs: number = 5000
     }
   }, [deviceIds, getDeviceLatestVitals]);
 
-  // Set up automatic refresh interval
+  const isLive = useLiveStatus() === 'live';
+
+  const subscriptions = useMemo(
+    () => deviceIds.map(id => ({ kind: 'device' as const, id })),
+    [deviceIds]
+  );
+
+  useLiveSubscription(subscriptions, (event: LiveEvent) => {
+    if (event.type !== 'vitals') return;
+    setVitals(prev => ({ ...prev, [event.deviceId]: event.reading }));
+    setLastUpdated(prev => ({ ...prev, [event.deviceId]: new Date().toISOString() }));
+  });
+
+  // Initial fetch, then poll only while nothing is pushed
   useEffect(() => {
     if (deviceIds.length === 0) return;
 
-    // Initial fetch
     refreshVitals();
+    if (isLive) return;
 
-    // Set up interval for continuous updates
     const interval = setInterval(refreshVitals, intervalMs);
 
     return () => {
       clearInterval(interval);
     };
-  }, [deviceIds, intervalMs, refreshVitals]);
+  }, [deviceIds, intervalMs, refreshVitals, isLive]);
 
   return {
     vitals,
@@ -95,6 +116,7 @@ export function useRealTimeVitals(deviceIds: string[], intervalMs: number = 5000
     loading,
     error,
     refreshVitals,
+    isLive,
     getDeviceLatestVitals
   };
 }
@@ -1,5 +1,9 @@
-import { useState } from 'react';
-import { API_BASE_URL } from '../config';
+import { useState, useEffect } from 'react';
+import Api from '../api';
+import { ENDPOINTS } from '../config';
+import { findCachedRecord, getCachedQuery, query, subscribeToQuery } from '../queryCache';
+import { ApiError, ApiResult } from '../errors';
+import { optimisticChange, optimisticMutation, patchRecord } from '../optimistic';
 
 export interface Room {
   roomId: string;
@@ -14,196 +18,157 @@ export interface Room {
   updatedAt?: string;
 }
 
-interface ApiResult<T> {
-  success: boolean;
-  data?: T;
-  errors?: any;
-}
-
 export const useRooms = () => {
-  const [rooms, setRooms] = useState<Record<string, Room>>({});
+  const [rooms, setRooms] = useState<Record<string, Room>>(() => getCachedQuery<Record<string, Room>>(ENDPOINTS.rooms.getAll) || {});
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => subscribeToQuery<Record<string, Room>>(ENDPOINTS.rooms.getAll, data => setRooms(data || {})), []);
 
-  const getRooms = async () => {
-    setLoading(true);
+  const getRooms = async (options: { force?: boolean } = {}) => {
+    if (!getCachedQuery(ENDPOINTS.rooms.getAll)) {
+      setLoading(true);
+    }
     setError(null);
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: Failed to fetch rooms`);
-      }
-      const data = await response.json();
-      setRooms(data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch rooms';
-      setError(errorMessage);
-      console.error('Error fetching rooms:', err);
-    } finally {
-      setLoading(false);
+    const response = await query<Record<string, Room>>(ENDPOINTS.rooms.getAll, options);
+    if (response.error) {
+      setError(response.error);
+      console.error('Error fetching rooms:', response.error);
+    } else {
+      setRooms(response.data || {});
     }
+    setLoading(false);
   };
 
   const getRoom = async (roomId: string) => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms/${roomId}`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: Failed to fetch room`);
-      }
-      return await response.json();
-    } catch (err) {
-      console.error('Error fetching room:', err);
-      throw err;
+    const response = await Api.get<Room>(ENDPOINTS.rooms.getById(roomId));
+    if (response.error) {
+      console.error('Error fetching room:', response.error);
+      throw new Error(response.error.message);
     }
+    return response.data;
   };
 
   const createRoom = async (roomData: Room): Promise<ApiResult<{ roomId: string }>> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(roomData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        return {
-          success: false,
-          errors: {
-            message: errorData?.detail || `HTTP ${response.status}: Failed to create room`
-          }
-        };
-      }
-
-      const result = await response.json();
-      return {
-        success: true,
-        data: { roomId: result.roomId }
-      };
-    } catch (err) {
-      return {
-        success: false,
-        errors: {
-          message: err instanceof Error ? err.message : 'Failed to create room'
-        }
-      };
+    const response = await Api.post<{ roomId: string }>(ENDPOINTS.rooms.create, roomData, {
+      audit: {
+        action: 'create',
+        entity: { type: 'room', id: roomData.roomId },
+        description: `Create room ${roomData.roomId}`,
+      },
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
     }
+
+    return {
+      success: true,
+      data: { roomId: response.data?.roomId || '' }
+    };
   };
 
-  const updateRoom = async (roomId: string, roomData: Room): Promise<ApiResult<void>> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms/${roomId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json'
+  // Shown in the room list right away and undone if the server rejects it
+  const updateRoom = async (roomId: string, roomData: Room): Promise<ApiResult> => {
+    const before = findCachedRecord<Room>(ENDPOINTS.rooms.getAll, roomId);
+    const result = await optimisticMutation(
+      [optimisticChange(ENDPOINTS.rooms.getAll, patchRecord<Room>(roomId, room => ({ ...room, ...roomData })))],
+      () => Api.put(ENDPOINTS.rooms.update(roomId), roomData, {
+        audit: {
+          action: 'update',
+          entity: { type: 'room', id: roomId },
+          description: `Update room ${roomId}`,
+          before,
+          after: { ...before, ...roomData },
         },
-        body: JSON.stringify(roomData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        return {
-          success: false,
-          errors: {
-            message: errorData?.detail || `HTTP ${response.status}: Failed to update room`
-          }
-        };
-      }
-
-      return { success: true };
-    } catch (err) {
-      return {
-        success: false,
-        errors: {
-          message: err instanceof Error ? err.message : 'Failed to update room'
-        }
-      };
-    }
+      }),
+      'Room changes were not saved'
+    );
+    return result.success ? { success: true, data: undefined } : result;
   };
 
   const deleteRoom = async (roomId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms/${roomId}`, {
-        method: 'DELETE'
-      });
-
-      if (!response.ok) {
-        console.error(`Failed to delete room: HTTP ${response.status}`);
-        return false;
-      }
-
-      return true;
-    } catch (err) {
-      console.error('Error deleting room:', err);
+    const response = await Api.delete(ENDPOINTS.rooms.delete(roomId), {
+      audit: {
+        action: 'delete',
+        entity: { type: 'room', id: roomId },
+        description: `Delete room ${roomId}`,
+        before: findCachedRecord<Room>(ENDPOINTS.rooms.getAll, roomId),
+      },
+    });
+    if (response.error) {
+      console.error(`Failed to delete room: HTTP ${response.status}`);
       return false;
     }
+    return true;
   };
 
   const assignPatientToRoom = async (roomId: string, patientId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/rooms/${roomId}/assign-patient/${patientId}`,
-        { method: 'POST' }
-      );
-      return response.ok;
-    } catch (err) {
-      console.error('Error assigning patient to room:', err);
-      return false;
+    const response = await Api.post(ENDPOINTS.rooms.assignPatient(roomId, patientId), undefined, {
+      audit: {
+        action: 'assign',
+        entity: { type: 'room', id: roomId },
+        description: `Assign patient ${patientId} to room ${roomId}`,
+        before: { assignedPatient: findCachedRecord<Room>(ENDPOINTS.rooms.getAll, roomId)?.assignedPatient },
+        after: { assignedPatient: patientId },
+      },
+    });
+    if (response.error) {
+      console.error('Error assigning patient to room:', response.error);
     }
+    return !response.error;
   };
 
   const assignDeviceToRoom = async (roomId: string, deviceId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/rooms/${roomId}/assign-device/${deviceId}`,
-        { method: 'POST' }
-      );
-      return response.ok;
-    } catch (err) {
-      console.error('Error assigning device to room:', err);
-      return false;
+    const response = await Api.post(ENDPOINTS.rooms.assignDevice(roomId, deviceId), undefined, {
+      audit: {
+        action: 'assign',
+        entity: { type: 'device', id: deviceId },
+        description: `Assign device ${deviceId} to room ${roomId}`,
+        after: { roomId },
+      },
+    });
+    if (response.error) {
+      console.error('Error assigning device to room:', response.error);
     }
+    return !response.error;
   };
 
   const unassignPatientFromRoom = async (patientId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/rooms/unassign-patient/${patientId}`,
-        { method: 'DELETE' }
-      );
-      return response.ok;
-    } catch (err) {
-      console.error('Error unassigning patient from room:', err);
-      return false;
+    const response = await Api.delete(ENDPOINTS.rooms.unassignPatient(patientId), {
+      audit: {
+        action: 'unassign',
+        entity: { type: 'patient', id: patientId },
+        description: `Remove patient ${patientId} from their room`,
+      },
+    });
+    if (response.error) {
+      console.error('Error unassigning patient from room:', response.error);
     }
+    return !response.error;
   };
 
   const unassignDeviceFromRoom = async (deviceId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(
-        `${API_BASE_URL}/rooms/unassign-device/${deviceId}`,
-        { method: 'DELETE' }
-      );
-      return response.ok;
-    } catch (err) {
-      console.error('Error unassigning device from room:', err);
-      return false;
+    const response = await Api.delete(ENDPOINTS.rooms.unassignDevice(deviceId), {
+      audit: {
+        action: 'unassign',
+        entity: { type: 'device', id: deviceId },
+        description: `Remove device ${deviceId} from its room`,
+      },
+    });
+    if (response.error) {
+      console.error('Error unassigning device from room:', response.error);
     }
+    return !response.error;
   };
 
   const getRoomOccupancyStats = async () => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/rooms/stats/occupancy`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: Failed to fetch occupancy stats`);
-      }
-      return await response.json();
-    } catch (err) {
-      console.error('Error fetching occupancy stats:', err);
-      throw err;
+    const response = await Api.get(ENDPOINTS.rooms.occupancyStats);
+    if (response.error) {
+      console.error('Error fetching occupancy stats:', response.error);
+      throw new Error(response.error.message);
     }
+    return response.data;
   };
 
   return {
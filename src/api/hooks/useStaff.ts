@@ -1,14 +1,18 @@
-import { useState, useCallback } from 'react';
-import StaffService, { StaffMember, StaffStatistics, WorkloadHistory, Department } from '../staffService';
+import { useState, useCallback, useEffect } from 'react';
+import StaffService, { StaffMember, StaffStatistics, WorkloadHistory, Department, TaskStatus } from '../staffService';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { optimisticChange, optimisticMutation, patchRecord } from '../optimistic';
+import { findCachedRecord, getCachedQuery, subscribeToQuery } from '../queryCache';
 
 interface UseStaffResult {
     staff: Record<string, StaffMember>;
     loading: boolean;
-    error: string | null;
+    error: ApiError | null;
     statistics: StaffStatistics | null;
     
     // Basic CRUD operations
-    getStaffMembers: (filters?: { role?: string; department?: string; onDuty?: boolean }) => Promise<void>;
+    getStaffMembers: (filters?: { role?: string; department?: string; onDuty?: boolean }, options?: { force?: boolean }) => Promise<void>;
     getStaffMember: (id: string) => Promise<StaffMember | null>;
     createStaff: (staffData: StaffMember) => Promise<{ id: string; data: StaffMember } | null>;
     updateStaff: (id: string, staffData: Partial<StaffMember>) => Promise<boolean>;
@@ -23,6 +27,9 @@ interface UseStaffResult {
     updateStaffStatus: (id: string, status: any) => Promise<boolean>;
     toggleDutyStatus: (id: string, onDuty: boolean) => Promise<boolean>;
     
+    // Tasks
+    updateTaskStatus: (id: string, taskId: string, status: TaskStatus) => Promise<boolean>;
+    
     // Advanced querying
     getStaffStatistics: () => Promise<void>;
     getOnDutyStaff: () => Promise<Record<string, StaffMember>>;
@@ -35,113 +42,99 @@ interface UseStaffResult {
 }
 
 export function useStaff(): UseStaffResult {
-    const [staff, setStaff] = useState<Record<string, StaffMember>>({});
+    const [staff, setStaff] = useState<Record<string, StaffMember>>(
+        () => getCachedQuery<Record<string, StaffMember>>(ENDPOINTS.staff.getAll) || {}
+    );
     const [statistics, setStatistics] = useState<StaffStatistics | null>(null);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<ApiError | null>(null);
+    // Filters of the list on screen, so its refetches and optimistic changes reach this hook
+    const [listParams, setListParams] = useState<Record<string, string>>({});
+
+    useEffect(() => subscribeToQuery<Record<string, StaffMember>>(
+        ENDPOINTS.staff.getAll,
+        data => setStaff(data || {}),
+        listParams
+    ), [listParams]);
 
     // Basic CRUD operations
     const getStaffMembers = useCallback(async (filters?: { 
         role?: string; 
         department?: string; 
         onDuty?: boolean 
-    }) => {
-        try {
+    }, options: { force?: boolean } = {}) => {
+        const params = StaffService.staffListParams(filters);
+        setListParams(params);
+        if (!getCachedQuery(ENDPOINTS.staff.getAll, params)) {
             setLoading(true);
-            setError(null);
-            
-            console.log('🔄 Fetching staff members with filters:', filters);
-            const response = await StaffService.getAllStaff(filters);
-            console.log('📡 Staff API Response:', response);
-            
-            if (response.error) {
-                console.error('❌ Staff API Error:', response.error);
-                throw new Error(response.error);
-            }
-
-            if (response.data) {
-                console.log('✅ Staff data received:', Object.keys(response.data).length, 'members');
-                setStaff(response.data);
-            } else {
-                console.warn('⚠️ No staff data in response');
-                setStaff({});
-            }
-        } catch (err) {
-            console.error('💥 Error in getStaffMembers:', err);
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff members');
-        } finally {
-            setLoading(false);
         }
+        setError(null);
+        
+        console.log('🔄 Fetching staff members with filters:', filters);
+        const response = await StaffService.getAllStaff(filters, options);
+        console.log('📡 Staff API Response:', response);
+        
+        if (response.error) {
+            console.error('❌ Staff API Error:', response.error);
+            setError(response.error);
+        } else if (response.data) {
+            console.log('✅ Staff data received:', Object.keys(response.data).length, 'members');
+            setStaff(response.data);
+        } else {
+            console.warn('⚠️ No staff data in response');
+            setStaff({});
+        }
+        setLoading(false);
     }, []);
 
     const getStaffMember = useCallback(async (id: string): Promise<StaffMember | null> => {
-        try {
-            const response = await StaffService.getStaffById(id);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || null;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff member');
+        const response = await StaffService.getStaffById(id);
+        if (response.error) {
+            setError(response.error);
             return null;
         }
+        return response.data || null;
     }, []);
 
     const createStaff = useCallback(async (staffData: StaffMember) => {
-        try {
-            setLoading(true);
-            const response = await StaffService.createStaff(staffData);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            
-            // Refresh staff list after creation
-            await getStaffMembers();
-            return response.data || null;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to create staff member');
-            return null;
-        } finally {
+        setLoading(true);
+        const response = await StaffService.createStaff(staffData);
+        if (response.error) {
+            setError(response.error);
             setLoading(false);
+            return null;
         }
+        
+        // Refresh staff list after creation
+        await getStaffMembers();
+        setLoading(false);
+        return response.data || null;
     }, [getStaffMembers]);
 
+    // Shown in every staff list right away and undone if the server rejects it
     const updateStaff = useCallback(async (id: string, staffData: Partial<StaffMember>): Promise<boolean> => {
-        try {
-            setLoading(true);
-            const response = await StaffService.updateStaff(id, staffData);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            
-            // Refresh staff list after update
-            await getStaffMembers();
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to update staff member');
-            return false;
-        } finally {
-            setLoading(false);
-        }
-    }, [getStaffMembers]);
+        const before = findCachedRecord<StaffMember>(ENDPOINTS.staff.getAll, id);
+        const result = await optimisticMutation(
+            [optimisticChange(ENDPOINTS.staff.getAll, patchRecord<StaffMember>(id, member => ({ ...member, ...staffData })))],
+            () => StaffService.updateStaff(id, staffData, before),
+            'Staff changes were not saved'
+        );
+        return result.success;
+    }, []);
 
     const deleteStaff = useCallback(async (id: string): Promise<boolean> => {
-        try {
-            setLoading(true);
-            const response = await StaffService.deleteStaff(id);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            
-            // Refresh staff list after deletion
-            await getStaffMembers();
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to delete staff member');
-            return false;
-        } finally {
+        setLoading(true);
+        const response = await StaffService.deleteStaff(id);
+        if (response.error) {
+            setError(response.error);
             setLoading(false);
+            return false;
         }
+        
+        // Refresh staff list after deletion
+        await getStaffMembers();
+        setLoading(false);
+        return true;
     }, [getStaffMembers]);
 
     // Schedule management
@@ -150,18 +143,14 @@ export function useStaff(): UseStaffResult {
         startDate: string,
         endDate?: string
     ): Promise<Record<string, any>> => {
-        try {
-            const response = await StaffService.getStaffSchedule(id, startDate, endDate);
+        const response = await StaffService.getStaffSchedule(id, startDate, endDate);
             
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff schedule');
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+
+        return response.data || {};
     }, []);
 
     const updateStaffSchedule = useCallback(async (
@@ -169,187 +158,148 @@ export function useStaff(): UseStaffResult {
         date: string,
         shift: any
     ): Promise<boolean> => {
-        try {
-            const response = await StaffService.updateStaffSchedule(id, date, shift);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to update staff schedule');
+        const response = await StaffService.updateStaffSchedule(id, date, shift);
+        if (response.error) {
+            setError(response.error);
             return false;
         }
+        return true;
     }, []);
 
     const updateBulkSchedule = useCallback(async (
         id: string,
         scheduleData: Record<string, any>
     ): Promise<boolean> => {
-        try {
-            const response = await StaffService.updateBulkSchedule(id, scheduleData);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to update bulk schedule');
+        const response = await StaffService.updateBulkSchedule(id, scheduleData);
+        if (response.error) {
+            setError(response.error);
             return false;
         }
+        return true;
     }, []);
 
     // Status management
     const updateStaffStatus = useCallback(async (id: string, status: any): Promise<boolean> => {
-        try {
-            const response = await StaffService.updateStaffStatus(id, status);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            
-            // Refresh staff data to reflect status change
-            await getStaffMembers();
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to update staff status');
+        const response = await StaffService.updateStaffStatus(id, status);
+        if (response.error) {
+            setError(response.error);
             return false;
         }
+        
+        // Refresh staff data to reflect status change
+        await getStaffMembers();
+        return true;
     }, [getStaffMembers]);
 
     const toggleDutyStatus = useCallback(async (id: string, onDuty: boolean): Promise<boolean> => {
-        try {
-            const response = await StaffService.toggleDutyStatus(id, onDuty);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            
-            // Refresh staff data to reflect duty status change
-            await getStaffMembers();
-            return true;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to toggle duty status');
+        const before = findCachedRecord<StaffMember>(ENDPOINTS.staff.getAll, id);
+        const result = await optimisticMutation(
+            [optimisticChange(ENDPOINTS.staff.getAll, patchRecord<StaffMember>(id, member => ({
+                ...member,
+                currentStatus: { ...member.currentStatus, onDuty },
+            })))],
+            () => StaffService.toggleDutyStatus(id, onDuty, before),
+            onDuty ? 'Could not put staff member on duty' : 'Could not take staff member off duty'
+        );
+        return result.success;
+    }, []);
+
+    // Tasks
+    const updateTaskStatus = useCallback(async (id: string, taskId: string, status: TaskStatus): Promise<boolean> => {
+        const response = await StaffService.updateTaskStatus(id, taskId, status);
+        if (response.error) {
+            setError(response.error);
             return false;
         }
-    }, [getStaffMembers]);
+        return true;
+    }, []);
 
     // Advanced querying
     const getStaffStatistics = useCallback(async () => {
-        try {
-            console.log('🔄 Fetching staff statistics...');
-            const response = await StaffService.getStaffStatistics();
-            console.log('📊 Statistics API Response:', response);
-            
-            if (response.error) {
-                console.error('❌ Statistics API Error:', response.error);
-                throw new Error(response.error);
-            }
-            if (response.data) {
-                console.log('✅ Statistics data received:', response.data);
-                setStatistics(response.data);
-            } else {
-                console.warn('⚠️ No statistics data in response');
-            }
-        } catch (err) {
-            console.error('💥 Error in getStaffStatistics:', err);
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff statistics');
+        console.log('🔄 Fetching staff statistics...');
+        const response = await StaffService.getStaffStatistics();
+        console.log('📊 Statistics API Response:', response);
+        
+        if (response.error) {
+            console.error('❌ Statistics API Error:', response.error);
+            setError(response.error);
+        } else if (response.data) {
+            console.log('✅ Statistics data received:', response.data);
+            setStatistics(response.data);
+        } else {
+            console.warn('⚠️ No statistics data in response');
         }
     }, []);
 
     const getOnDutyStaff = useCallback(async (): Promise<Record<string, StaffMember>> => {
-        try {
-            const response = await StaffService.getOnDutyStaff();
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch on-duty staff');
+        const response = await StaffService.getOnDutyStaff();
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     const getStaffByWard = useCallback(async (
         wardId: string
     ): Promise<Record<string, StaffMember>> => {
-        try {
-            const response = await StaffService.getStaffByWard(wardId);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch ward staff');
+        const response = await StaffService.getStaffByWard(wardId);
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     const getStaffPatients = useCallback(async (id: string): Promise<Record<string, any>> => {
-        try {
-            const response = await StaffService.getStaffPatients(id);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff patients');
+        const response = await StaffService.getStaffPatients(id);
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     const getStaffLoad = useCallback(async (): Promise<Record<string, number>> => {
-        try {
-            const response = await StaffService.getStaffLoad();
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch staff load');
+        const response = await StaffService.getStaffLoad();
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     const getWorkloadHistory = useCallback(async (
         id: string,
         days: number = 7
     ): Promise<WorkloadHistory | null> => {
-        try {
-            const response = await StaffService.getWorkloadHistory(id, days);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || null;
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch workload history');
+        const response = await StaffService.getWorkloadHistory(id, days);
+        if (response.error) {
+            setError(response.error);
             return null;
         }
+        return response.data || null;
     }, []);
 
     const getDepartments = useCallback(async (): Promise<Record<string, Department>> => {
-        try {
-            const response = await StaffService.getDepartments();
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to fetch departments');
+        const response = await StaffService.getDepartments();
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     const searchStaff = useCallback(async (
         query: string,
         limit: number = 20
     ): Promise<Record<string, StaffMember>> => {
-        try {
-            const response = await StaffService.searchStaff(query, limit);
-            if (response.error) {
-                throw new Error(response.error);
-            }
-            return response.data || {};
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to search staff');
+        const response = await StaffService.searchStaff(query, limit);
+        if (response.error) {
+            setError(response.error);
             return {};
         }
+        return response.data || {};
     }, []);
 
     return {
@@ -367,6 +317,7 @@ export function useStaff(): UseStaffResult {
         updateBulkSchedule,
         updateStaffStatus,
         toggleDutyStatus,
+        updateTaskStatus,
         getStaffStatistics,
         getOnDutyStaff,
         getStaffByWard,
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { User } from '../auth';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { query, subscribeToQuery } from '../queryCache';
+
+/**
+ * Sign-in accounts as the backend reports them, with their two-factor state. Changes made through
+ * the auth endpoints refetch the list.
+ */
+export const useUserAccounts = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const load = useCallback(async (options: { force?: boolean } = {}) => {
+    setLoading(true);
+    setError(null);
+    const response = await query<User[]>(ENDPOINTS.auth.users, options);
+    if (response.error) {
+      setError(response.error);
+    } else {
+      setUsers(response.data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToQuery<User[]>(ENDPOINTS.auth.users, data => setUsers(data || []));
+  }, [load]);
+
+  return { users, loading, error, refresh: () => load({ force: true }) };
+};
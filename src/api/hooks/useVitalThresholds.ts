@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { ENDPOINTS } from '../config';
+import { ApiError } from '../errors';
+import { getCachedQuery, query, subscribeToQuery } from '../queryCache';
+import { EMPTY_VITAL_THRESHOLDS, VitalThresholds } from '../vitalThresholds';
+
+/**
+ * Vital sign thresholds of the wards and patients. Until they have loaded, or when they cannot be,
+ * the built-in rules apply to everyone.
+ */
+export const useVitalThresholds = () => {
+  const [thresholds, setThresholds] = useState<VitalThresholds | null>(
+    () => getCachedQuery<VitalThresholds>(ENDPOINTS.settings.vitalThresholds) ?? null
+  );
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    query<VitalThresholds>(ENDPOINTS.settings.vitalThresholds).then(response => {
+      if (cancelled) return;
+      if (response.error) {
+        setError(response.error);
+      } else if (response.data) {
+        setThresholds(response.data);
+      }
+    });
+    const unsubscribe = subscribeToQuery<VitalThresholds>(ENDPOINTS.settings.vitalThresholds, data => {
+      if (data) setThresholds(data);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { thresholds: thresholds ?? EMPTY_VITAL_THRESHOLDS, loaded: thresholds !== null, error };
+};
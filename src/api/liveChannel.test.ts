@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getBackoffDelay } from './api';
+import { DEFAULT_RETRY_POLICY } from './config';
+import { LiveChannel, LiveEvent } from './liveChannel';
+
+const LIVE_URL = 'http://live.test';
+// Same as the channel's own reconnect policy
+const RECONNECT_POLICY = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+class FakeWebSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = FakeWebSocket.CONNECTING;
+    sent: Array<Record<string, unknown>> = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((message: { data: unknown }) => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(readonly url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string) {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+        this.readyState = FakeWebSocket.CLOSED;
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+    }
+
+    receive(message: Record<string, unknown>) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+
+    // Refused or lost, as far as the page can tell
+    drop() {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onclose?.();
+    }
+}
+
+class FakeEventSource {
+    static instances: FakeEventSource[] = [];
+
+    closed = false;
+    onopen: (() => void) | null = null;
+    onmessage: ((message: { data: unknown }) => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    constructor(readonly url: string) {
+        FakeEventSource.instances.push(this);
+    }
+
+    close() {
+        this.closed = true;
+    }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const alertMessage = (alertId: string, timestamp: string) => ({
+    type: 'alert',
+    deviceId: 'vitals_monitor_004',
+    alertId,
+    timestamp,
+    alert: { type: 'critical', message: 'SpO2 below 88%', timestamp, resolved: false },
+});
+
+describe('LiveChannel', () => {
+    beforeEach(() => {
+        FakeWebSocket.instances = [];
+        FakeEventSource.instances = [];
+        vi.stubGlobal('WebSocket', FakeWebSocket);
+        vi.stubGlobal('EventSource', FakeEventSource);
+        vi.useFakeTimers();
+        // Lower end of the jittered backoff, so delays are exact
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('connects on the first subscription and delivers matching events', () => {
+        const channel = new LiveChannel('websocket', LIVE_URL);
+        const events: LiveEvent[] = [];
+        channel.subscribe({ kind: 'device', id: 'vitals_monitor_004' }, event => events.push(event));
+
+        expect(FakeWebSocket.instances).toHaveLength(1);
+        expect(latestSocket().url).toMatch(/^ws:\/\/live\.test\/live\/ws/);
+        expect(channel.getStatus()).toBe('connecting');
+
+        latestSocket().open();
+        expect(channel.getStatus()).toBe('live');
+        expect(latestSocket().sent).toEqual([{ type: 'subscribe', topics: ['device:vitals_monitor_004'] }]);
+
+        latestSocket().receive(alertMessage('low_spo2', '2025-03-10T12:00:00'));
+        latestSocket().receive({ ...alertMessage('other', '2025-03-10T12:00:00'), deviceId: 'vitals_monitor_001' });
+        expect(events).toEqual([expect.objectContaining({ type: 'alert', alertId: 'low_spo2' })]);
+    });
+
+    it('backs off further after each failed attempt and starts over once connected', () => {
+        const channel = new LiveChannel('websocket', LIVE_URL);
+        channel.subscribe({ kind: 'alerts' }, () => {});
+
+        latestSocket().drop();
+        expect(channel.getStatus()).toBe('connecting');
+        vi.advanceTimersByTime(getBackoffDelay(1, RECONNECT_POLICY) - 1);
+        expect(FakeWebSocket.instances).toHaveLength(1);
+        vi.advanceTimersByTime(1);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+
+        latestSocket().drop();
+        vi.advanceTimersByTime(getBackoffDelay(2, RECONNECT_POLICY) - 1);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        vi.advanceTimersByTime(1);
+        expect(FakeWebSocket.instances).toHaveLength(3);
+
+        latestSocket().open();
+        expect(channel.getStatus()).toBe('live');
+
+        // A dropped live connection is retried after the shortest delay again
+        latestSocket().drop();
+        expect(channel.getStatus()).toBe('connecting');
+        vi.advanceTimersByTime(getBackoffDelay(1, RECONNECT_POLICY));
+        expect(FakeWebSocket.instances).toHaveLength(4);
+    });
+
+    it('resubscribes after a reconnect, asking for what was missed', () => {
+        const channel = new LiveChannel('websocket', LIVE_URL);
+        channel.subscribe({ kind: 'alerts', severity: 'critical' }, () => {});
+        channel.subscribe({ kind: 'room', id: 'room_201' }, () => {});
+        latestSocket().open();
+        latestSocket().receive(alertMessage('low_spo2', '2025-03-10T12:00:00'));
+
+        latestSocket().drop();
+        vi.advanceTimersByTime(getBackoffDelay(1, RECONNECT_POLICY));
+        latestSocket().open();
+
+        expect(latestSocket().sent).toEqual([{
+            type: 'subscribe',
+            topics: ['alerts:critical', 'room:room_201'],
+            since: '2025-03-10T12:00:00',
+        }]);
+    });
+
+    it('falls back to server-sent events after repeated WebSocket failures, then to polling', () => {
+        const channel = new LiveChannel('auto', LIVE_URL);
+        channel.subscribe({ kind: 'patient', id: 'patient_004' }, () => {});
+
+        latestSocket().drop();
+        vi.advanceTimersByTime(getBackoffDelay(1, RECONNECT_POLICY));
+        latestSocket().drop();
+        vi.advanceTimersByTime(getBackoffDelay(2, RECONNECT_POLICY));
+        expect(FakeEventSource.instances).toHaveLength(0);
+        latestSocket().drop();
+        vi.advanceTimersByTime(0);
+
+        expect(FakeWebSocket.instances).toHaveLength(3);
+        expect(FakeEventSource.instances).toHaveLength(1);
+        const stream = new URL(FakeEventSource.instances[0].url);
+        expect(stream.pathname).toBe('/live/stream');
+        expect(stream.searchParams.get('topics')).toBe('patient:patient_004');
+
+        // Neither transport gets through: poll for a while, then try the WebSocket again
+        FakeEventSource.instances[0].onerror?.();
+        vi.advanceTimersByTime(getBackoffDelay(1, RECONNECT_POLICY));
+        FakeEventSource.instances[1].onerror?.();
+        vi.advanceTimersByTime(getBackoffDelay(2, RECONNECT_POLICY));
+        FakeEventSource.instances[2].onerror?.();
+        expect(FakeEventSource.instances).toHaveLength(3);
+        expect(channel.getStatus()).toBe('polling');
+        expect(FakeWebSocket.instances).toHaveLength(3);
+        vi.advanceTimersByTime(60000);
+        expect(FakeWebSocket.instances).toHaveLength(4);
+    });
+});
@@ -0,0 +1,405 @@
+import { getBackoffDelay, RetryPolicy } from './api';
+import { authAPI } from './auth';
+import { DEFAULT_RETRY_POLICY, LIVE_HEARTBEAT_MS, LIVE_TRANSPORT, LIVE_URL, LiveTransport } from './config';
+import { getFacilityId, subscribeToFacility } from './facility';
+import { EnvironmentalReading, IoTDevice, VitalReading } from './types';
+import { validateLiveAlert, validateLiveReading } from './validation';
+import { compareTimestampsDesc } from '../utils/dateUtils';
+
+/*
+ * Push channel for vitals and alerts, replacing the polling hooks while it is connected.
+ *
+ * WebSocket `${LIVE_URL}/live/ws`, client messages:
+ *   { type: 'subscribe' | 'unsubscribe', topics: string[], since?: string }
+ *   { type: 'ping' }
+ * Server-Sent Events `${LIVE_URL}/live/stream?topics=a,b&since=...` for networks that block
+ * WebSockets; the stream is reopened when the topics change.
+ *
+ * Topics are `device:<id>`, `patient:<id>`, `room:<id>` and `alerts:<severity>` or `alerts:*`.
+ * Both transports deliver the same JSON messages:
+ *   { type: 'vitals', deviceId, patientId?, roomId?, timestamp, reading }
+ *   { type: 'alert', deviceId, alertId, patientId?, roomId?, deviceType?, timestamp, alert }
+ *   { type: 'pong' | 'heartbeat' }
+ * `since` is the newest event timestamp received, so the server can replay what was missed.
+ * The auth token travels as a `token` query parameter because neither browser API sets headers,
+ * and so does the `facility` whose events are wanted.
+ */
+
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'polling';
+
+type AlertSeverity = IoTDevice['alerts'][string]['type'];
+
+export type LiveSubscription =
+    | { kind: 'device'; id: string }
+    | { kind: 'patient'; id: string }
+    | { kind: 'room'; id: string }
+    // All alerts when no severity is given
+    | { kind: 'alerts'; severity?: AlertSeverity };
+
+export interface LiveVitalsEvent {
+    type: 'vitals';
+    deviceId: string;
+    patientId?: string;
+    roomId?: string;
+    timestamp: string;
+    reading: VitalReading | EnvironmentalReading;
+}
+
+export interface LiveAlertEvent {
+    type: 'alert';
+    deviceId: string;
+    alertId: string;
+    patientId?: string;
+    roomId?: string;
+    deviceType?: IoTDevice['deviceInfo']['type'];
+    timestamp: string;
+    alert: IoTDevice['alerts'][string];
+}
+
+export type LiveEvent = LiveVitalsEvent | LiveAlertEvent;
+
+type LiveListener = (event: LiveEvent) => void;
+type Transport = 'websocket' | 'sse';
+
+// Reported as the endpoint of malformed pushed records in the diagnostics view
+const LIVE_SOURCE = '/live';
+// Consecutive failed connection attempts before moving on to the next transport
+const MAX_FAILED_ATTEMPTS = 3;
+// How long to stay on polling before trying the channel again
+const RETRY_LIVE_AFTER_MS = 60000;
+// Keeps the connection through a quick unsubscribe/subscribe, e.g. React remounting a view
+const IDLE_DISCONNECT_MS = 1000;
+
+const RECONNECT_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export const topicOf = (subscription: LiveSubscription): string =>
+    subscription.kind === 'alerts' ? `alerts:${subscription.severity ?? '*'}` : `${subscription.kind}:${subscription.id}`;
+
+const matches = (subscription: LiveSubscription, event: LiveEvent): boolean => {
+    switch (subscription.kind) {
+        case 'device':
+            return event.deviceId === subscription.id;
+        case 'patient':
+            return event.patientId === subscription.id;
+        case 'room':
+            return event.roomId === subscription.id;
+        case 'alerts':
+            return event.type === 'alert' && (!subscription.severity || event.alert.type === subscription.severity);
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+/**
+ * Turn a pushed message into an event, or null for control messages and malformed records
+ */
+const parseEvent = (message: Record<string, unknown>): LiveEvent | null => {
+    const deviceId = optionalString(message.deviceId);
+    if (!deviceId) return null;
+
+    const common = {
+        deviceId,
+        patientId: optionalString(message.patientId),
+        roomId: optionalString(message.roomId),
+    };
+
+    if (message.type === 'vitals') {
+        const timestamp = optionalString(message.timestamp);
+        const reading = validateLiveReading(message.reading, LIVE_SOURCE, deviceId, timestamp);
+        if (!reading) return null;
+        return { type: 'vitals', ...common, timestamp: timestamp ?? reading.timestamp, reading };
+    }
+
+    if (message.type === 'alert') {
+        const alertId = optionalString(message.alertId);
+        if (!alertId) return null;
+        const alert = validateLiveAlert(message.alert, LIVE_SOURCE, alertId);
+        if (!alert) return null;
+        return {
+            type: 'alert',
+            ...common,
+            alertId,
+            deviceType: optionalString(message.deviceType) as LiveAlertEvent['deviceType'],
+            timestamp: optionalString(message.timestamp) ?? alert.timestamp,
+            alert,
+        };
+    }
+    return null;
+};
+
+export class LiveChannel {
+    private status: LiveStatus;
+    private statusListeners = new Set<() => void>();
+    private subscriptions = new Map<number, { subscription: LiveSubscription; listener: LiveListener }>();
+    private nextSubscriptionId = 1;
+
+    private socket: WebSocket | null = null;
+    private eventSource: EventSource | null = null;
+    private transports: Transport[];
+    private transportIndex = 0;
+    private failedAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+    private lastMessageAt = 0;
+    private lastEventTimestamp: string | null = null;
+    private sentTopics = new Set<string>();
+
+    constructor(transport: LiveTransport = LIVE_TRANSPORT, private readonly baseUrl = LIVE_URL) {
+        this.status = transport === 'off' ? 'off' : 'polling';
+        this.transports = transport === 'auto' ? ['websocket', 'sse'] : transport === 'off' ? [] : [transport];
+    }
+
+    getStatus = (): LiveStatus => this.status;
+
+    /**
+     * Subscribe to status changes. Returns a function that unsubscribes again.
+     */
+    subscribeToStatus = (listener: () => void): (() => void) => {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    };
+
+    /**
+     * Receive pushed events matching `subscription`. The channel connects on the first
+     * subscription and disconnects shortly after the last one is removed.
+     * Returns a function that unsubscribes again.
+     */
+    subscribe = (subscription: LiveSubscription, listener: LiveListener): (() => void) => {
+        const id = this.nextSubscriptionId++;
+        this.subscriptions.set(id, { subscription, listener });
+        this.topicsChanged();
+        return () => {
+            this.subscriptions.delete(id);
+            this.topicsChanged();
+        };
+    };
+
+    /**
+     * Reconnect for the facility now selected. Events of the previous one are not replayed.
+     */
+    changeFacility = () => {
+        this.lastEventTimestamp = null;
+        if (!this.socket && !this.eventSource) return;
+        this.closeTransports();
+        this.connect();
+    };
+
+    private setStatus(status: LiveStatus) {
+        if (this.status === status) return;
+        console.log(`📡 Live channel: ${status}`);
+        this.status = status;
+        this.statusListeners.forEach(listener => listener());
+    }
+
+    private get topics(): string[] {
+        return [...new Set([...this.subscriptions.values()].map(({ subscription }) => topicOf(subscription)))];
+    }
+
+    private topicsChanged() {
+        if (this.transports.length === 0) return;
+
+        if (this.subscriptions.size === 0) {
+            if (!this.idleTimer) {
+                this.idleTimer = setTimeout(() => {
+                    this.idleTimer = null;
+                    if (this.subscriptions.size === 0) this.disconnect();
+                }, IDLE_DISCONNECT_MS);
+            }
+            return;
+        }
+
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.syncSocketTopics();
+        } else if (this.eventSource) {
+            // An event stream cannot change its topics, so it is reopened with the new list
+            this.closeTransports();
+            this.connect();
+        } else if (!this.socket && !this.reconnectTimer) {
+            this.connect();
+        }
+    }
+
+    private buildUrl(path: string, params: Record<string, string | undefined>): string {
+        const url = new URL(`${this.baseUrl.replace(/\/+$/, '')}${path}`);
+        Object.entries(params).forEach(([key, value]) => {
+            if (value) url.searchParams.set(key, value);
+        });
+        return url.toString();
+    }
+
+    private connect() {
+        const transport = this.transports[this.transportIndex];
+        if (!transport) return;
+
+        this.setStatus('connecting');
+        const token = authAPI.getToken() ?? undefined;
+        const facility = getFacilityId() ?? undefined;
+        const since = this.lastEventTimestamp ?? undefined;
+
+        try {
+            if (transport === 'websocket') {
+                const url = this.buildUrl('/live/ws', { token, facility }).replace(/^http/, 'ws');
+                const socket = new WebSocket(url);
+                this.socket = socket;
+                this.sentTopics = new Set();
+                socket.onopen = () => {
+                    this.handleOpen();
+                    this.syncSocketTopics(since);
+                };
+                socket.onmessage = (message) => this.handleMessage(message.data);
+                socket.onclose = () => {
+                    if (this.socket === socket) this.handleDrop();
+                };
+            } else {
+                const url = this.buildUrl('/live/stream', { topics: this.topics.join(','), since, token, facility });
+                const eventSource = new EventSource(url);
+                this.eventSource = eventSource;
+                eventSource.onopen = () => this.handleOpen();
+                eventSource.onmessage = (message) => this.handleMessage(message.data);
+                // EventSource would retry on its own; reconnects are handled here for both transports
+                eventSource.onerror = () => {
+                    if (this.eventSource === eventSource) this.handleDrop();
+                };
+            }
+        } catch (error) {
+            console.warn(`📡 Live channel: could not open ${transport}:`, error);
+            this.handleDrop();
+        }
+    }
+
+    private handleOpen() {
+        this.failedAttempts = 0;
+        this.lastMessageAt = Date.now();
+        this.startHeartbeat();
+        this.setStatus('live');
+    }
+
+    private syncSocketTopics(since?: string) {
+        const socket = this.socket;
+        if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+        const topics = new Set(this.topics);
+        const added = [...topics].filter(topic => !this.sentTopics.has(topic));
+        const removed = [...this.sentTopics].filter(topic => !topics.has(topic));
+        if (added.length > 0) socket.send(JSON.stringify({ type: 'subscribe', topics: added, since }));
+        if (removed.length > 0) socket.send(JSON.stringify({ type: 'unsubscribe', topics: removed }));
+        this.sentTopics = topics;
+    }
+
+    private handleMessage(data: unknown) {
+        this.lastMessageAt = Date.now();
+        if (typeof data !== 'string') return;
+
+        let message: unknown;
+        try {
+            message = JSON.parse(data);
+        } catch {
+            console.warn('📡 Live channel: ignoring a message that is not JSON');
+            return;
+        }
+        if (!isObject(message)) return;
+
+        const event = parseEvent(message);
+        if (!event) return;
+
+        if (!this.lastEventTimestamp || compareTimestampsDesc(event.timestamp, this.lastEventTimestamp) < 0) {
+            this.lastEventTimestamp = event.timestamp;
+        }
+        this.subscriptions.forEach(({ subscription, listener }) => {
+            if (matches(subscription, event)) listener(event);
+        });
+    }
+
+    private startHeartbeat() {
+        this.stopHeartbeat();
+        this.heartbeatTimer = setInterval(() => {
+            if (Date.now() - this.lastMessageAt > LIVE_HEARTBEAT_MS * 3) {
+                console.warn('📡 Live channel: no traffic, reconnecting');
+                this.handleDrop();
+                return;
+            }
+            if (this.socket?.readyState === WebSocket.OPEN) {
+                this.socket.send(JSON.stringify({ type: 'ping' }));
+            }
+        }, LIVE_HEARTBEAT_MS);
+    }
+
+    private stopHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    private closeTransports() {
+        this.stopHeartbeat();
+        const socket = this.socket;
+        const eventSource = this.eventSource;
+        this.socket = null;
+        this.eventSource = null;
+        socket?.close();
+        eventSource?.close();
+    }
+
+    /**
+     * Connection lost or never established: back off and retry, moving to the next transport
+     * after repeated failures and to polling when none of them works.
+     */
+    private handleDrop() {
+        const wasLive = this.status === 'live';
+        this.closeTransports();
+        if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+        if (!wasLive) {
+            this.failedAttempts += 1;
+        }
+
+        let delay: number;
+        if (this.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+            this.failedAttempts = 0;
+            this.transportIndex += 1;
+            if (this.transportIndex >= this.transports.length) {
+                this.transportIndex = 0;
+                this.setStatus('polling');
+                delay = RETRY_LIVE_AFTER_MS;
+            } else {
+                delay = 0;
+            }
+        } else {
+            this.setStatus('connecting');
+            delay = getBackoffDelay(Math.max(1, this.failedAttempts), RECONNECT_POLICY);
+        }
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.subscriptions.size > 0) this.connect();
+        }, delay);
+    }
+
+    private disconnect() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.closeTransports();
+        this.failedAttempts = 0;
+        this.transportIndex = 0;
+        this.setStatus('polling');
+    }
+}
+
+// Single shared channel, like the API client
+export const liveChannel = new LiveChannel();
+
+subscribeToFacility(liveChannel.changeFacility);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { escalationStatus } from '../escalation';
+import { fetchAlert, minutesAfter, raiseAlert, setupMockBackend } from '../../test/mockServer';
+
+// Monitors of Robert Miller in the ICU and of Patricia Davis on the general ward
+const ICU_MONITOR = 'vitals_monitor_001';
+const GENERAL_MONITOR = 'vitals_monitor_004';
+const ALERT_ID = 'escalation-test';
+
+describe('Mock alert escalation', () => {
+    const server = setupMockBackend('staff@hospital.com');
+
+    it('goes to the charge nurse and then the on-call doctor when nobody acknowledges', async () => {
+        raiseAlert(server.backend, GENERAL_MONITOR, ALERT_ID);
+        server.backend.escalateAlerts(minutesAfter(1));
+        expect(escalationStatus(await fetchAlert(GENERAL_MONITOR, ALERT_ID))).toEqual(expect.objectContaining({
+            state: 'open',
+            dueAt: minutesAfter(5).getTime(),
+        }));
+
+        server.backend.escalateAlerts(minutesAfter(6));
+        const escalated = await fetchAlert(GENERAL_MONITOR, ALERT_ID);
+        expect(escalated.escalationHistory).toEqual([
+            { target: 'charge_nurse', staffId: 'staff_004', staffName: 'James Okafor', escalatedAt: minutesAfter(5).toISOString() },
+        ]);
+        expect(escalated.escalationDueAt).toBe(minutesAfter(10).toISOString());
+
+        server.backend.escalateAlerts(minutesAfter(30));
+        const exhausted = await fetchAlert(GENERAL_MONITOR, ALERT_ID);
+        expect(exhausted.escalationHistory?.map(step => step.staffName)).toEqual(['James Okafor', 'Dr. Laura Gomez']);
+        expect(exhausted.escalationHistory?.[1].escalatedAt).toBe(minutesAfter(10).toISOString());
+        expect(exhausted.escalationDueAt).toBeUndefined();
+    });
+
+    it('applies the rules of the ward', async () => {
+        raiseAlert(server.backend, ICU_MONITOR, ALERT_ID);
+        server.backend.escalateAlerts(minutesAfter(3));
+
+        expect((await fetchAlert(ICU_MONITOR, ALERT_ID)).escalationHistory).toEqual([
+            expect.objectContaining({ target: 'charge_nurse', staffName: 'Emma Wilson', escalatedAt: minutesAfter(2).toISOString() }),
+        ]);
+    });
+
+    it('never escalates alerts whose rule says so', async () => {
+        raiseAlert(server.backend, GENERAL_MONITOR, ALERT_ID, 'info');
+        server.backend.escalateAlerts(minutesAfter(120));
+
+        const alert = await fetchAlert(GENERAL_MONITOR, ALERT_ID);
+        expect(alert.escalationHistory).toBeUndefined();
+        expect(escalationStatus(alert).dueAt).toBeNull();
+    });
+});
@@ -0,0 +1,82 @@
+import {
+    AlertSeverity,
+    ESCALATION_CHAIN,
+    EscalationPolicy,
+    EscalationRule,
+    EscalationTarget,
+} from '../escalation';
+import { IoTDevice, StaffMember } from '../types';
+import { toTimestampMs } from '../../utils/dateUtils';
+
+// How the mock backend runs alert escalation deadlines, which the real backend does on its own:
+// which rule applies, who each step goes to and which steps fell due.
+
+type DeviceAlert = IoTDevice['alerts'][string];
+
+/**
+ * Rule for an alert of `severity` in `ward`; the ward's own rule wins over the severity's
+ */
+export const escalationRule = (policy: EscalationPolicy, severity: AlertSeverity, ward?: string): EscalationRule =>
+    (ward ? policy.wards[ward]?.[severity] : undefined) ?? policy.severities[severity];
+
+/**
+ * Who an alert in `ward` goes to at `target` on `day` (YYYY-MM-DD): a nurse scheduled on the ward
+ * for the charge nurse, a doctor on an on-call shift for the on-call doctor, preferring the ward's
+ * own. Staff on duty right now come first. Null when the schedule has nobody for the role.
+ */
+export const findEscalationStaff = (
+    target: EscalationTarget,
+    ward: string | undefined,
+    staff: Record<string, StaffMember>,
+    day: string
+): [string, StaffMember] | null => {
+    const candidates = Object.entries(staff).filter(([, member]) => {
+        const shift = member.schedule?.[day];
+        if (!shift) return false;
+        return target === 'charge_nurse'
+            ? member.personalInfo.role === 'nurse' && shift.ward === ward
+            : member.personalInfo.role === 'doctor' && shift.shiftType === 'on-call';
+    });
+    const rank = ([, member]: [string, StaffMember]) =>
+        (member.currentStatus?.onDuty ? 0 : 2) + (member.schedule[day].ward === ward ? 0 : 1);
+    return candidates.sort((a, b) => rank(a) - rank(b))[0] ?? null;
+};
+
+/**
+ * The alert after every escalation step that fell due by `now`, with the deadline of the next one.
+ * Steps are dated when they fell due, so an alert checked late still shows when each one happened.
+ * Acknowledged, resolved and snoozed alerts are left as they are.
+ */
+export const escalateAlert = (
+    alert: DeviceAlert,
+    rule: EscalationRule,
+    now: Date,
+    findStaff: (target: EscalationTarget) => [string, StaffMember] | null
+): DeviceAlert => {
+    if (alert.resolved || alert.acknowledged || alert.suppressedBy) return alert;
+    if (rule.acknowledge_minutes === null) return { ...alert, escalationDueAt: undefined };
+
+    const history = [...(alert.escalationHistory ?? [])];
+    const stepMs = rule.acknowledge_minutes * 60 * 1000;
+    const latest = history[history.length - 1];
+    let due = toTimestampMs(latest ? latest.escalatedAt : alert.timestamp) + stepMs;
+    if (Number.isNaN(due)) return alert;
+
+    while (history.length < ESCALATION_CHAIN.length && due <= now.getTime()) {
+        const target = ESCALATION_CHAIN[history.length];
+        const found = findStaff(target);
+        history.push({
+            target,
+            staffId: found?.[0],
+            staffName: found?.[1].personalInfo.name,
+            escalatedAt: new Date(due).toISOString(),
+        });
+        due += stepMs;
+    }
+
+    return {
+        ...alert,
+        escalationHistory: history,
+        escalationDueAt: history.length < ESCALATION_CHAIN.length ? new Date(due).toISOString() : undefined,
+    };
+};
@@ -0,0 +1,503 @@
+import type { AlertSuppression } from '../alertSuppression';
+import type { AuditEntry } from '../audit';
+import type { EmergencyAccessGrant } from '../emergencyAccess';
+import { DEFAULT_ESCALATION_POLICY, EscalationPolicy } from '../escalation';
+import type { Facility } from '../facility';
+import type { MfaPolicy, User } from '../auth';
+import type { Bed } from '../hooks/useBeds';
+import { DEFAULT_PRIVACY_POLICY, PrivacyPolicy } from '../privacy';
+import type { Room } from '../hooks/useRooms';
+import { IoTDevice, Patient, StaffMember } from '../types';
+import type { VitalThresholds } from '../vitalThresholds';
+import { toBackendTimestamp, toDateInputValue } from '../../utils/dateUtils';
+
+// Starting data of the mock backend: a small hospital with two ICU beds, an ER, a general ward
+// and an isolation room, the staff working there and one monitor per occupied bed, plus a second,
+// smaller site of the same group. Everything is built from `now` so fixtures always look current.
+
+export type PatientTrend = 'stable' | 'deteriorating' | 'improving';
+
+export interface MockDatabase {
+    users: Record<string, User>;
+    // Kept apart from the users, which are returned as they are
+    passwords: Record<string, string>;
+    patients: Record<string, Patient>;
+    staff: Record<string, StaffMember>;
+    rooms: Record<string, Room>;
+    beds: Record<string, Bed>;
+    devices: Record<string, IoTDevice>;
+    // Rules snoozing alerts, by id; lifted ones are removed
+    alertSuppressions: Record<string, AlertSuppression>;
+    facilities: Record<string, Facility>;
+    // Facility of each patient, staff member, room, bed, device and alert suppression, by id
+    facilityOf: Record<string, string>;
+    // How each patient's condition develops in the vitals simulator
+    trends: Record<string, PatientTrend>;
+    // Current severity per patient, 0 (well) to 1 (peri-arrest), driven by the simulator
+    severity: Record<string, number>;
+    // Audit entries uploaded by clients, oldest first
+    audit: AuditEntry[];
+    // Second factor per user id; enabled once the first code was confirmed
+    mfa: Record<string, { secret: string; enabled: boolean; backupCodes: string[]; enrolledAt?: string }>;
+    mfaPolicy: MfaPolicy;
+    privacyPolicy: PrivacyPolicy;
+    escalationPolicy: EscalationPolicy;
+    vitalThresholds: VitalThresholds;
+    // Emergency access granted, oldest first
+    emergencyAccess: Array<EmergencyAccessGrant & { endedAt?: string }>;
+}
+
+// Password of every fixture account
+export const MOCK_PASSWORD = 'password';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysFrom = (now: Date, days: number) => new Date(now.getTime() + days * DAY_MS);
+
+// The first one is where accounts without facility_ids work
+export const FACILITIES: Facility[] = [
+    {
+        id: 'central',
+        name: 'Central Hospital',
+        short_name: 'Central',
+        accent_color: '#2563eb',
+        wards: ['ICU', 'ER', 'General', 'Isolation', 'Cardiology', 'Neurology', 'Surgery'],
+        room_types: ['general', 'ICU', 'ER', 'surgery', 'isolation'],
+    },
+    {
+        id: 'northside',
+        name: 'Northside Community Hospital',
+        short_name: 'Northside',
+        accent_color: '#0d9488',
+        wards: ['General', 'Surgery', 'Maternity', 'Pediatrics'],
+        room_types: ['general', 'surgery'],
+    },
+];
+
+const USERS: Array<Omit<User, 'created_at'>> = [
+    {
+        id: 'admin-1',
+        email: 'admin@hospital.com',
+        first_name: 'Sarah',
+        last_name: 'Johnson',
+        role: 'admin',
+        department: 'Administration',
+        status: 'active',
+        staff_id: 'staff_003',
+        facility_ids: ['central', 'northside'],
+    },
+    {
+        id: 'doctor-1',
+        email: 'doctor@hospital.com',
+        first_name: 'Michael',
+        last_name: 'Chen',
+        role: 'doctor',
+        department: 'Cardiology',
+        specialization: 'Interventional Cardiology',
+        status: 'active',
+        staff_id: 'staff_001',
+        facility_ids: ['central'],
+    },
+    {
+        id: 'staff-1',
+        email: 'staff@hospital.com',
+        first_name: 'Emma',
+        last_name: 'Wilson',
+        role: 'staff',
+        department: 'ICU',
+        specialization: 'Critical Care Nursing',
+        status: 'active',
+        staff_id: 'staff_002',
+        facility_ids: ['central'],
+    },
+    {
+        id: 'tech-1',
+        email: 'p.patel@hospital.com',
+        first_name: 'Priya',
+        last_name: 'Patel',
+        role: 'staff',
+        department: 'Biomedical Engineering',
+        specialization: 'Medical Devices',
+        status: 'active',
+        staff_id: 'staff_006',
+        // Looks after the equipment of both sites
+        facility_ids: ['central', 'northside'],
+    },
+    // Signed up on the login screen, waiting for an admin
+    {
+        id: 'signup-1',
+        email: 'j.okafor@hospital.com',
+        first_name: 'James',
+        last_name: 'Okafor',
+        role: 'staff',
+        department: 'General Medicine',
+        status: 'pending',
+    },
+];
+
+type RoomSeed = Pick<Room, 'roomId' | 'roomType' | 'floor' | 'capacity' | 'description'> & { beds: string[]; facility: string };
+
+const ROOMS: RoomSeed[] = [
+    { roomId: 'room_101', roomType: 'ICU', floor: 1, capacity: 2, description: 'Cardiac ICU', beds: ['A', 'B'], facility: 'central' },
+    { roomId: 'room_102', roomType: 'ER', floor: 1, capacity: 2, description: 'Emergency bay', beds: ['A', 'B'], facility: 'central' },
+    { roomId: 'room_201', roomType: 'general', floor: 2, capacity: 3, description: 'General medicine', beds: ['A', 'B', 'C'], facility: 'central' },
+    { roomId: 'room_202', roomType: 'isolation', floor: 2, capacity: 1, description: 'Negative pressure isolation', beds: ['A'], facility: 'central' },
+    { roomId: 'room_n101', roomType: 'general', floor: 1, capacity: 2, description: 'Medical ward', beds: ['A', 'B'], facility: 'northside' },
+    { roomId: 'room_n102', roomType: 'surgery', floor: 1, capacity: 1, description: 'Day surgery recovery', beds: ['A'], facility: 'northside' },
+];
+
+interface PatientSeed {
+    id: string;
+    name: string;
+    age: number;
+    gender: string;
+    ward: string;
+    roomId: string;
+    bed: string;
+    admittedDaysAgo: number;
+    diagnosis: string;
+    admissionReason: string;
+    conditions: string[];
+    medications: Array<{ name: string; dosage: string; frequency: string }>;
+    allergies: string[];
+    trend: PatientTrend;
+    severity: number;
+    factors: string[];
+}
+
+const PATIENTS: PatientSeed[] = [
+    {
+        id: 'patient_001', name: 'Robert Miller', age: 67, gender: 'Male', ward: 'ICU', roomId: 'room_101', bed: 'A',
+        admittedDaysAgo: 3, diagnosis: 'Community-acquired pneumonia with sepsis', admissionReason: 'Fever and shortness of breath',
+        conditions: ['COPD', 'Type 2 diabetes'],
+        medications: [
+            { name: 'Piperacillin-tazobactam', dosage: '4.5 g', frequency: 'Every 6 hours' },
+            { name: 'Insulin glargine', dosage: '18 units', frequency: 'Nightly' },
+        ],
+        allergies: ['Penicillin (mild rash)'], trend: 'deteriorating', severity: 0.35,
+        factors: ['Falling oxygen saturation', 'Rising respiratory rate', 'Age over 65'],
+    },
+    {
+        id: 'patient_002', name: 'Linda Garcia', age: 58, gender: 'Female', ward: 'ICU', roomId: 'room_101', bed: 'B',
+        admittedDaysAgo: 5, diagnosis: 'Post-operative CABG', admissionReason: 'Elective coronary bypass',
+        conditions: ['Coronary artery disease', 'Hypertension'],
+        medications: [
+            { name: 'Aspirin', dosage: '81 mg', frequency: 'Daily' },
+            { name: 'Metoprolol', dosage: '25 mg', frequency: 'Twice daily' },
+        ],
+        allergies: [], trend: 'stable', severity: 0.2,
+        factors: ['Recent cardiac surgery'],
+    },
+    {
+        id: 'patient_003', name: 'James Thompson', age: 34, gender: 'Male', ward: 'ER', roomId: 'room_102', bed: 'A',
+        admittedDaysAgo: 0, diagnosis: 'Diabetic ketoacidosis', admissionReason: 'Vomiting and confusion',
+        conditions: ['Type 1 diabetes'],
+        medications: [{ name: 'Insulin infusion', dosage: '0.1 units/kg/h', frequency: 'Continuous' }],
+        allergies: ['Sulfa drugs'], trend: 'improving', severity: 0.55,
+        factors: ['Metabolic acidosis', 'Elevated glucose'],
+    },
+    {
+        id: 'patient_004', name: 'Patricia Davis', age: 45, gender: 'Female', ward: 'General', roomId: 'room_201', bed: 'A',
+        admittedDaysAgo: 2, diagnosis: 'Cellulitis of the left leg', admissionReason: 'Spreading redness and fever',
+        conditions: ['Obesity'],
+        medications: [{ name: 'Cefazolin', dosage: '2 g', frequency: 'Every 8 hours' }],
+        allergies: [], trend: 'stable', severity: 0.1,
+        factors: ['Localized infection'],
+    },
+    {
+        id: 'patient_005', name: 'William Brown', age: 81, gender: 'Male', ward: 'General', roomId: 'room_201', bed: 'B',
+        admittedDaysAgo: 4, diagnosis: 'Congestive heart failure exacerbation', admissionReason: 'Worsening leg swelling and breathlessness',
+        conditions: ['Heart failure', 'Atrial fibrillation', 'Chronic kidney disease'],
+        medications: [
+            { name: 'Furosemide', dosage: '40 mg', frequency: 'Twice daily' },
+            { name: 'Apixaban', dosage: '2.5 mg', frequency: 'Twice daily' },
+        ],
+        allergies: ['ACE inhibitors (cough)'], trend: 'deteriorating', severity: 0.25,
+        factors: ['Age over 80', 'Fluid overload', 'Reduced kidney function'],
+    },
+    {
+        id: 'patient_006', name: 'Maria Rodriguez', age: 29, gender: 'Female', ward: 'Isolation', roomId: 'room_202', bed: 'A',
+        admittedDaysAgo: 1, diagnosis: 'Influenza A', admissionReason: 'High fever and dehydration',
+        conditions: ['Asthma'],
+        medications: [{ name: 'Oseltamivir', dosage: '75 mg', frequency: 'Twice daily' }],
+        allergies: [], trend: 'stable', severity: 0.15,
+        factors: ['Viral infection', 'Asthma history'],
+    },
+    {
+        id: 'patient_007', name: 'Henry Walsh', age: 72, gender: 'Male', ward: 'General', roomId: 'room_n101', bed: 'A',
+        admittedDaysAgo: 2, diagnosis: 'COPD exacerbation', admissionReason: 'Increasing breathlessness and cough',
+        conditions: ['COPD', 'Hypertension'],
+        medications: [
+            { name: 'Prednisolone', dosage: '30 mg', frequency: 'Daily' },
+            { name: 'Salbutamol nebulizer', dosage: '5 mg', frequency: 'Every 4 hours' },
+        ],
+        allergies: [], trend: 'improving', severity: 0.3,
+        factors: ['Chronic lung disease', 'Age over 65'],
+    },
+    {
+        id: 'patient_008', name: 'Aisha Khan', age: 38, gender: 'Female', ward: 'Surgery', roomId: 'room_n102', bed: 'A',
+        admittedDaysAgo: 0, diagnosis: 'Laparoscopic appendectomy', admissionReason: 'Acute appendicitis',
+        conditions: [],
+        medications: [{ name: 'Paracetamol', dosage: '1 g', frequency: 'Every 6 hours' }],
+        allergies: ['Codeine'], trend: 'stable', severity: 0.1,
+        factors: ['Recent surgery'],
+    },
+];
+
+interface StaffSeed {
+    id: string;
+    name: string;
+    role: StaffMember['personalInfo']['role'];
+    department: string;
+    specialization: string;
+    email: string;
+    phone: string;
+    onDuty: boolean;
+    location: string;
+    workload: number;
+    shiftType: 'day' | 'night' | 'on-call';
+    ward: string;
+    roomIds: string[];
+    facility: string;
+}
+
+const STAFF: StaffSeed[] = [
+    {
+        id: 'staff_001', name: 'Dr. Michael Chen', role: 'doctor', department: 'Cardiology',
+        specialization: 'Interventional Cardiology', email: 'doctor@hospital.com', phone: '555-0101',
+        onDuty: true, location: 'ICU', workload: 72, shiftType: 'day', ward: 'ICU', roomIds: ['room_101'], facility: 'central',
+    },
+    {
+        id: 'staff_002', name: 'Emma Wilson', role: 'nurse', department: 'ICU',
+        specialization: 'Critical Care Nursing', email: 'staff@hospital.com', phone: '555-0102',
+        onDuty: true, location: 'ICU', workload: 85, shiftType: 'day', ward: 'ICU', roomIds: ['room_101'], facility: 'central',
+    },
+    {
+        id: 'staff_003', name: 'Dr. Sarah Johnson', role: 'admin', department: 'Administration',
+        specialization: 'Hospital Administration', email: 'admin@hospital.com', phone: '555-0103',
+        onDuty: true, location: 'Admin office', workload: 40, shiftType: 'day', ward: 'Administration', roomIds: [], facility: 'central',
+    },
+    {
+        id: 'staff_004', name: 'James Okafor', role: 'nurse', department: 'General Medicine',
+        specialization: 'Medical-Surgical Nursing', email: 'j.okafor@hospital.com', phone: '555-0104',
+        onDuty: false, location: 'Off site', workload: 0, shiftType: 'night', ward: 'General', roomIds: ['room_201', 'room_202'], facility: 'central',
+    },
+    {
+        id: 'staff_005', name: 'Dr. Laura Gomez', role: 'doctor', department: 'Emergency',
+        specialization: 'Emergency Medicine', email: 'l.gomez@hospital.com', phone: '555-0105',
+        onDuty: true, location: 'ER', workload: 64, shiftType: 'on-call', ward: 'ER', roomIds: ['room_102'], facility: 'central',
+    },
+    {
+        id: 'staff_006', name: 'Priya Patel', role: 'technician', department: 'Biomedical Engineering',
+        specialization: 'Medical Devices', email: 'p.patel@hospital.com', phone: '555-0106',
+        onDuty: false, location: 'Workshop', workload: 20, shiftType: 'day', ward: 'General', roomIds: [], facility: 'central',
+    },
+    {
+        id: 'staff_007', name: 'Dr. Owen Price', role: 'doctor', department: 'General Medicine',
+        specialization: 'Internal Medicine', email: 'o.price@hospital.com', phone: '555-0201',
+        onDuty: true, location: 'Medical ward', workload: 58, shiftType: 'day', ward: 'General', roomIds: ['room_n101'],
+        facility: 'northside',
+    },
+    {
+        id: 'staff_008', name: 'Grace Lee', role: 'nurse', department: 'Surgery',
+        specialization: 'Perioperative Nursing', email: 'g.lee@hospital.com', phone: '555-0202',
+        onDuty: true, location: 'Recovery', workload: 66, shiftType: 'day', ward: 'Surgery', roomIds: ['room_n101', 'room_n102'],
+        facility: 'northside',
+    },
+];
+
+const SHIFT_HOURS: Record<StaffSeed['shiftType'], [string, string]> = {
+    day: ['07:00', '19:00'],
+    night: ['19:00', '07:00'],
+    'on-call': ['08:00', '20:00'],
+};
+
+const riskLevelFor = (severity: number): string =>
+    severity >= 0.75 ? 'Critical' : severity >= 0.5 ? 'High' : severity >= 0.25 ? 'Moderate' : 'Low';
+
+/**
+ * Prediction fields for a patient at the given severity, as the risk model would report them
+ */
+export const predictionFor = (severity: number, factors: string[], now: Date): Patient['predictions'] => ({
+    riskLevel: riskLevelFor(severity),
+    riskScore: Math.round(severity * 1000) / 10,
+    confidence: 0.82,
+    predictedAt: toBackendTimestamp(now),
+    nextPrediction: toBackendTimestamp(new Date(now.getTime() + 60 * 60 * 1000)),
+    factors,
+});
+
+/**
+ * Patient status shown on the dashboards for a severity and trend
+ */
+export const statusFor = (severity: number, trend: PatientTrend): string =>
+    severity >= 0.7 ? 'critical' : trend === 'improving' && severity < 0.4 ? 'recovering' : 'stable';
+
+const patientIdsIn = (roomId: string) => PATIENTS.filter(seed => seed.roomId === roomId).map(seed => seed.id);
+
+const facilityOfRoom = (roomId: string) => ROOMS.find(room => room.roomId === roomId)!.facility;
+
+/**
+ * Build a fresh database. Devices start without readings; the simulator fills in their history.
+ */
+export const createFixtures = (now: Date = new Date()): MockDatabase => {
+    const db: MockDatabase = { users: {}, passwords: {}, patients: {}, staff: {}, rooms: {}, beds: {}, devices: {}, alertSuppressions: {}, trends: {}, severity: {}, audit: [], emergencyAccess: [],
+        mfa: {}, mfaPolicy: { required_roles: [] }, privacyPolicy: structuredClone(DEFAULT_PRIVACY_POLICY),
+        escalationPolicy: structuredClone(DEFAULT_ESCALATION_POLICY),
+        // Henry Walsh has COPD; his doctor accepts an SpO2 down to 86%
+        vitalThresholds: {
+            wards: {},
+            patients: {
+                patient_007: [
+                    { field: 'oxygenLevel', operator: '<', value: 86, level: 'warning', for_minutes: 0 },
+                    { field: 'oxygenLevel', operator: '<', value: 82, level: 'critical', for_minutes: 0 },
+                ],
+            },
+        },
+        facilities: Object.fromEntries(FACILITIES.map(facility => [facility.id, structuredClone(facility)])), facilityOf: {} };
+    const created = toBackendTimestamp(daysFrom(now, -90));
+
+    USERS.forEach(user => {
+        db.users[user.id] = { ...user, created_at: created };
+        db.passwords[user.id] = MOCK_PASSWORD;
+    });
+
+    ROOMS.forEach(({ beds, facility, ...room }) => {
+        const occupied = patientIdsIn(room.roomId);
+        db.facilityOf[room.roomId] = facility;
+        db.rooms[room.roomId] = {
+            ...room,
+            assignedPatient: occupied[0],
+            assignedDevices: [],
+            status: occupied.length >= room.capacity ? 'occupied' : 'available',
+            createdAt: created,
+            updatedAt: created,
+        };
+        beds.forEach((letter, index) => {
+            const bedId = `bed_${room.roomId.split('_')[1]}_${letter}`;
+            const patient = PATIENTS.find(seed => seed.roomId === room.roomId && seed.bed === letter);
+            db.facilityOf[bedId] = facility;
+            db.beds[bedId] = {
+                roomId: room.roomId,
+                bedNumber: letter,
+                type: room.roomType === 'ICU' ? 'icu' : 'standard',
+                status: patient ? 'occupied' : 'available',
+                patientId: patient?.id,
+                features: room.roomType === 'ICU' ? ['ventilator-ready', 'cardiac monitoring'] : ['oxygen outlet'],
+                lastCleaned: toBackendTimestamp(daysFrom(now, -1 - index)),
+                position: { x: 40 + index * 120, y: 60, rotation: 0 },
+            };
+        });
+    });
+
+    PATIENTS.forEach((seed, index) => {
+        const bedId = `bed_${seed.roomId.split('_')[1]}_${seed.bed}`;
+        db.trends[seed.id] = seed.trend;
+        db.severity[seed.id] = seed.severity;
+        db.facilityOf[seed.id] = facilityOfRoom(seed.roomId);
+        db.patients[seed.id] = {
+            personalInfo: {
+                name: seed.name,
+                age: seed.age,
+                gender: seed.gender,
+                admissionDate: toDateInputValue(daysFrom(now, -seed.admittedDaysAgo)),
+                ward: seed.ward,
+                roomId: seed.roomId,
+                bedId,
+            },
+            medicalHistory: {
+                conditions: seed.conditions,
+                medications: seed.medications.map(medication => ({
+                    ...medication,
+                    startDate: toDateInputValue(daysFrom(now, -seed.admittedDaysAgo)),
+                })),
+                allergies: seed.allergies,
+                lastCheckup: toBackendTimestamp(daysFrom(now, -0.1)),
+                admissionReason: seed.admissionReason,
+            },
+            currentStatus: {
+                diagnosis: seed.diagnosis,
+                status: statusFor(seed.severity, seed.trend),
+                consciousness: seed.severity >= 0.5 ? 'Drowsy' : 'Alert',
+                mobility: seed.age > 75 || seed.severity >= 0.5 ? 'Bed-bound' : 'Ambulatory',
+                lastUpdated: toBackendTimestamp(now),
+            },
+            predictions: predictionFor(seed.severity, seed.factors, now),
+        };
+
+        const monitorId = `vitals_monitor_${String(index + 1).padStart(3, '0')}`;
+        db.facilityOf[monitorId] = facilityOfRoom(seed.roomId);
+        db.devices[monitorId] = {
+            deviceInfo: {
+                type: 'vitals_monitor',
+                manufacturer: 'Philips',
+                model: 'IntelliVue MX450',
+                roomId: seed.roomId,
+                bedId,
+                currentPatientId: seed.id,
+                lastCalibrated: toDateInputValue(daysFrom(now, -30)),
+                calibrationDue: toDateInputValue(daysFrom(now, 60)),
+                maintenanceSchedule: 'Quarterly',
+            },
+            vitals: {},
+            alerts: {},
+        };
+        db.rooms[seed.roomId].assignedDevices.push(monitorId);
+    });
+
+    ROOMS.forEach(room => {
+        const sensorId = `env_sensor_${room.roomId.split('_')[1]}`;
+        db.facilityOf[sensorId] = room.facility;
+        db.devices[sensorId] = {
+            deviceInfo: {
+                type: 'environmental_sensor',
+                manufacturer: 'Honeywell',
+                model: 'RoomSense 300',
+                roomId: room.roomId,
+                lastCalibrated: toDateInputValue(daysFrom(now, -45)),
+                calibrationDue: toDateInputValue(daysFrom(now, 135)),
+                maintenanceSchedule: 'Semi-annual',
+            },
+            vitals: {},
+            alerts: {},
+        };
+        db.rooms[room.roomId].assignedDevices.push(sensorId);
+    });
+
+    STAFF.forEach(seed => {
+        const [shiftStart, shiftEnd] = SHIFT_HOURS[seed.shiftType];
+        const schedule: StaffMember['schedule'] = {};
+        for (let day = 0; day < 7; day++) {
+            // Two days off a week, staggered between staff members
+            if ((day + seed.id.charCodeAt(seed.id.length - 1)) % 7 >= 5) continue;
+            schedule[toDateInputValue(daysFrom(now, day))] = {
+                shiftStart,
+                shiftEnd,
+                ward: seed.ward,
+                roomIds: seed.roomIds,
+                patientAssignments: seed.roomIds.flatMap(patientIdsIn),
+                shiftType: seed.shiftType,
+            };
+        }
+
+        db.facilityOf[seed.id] = seed.facility;
+        db.staff[seed.id] = {
+            personalInfo: {
+                name: seed.name,
+                role: seed.role,
+                department: seed.department,
+                specialization: seed.specialization,
+                contact: { email: seed.email, phone: seed.phone },
+            },
+            schedule,
+            currentStatus: {
+                onDuty: seed.onDuty,
+                location: seed.location,
+                lastUpdated: toBackendTimestamp(now),
+                workload: seed.workload,
+            },
+        };
+    });
+
+    return db;
+};
@@ -0,0 +1,1299 @@
+import Api from '../api';
+import { FACILITY_HEADER } from '../config';
+import { AuditEntry, AuditReview, filterAuditEntries } from '../audit';
+import type { AuthResponse, AuthTokens, MfaChallenge, MfaPolicy, SignupRequest, User } from '../auth';
+import type { AccountChanges, InviteRequest } from '../userAccounts';
+import type { Facility, FacilitySummary } from '../facility';
+import { PRIVACY_SCREENS, PrivacyPolicy } from '../privacy';
+import { AlertSuppression, findSuppression, MAX_SUPPRESSION_HOURS, SuppressionRequest } from '../alertSuppression';
+import { ALERT_SEVERITIES, AlertSeverity, EscalationPolicy, EscalationRule } from '../escalation';
+import { MAX_RULE_MINUTES, ThresholdRule, VITAL_FIELDS } from '../vitalThresholds';
+import type { Bed } from '../hooks/useBeds';
+import type { Room } from '../hooks/useRooms';
+import { IoTDevice, Patient, StaffMember, VitalReading } from '../types';
+import { getLatestEntry, toBackendTimestamp, toDateInputValue, toTimestampMs } from '../../utils/dateUtils';
+import { escalateAlert, escalationRule, findEscalationStaff } from './escalation';
+import { createFixtures, MockDatabase } from './fixtures';
+import { VitalsSimulator } from './simulator';
+import { createTotpSecret, verifyTotp } from './totp';
+
+// In-memory stand-in for the FastAPI backend. `fetch` answers the routes in ENDPOINTS the way the
+// real service does (same paths, payload shapes, status codes and FastAPI error bodies) from a
+// database built by createFixtures, which the vitals simulator keeps changing.
+
+export interface MockBackendOptions {
+    // Seed for the simulator, so runs with the same seed produce the same readings
+    seed?: number;
+    // Delay before each response, to make loading states visible
+    latencyMs?: number;
+    // Interval between simulated readings; 0 disables the timer and readings only advance on tick()
+    tickMs?: number;
+    // Readings generated up front, one minute apart, so charts are not empty on first load
+    history?: number;
+    now?: Date;
+    // Lifetime of an access token; the client refreshes it with the refresh token before it runs out
+    accessTokenTtlMs?: number;
+    // Lifetime of a sign-in, after which refreshing fails and the password is needed again
+    sessionTtlMs?: number;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+// Time to enter the second factor after the password was accepted
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_MFA_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ACCOUNT_ROLES = ['admin', 'doctor', 'staff'];
+// Longer requests for emergency access are cut to this
+const MAX_EMERGENCY_ACCESS_MINUTES = 60;
+
+// Tables whose records belong to one facility each; handlers only see those of the request's facility
+const FACILITY_TABLES = new Set<PropertyKey>(['patients', 'staff', 'rooms', 'beds', 'devices', 'alertSuppressions']);
+
+// Request bodies are whatever the client sent; handlers check the fields they rely on
+type MockBody = Record<string, unknown>;
+
+interface MockRequest {
+    method: string;
+    params: Record<string, string>;
+    query: URLSearchParams;
+    body: MockBody;
+    user: User | null;
+}
+
+interface MockResult {
+    status?: number;
+    body?: unknown;
+}
+
+type Handler = (request: MockRequest) => MockResult;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: Handler;
+    public: boolean;
+}
+
+class MockHttpError extends Error {
+    constructor(readonly status: number, readonly detail: unknown) {
+        super(typeof detail === 'string' ? detail : `HTTP ${status}`);
+    }
+}
+
+const ok = (body: unknown): MockResult => ({ status: 200, body });
+const created = (body: unknown): MockResult => ({ status: 201, body });
+
+const notFound = (what: string, id: string): never => {
+    throw new MockHttpError(404, `${what} ${id} not found`);
+};
+
+// FastAPI's shape for a missing body field, so forms show it next to the field
+const requireFields = (body: MockBody, paths: string[][]) => {
+    const missing = paths.filter(path =>
+        path.reduce<unknown>(
+            (value, key) => (typeof value === 'object' && value !== null ? (value as MockBody)[key] : undefined),
+            body
+        ) == null
+    );
+    if (missing.length > 0) {
+        throw new MockHttpError(422, missing.map(path => ({
+            loc: ['body', ...path],
+            msg: 'field required',
+            type: 'value_error.missing',
+        })));
+    }
+};
+
+// A function declaration, as assertion signatures need one
+function requireAdmin(user: User | null): asserts user is User {
+    if (user?.role !== 'admin') throw new MockHttpError(403, 'Not enough permissions');
+}
+
+const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const filterRecords = <T>(records: Record<string, T>, keep: (record: T, id: string) => boolean): Record<string, T> =>
+    Object.fromEntries(Object.entries(records).filter(([id, record]) => keep(record, id)));
+
+const randomCode = (length: number) =>
+    Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]).join('');
+
+const nextId = (prefix: string, existing: Record<string, unknown>) => {
+    let index = Object.keys(existing).length + 1;
+    while (existing[`${prefix}_${String(index).padStart(3, '0')}`]) index++;
+    return `${prefix}_${String(index).padStart(3, '0')}`;
+};
+
+// Tokens only name the user and when they expire, so a session survives a page reload that rebuilt
+// the database: access tokens are `mock.<user>.<expires>`, refresh tokens `mockrefresh.<user>.<session ends>.<n>`
+const parseToken = (token: string | undefined, prefix: string) => {
+    const [kind, userId, expiresAt] = token?.split('.') ?? [];
+    return kind === prefix && userId ? { userId, expiresAt: expiresAt ? Number(expiresAt) : Infinity } : null;
+};
+
+export class MockBackend {
+    readonly db: MockDatabase;
+    readonly simulator: VitalsSimulator;
+    // The database as handlers see it, limited to the facility of the request being answered
+    private readonly scoped: MockDatabase;
+    private scope: { facilityId: string; allowed: boolean } = { facilityId: '', allowed: true };
+    private readonly routes: Route[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    // Refresh tokens already exchanged; each one is good for a single refresh
+    private readonly usedRefreshTokens = new Set<string>();
+    private refreshCount = 0;
+    // MFA tokens (`mockmfa.<user>.<expires>.<n>`) stand for an accepted password until the code is checked
+    private readonly mfaAttempts = new Map<string, number>();
+    private mfaCount = 0;
+
+    constructor(private readonly options: MockBackendOptions = {}) {
+        const now = options.now ?? new Date();
+        this.db = createFixtures(now);
+        this.scoped = this.scopeDatabase();
+        this.simulator = new VitalsSimulator(this.db, options.seed ?? 1);
+        this.simulator.warmUp(now, options.history ?? 20, 60000);
+        this.escalateAlerts(now);
+        this.registerRoutes();
+    }
+
+    /**
+     * Start the simulator timer, which also runs the alert escalation deadlines
+     */
+    start() {
+        const tickMs = this.options.tickMs ?? 5000;
+        if (this.timer || tickMs <= 0) return;
+        this.timer = setInterval(() => {
+            this.simulator.tick();
+            this.escalateAlerts();
+        }, tickMs);
+    }
+
+    /**
+     * Move every open alert nobody acknowledged in time up its escalation chain, to staff of the
+     * device's facility. Alerts under a snooze rule are marked with it instead and never escalate.
+     * Runs with the simulator; tests call it with the time they need.
+     */
+    escalateAlerts(now: Date = new Date()) {
+        const day = toDateInputValue(now);
+        const suppressions = Object.values(this.db.alertSuppressions);
+        Object.entries(this.db.devices).forEach(([deviceId, device]) => {
+            const facilityId = this.db.facilityOf[deviceId];
+            const staff = filterRecords(this.db.staff, (_, staffId) => this.db.facilityOf[staffId] === facilityId);
+            const ward = this.wardOf(device, day);
+            const suppression = findSuppression(suppressions, { deviceId, patientId: device.deviceInfo.currentPatientId }, now.getTime());
+            Object.entries(device.alerts).forEach(([alertId, alert]) => {
+                if (alert.resolved || alert.acknowledged || alert.suppressedBy) return;
+                if (suppression) {
+                    this.suppressAlert(device, alertId, suppression);
+                    return;
+                }
+                device.alerts[alertId] = escalateAlert(
+                    alert,
+                    escalationRule(this.db.escalationPolicy, alert.type, ward),
+                    now,
+                    target => findEscalationStaff(target, ward, staff, day)
+                );
+            });
+        });
+    }
+
+    // Alerts raised while snoozed stay silent after the rule ended
+    private suppressAlert(device: IoTDevice, alertId: string, suppression: AlertSuppression) {
+        device.alerts[alertId] = { ...device.alerts[alertId], suppressedBy: suppression.id, escalationDueAt: undefined };
+    }
+
+    // Ward of the patient on the device, or of the staff scheduled for its room on `day`
+    private wardOf(device: IoTDevice, day: string): string | undefined {
+        const patientId = device.deviceInfo.currentPatientId;
+        const patientWard = patientId ? this.db.patients[patientId]?.personalInfo.ward : undefined;
+        if (patientWard) return patientWard;
+        const shift = Object.values(this.db.staff)
+            .map(member => member.schedule?.[day])
+            .find(scheduled => scheduled?.roomIds.includes(device.deviceInfo.roomId));
+        return shift?.ward;
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * fetch-compatible entry point; see ApiClient.setFetch
+     */
+    fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+        const url = new URL(input instanceof Request ? input.url : input.toString());
+        const method = (init.method ?? 'GET').toUpperCase();
+        const headers = new Headers(init.headers);
+
+        if (this.options.latencyMs) {
+            await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+        }
+        if (init.signal?.aborted) {
+            throw new DOMException('The operation was aborted.', 'AbortError');
+        }
+
+        let body: unknown;
+        try {
+            body = typeof init.body === 'string' && init.body !== '' ? JSON.parse(init.body) : undefined;
+        } catch {
+            return json(400, { detail: 'Invalid JSON body' });
+        }
+
+        const { status, body: payload } = this.handle(
+            method, url.pathname, url.searchParams, body, headers.get('Authorization'), headers.get(FACILITY_HEADER)
+        );
+        return payload === undefined ? new Response(null, { status: 204 }) : json(status, payload);
+    };
+
+    /**
+     * Answer one request. Paths match with or without a trailing slash, like the backend's routes.
+     * Without a facility the request is about the first facility of the user.
+     */
+    handle(
+        method: string,
+        pathname: string,
+        query: URLSearchParams,
+        body: unknown,
+        authorization: string | null,
+        facility: string | null = null
+    ): Required<MockResult> {
+        const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+        const routes = this.routes.filter(route => route.pattern.test(path));
+        if (routes.length === 0) return { status: 404, body: { detail: 'Not Found' } };
+
+        const route = routes.find(candidate => candidate.method === method);
+        if (!route) return { status: 405, body: { detail: 'Method Not Allowed' } };
+
+        const user = this.authenticate(authorization);
+        if (!route.public && !user) {
+            return { status: 401, body: { detail: 'Not authenticated' } };
+        }
+
+        const match = path.match(route.pattern)!;
+        const params = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+
+        const facilityIds = this.facilityIdsOf(user);
+        const facilityId = facility ?? facilityIds[0];
+        this.scope = { facilityId, allowed: facilityIds.includes(facilityId) };
+
+        try {
+            const result = route.handler({ method, params, query, body: (body ?? {}) as MockBody, user });
+            // Responses are copies, so callers never hold references into the database
+            return { status: result.status ?? 200, body: result.body === undefined ? undefined : clone(result.body) };
+        } catch (error) {
+            if (error instanceof MockHttpError) {
+                return { status: error.status, body: { detail: error.detail } };
+            }
+            console.error('🧪 Mock backend error:', error);
+            return { status: 500, body: { detail: 'Internal Server Error' } };
+        }
+    }
+
+    // Accounts without facilities work in the first one, like on a single-site backend
+    private facilityIdsOf(user: User | null): string[] {
+        return user?.facility_ids ?? [Object.keys(this.db.facilities)[0]];
+    }
+
+    /**
+     * The facility records are scoped to. Refused for a facility the user does not work in, so
+     * only requests that touch its records fail, not signing in or reading settings.
+     */
+    private facilityInScope(): string {
+        if (!this.scope.allowed) throw new MockHttpError(403, `No access to facility ${this.scope.facilityId}`);
+        return this.scope.facilityId;
+    }
+
+    /**
+     * A view of the database whose facility tables hide the records of other facilities. Records
+     * added through it belong to the facility in scope.
+     */
+    private scopeDatabase(): MockDatabase {
+        const { facilityOf } = this.db;
+        const scopeTable = (records: Record<string, unknown>) => {
+            const hidden = (key: PropertyKey) =>
+                typeof key === 'string' && Object.prototype.hasOwnProperty.call(records, key) && facilityOf[key] !== this.facilityInScope();
+            return new Proxy(records, {
+                get: (target, key, receiver) => (hidden(key) ? undefined : Reflect.get(target, key, receiver)),
+                has: (target, key) => !hidden(key) && Reflect.has(target, key),
+                ownKeys: target => Reflect.ownKeys(target).filter(key => !hidden(key)),
+                getOwnPropertyDescriptor: (target, key) => (hidden(key) ? undefined : Reflect.getOwnPropertyDescriptor(target, key)),
+                set: (target, key, value) => {
+                    // Ids are unique across the group, e.g. room numbers of different sites
+                    if (hidden(key)) throw new MockHttpError(409, `${String(key)} already exists at another facility`);
+                    if (typeof key === 'string') facilityOf[key] = this.facilityInScope();
+                    return Reflect.set(target, key, value);
+                },
+                deleteProperty: (target, key) => {
+                    if (hidden(key)) return true;
+                    if (typeof key === 'string') delete facilityOf[key];
+                    return Reflect.deleteProperty(target, key);
+                },
+            });
+        };
+        return new Proxy(this.db, {
+            get: (target, key, receiver) => {
+                const value = Reflect.get(target, key, receiver);
+                return FACILITY_TABLES.has(key) ? scopeTable(value) : value;
+            },
+        });
+    }
+
+    private facilitiesOf(user: User): Facility[] {
+        return this.facilityIdsOf(user).map(id => this.db.facilities[id]).filter(Boolean);
+    }
+
+    private facilitySummary(facilityId: string): FacilitySummary {
+        const previous = this.scope;
+        this.scope = { facilityId, allowed: true };
+        try {
+            const { patients, rooms, beds, devices } = this.scoped;
+            return {
+                facility_id: facilityId,
+                patients: Object.keys(patients).length,
+                critical_patients: Object.values(patients).filter(patient => patient.currentStatus.status === 'critical').length,
+                rooms: Object.keys(rooms).length,
+                beds_total: Object.keys(beds).length,
+                beds_occupied: Object.values(beds).filter(bed => bed.status === 'occupied').length,
+                devices: Object.keys(devices).length,
+                devices_online: Object.values(devices)
+                    .filter(device => this.latestReading(device)?.[1].deviceStatus === 'online').length,
+                active_alerts: this.flattenAlerts().filter(alert => !alert.resolved).length,
+            };
+        } finally {
+            this.scope = previous;
+        }
+    }
+
+    private authenticate(authorization: string | null): User | null {
+        const token = parseToken(authorization?.replace(/^Bearer\s+/i, ''), 'mock');
+        if (!token || token.expiresAt <= Date.now()) return null;
+        const user = this.db.users[token.userId];
+        // Deactivating an account ends its sessions
+        return user && user.status !== 'deactivated' ? user : null;
+    }
+
+    private issueTokens(user: User, sessionEndsAt: number): AuthTokens {
+        const now = Date.now();
+        const accessTtl = Math.min(this.options.accessTokenTtlMs ?? DEFAULT_ACCESS_TOKEN_TTL_MS, sessionEndsAt - now);
+        return {
+            access_token: `mock.${user.id}.${now + accessTtl}`,
+            token_type: 'bearer',
+            refresh_token: `mockrefresh.${user.id}.${sessionEndsAt}.${++this.refreshCount}`,
+            expires_in: Math.floor(accessTtl / 1000),
+            refresh_expires_in: Math.floor((sessionEndsAt - now) / 1000),
+        };
+    }
+
+    private signIn(user: User): AuthResponse {
+        user.last_login_at = toBackendTimestamp();
+        // Invited accounts are active from their first sign-in
+        if (user.status === 'invited') user.status = 'active';
+        return { ...this.issueTokens(user, Date.now() + (this.options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS)), user: this.account(user) };
+    }
+
+    // Users as the backend returns them, with their second factor state
+    private account(user: User): User {
+        return { ...user, mfa_enabled: !!this.db.mfa[user.id]?.enabled };
+    }
+
+    // After the password: a session, or a challenge for the second factor or its enrollment
+    private passwordAccepted(user: User, code?: unknown): AuthResponse | MfaChallenge {
+        const factor = this.db.mfa[user.id];
+        if (factor?.enabled) {
+            if (typeof code === 'string' && code !== '') {
+                if (!this.checkMfaCode(user.id, code)) throw new MockHttpError(401, 'Invalid authentication code');
+                return this.signIn(user);
+            }
+            return { mfa_required: true, mfa_token: this.issueMfaToken(user) };
+        }
+        if (this.db.mfaPolicy.required_roles.includes(user.role as MfaPolicy['required_roles'][number])) {
+            return { mfa_required: true, mfa_token: this.issueMfaToken(user), enrollment_required: true };
+        }
+        return this.signIn(user);
+    }
+
+    private issueMfaToken(user: User): string {
+        return `mockmfa.${user.id}.${Date.now() + MFA_CHALLENGE_TTL_MS}.${++this.mfaCount}`;
+    }
+
+    private mfaTokenUser(mfaToken: unknown): User {
+        const token = parseToken(typeof mfaToken === 'string' ? mfaToken : undefined, 'mockmfa');
+        const user = token && this.db.users[token.userId];
+        if (!token || !user || token.expiresAt <= Date.now() || (this.mfaAttempts.get(mfaToken as string) ?? 0) >= MAX_MFA_ATTEMPTS) {
+            throw new MockHttpError(401, 'Sign-in expired, please start again');
+        }
+        return user;
+    }
+
+    // An authenticator code, or an unused backup code, which is used up
+    private checkMfaCode(userId: string, code: string): boolean {
+        const factor = this.db.mfa[userId];
+        if (!factor) return false;
+        const normalized = code.replace(/[\s-]/g, '').toUpperCase();
+        if (/^\d{6}$/.test(normalized)) return verifyTotp(factor.secret, normalized);
+        const index = factor.backupCodes.indexOf(normalized);
+        if (index < 0) return false;
+        factor.backupCodes.splice(index, 1);
+        return true;
+    }
+
+    private route(method: string, path: string, handler: Handler, options: { public?: boolean } = {}) {
+        const keys: string[] = [];
+        const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_match, key) => {
+            keys.push(key);
+            return '([^/]+)';
+        })}$`);
+        this.routes.push({ method, pattern, keys, handler, public: !!options.public });
+    }
+
+    private patient(id: string): Patient {
+        return this.scoped.patients[id] ?? notFound('Patient', id);
+    }
+
+    private device(id: string): IoTDevice {
+        return this.scoped.devices[id] ?? notFound('Device', id);
+    }
+
+    private room(id: string): Room {
+        return this.scoped.rooms[id] ?? notFound('Room', id);
+    }
+
+    private bed(id: string): Bed {
+        return this.scoped.beds[id] ?? notFound('Bed', id);
+    }
+
+    private staffMember(id: string): StaffMember {
+        return this.scoped.staff[id] ?? notFound('Staff member', id);
+    }
+
+    private latestReading(device: IoTDevice) {
+        const patientId = device.deviceInfo.currentPatientId;
+        const readings = device.deviceInfo.type === 'vitals_monitor'
+            ? (patientId ? device.vitals[patientId] : undefined) as Record<string, VitalReading> | undefined
+            : device.vitals as Record<string, VitalReading>;
+        return readings ? getLatestEntry(readings) : null;
+    }
+
+    private flattenAlerts(filter: (device: IoTDevice, deviceId: string) => boolean = () => true) {
+        return Object.entries(this.scoped.devices)
+            .filter(([deviceId, device]) => filter(device, deviceId))
+            .flatMap(([deviceId, device]) => Object.entries(device.alerts).map(([alertId, alert]) => ({
+                ...alert,
+                id: `${deviceId}_${alertId}`,
+                alertId,
+                deviceId,
+                patientId: device.deviceInfo.currentPatientId,
+                roomId: device.deviceInfo.roomId,
+            })));
+    }
+
+    private predictionsFor(patientId: string) {
+        return [{
+            ...this.patient(patientId).predictions,
+            patientId,
+            modelId: 'mock-risk-model',
+            modelVersion: '1.0.0',
+        }];
+    }
+
+    private unassignPatientFromBeds(patientId: string) {
+        Object.values(this.scoped.beds).forEach(bed => {
+            if (bed.patientId === patientId) {
+                bed.patientId = undefined;
+                bed.status = 'available';
+            }
+        });
+    }
+
+    private refreshRoomStatus(roomId: string) {
+        const room = this.scoped.rooms[roomId];
+        if (!room || room.status === 'maintenance' || room.status === 'reserved') return;
+        const occupants = Object.keys(this.scoped.patients).filter(id => this.scoped.patients[id].personalInfo.roomId === roomId);
+        room.assignedPatient = occupants[0];
+        room.status = occupants.length >= room.capacity ? 'occupied' : 'available';
+        room.updatedAt = toBackendTimestamp();
+    }
+
+    private occupancy<T extends { status: string }>(records: Record<string, T>) {
+        const values = Object.values(records);
+        const occupied = values.filter(record => record.status === 'occupied').length;
+        return {
+            total: values.length,
+            occupied,
+            available: values.filter(record => record.status === 'available').length,
+            maintenance: values.filter(record => record.status === 'maintenance').length,
+            occupancy_rate: values.length > 0 ? Math.round((occupied / values.length) * 1000) / 10 : 0,
+        };
+    }
+
+    private registerRoutes() {
+        const db = this.scoped;
+
+        // Health check used by the staff screen
+        this.route('GET', '/docs', () => ok({ title: 'Smart Hospital mock API' }), { public: true });
+
+        // Auth
+        this.route('POST', '/auth/login', ({ body }) => {
+            const user = Object.values(db.users).find(candidate => candidate.email === body.email);
+            if (!user || db.passwords[user.id] !== body.password) {
+                throw new MockHttpError(401, 'Incorrect email or password');
+            }
+            if (user.status === 'pending') throw new MockHttpError(403, 'Your account is waiting for approval by an administrator');
+            if (user.status === 'deactivated') throw new MockHttpError(403, 'This account has been deactivated');
+            return ok(this.passwordAccepted(user, body.mfa_code));
+        }, { public: true });
+
+        this.route('POST', '/auth/signup', ({ body }) => {
+            requireFields(body, [['email'], ['password'], ['first_name'], ['last_name'], ['role']]);
+            if (Object.values(db.users).some(user => user.email === body.email)) {
+                throw new MockHttpError(400, 'Email already registered');
+            }
+            if (!['doctor', 'staff'].includes(body.role as string)) {
+                throw new MockHttpError(403, 'Administrator accounts are created by invitation');
+            }
+            const { password, ...profile } = body as unknown as SignupRequest;
+            const user: User = {
+                ...profile,
+                id: `user-${Object.keys(db.users).length + 1}`,
+                created_at: toBackendTimestamp(),
+                status: 'pending',
+            };
+            db.users[user.id] = user;
+            db.passwords[user.id] = password;
+            return created({ approval_required: true, user: this.account(user) });
+        }, { public: true });
+
+        // Rotates the refresh token; the session keeps the end it got at sign-in
+        this.route('POST', '/auth/refresh', ({ body }) => {
+            const refreshToken = typeof body.refresh_token === 'string' ? body.refresh_token : undefined;
+            const token = parseToken(refreshToken, 'mockrefresh');
+            const user = token && db.users[token.userId];
+            if (!token || !user || user.status === 'deactivated' || token.expiresAt <= Date.now() || this.usedRefreshTokens.has(refreshToken!)) {
+                throw new MockHttpError(401, 'Refresh token expired or revoked');
+            }
+            this.usedRefreshTokens.add(refreshToken!);
+            return ok(this.issueTokens(user, token.expiresAt));
+        }, { public: true });
+
+        this.route('POST', '/auth/logout', () => ok({ message: 'Logged out' }), { public: true });
+        this.route('GET', '/auth/me', ({ user }) => ok(this.account(user!)));
+        this.route('GET', '/auth/users', ({ user }) => {
+            requireAdmin(user);
+            return ok(Object.values(db.users).map(account => this.account(account)));
+        });
+
+        // Account management. Temporary passwords are returned once, for the admin to hand over.
+        const checkStaffLink = (staffId: unknown, accountId?: string) => {
+            if (staffId === null || staffId === undefined) return;
+            if (typeof staffId !== 'string' || !db.staff[staffId]) throw new MockHttpError(422, 'Unknown staff record');
+            const linked = Object.values(db.users).find(other => other.staff_id === staffId && other.id !== accountId);
+            if (linked) throw new MockHttpError(409, `Staff record already linked to ${linked.first_name} ${linked.last_name}`);
+        };
+
+        this.route('POST', '/auth/users/invite', ({ body, user }) => {
+            requireAdmin(user);
+            requireFields(body, [['email'], ['first_name'], ['last_name'], ['role']]);
+            const request = body as unknown as InviteRequest;
+            if (!ACCOUNT_ROLES.includes(request.role)) throw new MockHttpError(422, 'role must be admin, doctor or staff');
+            if (Object.values(db.users).some(other => other.email.toLowerCase() === request.email.toLowerCase())) {
+                throw new MockHttpError(400, 'Email already registered');
+            }
+            checkStaffLink(request.staff_id);
+            const account: User = {
+                ...request,
+                id: `user-${Object.keys(db.users).length + 1}`,
+                created_at: toBackendTimestamp(),
+                status: 'invited',
+            };
+            const temporary_password = randomCode(12);
+            db.users[account.id] = account;
+            db.passwords[account.id] = temporary_password;
+            return created({ ...this.account(account), temporary_password });
+        });
+
+        this.route('PATCH', '/auth/users/:id', ({ params, body, user }) => {
+            requireAdmin(user);
+            const account = db.users[params.id] ?? notFound('User', params.id);
+            const changes = body as AccountChanges;
+            if (changes.role !== undefined && !ACCOUNT_ROLES.includes(changes.role)) {
+                throw new MockHttpError(422, 'role must be admin, doctor or staff');
+            }
+            if (changes.status !== undefined && !['active', 'deactivated'].includes(changes.status)) {
+                throw new MockHttpError(422, 'status must be active or deactivated');
+            }
+            if (account.id === user.id && (changes.status === 'deactivated' || (changes.role && changes.role !== account.role))) {
+                throw new MockHttpError(400, 'You cannot deactivate your own account or change your own role');
+            }
+            checkStaffLink(changes.staff_id, account.id);
+            Object.assign(account, changes);
+            return ok(this.account(account));
+        });
+
+        this.route('POST', '/auth/users/:id/reset-password', ({ params, user }) => {
+            requireAdmin(user);
+            const account = db.users[params.id] ?? notFound('User', params.id);
+            const temporary_password = randomCode(12);
+            db.passwords[account.id] = temporary_password;
+            return ok({ temporary_password });
+        });
+
+        // Second factor. Enrollment works signed in, or during sign-in with the challenge's token.
+        this.route('POST', '/auth/mfa/verify', ({ body }) => {
+            const user = this.mfaTokenUser(body.mfa_token);
+            if (!db.mfa[user.id]?.enabled) throw new MockHttpError(400, 'Two-factor authentication is not set up');
+            if (typeof body.code !== 'string' || !this.checkMfaCode(user.id, body.code)) {
+                this.mfaAttempts.set(body.mfa_token as string, (this.mfaAttempts.get(body.mfa_token as string) ?? 0) + 1);
+                throw new MockHttpError(401, 'Invalid authentication code');
+            }
+            this.mfaAttempts.set(body.mfa_token as string, MAX_MFA_ATTEMPTS);
+            return ok(this.signIn(user));
+        }, { public: true });
+
+        const enrollingUser = (body: MockBody, user: User | null): User => {
+            if (body.mfa_token !== undefined) return this.mfaTokenUser(body.mfa_token);
+            if (!user) throw new MockHttpError(401, 'Not authenticated');
+            return user;
+        };
+
+        this.route('POST', '/auth/mfa/enroll', ({ body, user }) => {
+            const account = enrollingUser(body, user);
+            if (db.mfa[account.id]?.enabled) throw new MockHttpError(400, 'Two-factor authentication is already on');
+            const secret = createTotpSecret();
+            db.mfa[account.id] = { secret, enabled: false, backupCodes: [] };
+            const issuer = encodeURIComponent('Smart Hospital');
+            return ok({
+                secret,
+                otpauth_uri: `otpauth://totp/${issuer}:${encodeURIComponent(account.email)}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=6&period=30`,
+            });
+        }, { public: true });
+
+        this.route('POST', '/auth/mfa/enroll/confirm', ({ body, user }) => {
+            const account = enrollingUser(body, user);
+            const factor = db.mfa[account.id];
+            if (!factor || factor.enabled) throw new MockHttpError(400, 'Start two-factor setup first');
+            if (typeof body.code !== 'string' || !verifyTotp(factor.secret, body.code.replace(/\s/g, ''))) {
+                throw new MockHttpError(400, 'Invalid authentication code');
+            }
+            const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => randomCode(8));
+            Object.assign(factor, { enabled: true, enrolledAt: new Date().toISOString(), backupCodes: codes });
+            const backup_codes = codes.map(code => `${code.slice(0, 4)}-${code.slice(4)}`);
+            if (body.mfa_token !== undefined) {
+                this.mfaAttempts.set(body.mfa_token as string, MAX_MFA_ATTEMPTS);
+                return ok({ backup_codes, ...this.signIn(account) });
+            }
+            return ok({ backup_codes });
+        }, { public: true });
+
+        this.route('POST', '/auth/mfa/disable', ({ body, user }) => {
+            if (!db.mfa[user!.id]?.enabled) throw new MockHttpError(400, 'Two-factor authentication is not set up');
+            if (db.mfaPolicy.required_roles.includes(user!.role as MfaPolicy['required_roles'][number])) {
+                throw new MockHttpError(403, 'Your role requires two-factor authentication');
+            }
+            if (typeof body.code !== 'string' || !this.checkMfaCode(user!.id, body.code)) {
+                throw new MockHttpError(400, 'Invalid authentication code');
+            }
+            delete db.mfa[user!.id];
+            return ok({ message: 'Two-factor authentication turned off' });
+        });
+
+        this.route('GET', '/auth/mfa/policy', () => ok(db.mfaPolicy));
+        this.route('PUT', '/auth/mfa/policy', ({ body, user }) => {
+            requireAdmin(user);
+            requireFields(body, [['required_roles']]);
+            const roles = body.required_roles;
+            if (!Array.isArray(roles) || roles.some(role => !['admin', 'doctor', 'staff'].includes(role))) {
+                throw new MockHttpError(422, 'required_roles must list admin, doctor or staff');
+            }
+            db.mfaPolicy = { required_roles: roles };
+            return ok(db.mfaPolicy);
+        });
+
+        // Privacy mode
+        this.route('GET', '/settings/privacy', () => ok(db.privacyPolicy));
+        this.route('PUT', '/settings/privacy', ({ body, user }) => {
+            requireAdmin(user);
+            requireFields(body, [['masked_screens'], ['relock_seconds']]);
+            const policy = body as unknown as PrivacyPolicy;
+            const screens = policy.masked_screens;
+            const validScreens = screens && typeof screens === 'object' && (['admin', 'doctor', 'staff'] as const).every(role =>
+                Array.isArray(screens[role]) && screens[role].every(screen => PRIVACY_SCREENS.includes(screen)));
+            if (!validScreens) {
+                throw new MockHttpError(422, `masked_screens must list, for admin, doctor and staff, screens out of ${PRIVACY_SCREENS.join(', ')}`);
+            }
+            if (!Number.isInteger(policy.relock_seconds) || policy.relock_seconds < 5 || policy.relock_seconds > 600) {
+                throw new MockHttpError(422, 'relock_seconds must be a whole number from 5 to 600');
+            }
+            db.privacyPolicy = { masked_screens: screens, relock_seconds: policy.relock_seconds };
+            return ok(db.privacyPolicy);
+        });
+
+        // Alert escalation
+        this.route('GET', '/settings/escalation', () => ok(db.escalationPolicy));
+        this.route('PUT', '/settings/escalation', ({ body, user }) => {
+            requireAdmin(user);
+            requireFields(body, [['severities'], ['wards']]);
+            const policy = body as unknown as EscalationPolicy;
+            const validRule = (rule: EscalationRule | undefined) => !!rule && (rule.acknowledge_minutes === null ||
+                (Number.isInteger(rule.acknowledge_minutes) && rule.acknowledge_minutes >= 1 && rule.acknowledge_minutes <= 240));
+            const validRules = (rules: unknown, required: boolean) => typeof rules === 'object' && rules !== null &&
+                Object.keys(rules).every(severity => ALERT_SEVERITIES.includes(severity as AlertSeverity)) &&
+                ALERT_SEVERITIES.every(severity => {
+                    const rule = (rules as Partial<Record<AlertSeverity, EscalationRule>>)[severity];
+                    return rule === undefined ? !required : validRule(rule);
+                });
+            const validPolicy = validRules(policy.severities, true) && typeof policy.wards === 'object' && policy.wards !== null &&
+                Object.values(policy.wards).every(rules => validRules(rules, false));
+            if (!validPolicy) {
+                throw new MockHttpError(422, 'acknowledge_minutes must be a whole number from 1 to 240, or null to never escalate');
+            }
+            db.escalationPolicy = { severities: policy.severities, wards: policy.wards };
+            return ok(db.escalationPolicy);
+        });
+
+        // Vital sign thresholds; an empty list of rules drops those of the ward or patient
+        this.route('GET', '/settings/vital-thresholds', () => ok(db.vitalThresholds));
+        const thresholdRules = (body: MockBody, user: User | null): ThresholdRule[] => {
+            if (user?.role !== 'admin' && user?.role !== 'doctor') throw new MockHttpError(403, 'Not enough permissions');
+            requireFields(body, [['rules']]);
+            const rules = body.rules as ThresholdRule[];
+            const valid = Array.isArray(rules) && rules.every(rule =>
+                VITAL_FIELDS.includes(rule.field) && (rule.operator === '<' || rule.operator === '>') &&
+                typeof rule.value === 'number' && Number.isFinite(rule.value) &&
+                (rule.level === 'warning' || rule.level === 'critical') &&
+                Number.isInteger(rule.for_minutes) && rule.for_minutes >= 0 && rule.for_minutes <= MAX_RULE_MINUTES);
+            if (!valid) {
+                throw new MockHttpError(422, `Rules need a vital sign, < or >, a number, warning or critical, and 0 to ${MAX_RULE_MINUTES} minutes`);
+            }
+            return rules.map(({ field, operator, value, level, for_minutes }) => ({ field, operator, value, level, for_minutes }));
+        };
+        const setRules = (table: Record<string, ThresholdRule[]>, key: string, rules: ThresholdRule[]) => {
+            if (rules.length > 0) table[key] = rules;
+            else delete table[key];
+            return ok(db.vitalThresholds);
+        };
+        this.route('PUT', '/settings/vital-thresholds/wards/:ward', ({ params, body, user }) =>
+            setRules(db.vitalThresholds.wards, params.ward, thresholdRules(body, user)));
+        this.route('PUT', '/settings/vital-thresholds/patients/:patientId', ({ params, body, user }) => {
+            const rules = thresholdRules(body, user);
+            this.patient(params.patientId);
+            return setRules(db.vitalThresholds.patients, params.patientId, rules);
+        });
+
+        // Facilities
+        this.route('GET', '/facilities', ({ user }) => ok(this.facilitiesOf(user!)));
+        this.route('GET', '/facilities/summary', ({ user }) => {
+            requireAdmin(user);
+            return ok(this.facilitiesOf(user).map(facility => this.facilitySummary(facility.id)));
+        });
+
+        // Patients
+        const listPatients = (query: URLSearchParams, extra: (patient: Patient) => boolean = () => true) =>
+            filterRecords(db.patients, patient =>
+                extra(patient) &&
+                (!query.get('ward') || patient.personalInfo.ward === query.get('ward')) &&
+                (!query.get('status') || patient.currentStatus.status === query.get('status')) &&
+                (!query.get('risk_level') || patient.predictions.riskLevel.toLowerCase() === query.get('risk_level')!.toLowerCase())
+            );
+
+        this.route('GET', '/patients', ({ query }) => ok(listPatients(query)));
+        this.route('POST', '/patients', ({ body }) => {
+            requireFields(body, [['personalInfo', 'name'], ['personalInfo', 'age']]);
+            const id = nextId('patient', this.db.patients);
+            db.patients[id] = body as unknown as Patient;
+            db.trends[id] = 'stable';
+            db.severity[id] = 0.1;
+            return created({ patient_id: id });
+        });
+        this.route('GET', '/patients/ward/:ward', ({ params, query }) =>
+            ok(listPatients(query, patient => patient.personalInfo.ward === params.ward)));
+        this.route('GET', '/patients/risk/:level', ({ params, query }) =>
+            ok(listPatients(query, patient => patient.predictions.riskLevel.toLowerCase() === params.level.toLowerCase())));
+        this.route('GET', '/patients/:id', ({ params }) => ok(this.patient(params.id)));
+        this.route('PUT', '/patients/:id', ({ params, body }) => {
+            this.patient(params.id);
+            requireFields(body, [['personalInfo', 'name']]);
+            db.patients[params.id] = { ...db.patients[params.id], ...(body as Partial<Patient>) };
+            return ok({ message: 'Patient updated' });
+        });
+        this.route('DELETE', '/patients/:id', ({ params }) => {
+            this.patient(params.id);
+            delete db.patients[params.id];
+            delete db.trends[params.id];
+            delete db.severity[params.id];
+            this.unassignPatientFromBeds(params.id);
+            Object.values(db.devices).forEach(device => {
+                if (device.deviceInfo.currentPatientId === params.id) device.deviceInfo.currentPatientId = undefined;
+            });
+            return ok({ message: 'Patient deleted' });
+        });
+        this.route('GET', '/patients/:id/vitals', ({ params, query }) => {
+            this.patient(params.id);
+            const limit = Number(query.get('limit')) || 100;
+            const readings = Object.values(db.devices)
+                .flatMap(device => Object.values((device.vitals[params.id] ?? {}) as Record<string, VitalReading>))
+                .filter(reading =>
+                    (!query.get('start_time') || reading.timestamp >= query.get('start_time')!) &&
+                    (!query.get('end_time') || reading.timestamp <= query.get('end_time')!)
+                )
+                .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+            return ok(readings.slice(0, limit));
+        });
+        this.route('GET', '/patients/:id/treatments', ({ params }) => ok(this.patient(params.id).medicalHistory.medications));
+
+        // IoT devices
+        this.route('GET', '/iotData', () => ok(db.devices));
+        this.route('POST', '/iotData', ({ body }) => {
+            requireFields(body, [['deviceInfo', 'type'], ['deviceInfo', 'roomId']]);
+            const device = body as unknown as IoTDevice;
+            device.vitals ??= {};
+            device.alerts ??= {};
+            const { type, roomId } = device.deviceInfo;
+            const id = nextId(type === 'environmental_sensor' ? 'env_sensor' : type, this.db.devices);
+            db.devices[id] = device;
+            db.rooms[roomId]?.assignedDevices.push(id);
+            return created({ device_id: id });
+        });
+        this.route('GET', '/iotData/env-sensors/:id/vitals/latest', ({ params }) => {
+            const latest = this.latestReading(this.device(params.id));
+            if (!latest) notFound('Readings for sensor', params.id);
+            return ok({ timestamp: latest![0], data: latest![1] });
+        });
+        this.route('GET', '/iotData/:id', ({ params }) => ok(this.device(params.id)));
+        this.route('GET', '/iotData/:id/vitals', ({ params }) => ok(this.device(params.id).vitals));
+        this.route('GET', '/iotData/:id/vitals/latest', ({ params }) => {
+            const device = this.device(params.id);
+            const latest = this.latestReading(device);
+            if (!latest) notFound('Readings for device', params.id);
+            return ok({ timestamp: latest![0], data: latest![1], patientId: device.deviceInfo.currentPatientId });
+        });
+        this.route('GET', '/iotData/:id/deviceInfo', ({ params }) => ok(this.device(params.id).deviceInfo));
+        this.route('PUT', '/iotData/:id/deviceInfo', ({ params, body }) => {
+            const device = this.device(params.id);
+            device.deviceInfo = { ...device.deviceInfo, ...(body as Partial<IoTDevice['deviceInfo']>) };
+            return ok({ message: 'Device info updated' });
+        });
+        this.route('GET', '/iotData/:id/alerts', ({ params, query }) => {
+            const alerts = this.device(params.id).alerts;
+            return ok(query.get('include_resolved') === 'true' ? alerts : filterRecords(alerts, alert => !alert.resolved));
+        });
+        this.route('GET', '/iotData/:id/alerts/latest', ({ params }) => {
+            const latest = getLatestEntry(this.device(params.id).alerts);
+            return ok(latest ? { alertId: latest[0], ...latest[1] } : null);
+        });
+        this.route('POST', '/iotData/:id/alerts/:alertId/resolve', ({ params, body, user }) => {
+            const alert = this.device(params.id).alerts[params.alertId] ?? notFound('Alert', params.alertId);
+            const { resolvedBy, resolvedAt } = body as { resolvedBy?: string; resolvedAt?: string };
+            Object.assign(alert, {
+                resolved: true,
+                resolvedBy: resolvedBy ?? (user ? `${user.first_name} ${user.last_name}` : undefined),
+                resolvedAt: resolvedAt ?? new Date().toISOString(),
+                escalationDueAt: undefined,
+            });
+            return ok({ message: 'Alert resolved' });
+        });
+        this.route('POST', '/iotData/:id/alerts/:alertId/acknowledge', ({ params, body, user }) => {
+            const alert = this.device(params.id).alerts[params.alertId] ?? notFound('Alert', params.alertId);
+            if (alert.resolved) throw new MockHttpError(409, `Alert ${params.alertId} is already resolved`);
+            // Acknowledging twice keeps the first acknowledgement
+            if (!alert.acknowledged) {
+                const { acknowledgedBy, acknowledgedAt } = body as { acknowledgedBy?: string; acknowledgedAt?: string };
+                Object.assign(alert, {
+                    acknowledged: true,
+                    acknowledgedBy: acknowledgedBy ?? (user ? `${user.first_name} ${user.last_name}` : undefined),
+                    acknowledgedAt: acknowledgedAt ?? new Date().toISOString(),
+                    escalationDueAt: undefined,
+                });
+            }
+            return ok({ message: 'Alert acknowledged' });
+        });
+        this.route('POST', '/iotData/:id/assign-patient', ({ params, body }) => {
+            const device = this.device(params.id);
+            requireFields(body, [['patientId']]);
+            const patientId = String(body.patientId);
+            this.patient(patientId);
+            if (device.deviceInfo.type !== 'vitals_monitor') {
+                throw new MockHttpError(400, 'Only vitals monitors can be assigned to a patient');
+            }
+            device.deviceInfo.currentPatientId = patientId;
+            return ok({ message: `Patient ${patientId} assigned to ${params.id}` });
+        });
+        this.route('DELETE', '/iotData/:id/unassign-patient', ({ params }) => {
+            this.device(params.id).deviceInfo.currentPatientId = undefined;
+            return ok({ message: `Patient unassigned from ${params.id}` });
+        });
+        this.route('GET', '/iotData/:id/available-patients', ({ params }) => {
+            const { roomId } = this.device(params.id).deviceInfo;
+            const availablePatients = Object.entries(db.patients)
+                .filter(([, patient]) => patient.personalInfo.roomId === roomId)
+                .map(([patientId, patient]) => ({
+                    patientId,
+                    name: patient.personalInfo.name,
+                    roomId: patient.personalInfo.roomId,
+                    bedId: patient.personalInfo.bedId,
+                }));
+            return ok({ deviceId: params.id, roomId, availablePatients });
+        });
+
+        // Rooms
+        this.route('GET', '/rooms', () => ok(db.rooms));
+        this.route('POST', '/rooms', ({ body }) => {
+            requireFields(body, [['roomId'], ['roomType']]);
+            const room = body as unknown as Room;
+            if (db.rooms[room.roomId]) throw new MockHttpError(400, `Room ${room.roomId} already exists`);
+            db.rooms[room.roomId] = { ...room, createdAt: toBackendTimestamp() };
+            return created({ roomId: room.roomId });
+        });
+        this.route('GET', '/rooms/stats/occupancy', () => ok(this.occupancy(db.rooms)));
+        this.route('GET', '/rooms/:id', ({ params }) => ok(this.room(params.id)));
+        this.route('PUT', '/rooms/:id', ({ params, body }) => {
+            db.rooms[params.id] = { ...this.room(params.id), ...(body as Partial<Room>), roomId: params.id, updatedAt: toBackendTimestamp() };
+            return ok({ message: 'Room updated' });
+        });
+        this.route('DELETE', '/rooms/:id', ({ params }) => {
+            this.room(params.id);
+            if (Object.values(db.patients).some(patient => patient.personalInfo.roomId === params.id)) {
+                throw new MockHttpError(409, 'Room still has patients assigned');
+            }
+            delete db.rooms[params.id];
+            return ok({ message: 'Room deleted' });
+        });
+        this.route('POST', '/rooms/:id/assign-patient/:patientId', ({ params }) => {
+            this.room(params.id);
+            const patient = this.patient(params.patientId);
+            const previousRoom = patient.personalInfo.roomId;
+            patient.personalInfo.roomId = params.id;
+            this.refreshRoomStatus(previousRoom);
+            this.refreshRoomStatus(params.id);
+            return ok({ message: `Patient ${params.patientId} assigned to ${params.id}` });
+        });
+        this.route('POST', '/rooms/:id/assign-device/:deviceId', ({ params }) => {
+            const room = this.room(params.id);
+            const device = this.device(params.deviceId);
+            const previousRoom = db.rooms[device.deviceInfo.roomId];
+            if (previousRoom) previousRoom.assignedDevices = previousRoom.assignedDevices.filter(id => id !== params.deviceId);
+            device.deviceInfo.roomId = params.id;
+            if (!room.assignedDevices.includes(params.deviceId)) room.assignedDevices.push(params.deviceId);
+            return ok({ message: `Device ${params.deviceId} assigned to ${params.id}` });
+        });
+        this.route('DELETE', '/rooms/unassign-patient/:patientId', ({ params }) => {
+            const patient = this.patient(params.patientId);
+            const previousRoom = patient.personalInfo.roomId;
+            patient.personalInfo.roomId = '';
+            patient.personalInfo.bedId = '';
+            this.unassignPatientFromBeds(params.patientId);
+            this.refreshRoomStatus(previousRoom);
+            return ok({ message: `Patient ${params.patientId} unassigned` });
+        });
+        this.route('DELETE', '/rooms/unassign-device/:deviceId', ({ params }) => {
+            const device = this.device(params.deviceId);
+            const room = db.rooms[device.deviceInfo.roomId];
+            if (room) room.assignedDevices = room.assignedDevices.filter(id => id !== params.deviceId);
+            device.deviceInfo.roomId = '';
+            return ok({ message: `Device ${params.deviceId} unassigned` });
+        });
+
+        // Beds
+        this.route('GET', '/beds', () => ok(db.beds));
+        this.route('GET', '/beds/stats/occupancy', () => ok(this.occupancy(db.beds)));
+        this.route('GET', '/beds/room/:roomId', ({ params }) => ok(filterRecords(db.beds, bed => bed.roomId === params.roomId)));
+        this.route('GET', '/beds/room/:roomId/available', ({ params }) =>
+            ok(filterRecords(db.beds, bed => bed.roomId === params.roomId && bed.status === 'available')));
+        this.route('GET', '/beds/patient/:patientId', ({ params }) => {
+            const entry = Object.entries(db.beds).find(([, bed]) => bed.patientId === params.patientId);
+            return ok(entry ? { bed_id: entry[0], bed_data: entry[1], bed: entry[1] } : { bed: null });
+        });
+        this.route('POST', '/beds/:id/assign-patient/:patientId', ({ params }) => {
+            const bed = this.bed(params.id);
+            const patient = this.patient(params.patientId);
+            if (bed.patientId && bed.patientId !== params.patientId) {
+                throw new MockHttpError(409, `Bed ${params.id} is occupied by ${bed.patientId}`);
+            }
+            const previousRoom = patient.personalInfo.roomId;
+            this.unassignPatientFromBeds(params.patientId);
+            bed.patientId = params.patientId;
+            bed.status = 'occupied';
+            patient.personalInfo.roomId = bed.roomId;
+            patient.personalInfo.bedId = params.id;
+            this.refreshRoomStatus(previousRoom);
+            this.refreshRoomStatus(bed.roomId);
+            return ok({ message: `Patient ${params.patientId} assigned to bed ${params.id}` });
+        });
+        this.route('DELETE', '/beds/:id/discharge-patient/:patientId', ({ params }) => {
+            const bed = this.bed(params.id);
+            if (bed.patientId !== params.patientId) {
+                throw new MockHttpError(409, `Patient ${params.patientId} is not in bed ${params.id}`);
+            }
+            bed.patientId = undefined;
+            bed.status = 'available';
+            bed.lastCleaned = toBackendTimestamp();
+            const patient = db.patients[params.patientId];
+            if (patient) patient.personalInfo.bedId = '';
+            this.refreshRoomStatus(bed.roomId);
+            return ok({ message: `Patient ${params.patientId} discharged from bed ${params.id}` });
+        });
+
+        // Risk model
+        this.route('GET', '/predict/risk/:patientId', ({ params }) => {
+            const patient = this.patient(params.patientId);
+            const recommendations = patient.predictions.riskScore >= 50
+                ? ['Increase observation frequency to every 15 minutes', 'Review by the responsible physician within the hour']
+                : ['Continue routine observations'];
+            return ok({ patient_id: params.patientId, prediction_details: { ...patient.predictions, recommendations } });
+        });
+        this.route('GET', '/predictions', () => ok(Object.keys(db.patients).flatMap(id => this.predictionsFor(id))));
+        this.route('GET', '/predictions/patient/:patientId', ({ params }) => ok(this.predictionsFor(params.patientId)));
+        this.route('GET', '/predictions/:id', ({ params }) => ok(this.predictionsFor(params.id)[0]));
+
+        // Alert snooze rules, ahead of /alerts/:id; expired ones are no longer listed
+        this.route('GET', '/alerts/suppressions', () =>
+            ok(Object.values(db.alertSuppressions).filter(suppression => toTimestampMs(suppression.expires_at) > Date.now())));
+        this.route('POST', '/alerts/suppressions', ({ body, user }) => {
+            requireFields(body, [['scope'], ['target_id'], ['reason'], ['expires_at']]);
+            const request = body as unknown as SuppressionRequest;
+            if (request.scope !== 'patient' && request.scope !== 'device') {
+                throw new MockHttpError(422, 'scope must be patient or device');
+            }
+            const targetId = String(request.target_id);
+            if (request.scope === 'device') this.device(targetId);
+            else this.patient(targetId);
+            const reason = String(request.reason).trim();
+            if (!reason) throw new MockHttpError(422, 'A reason is required');
+            const expiresAt = toTimestampMs(request.expires_at);
+            if (!(expiresAt > Date.now()) || expiresAt - Date.now() > MAX_SUPPRESSION_HOURS * 60 * 60 * 1000) {
+                throw new MockHttpError(422, `expires_at must be within the next ${MAX_SUPPRESSION_HOURS} hours`);
+            }
+
+            const suppression: AlertSuppression = {
+                id: nextId('suppression', this.db.alertSuppressions),
+                scope: request.scope,
+                target_id: targetId,
+                reason,
+                expires_at: new Date(expiresAt).toISOString(),
+                created_by: user ? `${user.first_name} ${user.last_name}` : 'Unknown',
+                created_at: new Date().toISOString(),
+            };
+            db.alertSuppressions[suppression.id] = suppression;
+            // Open alerts of the patient or device go quiet right away
+            Object.values(db.devices)
+                .filter(device => request.scope === 'device'
+                    ? db.devices[targetId] === device
+                    : device.deviceInfo.currentPatientId === targetId)
+                .forEach(device => Object.entries(device.alerts).forEach(([alertId, alert]) => {
+                    if (!alert.resolved && !alert.acknowledged && !alert.suppressedBy) this.suppressAlert(device, alertId, suppression);
+                }));
+            return created(suppression);
+        });
+        this.route('DELETE', '/alerts/suppressions/:id', ({ params }) => {
+            if (!db.alertSuppressions[params.id]) notFound('Suppression', params.id);
+            delete db.alertSuppressions[params.id];
+            return ok({ message: `Suppression ${params.id} lifted` });
+        });
+
+        // Alerts across devices
+        this.route('GET', '/alerts', ({ query }) =>
+            ok(this.flattenAlerts().filter(alert => !query.get('type') || alert.type === query.get('type'))));
+        this.route('GET', '/alerts/patient/:patientId', ({ params }) =>
+            ok(this.flattenAlerts(device => device.deviceInfo.currentPatientId === params.patientId)));
+        this.route('GET', '/alerts/device/:deviceId', ({ params }) =>
+            ok(this.flattenAlerts((_device, deviceId) => deviceId === params.deviceId)));
+        this.route('GET', '/alerts/:id', ({ params }) =>
+            ok(this.flattenAlerts().find(alert => alert.id === params.id) ?? notFound('Alert', params.id)));
+
+        // Audit trail; entries are sent again after a lost answer, so known ids are skipped
+        this.route('POST', '/audit', ({ body }) => {
+            requireFields(body, [['entries']]);
+            const known = new Set(db.audit.map(entry => entry.id));
+            const entries = (body.entries as AuditEntry[]).filter(entry => !known.has(entry.id));
+            db.audit.push(...entries);
+            return created({ recorded: entries.length });
+        });
+        this.route('GET', '/audit', ({ query, user }) => {
+            requireAdmin(user);
+            const entries = filterAuditEntries(db.audit, {
+                search: query.get('q') ?? undefined,
+                entityType: (query.get('entity_type') ?? undefined) as AuditEntry['entity']['type'] | undefined,
+                action: (query.get('action') ?? undefined) as AuditEntry['action'] | undefined,
+                from: query.get('from') ?? undefined,
+                to: query.get('to') ?? undefined,
+                priority: (query.get('priority') ?? undefined) as AuditEntry['priority'],
+                unreviewed: query.get('reviewed') === 'false',
+            });
+            return ok([...entries].reverse().slice(0, Number(query.get('limit') ?? 500)));
+        });
+        this.route('POST', '/audit/:id/review', ({ params, body, user }) => {
+            requireAdmin(user);
+            requireFields(body, [['outcome']]);
+            const entry = db.audit.find(item => item.id === params.id) ?? notFound('Audit entry', params.id);
+            const { outcome, note } = body as Pick<AuditReview, 'outcome' | 'note'>;
+            entry.review = { by: { id: user.id, name: `${user.first_name} ${user.last_name}` }, at: new Date().toISOString(), outcome, note };
+            return ok(entry);
+        });
+
+        // Emergency access; the grant itself is audited by the client
+        this.route('POST', '/access/emergency', ({ body, user }) => {
+            requireFields(body, [['justification']]);
+            const minutes = Math.min(Number(body.minutes) || 30, MAX_EMERGENCY_ACCESS_MINUTES);
+            const grantedAt = Date.now();
+            const grant = {
+                id: `grant_${db.emergencyAccess.length + 1}`,
+                userId: user!.id,
+                justification: String(body.justification),
+                grantedAt: new Date(grantedAt).toISOString(),
+                expiresAt: new Date(grantedAt + minutes * 60 * 1000).toISOString(),
+            };
+            db.emergencyAccess.push(grant);
+            return created({ grant_id: grant.id, granted_at: grant.grantedAt, expires_at: grant.expiresAt });
+        });
+        this.route('POST', '/access/emergency/:id/end', ({ params, user }) => {
+            const grant = db.emergencyAccess.find(item => item.id === params.id && item.userId === user?.id)
+                ?? notFound('Emergency access', params.id);
+            grant.endedAt = new Date().toISOString();
+            return ok({ message: 'Emergency access ended' });
+        });
+
+        // Staff
+        const listStaff = (query: URLSearchParams, extra: (member: StaffMember) => boolean = () => true) =>
+            filterRecords(db.staff, member =>
+                extra(member) &&
+                (!query.get('role') || member.personalInfo.role === query.get('role')) &&
+                (!query.get('department') || member.personalInfo.department === query.get('department')) &&
+                (!query.get('onDuty') || String(member.currentStatus.onDuty) === query.get('onDuty'))
+            );
+
+        this.route('GET', '/staff', ({ query }) => ok(listStaff(query)));
+        this.route('POST', '/staff', ({ body }) => {
+            requireFields(body, [['personalInfo', 'name'], ['personalInfo', 'role']]);
+            const id = nextId('staff', this.db.staff);
+            const member = body as unknown as StaffMember;
+            member.schedule ??= {};
+            db.staff[id] = member;
+            return created({ id, data: db.staff[id] });
+        });
+        this.route('GET', '/staff/stats', () => {
+            const members = Object.values(db.staff);
+            const count = (key: (member: StaffMember) => string) => members.reduce<Record<string, number>>((acc, member) => {
+                acc[key(member)] = (acc[key(member)] ?? 0) + 1;
+                return acc;
+            }, {});
+            const today = toDateInputValue();
+            return ok({
+                total_staff: members.length,
+                on_duty_count: members.filter(member => member.currentStatus.onDuty).length,
+                by_role: count(member => member.personalInfo.role),
+                by_department: count(member => member.personalInfo.department),
+                average_workload: members.reduce((sum, member) => sum + member.currentStatus.workload, 0) / Math.max(1, members.length),
+                shift_distribution: count(member => member.schedule[today]?.shiftType ?? 'off'),
+            });
+        });
+        this.route('GET', '/staff/on-duty', ({ query }) => ok(listStaff(query, member => member.currentStatus.onDuty)));
+        this.route('GET', '/staff/load', () =>
+            ok(Object.fromEntries(Object.entries(db.staff).map(([id, member]) => [id, member.currentStatus.workload]))));
+        this.route('GET', '/staff/departments', () => {
+            const departments: Record<string, { name: string; total_staff: number; on_duty: number; roles: Record<string, number> }> = {};
+            Object.values(db.staff).forEach(({ personalInfo, currentStatus }) => {
+                const department = (departments[personalInfo.department] ??= {
+                    name: personalInfo.department, total_staff: 0, on_duty: 0, roles: {},
+                });
+                department.total_staff++;
+                if (currentStatus.onDuty) department.on_duty++;
+                department.roles[personalInfo.role] = (department.roles[personalInfo.role] ?? 0) + 1;
+            });
+            return ok(departments);
+        });
+        this.route('GET', '/staff/search', ({ query }) => {
+            const text = (query.get('query') ?? '').toLowerCase();
+            const limit = Number(query.get('limit')) || 20;
+            const matches = Object.entries(db.staff).filter(([, member]) =>
+                [member.personalInfo.name, member.personalInfo.department, member.personalInfo.specialization]
+                    .some(value => value.toLowerCase().includes(text))
+            );
+            return ok(Object.fromEntries(matches.slice(0, limit)));
+        });
+        this.route('GET', '/staff/by-ward/:ward', ({ params }) =>
+            ok(filterRecords(db.staff, member => Object.values(member.schedule).some(shift => shift.ward === params.ward))));
+        this.route('GET', '/staff/:id', ({ params }) => ok(this.staffMember(params.id)));
+        this.route('PUT', '/staff/:id', ({ params, body }) => {
+            db.staff[params.id] = { ...this.staffMember(params.id), ...(body as Partial<StaffMember>) };
+            return ok({ message: 'Staff member updated' });
+        });
+        this.route('DELETE', '/staff/:id', ({ params }) => {
+            this.staffMember(params.id);
+            delete db.staff[params.id];
+            return ok({ message: 'Staff member deleted' });
+        });
+        this.route('GET', '/staff/:id/schedule', ({ params, query }) => {
+            const start = query.get('start_date') ?? '';
+            const end = query.get('end_date') ?? '9999-12-31';
+            return ok(filterRecords(this.staffMember(params.id).schedule, (_shift, date) => date >= start && date <= end));
+        });
+        this.route('PUT', '/staff/:id/schedule/:date', ({ params, body }) => {
+            requireFields(body, [['shiftStart'], ['shiftEnd']]);
+            this.staffMember(params.id).schedule[params.date] = body as unknown as StaffMember['schedule'][string];
+            return ok({ message: 'Schedule updated' });
+        });
+        this.route('POST', '/staff/:id/schedule/bulk', ({ params, body }) => {
+            const member = this.staffMember(params.id);
+            Object.assign(member.schedule, body as StaffMember['schedule']);
+            return ok({ message: 'Schedule updated', staff_id: params.id, updated_dates: Object.keys(body) });
+        });
+        this.route('PUT', '/staff/:id/status', ({ params, body }) => {
+            const member = this.staffMember(params.id);
+            member.currentStatus = {
+                ...member.currentStatus,
+                ...(body as Partial<StaffMember['currentStatus']>),
+                lastUpdated: toBackendTimestamp(),
+            };
+            return ok({ message: 'Status updated' });
+        });
+        this.route('PUT', '/staff/:id/duty-status', ({ params, body }) => {
+            const member = this.staffMember(params.id);
+            member.currentStatus = { ...member.currentStatus, onDuty: !!body.on_duty, lastUpdated: toBackendTimestamp() };
+            return ok({ message: 'Duty status updated', staff_id: params.id, on_duty: !!body.on_duty });
+        });
+        this.route('PUT', '/staff/:id/tasks/:taskId/status', ({ params, body }) => {
+            this.staffMember(params.id);
+            if (!['pending', 'in_progress', 'completed'].includes(String(body.status))) {
+                throw new MockHttpError(422, [{ loc: ['body', 'status'], msg: 'unexpected value', type: 'value_error' }]);
+            }
+            return ok({ message: `Task ${params.taskId} marked ${body.status}` });
+        });
+        this.route('GET', '/staff/:id/patients', ({ params }) => {
+            const today = toDateInputValue();
+            const assigned = this.staffMember(params.id).schedule[today]?.patientAssignments ?? [];
+            return ok(filterRecords(db.patients, (_patient, id) => assigned.includes(id)));
+        });
+        this.route('GET', '/staff/:id/workload-history', ({ params, query }) => {
+            const member = this.staffMember(params.id);
+            const days = Number(query.get('days')) || 7;
+            const history = Array.from({ length: days }, (_, index) => {
+                const date = toDateInputValue(new Date(Date.now() - (days - 1 - index) * 24 * 60 * 60 * 1000));
+                const shift = member.schedule[date];
+                // Deterministic wobble around the current workload, so the chart is stable across reloads
+                const workload = shift ? Math.max(0, Math.min(100, member.currentStatus.workload + ((index * 37) % 21) - 10)) : 0;
+                return { date, workload, hours_worked: shift ? 12 : 0 };
+            });
+            return ok({
+                staff_id: params.id,
+                history,
+                average_workload: history.reduce((sum, day) => sum + day.workload, 0) / Math.max(1, history.length),
+            });
+        });
+    }
+}
+
+/**
+ * Send every request of the shared client to a new mock backend and start its simulator
+ */
+export const startMockBackend = (options?: MockBackendOptions): MockBackend => {
+    const backend = new MockBackend(options);
+    Api.setFetch(backend.fetch);
+    backend.start();
+    console.log('🧪 Mock backend active, sign in as admin@hospital.com, doctor@hospital.com or staff@hospital.com');
+    return backend;
+};
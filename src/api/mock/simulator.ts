@@ -0,0 +1,176 @@
+import { EnvironmentalReading, IoTDevice, VitalReading } from '../types';
+import { VitalLevel, describeAssessment, evaluateVitals, thresholdRulesFor } from '../vitalThresholds';
+import { toBackendTimestamp } from '../../utils/dateUtils';
+import { MockDatabase, predictionFor, statusFor } from './fixtures';
+
+// Vitals simulator for the mock backend. Each patient has a severity between 0 and 1 that drifts
+// with their trend; every tick derives a plausible reading from it for the patient's monitor and
+// raises an alert when the patient's vital sign thresholds put it into a worse level.
+
+// Change in severity per tick; a deteriorating patient becomes critical within a few minutes
+const TREND_STEP = { stable: 0, deteriorating: 0.012, improving: -0.01 };
+// Readings kept per patient and device, like the backend's rolling history
+const HISTORY_SIZE = 120;
+
+const LEVEL_ORDER: VitalLevel[] = ['normal', 'warning', 'critical'];
+
+/**
+ * Small seeded generator (mulberry32), so a seed always yields the same readings in tests
+ */
+export const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const round = (value: number, digits = 0) => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drop the oldest readings beyond HISTORY_SIZE; keys are timestamps, so they sort chronologically
+const trim = (history: Record<string, unknown>) => {
+    const keys = Object.keys(history).sort();
+    keys.slice(0, Math.max(0, keys.length - HISTORY_SIZE)).forEach(key => {
+        delete history[key];
+    });
+};
+
+export class VitalsSimulator {
+    private readonly random: () => number;
+    // Level of each monitor's last reading, so an alert is only raised on the way down
+    private readonly levels = new Map<string, VitalLevel>();
+
+    constructor(private readonly db: MockDatabase, seed = 1) {
+        this.random = createRandom(seed);
+    }
+
+    private noise(spread: number) {
+        return (this.random() - 0.5) * 2 * spread;
+    }
+
+    private vitalReading(patientId: string, severity: number, previous: VitalReading | undefined, timestamp: string): VitalReading {
+        return {
+            heartRate: round(clamp(74 + 58 * severity + this.noise(3), 40, 180)),
+            oxygenLevel: round(clamp(98 - 13 * severity + this.noise(0.8), 70, 100)),
+            temperature: round(98.4 + 4 * severity + this.noise(0.2), 1),
+            bloodPressure: {
+                systolic: round(clamp(122 - 40 * severity + this.noise(4), 60, 200)),
+                diastolic: round(clamp(78 - 22 * severity + this.noise(3), 35, 120)),
+            },
+            respiratoryRate: round(clamp(15 + 16 * severity + this.noise(1), 8, 45)),
+            glucose: round(105 + 45 * severity + this.noise(6)),
+            bedOccupancy: true,
+            patientId,
+            deviceStatus: 'online',
+            batteryLevel: round(clamp((previous?.batteryLevel ?? 100) - this.random() * 0.2, 5, 100), 1),
+            signalStrength: round(80 + this.random() * 20),
+            timestamp,
+        };
+    }
+
+    private environmentalReading(timestamp: string): EnvironmentalReading {
+        return {
+            temperature: round(22 + this.noise(1), 1),
+            humidity: round(47 + this.noise(6)),
+            airQuality: round(35 + this.noise(15)),
+            lightLevel: round(320 + this.noise(80)),
+            noiseLevel: round(42 + this.noise(8)),
+            pressure: round(1013 + this.noise(4), 1),
+            co2Level: round(600 + this.noise(150)),
+            deviceStatus: 'online',
+            batteryLevel: 100,
+            signalStrength: round(85 + this.random() * 15),
+            timestamp,
+        };
+    }
+
+    private raiseAlert(deviceId: string, device: IoTDevice, history: Record<string, VitalReading>, timestamp: string) {
+        const reading = history[timestamp];
+        const patient = this.db.patients[reading.patientId];
+        const rules = thresholdRulesFor(this.db.vitalThresholds, reading.patientId, patient?.personalInfo.ward);
+        const assessment = evaluateVitals(Object.values(history), rules);
+        const previous = this.levels.get(deviceId) ?? 'normal';
+        this.levels.set(deviceId, assessment.level);
+
+        if (LEVEL_ORDER.indexOf(assessment.level) <= LEVEL_ORDER.indexOf(previous)) return;
+
+        // Alert ids are backend timestamps, which the alerts views rely on
+        device.alerts[timestamp] = {
+            type: assessment.level === 'critical' ? 'critical' : 'warning',
+            message: `${patient?.personalInfo.name ?? reading.patientId}: ${describeAssessment(assessment)}`,
+            timestamp,
+            resolved: false,
+        };
+    }
+
+    private updatePatient(patientId: string, severity: number, now: Date) {
+        const patient = this.db.patients[patientId];
+        if (!patient) return;
+        const trend = this.db.trends[patientId] ?? 'stable';
+        patient.currentStatus = {
+            ...patient.currentStatus,
+            status: statusFor(severity, trend),
+            consciousness: severity >= 0.5 ? 'Drowsy' : 'Alert',
+            lastUpdated: toBackendTimestamp(now),
+        };
+        patient.predictions = predictionFor(severity, patient.predictions.factors, now);
+    }
+
+    /**
+     * Advance every patient by one step and record a reading on each device
+     */
+    tick(now: Date = new Date()) {
+        const timestamp = toBackendTimestamp(now);
+
+        Object.entries(this.db.severity).forEach(([patientId, severity]) => {
+            const trend = this.db.trends[patientId] ?? 'stable';
+            // Stable patients wander a little around where they are
+            const next = clamp(severity + TREND_STEP[trend] + this.noise(trend === 'stable' ? 0.01 : 0.004), 0, 1);
+            this.db.severity[patientId] = next;
+            this.updatePatient(patientId, next, now);
+        });
+
+        Object.entries(this.db.devices).forEach(([deviceId, device]) => {
+            // Room sensors keep `{ timestamp: reading }`, monitors `{ patientId: { timestamp: reading } }`
+            if (device.deviceInfo.type === 'environmental_sensor') {
+                const readings = device.vitals as Record<string, EnvironmentalReading>;
+                readings[timestamp] = this.environmentalReading(timestamp);
+                trim(readings);
+                return;
+            }
+
+            const patientId = device.deviceInfo.currentPatientId;
+            if (device.deviceInfo.type !== 'vitals_monitor' || !patientId || this.db.severity[patientId] === undefined) return;
+
+            const vitals = device.vitals as Record<string, Record<string, VitalReading>>;
+            const history = (vitals[patientId] ??= {});
+            const latest = Object.keys(history).sort().pop();
+            const reading = this.vitalReading(
+                patientId,
+                this.db.severity[patientId],
+                latest ? history[latest] : undefined,
+                timestamp
+            );
+            history[timestamp] = reading;
+            trim(history);
+            this.raiseAlert(deviceId, device, history, timestamp);
+        });
+    }
+
+    /**
+     * Fill in `count` readings leading up to `now`, one per `intervalMs`
+     */
+    warmUp(now: Date, count: number, intervalMs: number) {
+        for (let step = count - 1; step >= 0; step--) {
+            this.tick(new Date(now.getTime() - step * intervalMs));
+        }
+    }
+}
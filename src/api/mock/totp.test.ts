@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBase32, generateTotp, verifyTotp } from './totp';
+
+// The SHA-1 test vectors of RFC 6238, appendix B, cut to six digits
+const RFC_SECRET = encodeBase32(new TextEncoder().encode('12345678901234567890'));
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  it('allows one step of clock drift either way', () => {
+    const time = 1111111111 * 1000;
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 30000), time)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time + 30000), time)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, time - 90000), time)).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+// Time-based one-time passwords (RFC 6238) as authenticator apps compute them: HMAC-SHA1 over
+// the number of 30-second steps since the epoch, cut to six digits. Synchronous, because mock
+// route handlers are; tests use generateTotp to sign in like a user with an authenticator app.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const rotl = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+const sha1 = (message: Uint8Array): Uint8Array => {
+    const padded = new Uint8Array(Math.ceil((message.length + 9) / 64) * 64);
+    padded.set(message);
+    padded[message.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(message.length / 0x20000000));
+    view.setUint32(padded.length - 4, (message.length * 8) >>> 0);
+
+    const hash = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+    const words = new Uint32Array(80);
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+        for (let i = 16; i < 80; i++) words[i] = rotl(words[i - 3] ^ words[i - 8] ^ words[i - 14] ^ words[i - 16], 1);
+
+        let [a, b, c, d, e] = hash;
+        for (let i = 0; i < 80; i++) {
+            const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+                : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+                : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+                : [b ^ c ^ d, 0xca62c1d6];
+            const next = (rotl(a, 5) + f + e + k + words[i]) >>> 0;
+            e = d;
+            d = c;
+            c = rotl(b, 30) >>> 0;
+            b = a;
+            a = next;
+        }
+        [a, b, c, d, e].forEach((value, index) => {
+            hash[index] = (hash[index] + value) >>> 0;
+        });
+    }
+
+    const digest = new Uint8Array(20);
+    const digestView = new DataView(digest.buffer);
+    hash.forEach((value, index) => digestView.setUint32(index * 4, value));
+    return digest;
+};
+
+const hmacSha1 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+    const block = new Uint8Array(64);
+    block.set(key.length > 64 ? sha1(key) : key);
+    const inner = new Uint8Array(64 + message.length);
+    const outer = new Uint8Array(64 + 20);
+    for (let i = 0; i < 64; i++) {
+        inner[i] = block[i] ^ 0x36;
+        outer[i] = block[i] ^ 0x5c;
+    }
+    inner.set(message, 64);
+    outer.set(sha1(inner), 64);
+    return sha1(outer);
+};
+
+export const encodeBase32 = (bytes: Uint8Array): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    bytes.forEach(byte => {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    });
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+const decodeBase32 = (text: string): Uint8Array => {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of text.toUpperCase().replace(/[\s=]/g, '')) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index < 0) throw new Error(`Invalid base32 character "${char}"`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+/**
+ * A new random secret, base32 as authenticator apps expect it
+ */
+export const createTotpSecret = (): string => encodeBase32(crypto.getRandomValues(new Uint8Array(20)));
+
+/**
+ * The code an authenticator app shows for `secret` at `time`
+ */
+export const generateTotp = (secret: string, time: number = Date.now()): string => {
+    const counter = Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+    const message = new Uint8Array(8);
+    const view = new DataView(message.buffer);
+    view.setUint32(0, Math.floor(counter / 0x100000000));
+    view.setUint32(4, counter >>> 0);
+
+    const digest = hmacSha1(decodeBase32(secret), message);
+    const offset = digest[19] & 0x0f;
+    const binary = new DataView(digest.buffer).getUint32(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Whether `code` is right for `secret`, allowing one step of clock drift either way
+ */
+export const verifyTotp = (secret: string, code: string, time: number = Date.now()): boolean =>
+    [-1, 0, 1].some(drift => generateTotp(secret, time + drift * TOTP_STEP_SECONDS * 1000) === code.replace(/\s/g, ''));
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Api from './api';
+import { authAPI } from './auth';
+import { flushAuditLog } from './audit';
+import { ENDPOINTS } from './config';
+import { MOCK_PASSWORD } from './mock/fixtures';
+import { clearOfflineData, forceQueuedMutation, getOfflineState, replayQueuedMutations } from './offline';
+import type { QueuedMutation, Snapshot } from './offlineStore';
+import { setupMockBackend } from '../test/mockServer';
+
+// jsdom has no IndexedDB, which would keep offline mode off; an in-memory store stands in for it
+vi.mock('./offlineStore', () => {
+    const snapshots = new Map<string, Snapshot>();
+    const mutations = new Map<number, QueuedMutation>();
+    let nextId = 1;
+    return {
+        saveSnapshot: async (key: string, data: unknown) => {
+            snapshots.set(key, { key, data, savedAt: new Date() });
+        },
+        loadSnapshot: async (key: string) => snapshots.get(key) ?? null,
+        addQueuedMutation: async (mutation: Omit<QueuedMutation, 'id'>) => {
+            const stored = { ...mutation, id: nextId++ };
+            mutations.set(stored.id, stored);
+            return stored;
+        },
+        updateQueuedMutation: async (mutation: QueuedMutation) => {
+            mutations.set(mutation.id, mutation);
+        },
+        removeQueuedMutation: async (id: number) => {
+            mutations.delete(id);
+        },
+        listQueuedMutations: async () => [...mutations.values()],
+        clearOfflineStorage: async () => {
+            snapshots.clear();
+            mutations.clear();
+        },
+    };
+});
+
+// Dr. Michael Chen is on duty and James Okafor off duty in the fixtures
+const CHEN = 'staff_001';
+const OKAFOR = 'staff_004';
+
+const setOnDuty = (staffId: string, onDuty: boolean, before: boolean) =>
+    Api.put(ENDPOINTS.staff.dutyStatus(staffId), { on_duty: onDuty }, {
+        retry: false,
+        queueOffline: {
+            description: `Set ${staffId} ${onDuty ? 'on' : 'off'} duty`,
+            expect: { endpoint: ENDPOINTS.staff.getAll, path: [staffId, 'currentStatus', 'onDuty'] },
+        },
+        audit: {
+            action: 'update',
+            entity: { type: 'staff', id: staffId },
+            description: `Set ${staffId} ${onDuty ? 'on' : 'off'} duty`,
+            before: { currentStatus: { onDuty: before } },
+            after: { currentStatus: { onDuty } },
+        },
+    });
+
+describe('Offline writes', () => {
+    const server = setupMockBackend('admin@hospital.com');
+    const unreachable = vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+    });
+
+    // Saves the staff snapshot the writes are checked against, then cuts the connection
+    const goOffline = async () => {
+        await Api.get(ENDPOINTS.staff.getAll);
+        unreachable.mockClear();
+        Api.setFetch(unreachable);
+    };
+    const goOnline = () => Api.setFetch(server.backend.fetch);
+
+    afterEach(async () => {
+        await clearOfflineData();
+    });
+
+    it('merges a second change to the same thing into the queued one, keeping the value before the first', async () => {
+        await goOffline();
+        expect(await setOnDuty(CHEN, false, true)).toEqual(expect.objectContaining({ status: 202, queued: true }));
+        await setOnDuty(CHEN, true, false);
+
+        const { queue } = getOfflineState();
+        expect(queue).toHaveLength(1);
+        expect(queue[0]).toEqual(expect.objectContaining({
+            body: { on_duty: true },
+            description: `Set ${CHEN} on duty`,
+            expectedValue: true,
+            status: 'pending',
+            audit: expect.objectContaining({
+                before: { currentStatus: { onDuty: true } },
+                after: { currentStatus: { onDuty: true } },
+            }),
+        }));
+
+        goOnline();
+        await replayQueuedMutations();
+        await flushAuditLog();
+        expect(getOfflineState().queue).toEqual([]);
+        // He was on duty before the first change and is after the second, so nothing changed in total
+        expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+            entity: expect.objectContaining({ type: 'staff', id: CHEN }),
+            description: `Set ${CHEN} on duty`,
+            changes: [],
+        }));
+    });
+
+    it('holds a write whose base value changed meanwhile until it is forced', async () => {
+        await goOffline();
+        await setOnDuty(CHEN, false, true);
+        // Someone else signs him off at the desk while this terminal is offline
+        server.backend.db.staff[CHEN].currentStatus.onDuty = false;
+
+        goOnline();
+        await replayQueuedMutations();
+        const [held] = getOfflineState().queue;
+        expect(held).toEqual(expect.objectContaining({
+            status: 'conflict',
+            reason: 'Changed by someone else while you were offline',
+        }));
+
+        // Held writes are not sent again with the rest of the queue
+        await replayQueuedMutations();
+        expect(getOfflineState().queue).toEqual([held]);
+
+        await forceQueuedMutation(held.id);
+        expect(getOfflineState().queue).toEqual([]);
+        expect(getOfflineState().replaying).toBe(false);
+        await flushAuditLog();
+        expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+            entity: expect.objectContaining({ id: CHEN }),
+            description: `Set ${CHEN} off duty`,
+        }));
+    });
+
+    it('stops replaying at the first write that still cannot get through', async () => {
+        await goOffline();
+        await setOnDuty(CHEN, false, true);
+        await setOnDuty(OKAFOR, true, false);
+        unreachable.mockClear();
+
+        await replayQueuedMutations();
+        expect(unreachable).toHaveBeenCalledTimes(1);
+        expect(getOfflineState().queue.map(item => [item.endpoint, item.status])).toEqual([
+            [ENDPOINTS.staff.dutyStatus(CHEN), 'pending'],
+            [ENDPOINTS.staff.dutyStatus(OKAFOR), 'pending'],
+        ]);
+
+        goOnline();
+        await replayQueuedMutations();
+        expect(getOfflineState().queue).toEqual([]);
+        expect(server.backend.db.staff[CHEN].currentStatus.onDuty).toBe(false);
+        expect(server.backend.db.staff[OKAFOR].currentStatus.onDuty).toBe(true);
+    });
+
+    it('keeps writes queued by another user until they are signed in again', async () => {
+        await goOffline();
+        await setOnDuty(OKAFOR, true, false);
+        goOnline();
+
+        const adminSession = authAPI.detachSession()!;
+        await authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD });
+        const [queued] = getOfflineState().queue;
+        await replayQueuedMutations();
+        await forceQueuedMutation(queued.id);
+        expect(getOfflineState().queue).toEqual([queued]);
+        expect(server.backend.db.staff[OKAFOR].currentStatus.onDuty).toBe(false);
+
+        authAPI.restoreSession(adminSession);
+        await replayQueuedMutations();
+        expect(getOfflineState().queue).toEqual([]);
+        expect(server.backend.db.staff[OKAFOR].currentStatus.onDuty).toBe(true);
+    });
+});
@@ -0,0 +1,272 @@
+import Api, { ApiRequest, ApiResponse, endpointFromUrl } from './api';
+import { authAPI } from './auth';
+import { FACILITY_HEADER, OFFLINE_SNAPSHOT_ENDPOINTS } from './config';
+import { describeApiError, isOfflineError } from './errors';
+import {
+    addQueuedMutation,
+    clearOfflineStorage,
+    listQueuedMutations,
+    loadSnapshot,
+    QueuedMutation,
+    removeQueuedMutation,
+    saveSnapshot,
+    updateQueuedMutation,
+} from './offlineStore';
+import { queryKey } from './queryCache';
+
+// Offline mode. While the backend is unreachable, reads of OFFLINE_SNAPSHOT_ENDPOINTS are answered
+// from the copy last saved in IndexedDB and writes made with `queueOffline` are queued there.
+// The queue is replayed in order as soon as a request gets through again.
+
+export interface OfflineState {
+    // The last request could not reach the backend
+    offline: boolean;
+    // Save time of the oldest snapshot served since the backend became unreachable
+    staleSince: Date | null;
+    // Queued writes, including conflicts and failures waiting for the user
+    queue: QueuedMutation[];
+    replaying: boolean;
+}
+
+let state: OfflineState = { offline: false, staleSince: null, queue: [], replaying: false };
+const listeners = new Set<() => void>();
+
+const setState = (update: Partial<OfflineState>) => {
+    state = { ...state, ...update };
+    listeners.forEach(listener => listener());
+};
+
+export const getOfflineState = (): OfflineState => state;
+
+/**
+ * Subscribe to offline state changes. Returns a function that unsubscribes again.
+ */
+export const subscribeToOffline = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const snapshotPaths = new Set(OFFLINE_SNAPSHOT_ENDPOINTS.map(endpoint => queryKey(endpoint)));
+
+// Filtered reads such as '/staff/?role=nurse' are saved too, each under its own key
+const isSnapshotEndpoint = (endpoint: string) => snapshotPaths.has(queryKey(endpoint.split('?')[0]));
+
+// Each facility has its own snapshots, so switching site offline does not show the other one's data
+const snapshotKey = (endpoint: string, request: ApiRequest) => {
+    const facilityId = request.headers[FACILITY_HEADER];
+    return facilityId ? `${facilityId}:${queryKey(endpoint)}` : queryKey(endpoint);
+};
+
+// Replayed writes go to the facility they were made in, whichever one is open by then
+const facilityHeaders = (mutation: QueuedMutation) =>
+    mutation.facilityId ? { [FACILITY_HEADER]: mutation.facilityId } : undefined;
+
+const valueAt = (data: unknown, path: string[]): unknown =>
+    path.reduce<unknown>(
+        (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+        data
+    );
+
+// Key order differs between the snapshot and a fresh response, so values are compared canonically
+const canonical = (value: unknown): string =>
+    JSON.stringify(value, (_key, inner) =>
+        typeof inner === 'object' && inner !== null && !Array.isArray(inner)
+            ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+            : inner
+    ) ?? 'undefined';
+
+// Writes queued by another user on a shared terminal wait until they are signed in again
+export const isQueuedByActiveUser = (mutation: QueuedMutation) =>
+    !mutation.queuedBy || mutation.queuedBy.id === authAPI.getSessionUser()?.id;
+
+const replaceInQueue = (mutation: QueuedMutation) =>
+    setState({ queue: state.queue.map(item => (item.id === mutation.id ? mutation : item)) });
+
+const dropFromQueue = async (id: number) => {
+    await removeQueuedMutation(id);
+    setState({ queue: state.queue.filter(item => item.id !== id) });
+};
+
+const holdMutation = async (mutation: QueuedMutation, status: 'conflict' | 'failed', reason: string) => {
+    console.warn(`📥 Queued change "${mutation.description}" not applied (${status}): ${reason}`);
+    const held = { ...mutation, status, reason };
+    await updateQueuedMutation(held);
+    replaceInQueue(held);
+};
+
+const queueMutation = async (request: ApiRequest, endpoint: string): Promise<boolean> => {
+    const options = request.queueOffline!;
+    const queuedBy = authAPI.getSessionUser() ?? undefined;
+
+    // A second change to the same thing replaces the first but keeps its base value,
+    // e.g. toggling someone off and back on duty queues a single write
+    const earlier = state.queue.find(item =>
+        item.status === 'pending' && item.method === request.method && item.endpoint === endpoint
+        && item.queuedBy?.id === queuedBy?.id && item.facilityId === request.headers[FACILITY_HEADER]
+    );
+    if (earlier) {
+        const audit = request.audit && { ...request.audit, before: earlier.audit?.before ?? request.audit.before };
+        const merged = { ...earlier, body: request.body, description: options.description, queuedAt: new Date(), audit };
+        await updateQueuedMutation(merged);
+        replaceInQueue(merged);
+        return true;
+    }
+
+    let expectedValue: unknown;
+    if (options.expect) {
+        const snapshot = await loadSnapshot(snapshotKey(options.expect.endpoint, request));
+        expectedValue = snapshot ? valueAt(snapshot.data, options.expect.path) : undefined;
+    }
+
+    const queued = await addQueuedMutation({
+        ...options,
+        method: request.method,
+        endpoint,
+        body: request.body,
+        expectedValue,
+        queuedAt: new Date(),
+        status: 'pending',
+        queuedBy,
+        facilityId: request.headers[FACILITY_HEADER],
+        audit: request.audit,
+    });
+    if (!queued) return false;
+
+    console.log(`📥 Queued offline: ${queued.description}`);
+    setState({ queue: [...state.queue, queued] });
+    return true;
+};
+
+type ReplayOutcome = 'applied' | 'held' | 'offline';
+
+const replayMutation = async (mutation: QueuedMutation, checkConflicts: boolean): Promise<ReplayOutcome> => {
+    if (checkConflicts && mutation.expect && mutation.expectedValue !== undefined) {
+        const current = await Api.get(mutation.expect.endpoint, undefined, { retry: false, headers: facilityHeaders(mutation) });
+        if (isOfflineError(current.error) || current.staleSince) return 'offline';
+        if (current.error) {
+            await holdMutation(mutation, 'failed', describeApiError(current.error));
+            return 'held';
+        }
+        if (canonical(valueAt(current.data, mutation.expect.path)) !== canonical(mutation.expectedValue)) {
+            await holdMutation(mutation, 'conflict', 'Changed by someone else while you were offline');
+            return 'held';
+        }
+    }
+
+    const response = await Api.request(mutation.method, mutation.endpoint, mutation.body, {
+        retry: false,
+        headers: facilityHeaders(mutation),
+        audit: mutation.audit && { ...mutation.audit, madeAt: mutation.queuedAt },
+    });
+    if (isOfflineError(response.error)) return 'offline';
+    if (response.error) {
+        await holdMutation(
+            mutation,
+            response.error.kind === 'Conflict' ? 'conflict' : 'failed',
+            describeApiError(response.error)
+        );
+        return 'held';
+    }
+
+    console.log(`📤 Replayed offline change: ${mutation.description}`);
+    await dropFromQueue(mutation.id);
+    return 'applied';
+};
+
+/**
+ * Send the active user's pending queued writes in the order they were made. Stops at the first one
+ * that cannot reach the backend; conflicts and failures are kept for the user to resolve.
+ */
+export const replayQueuedMutations = async () => {
+    const pending = () => state.queue.filter(item => item.status === 'pending' && isQueuedByActiveUser(item));
+    if (state.replaying || pending().length === 0) return;
+
+    setState({ replaying: true });
+    try {
+        for (const mutation of pending()) {
+            if (await replayMutation(mutation, true) === 'offline') break;
+        }
+    } finally {
+        setState({ replaying: false });
+    }
+};
+
+/**
+ * Send a held write as it is, overwriting the newer value on the server
+ */
+export const forceQueuedMutation = async (id: number) => {
+    const mutation = state.queue.find(item => item.id === id);
+    if (!mutation || !isQueuedByActiveUser(mutation) || state.replaying) return;
+
+    setState({ replaying: true });
+    try {
+        await replayMutation({ ...mutation, status: 'pending', reason: undefined }, false);
+    } finally {
+        setState({ replaying: false });
+    }
+};
+
+export const discardQueuedMutation = (id: number) => dropFromQueue(id);
+
+/**
+ * Forget snapshots and queued writes, e.g. on logout
+ */
+export const clearOfflineData = async () => {
+    await clearOfflineStorage();
+    setState({ offline: false, staleSince: null, queue: [] });
+};
+
+// Writes queued in an earlier session are loaded once and replayed with the next request that
+// gets through
+listQueuedMutations().then(stored => {
+    const known = new Set(state.queue.map(item => item.id));
+    const earlier = stored.filter(item => !known.has(item.id));
+    if (earlier.length > 0) setState({ queue: [...earlier, ...state.queue] });
+});
+
+const serveOffline = async (response: ApiResponse, request: ApiRequest): Promise<ApiResponse> => {
+    if (request.signal?.aborted) return response;
+
+    const endpoint = endpointFromUrl(request.url);
+    if (endpoint === null) return response;
+
+    if (!isOfflineError(response.error)) {
+        if (state.offline) {
+            console.log('📶 Backend reachable again');
+            setState({ offline: false, staleSince: null });
+            replayQueuedMutations();
+        }
+        if (request.method === 'GET' && !response.error && isSnapshotEndpoint(endpoint)) {
+            saveSnapshot(snapshotKey(endpoint, request), response.data);
+        }
+        return response;
+    }
+
+    if (!state.offline) setState({ offline: true });
+
+    if (request.method === 'GET') {
+        if (!isSnapshotEndpoint(endpoint)) return response;
+        const snapshot = await loadSnapshot(snapshotKey(endpoint, request));
+        if (!snapshot) return response;
+
+        if (!state.staleSince || snapshot.savedAt < state.staleSince) {
+            setState({ staleSince: snapshot.savedAt });
+        }
+        return { data: snapshot.data, status: 200, retries: response.retries, staleSince: snapshot.savedAt };
+    }
+
+    if (request.queueOffline && await queueMutation(request, endpoint)) {
+        return { status: 202, retries: response.retries, queued: true };
+    }
+    return response;
+};
+
+Api.addResponseInterceptor(serveOffline);
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+        replayQueuedMutations();
+    });
+}
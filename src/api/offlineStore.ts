@@ -0,0 +1,130 @@
+import type { HttpMethod, QueueOfflineOptions } from './api';
+import type { AuditOptions } from './audit';
+
+// IndexedDB storage behind offline mode: the last response of each snapshot endpoint and the
+// writes waiting to be replayed. Every function resolves to an empty result when IndexedDB is
+// unavailable (private browsing, tests), so offline mode simply stays off.
+
+const DB_NAME = 'smart-hospital-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const MUTATIONS = 'mutations';
+
+export interface Snapshot {
+    key: string;
+    data: unknown;
+    savedAt: Date;
+}
+
+export type QueuedMutationStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedMutation extends QueueOfflineOptions {
+    id: number;
+    method: HttpMethod;
+    // Relative to API_BASE_URL, as passed to Api.request
+    endpoint: string;
+    body?: unknown;
+    // Value at `expect.path` in the snapshot when the write was queued
+    expectedValue?: unknown;
+    queuedAt: Date;
+    status: QueuedMutationStatus;
+    // Why a conflicting or failed write was not applied
+    reason?: string;
+    // Who made the change; it is only sent with their session, see replayQueuedMutations
+    queuedBy?: { id: string; name: string };
+    // Facility the change was made in; missing for the backend's default facility
+    facilityId?: string;
+    // Recorded in the audit trail when the write is applied
+    audit?: AuditOptions;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+                    db.createObjectStore(SNAPSHOTS, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(MUTATIONS)) {
+                    db.createObjectStore(MUTATIONS, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('💾 Offline storage unavailable:', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Run one request against a store and resolve with its result, or `fallback` when IndexedDB
+ * is unavailable or the request fails
+ */
+const run = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+    fallback: T
+): Promise<T> => {
+    const db = await openDatabase();
+    if (!db) return fallback;
+
+    return new Promise(resolve => {
+        try {
+            const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => {
+                console.warn(`💾 Offline storage ${mode} on ${storeName} failed:`, request.error);
+                resolve(fallback);
+            };
+        } catch (error) {
+            console.warn(`💾 Offline storage ${mode} on ${storeName} failed:`, error);
+            resolve(fallback);
+        }
+    });
+};
+
+export const saveSnapshot = (key: string, data: unknown): Promise<void> =>
+    run(SNAPSHOTS, 'readwrite', store => store.put({ key, data, savedAt: new Date() }), undefined);
+
+export const loadSnapshot = (key: string): Promise<Snapshot | null> =>
+    run<Snapshot | undefined>(SNAPSHOTS, 'readonly', store => store.get(key), undefined).then(snapshot => snapshot ?? null);
+
+/**
+ * Append a write to the queue and resolve with the stored entry
+ */
+export const addQueuedMutation = async (mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation | null> => {
+    const id = await run<IDBValidKey | null>(MUTATIONS, 'readwrite', store => store.add(mutation), null);
+    return id === null ? null : { ...mutation, id: id as number };
+};
+
+export const updateQueuedMutation = (mutation: QueuedMutation): Promise<void> =>
+    run(MUTATIONS, 'readwrite', store => store.put(mutation), undefined);
+
+export const removeQueuedMutation = (id: number): Promise<void> =>
+    run(MUTATIONS, 'readwrite', store => store.delete(id), undefined);
+
+/**
+ * Queued writes in the order they were made
+ */
+export const listQueuedMutations = (): Promise<QueuedMutation[]> =>
+    run<QueuedMutation[]>(MUTATIONS, 'readonly', store => store.getAll(), []);
+
+/**
+ * Remove snapshots and queued writes, e.g. on logout so patient data does not stay on the device
+ */
+export const clearOfflineStorage = async (): Promise<void> => {
+    await run(SNAPSHOTS, 'readwrite', store => store.clear(), undefined);
+    await run(MUTATIONS, 'readwrite', store => store.clear(), undefined);
+};
@@ -0,0 +1,53 @@
+import { ApiResponse } from './api';
+import { ApiResult, describeApiError } from './errors';
+import { applyOptimisticUpdate } from './queryCache';
+import { showToast } from '../store/toastStore';
+
+// Optimistic writes: cached lists show the change right away, the server's answer either
+// confirms it (the refetch triggered by the write then replaces it) or undoes it with a toast.
+
+export interface OptimisticChange {
+    endpoint: string;
+    update: (data: unknown) => unknown;
+}
+
+/**
+ * Change to the cached data of a list endpoint, typed by the data it holds
+ */
+export const optimisticChange = <T>(endpoint: string, update: (data: T) => T): OptimisticChange => ({
+    endpoint,
+    update: update as (data: unknown) => unknown,
+});
+
+/**
+ * Updater that replaces one record of a keyed collection. Collections without the record are
+ * left alone, so the change never invents entities a filtered list does not contain.
+ */
+export const patchRecord = <T>(id: string, patch: (record: T) => T) =>
+    (records: Record<string, T>): Record<string, T> =>
+        records && records[id] !== undefined ? { ...records, [id]: patch(records[id]) } : records;
+
+/**
+ * Apply `changes` to the cached data, send the request, and keep or undo the changes depending
+ * on the outcome. Failures are explained in a toast titled `failureTitle`, which should say
+ * that the change was not kept, e.g. "Patient changes were not saved".
+ */
+export const optimisticMutation = async <T>(
+    changes: OptimisticChange[],
+    request: () => Promise<ApiResponse<T>>,
+    failureTitle: string
+): Promise<ApiResult<T | undefined>> => {
+    const handles = changes.map(({ endpoint, update }) => applyOptimisticUpdate(endpoint, update));
+
+    const response = await request();
+
+    if (response.error) {
+        handles.forEach(handle => handle.rollback());
+        console.warn(`↩️ ${failureTitle}, change undone:`, response.error);
+        showToast({ kind: 'error', title: failureTitle, message: describeApiError(response.error) });
+        return { success: false, error: response.error };
+    }
+
+    handles.forEach(handle => handle.confirm());
+    return { success: true, data: response.data };
+};
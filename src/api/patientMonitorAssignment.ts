@@ -1,5 +1,12 @@
 // API functions for patient-monitor assignment
-import { API_BASE_URL } from './config';
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { findCachedRecord } from './queryCache';
+import { IoTDevice } from './types';
+
+// Patient on the monitor as last loaded, recorded in the audit trail
+const currentPatientOf = (deviceId: string) =>
+  findCachedRecord<IoTDevice>(ENDPOINTS.iot.getAll, deviceId)?.deviceInfo.currentPatientId;
 
 export interface AssignPatientToMonitorRequest {
   patientId: string;
@@ -18,36 +25,28 @@ export const assignPatientToMonitor = async (
   deviceId: string, 
   patientId: string
 ): Promise<PatientMonitorAssignmentResponse> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/iotData/${deviceId}/assign-patient`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ patientId }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      return {
-        success: false,
-        message: 'Failed to assign patient to monitor',
-        error: errorData.detail || 'Unknown error occurred'
-      };
-    }
+  const response = await Api.post<{ message?: string }>(ENDPOINTS.iot.assignPatient(deviceId), { patientId }, {
+    audit: {
+      action: 'assign',
+      entity: { type: 'device', id: deviceId },
+      description: `Assign patient ${patientId} to monitor ${deviceId}`,
+      before: { currentPatientId: currentPatientOf(deviceId) },
+      after: { currentPatientId: patientId },
+    },
+  });
 
-    const data = await response.json();
-    return {
-      success: true,
-      message: data.message || 'Patient assigned to monitor successfully'
-    };
-  } catch (error) {
+  if (response.error) {
     return {
       success: false,
-      message: 'Network error occurred',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      message: 'Failed to assign patient to monitor',
+      error: response.error.message
     };
   }
+
+  return {
+    success: true,
+    message: response.data?.message || 'Patient assigned to monitor successfully'
+  };
 };
 
 /**
@@ -56,51 +55,39 @@ export const assignPatientToMonitor = async (
 export const unassignPatientFromMonitor = async (
   deviceId: string
 ): Promise<PatientMonitorAssignmentResponse> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/iotData/${deviceId}/unassign-patient`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+  const response = await Api.delete<{ message?: string }>(ENDPOINTS.iot.unassignPatient(deviceId), {
+    audit: {
+      action: 'unassign',
+      entity: { type: 'device', id: deviceId },
+      description: `Detach the patient from monitor ${deviceId}`,
+      before: { currentPatientId: currentPatientOf(deviceId) },
+    },
+  });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      return {
-        success: false,
-        message: 'Failed to unassign patient from monitor',
-        error: errorData.detail || 'Unknown error occurred'
-      };
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      message: data.message || 'Patient unassigned from monitor successfully'
-    };
-  } catch (error) {
+  if (response.error) {
     return {
       success: false,
-      message: 'Network error occurred',
-      error: error instanceof Error ? error.message : 'Unknown error'
+      message: 'Failed to unassign patient from monitor',
+      error: response.error.message
     };
   }
+
+  return {
+    success: true,
+    message: response.data?.message || 'Patient unassigned from monitor successfully'
+  };
 };
 
 /**
  * Get available patients in the same room as the monitor
  */
 export const getAvailablePatientsForMonitor = async (deviceId: string) => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/iotData/${deviceId}/available-patients`);
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch available patients');
-    }
+  const response = await Api.get(ENDPOINTS.iot.availablePatients(deviceId));
 
-    return await response.json();
-  } catch (error) {
-    console.error('Error fetching available patients:', error);
-    throw error;
+  if (response.error) {
+    console.error('Error fetching available patients:', response.error);
+    throw new Error('Failed to fetch available patients');
   }
+
+  return response.data;
 };
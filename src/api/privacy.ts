@@ -0,0 +1,45 @@
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { AccountRole } from './userAccounts';
+
+// Privacy mode for screens that passers-by can read, e.g. at nursing stations: patient names shrink
+// to initials and ages and diagnoses stay hidden until hovered or revealed, and the voice assistant
+// reads initials instead of names. Admins choose per role which screens use it.
+
+export const PRIVACY_SCREENS = ['assigned-patients', 'room-status', 'alert-notifications', 'voice-assistant'] as const;
+
+export type PrivacyScreen = typeof PRIVACY_SCREENS[number];
+
+export interface PrivacyPolicy {
+    masked_screens: Record<AccountRole, PrivacyScreen[]>;
+    // A revealed record is masked again after this many seconds
+    relock_seconds: number;
+}
+
+// Used until the backend's policy has loaded, and when it cannot be loaded
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+    masked_screens: {
+        admin: [],
+        doctor: [],
+        staff: [...PRIVACY_SCREENS],
+    },
+    relock_seconds: 30,
+};
+
+/**
+ * Screens the policy masks for `role`. A policy saved before the role existed has no entry for it
+ * and gets the role's default, which masks rather than shows when in doubt.
+ */
+export const maskedScreensFor = (policy: PrivacyPolicy, role: AccountRole): PrivacyScreen[] =>
+    policy.masked_screens?.[role] ?? DEFAULT_PRIVACY_POLICY.masked_screens[role];
+
+export const updatePrivacyPolicy = (policy: PrivacyPolicy, before?: PrivacyPolicy) =>
+    Api.put<PrivacyPolicy>(ENDPOINTS.settings.privacy, policy, {
+        audit: {
+            action: 'update',
+            entity: { type: 'setting', id: 'privacy', name: 'Privacy mode policy' },
+            description: 'Change the privacy mode policy',
+            before: before ?? null,
+            after: policy,
+        },
+    });
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { optimisticChange, optimisticMutation, patchRecord } from './optimistic';
+import { getCachedQuery, query, subscribeToQuery } from './queryCache';
+import { Patient } from './types';
+import { overrideRoute, setupMockBackend } from '../test/mockServer';
+
+const PATIENT = 'patient_004';
+
+describe('Query cache', () => {
+    const server = setupMockBackend('doctor@hospital.com');
+
+    it('shares one request between callers asking at the same time', async () => {
+        const fetch = vi.fn(server.backend.fetch);
+        Api.setFetch(fetch);
+
+        const [first, second] = await Promise.all([
+            query(ENDPOINTS.patients.getAll),
+            query('/patients'),
+        ]);
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(second.data).toBe(first.data);
+
+        // Fresh responses are served from memory until forced
+        await query(ENDPOINTS.patients.getAll);
+        expect(fetch).toHaveBeenCalledTimes(1);
+        await query(ENDPOINTS.patients.getAll, { force: true });
+        expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('restores the cached value and tells subscribers when an optimistic write fails', async () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToQuery(ENDPOINTS.patients.getAll, listener);
+        const { data: before } = await query<Record<string, Patient>>(ENDPOINTS.patients.getAll);
+        overrideRoute(server.backend, 'PUT', ENDPOINTS.patients.update(PATIENT), 409, { detail: 'Patient was moved meanwhile' });
+
+        const result = await optimisticMutation(
+            [optimisticChange(ENDPOINTS.patients.getAll, patchRecord<Patient>(PATIENT, patient => ({
+                ...patient,
+                personalInfo: { ...patient.personalInfo, roomId: 'room_202' },
+            })))],
+            () => Api.put(ENDPOINTS.patients.update(PATIENT), { personalInfo: { roomId: 'room_202' } }),
+            'Patient changes were not saved'
+        );
+
+        expect(result.success).toBe(false);
+        const shown = listener.mock.calls.map(([data]) => (data as Record<string, Patient>)[PATIENT].personalInfo.roomId);
+        expect(shown).toEqual(['room_201', 'room_202', 'room_201']);
+        expect(getCachedQuery(ENDPOINTS.patients.getAll)).toEqual(before);
+        unsubscribe();
+    });
+});
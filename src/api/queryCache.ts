@@ -0,0 +1,285 @@
+import Api, { ApiRequest, ApiResponse, endpointFromUrl, RequestOptions } from './api';
+import { MUTATION_INVALIDATES, QUERY_STALE_TIME } from './config';
+import { getFacilityId } from './facility';
+
+// Stale-while-revalidate cache for GET requests. Callers asking for the same endpoint at the same
+// time share one request, fresh responses are served from memory, and subscribers receive every
+// newer response no matter which caller fetched it. Responses are kept per facility, since every
+// request is scoped to one; subscribers follow the current facility.
+
+export interface QueryOptions extends RequestOptions {
+    params?: Record<string, string>;
+    // How long a cached response is served without refetching, 0 always refetches
+    staleTime?: number;
+    // Skip a fresh cached response; a request already in flight is still shared
+    force?: boolean;
+}
+
+type QueryListener = (data: unknown) => void;
+
+interface OptimisticUpdate {
+    update: (data: unknown) => unknown;
+    // The server accepted the change; it is dropped once a response newer than the write arrives
+    confirmed: boolean;
+}
+
+interface QueryEntry {
+    endpoint: string;
+    // Key of the query without the facility, which its subscribers are registered under
+    query: string;
+    facilityId: string | null;
+    params?: Record<string, string>;
+    requestOptions: RequestOptions;
+    staleTime: number;
+    // What callers see: the server's data with pending optimistic updates applied
+    data?: unknown;
+    serverData?: unknown;
+    optimistic: OptimisticUpdate[];
+    // 0 until the first successful response, and again after invalidation
+    updatedAt: number;
+    inFlight?: Promise<ApiResponse>;
+    // Bumped on invalidation so responses to older requests are not stored
+    generation: number;
+}
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<QueryListener>>();
+
+// '/iotData/' and '/iotData' are the same query
+const normalizeEndpoint = (endpoint: string): string => {
+    const [path, search] = endpoint.split('?');
+    const trimmed = path.replace(/\/+$/, '') || '/';
+    return search ? `${trimmed}?${search}` : trimmed;
+};
+
+export const queryKey = (endpoint: string, params?: Record<string, string>): string => {
+    const base = normalizeEndpoint(endpoint);
+    if (!params || Object.keys(params).length === 0) return base;
+    const search = new URLSearchParams(Object.entries(params).sort(([a], [b]) => a.localeCompare(b))).toString();
+    return `${base}${base.includes('?') ? '&' : '?'}${search}`;
+};
+
+// The query in the current facility, like the snapshot keys of offline.ts
+const cacheKey = (endpoint: string, params?: Record<string, string>): string => {
+    const facilityId = getFacilityId();
+    return facilityId ? `${facilityId}:${queryKey(endpoint, params)}` : queryKey(endpoint, params);
+};
+
+const isCurrent = (entry: QueryEntry) => entry.facilityId === getFacilityId();
+
+// Subscribers only see the current facility's responses
+const isShown = (entry: QueryEntry) => isCurrent(entry) && (listeners.get(entry.query)?.size ?? 0) > 0;
+
+// First path segment, e.g. 'iotData' for '/iotData/m_001/vitals/latest'
+const resourceOf = (path: string): string => path.split('?')[0].split('/').filter(Boolean)[0] ?? '';
+
+const getEntry = (endpoint: string, params?: Record<string, string>): QueryEntry => {
+    const key = cacheKey(endpoint, params);
+    let entry = entries.get(key);
+    if (!entry) {
+        entry = {
+            endpoint,
+            query: queryKey(endpoint, params),
+            facilityId: getFacilityId(),
+            params,
+            requestOptions: {},
+            staleTime: QUERY_STALE_TIME,
+            updatedAt: 0,
+            generation: 0,
+            optimistic: [],
+        };
+        entries.set(key, entry);
+    }
+    return entry;
+};
+
+const isFresh = (entry: QueryEntry, staleTime: number) =>
+    entry.updatedAt > 0 && Date.now() - entry.updatedAt < staleTime;
+
+const publish = (entry: QueryEntry) => {
+    entry.data = entry.serverData === undefined
+        ? undefined
+        : entry.optimistic.reduce<unknown>((data, { update }) => update(data), entry.serverData);
+    if (isCurrent(entry)) listeners.get(entry.query)?.forEach(listener => listener(entry.data));
+};
+
+const fetchEntry = (entry: QueryEntry): Promise<ApiResponse> => {
+    const generation = entry.generation;
+    const request = Api.get(entry.endpoint, entry.params, entry.requestOptions).then(response => {
+        if (entry.generation !== generation) return response;
+
+        entry.inFlight = undefined;
+        if (response.error) return response;
+
+        entry.serverData = response.data;
+        // Offline snapshots are shown but refetched on the next use, and predate confirmed writes
+        if (!response.staleSince) {
+            entry.optimistic = entry.optimistic.filter(change => !change.confirmed);
+        }
+        entry.updatedAt = response.staleSince ? 0 : Date.now();
+        publish(entry);
+        return entry.optimistic.length > 0 ? { ...response, data: entry.data } : response;
+    });
+    entry.inFlight = request;
+    return request;
+};
+
+/**
+ * GET through the cache. A fresh cached response resolves immediately, a request already in
+ * flight for the same endpoint and params is shared, otherwise a new request is sent.
+ * Failed responses are returned to the caller but never replace cached data.
+ */
+export const query = <T = unknown>(endpoint: string, options: QueryOptions = {}): Promise<ApiResponse<T>> => {
+    const { params, staleTime = QUERY_STALE_TIME, force = false, ...requestOptions } = options;
+
+    // A caller's abort signal must not cancel the request for everyone else
+    if (requestOptions.signal) {
+        return Api.get<T>(endpoint, params, requestOptions);
+    }
+
+    const entry = getEntry(endpoint, params);
+    entry.requestOptions = requestOptions;
+    entry.staleTime = staleTime;
+
+    if (!force && isFresh(entry, staleTime)) {
+        return Promise.resolve({ data: entry.data as T, status: 200, retries: 0 });
+    }
+    return (entry.inFlight ?? fetchEntry(entry)) as Promise<ApiResponse<T>>;
+};
+
+/**
+ * Last successful response for a query, fresh or not, for rendering before the refetch lands
+ */
+export const getCachedQuery = <T>(endpoint: string, params?: Record<string, string>): T | undefined =>
+    entries.get(cacheKey(endpoint, params))?.data as T | undefined;
+
+/**
+ * Record `id` of the keyed collection at `endpoint`, from whichever cached query (any params)
+ * holds it, e.g. to note what a record looked like before changing it
+ */
+export const findCachedRecord = <T>(endpoint: string, id: string): T | undefined => {
+    const path = normalizeEndpoint(endpoint);
+    for (const entry of entries.values()) {
+        if (!isCurrent(entry) || normalizeEndpoint(entry.endpoint.split('?')[0]) !== path) continue;
+        const record = (entry.data as Record<string, T> | undefined)?.[id];
+        if (record !== undefined) return record;
+    }
+    return undefined;
+};
+
+let revalidationInstalled = false;
+
+// Background refetch of stale queries that someone is still showing
+const revalidateStaleQueries = () => {
+    entries.forEach(entry => {
+        if (isShown(entry) && !entry.inFlight && !isFresh(entry, entry.staleTime)) {
+            fetchEntry(entry);
+        }
+    });
+};
+
+const installRevalidation = () => {
+    if (revalidationInstalled || typeof window === 'undefined') return;
+    revalidationInstalled = true;
+    window.addEventListener('focus', revalidateStaleQueries);
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') revalidateStaleQueries();
+    });
+};
+
+/**
+ * Receive every successful response for a query, including background refetches after window
+ * focus or invalidation. Returns a function that unsubscribes again.
+ */
+export const subscribeToQuery = <T>(
+    endpoint: string,
+    listener: (data: T) => void,
+    params?: Record<string, string>
+): (() => void) => {
+    installRevalidation();
+    const key = queryKey(endpoint, params);
+    const wrapped: QueryListener = data => listener(data as T);
+    listeners.set(key, (listeners.get(key) ?? new Set()).add(wrapped));
+    return () => {
+        listeners.get(key)?.delete(wrapped);
+    };
+};
+
+/**
+ * Mark every query under the given resources ('patients', 'iotData', ...) as stale.
+ * Queries with subscribers are refetched right away, the rest on their next use.
+ */
+export const invalidateQueries = (...resources: string[]) => {
+    entries.forEach(entry => {
+        if (!resources.includes(resourceOf(normalizeEndpoint(entry.endpoint)))) return;
+
+        entry.updatedAt = 0;
+        entry.generation += 1;
+        entry.inFlight = undefined;
+        if (isShown(entry)) {
+            fetchEntry(entry);
+        }
+    });
+};
+
+export interface OptimisticHandle {
+    // Keep the change until fresh server data replaces it
+    confirm: () => void;
+    // Remove the change and show the server's data again
+    rollback: () => void;
+}
+
+/**
+ * Show a change in every cached query of `endpoint` (any params) before the server confirms it.
+ * The change is re-applied on top of background refetches until it is confirmed or rolled back.
+ */
+export const applyOptimisticUpdate = <T>(endpoint: string, update: (data: T) => T): OptimisticHandle => {
+    const path = normalizeEndpoint(endpoint);
+    const change: OptimisticUpdate = { update: update as (data: unknown) => unknown, confirmed: false };
+    const targets = [...entries.values()]
+        .filter(entry => isCurrent(entry) && normalizeEndpoint(entry.endpoint.split('?')[0]) === path);
+
+    targets.forEach(entry => {
+        entry.optimistic = [...entry.optimistic, change];
+        publish(entry);
+    });
+
+    return {
+        confirm: () => {
+            change.confirmed = true;
+        },
+        rollback: () => targets.forEach(entry => {
+            if (!entry.optimistic.includes(change)) return;
+            entry.optimistic = entry.optimistic.filter(item => item !== change);
+            publish(entry);
+        }),
+    };
+};
+
+/**
+ * Drop all cached data, e.g. on logout so the next user never sees it
+ */
+export const clearQueryCache = () => {
+    entries.forEach(entry => {
+        entry.data = undefined;
+        entry.serverData = undefined;
+        entry.optimistic = [];
+        entry.updatedAt = 0;
+        entry.generation += 1;
+        entry.inFlight = undefined;
+    });
+};
+
+// Writes make the affected cached reads stale
+const invalidateAfterMutation = (response: ApiResponse, request: ApiRequest): ApiResponse => {
+    if (request.method === 'GET' || response.error) return response;
+
+    const endpoint = endpointFromUrl(request.url);
+    if (endpoint === null) return response;
+
+    const resource = resourceOf(endpoint);
+    invalidateQueries(...(MUTATION_INVALIDATES[resource] ?? [resource]));
+    return response;
+};
+
+Api.addResponseInterceptor(invalidateAfterMutation);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { AuthSession } from './auth';
+import { enrollSessionVault, hasParkedSession, parkSession, unparkSession } from './sessionVault';
+
+const SESSION: AuthSession = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    sessionEndsAt: Date.UTC(2025, 2, 10, 20),
+    user: { id: 'staff-1', name: 'Emma Wilson' },
+};
+
+describe('session vault', () => {
+    it('gives a parked session back for the right PIN only', async () => {
+        await enrollSessionVault('staff-1', '2468');
+        expect(await parkSession('staff-1', SESSION)).toBe(true);
+
+        expect(await unparkSession('staff-1', '1357')).toBeNull();
+        expect(hasParkedSession('staff-1')).toBe(true);
+
+        expect(await unparkSession('staff-1', '2468')).toEqual(SESSION);
+        expect(hasParkedSession('staff-1')).toBe(false);
+    });
+
+    it('stores nothing readable without the PIN', async () => {
+        await enrollSessionVault('staff-1', '2468');
+        await parkSession('staff-1', SESSION);
+
+        const stored = localStorage.getItem('session_vault')!;
+        expect(stored).not.toContain('refresh-token');
+        expect(stored).not.toContain('Emma Wilson');
+    });
+
+    it('parks nothing for users without a PIN', async () => {
+        expect(await parkSession('doctor-1', SESSION)).toBe(false);
+        expect(hasParkedSession('doctor-1')).toBe(false);
+    });
+
+    it('drops the parked session when the PIN is set again', async () => {
+        await enrollSessionVault('staff-1', '2468');
+        await parkSession('staff-1', SESSION);
+
+        await enrollSessionVault('staff-1', '8642');
+
+        expect(hasParkedSession('staff-1')).toBe(false);
+        expect(await unparkSession('staff-1', '8642')).toBeNull();
+    });
+});
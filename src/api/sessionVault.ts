@@ -0,0 +1,148 @@
+import type { AuthSession } from './auth';
+
+// Sessions parked on a shared terminal while someone else uses it, so their owner can switch back
+// with a PIN instead of the password. Each enrolled user has a key pair: the public key encrypts a
+// session when its owner switches away (no PIN needed then), the private key is stored encrypted
+// with a key derived from the PIN and is the only way to read the session back. The server still
+// ends parked sessions on schedule; a PIN never outlives the session it unlocks.
+
+const STORAGE_KEY = 'session_vault';
+
+// Slows down guessing PINs against a copy of localStorage; the unlock PINs use it too
+export const PBKDF2_ITERATIONS = 210000;
+
+const KEY_PAIR_ALGORITHM: RsaHashedKeyGenParams = {
+    name: 'RSA-OAEP',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+};
+
+interface VaultEntry {
+    publicKey: JsonWebKey;
+    // PKCS #8 private key, encrypted with AES-GCM under the PIN key
+    privateKey: string;
+    salt: string;
+    iv: string;
+    // The parked session, encrypted with a one-off AES key that is wrapped with the public key
+    parked?: { key: string; iv: string; data: string };
+}
+
+const readVault = (): Record<string, VaultEntry> => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeEntry = (userId: string, entry: VaultEntry | null) => {
+    const vault = readVault();
+    if (entry) {
+        vault[userId] = entry;
+    } else {
+        delete vault[userId];
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(vault));
+};
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derivePinKey = async (pin: string, salt: Uint8Array) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey']
+    );
+};
+
+/**
+ * Create the key pair for `userId`, protected by `pin`. Replaces an earlier one and any session parked with it.
+ */
+export const enrollSessionVault = async (userId: string, pin: string): Promise<void> => {
+    const keyPair = await crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, ['wrapKey', 'unwrapKey']);
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const privateKey = await crypto.subtle.wrapKey('pkcs8', keyPair.privateKey, await derivePinKey(pin, salt), { name: 'AES-GCM', iv });
+
+    writeEntry(userId, {
+        publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        privateKey: toBase64(privateKey),
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+    });
+};
+
+export const hasSessionVault = (userId: string): boolean => !!readVault()[userId];
+
+export const hasParkedSession = (userId: string): boolean => !!readVault()[userId]?.parked;
+
+export const forgetSessionVault = (userId: string) => writeEntry(userId, null);
+
+// E.g. after its owner signed in with the password instead
+export const discardParkedSession = (userId: string) => {
+    const entry = readVault()[userId];
+    if (entry?.parked) writeEntry(userId, { ...entry, parked: undefined });
+};
+
+/**
+ * Store `session` for its owner. Resolves false when the owner has no PIN to read it back with.
+ */
+export const parkSession = async (userId: string, session: AuthSession): Promise<boolean> => {
+    const entry = readVault()[userId];
+    if (!entry) return false;
+
+    const publicKey = await crypto.subtle.importKey('jwk', entry.publicKey, KEY_PAIR_ALGORITHM, false, ['wrapKey']);
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        sessionKey,
+        new TextEncoder().encode(JSON.stringify(session))
+    );
+    const key = await crypto.subtle.wrapKey('raw', sessionKey, publicKey, { name: 'RSA-OAEP' });
+
+    writeEntry(userId, { ...entry, parked: { key: toBase64(key), iv: toBase64(iv), data: toBase64(data) } });
+    return true;
+};
+
+/**
+ * Take the parked session of `userId` out of the vault. Resolves null for a wrong PIN
+ * or when nothing is parked; the session stays parked then.
+ */
+export const unparkSession = async (userId: string, pin: string): Promise<AuthSession | null> => {
+    const entry = readVault()[userId];
+    if (!entry?.parked) return null;
+
+    try {
+        const privateKey = await crypto.subtle.unwrapKey(
+            'pkcs8',
+            fromBase64(entry.privateKey),
+            await derivePinKey(pin, fromBase64(entry.salt)),
+            { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+            KEY_PAIR_ALGORITHM,
+            false,
+            ['unwrapKey']
+        );
+        const sessionKey = await crypto.subtle.unwrapKey(
+            'raw',
+            fromBase64(entry.parked.key),
+            privateKey,
+            { name: 'RSA-OAEP' },
+            { name: 'AES-GCM' },
+            false,
+            ['decrypt']
+        );
+        const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(entry.parked.iv) }, sessionKey, fromBase64(entry.parked.data));
+
+        writeEntry(userId, { ...entry, parked: undefined });
+        return JSON.parse(new TextDecoder().decode(data));
+    } catch {
+        return null;
+    }
+};
@@ -1,4 +1,5 @@
 import Api from './api';
+import { findCachedRecord, query } from './queryCache';
 
 export interface StaffMember {
     personalInfo: {
@@ -53,44 +54,82 @@ export interface Department {
     roles: Record<string, number>;
 }
 
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+
 export class StaffService {
     private static baseUrl = '/staff';
 
     // Basic CRUD operations
+    // Filter values as query params, shared by getAllStaff and subscribers of its cache entry
+    static staffListParams(filters?: {
+        role?: string;
+        department?: string;
+        onDuty?: boolean;
+    }): Record<string, string> {
+        const params: Record<string, string> = {};
+        if (filters?.role) params.role = filters.role;
+        if (filters?.department) params.department = filters.department;
+        if (filters?.onDuty !== undefined) params.onDuty = filters.onDuty.toString();
+        return params;
+    }
+
     static async getAllStaff(filters?: {
         role?: string;
         department?: string;
         onDuty?: boolean;
-    }) {
-        const queryParams = new URLSearchParams();
-        if (filters?.role) queryParams.append('role', filters.role);
-        if (filters?.department) queryParams.append('department', filters.department);
-        if (filters?.onDuty !== undefined) queryParams.append('onDuty', filters.onDuty.toString());
+    }, options: { force?: boolean } = {}) {
+        const params = this.staffListParams(filters);
 
-        const url = queryParams.toString() 
-            ? `${this.baseUrl}/?${queryParams.toString()}`
-            : `${this.baseUrl}/`;
-        
-        console.log('🌐 Staff API URL:', url);
+        console.log('🌐 Staff API URL:', `${this.baseUrl}/`, params);
         console.log('🔍 Filters:', filters);
         
-        return Api.get<Record<string, StaffMember>>(url);
+        // Through the query cache so optimistic staff changes show up in every filtered list
+        return query<Record<string, StaffMember>>(`${this.baseUrl}/`, { ...options, params });
     }
 
     static async getStaffById(staffId: string) {
         return Api.get<StaffMember>(`${this.baseUrl}/${staffId}`);
     }
 
+    // Staff member as last loaded, recorded in the audit trail as the state before a change
+    private static cachedMember(staffId: string) {
+        return findCachedRecord<StaffMember>(`${this.baseUrl}/`, staffId);
+    }
+
     static async createStaff(staffData: StaffMember) {
-        return Api.post<{ id: string; data: StaffMember }>(`${this.baseUrl}/`, staffData);
+        return Api.post<{ id: string; data: StaffMember }>(`${this.baseUrl}/`, staffData, {
+            audit: {
+                action: 'create',
+                entity: { type: 'staff', name: staffData.personalInfo.name },
+                description: `Add staff member ${staffData.personalInfo.name}`,
+            },
+        });
     }
 
-    static async updateStaff(staffId: string, staffData: Partial<StaffMember>) {
-        return Api.put<{ message: string }>(`${this.baseUrl}/${staffId}`, staffData);
+    // `before` is needed when the cached lists already show the change
+    static async updateStaff(staffId: string, staffData: Partial<StaffMember>, before = this.cachedMember(staffId)) {
+        const name = staffData.personalInfo?.name ?? before?.personalInfo.name;
+        return Api.put<{ message: string }>(`${this.baseUrl}/${staffId}`, staffData, {
+            audit: {
+                action: 'update',
+                entity: { type: 'staff', id: staffId, name },
+                description: `Update staff member ${name ?? staffId}`,
+                before,
+                after: { ...before, ...staffData },
+            },
+        });
     }
 
     static async deleteStaff(staffId: string) {
-        return Api.delete<{ message: string }>(`${this.baseUrl}/${staffId}`);
+        const before = this.cachedMember(staffId);
+        return Api.delete<{ message: string }>(`${this.baseUrl}/${staffId}`, {
+            audit: {
+                action: 'delete',
+                entity: { type: 'staff', id: staffId, name: before?.personalInfo.name },
+                description: `Remove staff member ${before?.personalInfo.name ?? staffId}`,
+                before,
+            },
+        });
     }
 
     // Schedule management
@@ -115,7 +154,20 @@ export class StaffService {
     ) {
         return Api.put<{ message: string }>(
             `${this.baseUrl}/${staffId}/schedule/${date}`,
-            shift
+            shift,
+            {
+                queueOffline: {
+                    description: `Update schedule of ${staffId} on ${date}`,
+                    expect: { endpoint: `${this.baseUrl}/`, path: [staffId, 'schedule', date] },
+                },
+                audit: {
+                    action: 'update',
+                    entity: { type: 'staff', id: staffId, name: this.cachedMember(staffId)?.personalInfo.name },
+                    description: `Update schedule of ${staffId} on ${date}`,
+                    before: { schedule: { [date]: this.cachedMember(staffId)?.schedule[date] } },
+                    after: { schedule: { [date]: shift } },
+                },
+            }
         );
     }
 
@@ -127,20 +179,64 @@ export class StaffService {
             message: string;
             staff_id: string;
             updated_dates: string[];
-        }>(`${this.baseUrl}/${staffId}/schedule/bulk`, scheduleData);
+        }>(`${this.baseUrl}/${staffId}/schedule/bulk`, scheduleData, {
+            audit: {
+                action: 'update',
+                entity: { type: 'staff', id: staffId, name: this.cachedMember(staffId)?.personalInfo.name },
+                description: `Update schedule of ${staffId} for ${Object.keys(scheduleData).length} days`,
+                before: {
+                    schedule: Object.fromEntries(Object.keys(scheduleData).map(date => [date, this.cachedMember(staffId)?.schedule[date]])),
+                },
+                after: { schedule: scheduleData },
+            },
+        });
     }
 
     // Status management
     static async updateStaffStatus(staffId: string, status: any) {
-        return Api.put<{ message: string }>(`${this.baseUrl}/${staffId}/status`, status);
+        const before = this.cachedMember(staffId);
+        return Api.put<{ message: string }>(`${this.baseUrl}/${staffId}/status`, status, {
+            audit: {
+                action: 'update',
+                entity: { type: 'staff', id: staffId, name: before?.personalInfo.name },
+                description: `Update status of ${before?.personalInfo.name ?? staffId}`,
+                before: { currentStatus: before?.currentStatus },
+                after: { currentStatus: { ...before?.currentStatus, ...status } },
+            },
+        });
     }
 
-    static async toggleDutyStatus(staffId: string, onDuty: boolean) {
+    static async toggleDutyStatus(staffId: string, onDuty: boolean, before = this.cachedMember(staffId)) {
         return Api.put<{
             message: string;
             staff_id: string;
             on_duty: boolean;
-        }>(`${this.baseUrl}/${staffId}/duty-status`, { on_duty: onDuty });
+        }>(`${this.baseUrl}/${staffId}/duty-status`, { on_duty: onDuty }, {
+            queueOffline: {
+                description: `Set ${staffId} ${onDuty ? 'on' : 'off'} duty`,
+                expect: { endpoint: `${this.baseUrl}/`, path: [staffId, 'currentStatus', 'onDuty'] },
+            },
+            audit: {
+                action: 'update',
+                entity: { type: 'staff', id: staffId, name: before?.personalInfo.name },
+                description: `Set ${before?.personalInfo.name ?? staffId} ${onDuty ? 'on' : 'off'} duty`,
+                before: { currentStatus: { onDuty: before?.currentStatus.onDuty } },
+                after: { currentStatus: { onDuty } },
+            },
+        });
+    }
+
+    // Tasks
+    static async updateTaskStatus(staffId: string, taskId: string, status: TaskStatus) {
+        return Api.put<{ message: string }>(`${this.baseUrl}/${staffId}/tasks/${taskId}/status`, { status }, {
+            queueOffline: { description: `Mark task ${taskId} of ${staffId} ${status.replace('_', ' ')}` },
+            audit: {
+                action: 'update',
+                entity: { type: 'staff', id: staffId, name: this.cachedMember(staffId)?.personalInfo.name },
+                description: `Mark task ${taskId} of ${staffId} ${status.replace('_', ' ')}`,
+                after: { tasks: { [taskId]: { status } } },
+            },
+        });
     }
 
     // Advanced querying
@@ -96,6 +96,15 @@ export interface EnvironmentalReading {
   timestamp: string;
 }
 
+// One step up the escalation chain of an alert that was not acknowledged in time, see api/escalation.ts
+export interface AlertEscalationStep {
+  target: 'charge_nurse' | 'on_call_doctor';
+  // Who the alert went to; absent when nobody on the schedule fills the role
+  staffId?: string;
+  staffName?: string;
+  escalatedAt: string;
+}
+
 export interface IoTDevice {
   vitals: Record<string, VitalReading | EnvironmentalReading> | Record<string, Record<string, VitalReading | EnvironmentalReading>>;
   deviceInfo: {
@@ -117,6 +126,16 @@ export interface IoTDevice {
     resolvedBy?: string;
     resolvedAt?: string;
     assignedTo?: string;
+    // Someone has seen the alert and is on it, which stops the escalation
+    acknowledged?: boolean;
+    acknowledgedBy?: string;
+    acknowledgedAt?: string;
+    // When the alert goes one step further up the chain; absent once it cannot escalate any more.
+    // The backend sets it and takes the step itself, the client only shows the deadline.
+    escalationDueAt?: string;
+    escalationHistory?: AlertEscalationStep[];
+    // Snooze rule the alert was raised under (see api/alertSuppression.ts); it never escalates
+    suppressedBy?: string;
   }>;
 } 
 
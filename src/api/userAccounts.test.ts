@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import Api from './api';
+import { flushAuditLog } from './audit';
+import { authAPI, isSignupPending, User } from './auth';
+import { ENDPOINTS } from './config';
+import { MOCK_PASSWORD } from './mock/fixtures';
+import { UserAccountService } from './userAccounts';
+import { setupMockBackend } from '../test/mockServer';
+
+describe('User account management', () => {
+    const server = setupMockBackend('admin@hospital.com');
+
+    const account = (id: string): User => server.backend.db.users[id];
+
+    // Signs in as someone else; the admin's session is replaced
+    const signInAs = (email: string, password = MOCK_PASSWORD) => authAPI.login({ email, password });
+
+    it('keeps self-registered accounts out until an admin approved them', async () => {
+        const response = await authAPI.signup({
+            email: 'n.ward@hospital.com',
+            password: 'secret123',
+            first_name: 'Nina',
+            last_name: 'Ward',
+            role: 'doctor',
+        });
+        expect(isSignupPending(response)).toBe(true);
+        expect(authAPI.getSessionUser()?.id).toBe('admin-1');
+
+        await expect(signInAs('n.ward@hospital.com', 'secret123')).rejects.toThrow('waiting for approval');
+
+        const { user } = response as { user: User };
+        const approved = await UserAccountService.approve(user, 'staff');
+        expect(approved.data).toEqual(expect.objectContaining({ status: 'active', role: 'staff' }));
+
+        await signInAs('n.ward@hospital.com', 'secret123');
+        expect(authAPI.getSessionUser()?.name).toBe('Nina Ward');
+    });
+
+    it('does not let anyone sign up as an admin', async () => {
+        await expect(authAPI.signup({
+            email: 'intruder@example.com',
+            password: 'secret123',
+            first_name: 'Mallory',
+            last_name: 'Smith',
+            role: 'admin' as 'staff',
+        })).rejects.toThrow('Administrator accounts are created by invitation');
+    });
+
+    it('invites a user with a temporary password that activates the account', async () => {
+        const invited = await UserAccountService.invite({
+            email: 'j.okafor2@hospital.com',
+            first_name: 'James',
+            last_name: 'Okafor',
+            role: 'staff',
+            staff_id: 'staff_004',
+        });
+        const { id, temporary_password, status } = invited.data!;
+        expect(status).toBe('invited');
+
+        await flushAuditLog();
+        expect(server.backend.db.audit).toEqual([
+            expect.objectContaining({ action: 'create', entity: { type: 'user', id, name: 'James Okafor' } }),
+        ]);
+        expect(JSON.stringify(server.backend.db.audit)).not.toContain(temporary_password);
+
+        await signInAs('j.okafor2@hospital.com', temporary_password);
+        expect(account(id).status).toBe('active');
+        expect(account(id).last_login_at).toBeDefined();
+    });
+
+    it('ends the sessions of a deactivated account', async () => {
+        await UserAccountService.setActive(account('doctor-1'), false);
+
+        await expect(signInAs('doctor@hospital.com')).rejects.toThrow('This account has been deactivated');
+        // A session that existed before is refused too
+        const doctorSession = await server.backend.fetch(`http://mock${ENDPOINTS.auth.me}`, {
+            headers: { Authorization: `Bearer mock.doctor-1.${Date.now() + 60000}` },
+        });
+        expect(doctorSession.status).toBe(401);
+    });
+
+    it('links a staff record only to one account', async () => {
+        const response = await UserAccountService.linkStaff(account('doctor-1'), 'staff_002');
+        expect(response.error?.message).toBe('Staff record already linked to Emma Wilson');
+
+        await UserAccountService.linkStaff(account('staff-1'), null);
+        expect((await UserAccountService.linkStaff(account('doctor-1'), 'staff_002')).data?.staff_id).toBe('staff_002');
+    });
+
+    it('resets a password and keeps admins from locking themselves out', async () => {
+        const reset = await UserAccountService.resetPassword(account('doctor-1'));
+        await expect(signInAs('doctor@hospital.com')).rejects.toThrow('Incorrect email or password');
+
+        const demoted = await UserAccountService.changeRole(account('admin-1'), 'staff');
+        expect(demoted.error?.status).toBe(400);
+
+        await signInAs('doctor@hospital.com', reset.data!.temporary_password);
+        const listed = await Api.get<User[]>(ENDPOINTS.auth.users);
+        expect(listed.error?.status).toBe(403);
+    });
+});
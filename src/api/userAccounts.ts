@@ -0,0 +1,94 @@
+import Api from './api';
+import { AccountStatus, User } from './auth';
+import { ENDPOINTS } from './config';
+
+// Account management for admins. Every change is recorded in the audit trail; passwords never
+// are, only that one was reset.
+
+export type AccountRole = 'admin' | 'doctor' | 'staff';
+
+export interface InviteRequest {
+    email: string;
+    first_name: string;
+    last_name: string;
+    role: AccountRole;
+    department?: string;
+    staff_id?: string;
+}
+
+// Shown once to the admin to hand over; the account has to sign in with it
+export interface TemporaryPassword {
+    temporary_password: string;
+}
+
+export interface AccountChanges {
+    role?: AccountRole;
+    status?: Extract<AccountStatus, 'active' | 'deactivated'>;
+    // null removes the link
+    staff_id?: string | null;
+}
+
+export const accountName = (account: User) => `${account.first_name} ${account.last_name}`;
+
+export class UserAccountService {
+    static async invite(request: InviteRequest) {
+        const name = `${request.first_name} ${request.last_name}`;
+        return Api.post<User & TemporaryPassword>(ENDPOINTS.auth.inviteUser, request, {
+            audit: {
+                action: 'create',
+                entity: { type: 'user', name },
+                description: `Invite ${name} as ${request.role}`,
+            },
+        });
+    }
+
+    static async update(account: User, changes: AccountChanges, description: string) {
+        const before = Object.fromEntries(Object.keys(changes).map(key => [key, account[key as keyof AccountChanges] ?? null]));
+        return Api.patch<User>(ENDPOINTS.auth.user(account.id), changes, {
+            audit: {
+                action: 'update',
+                entity: { type: 'user', id: account.id, name: accountName(account) },
+                description,
+                before,
+                after: changes,
+            },
+        });
+    }
+
+    // A self-registered account may sign in from now on, with the role the admin chose
+    static async approve(account: User, role: AccountRole) {
+        return this.update(account, { status: 'active', role }, `Approve the account of ${accountName(account)}`);
+    }
+
+    static async setActive(account: User, active: boolean) {
+        return this.update(
+            account,
+            { status: active ? 'active' : 'deactivated' },
+            `${active ? 'Reactivate' : 'Deactivate'} the account of ${accountName(account)}`
+        );
+    }
+
+    static async changeRole(account: User, role: AccountRole) {
+        return this.update(account, { role }, `Change the role of ${accountName(account)} to ${role}`);
+    }
+
+    static async linkStaff(account: User, staffId: string | null, staffName?: string) {
+        return this.update(
+            account,
+            { staff_id: staffId },
+            staffId
+                ? `Link the account of ${accountName(account)} to staff member ${staffName ?? staffId}`
+                : `Unlink the account of ${accountName(account)} from its staff record`
+        );
+    }
+
+    static async resetPassword(account: User) {
+        return Api.post<TemporaryPassword>(ENDPOINTS.auth.resetPassword(account.id), {}, {
+            audit: {
+                action: 'update',
+                entity: { type: 'user', id: account.id, name: accountName(account) },
+                description: `Reset the password of ${accountName(account)}`,
+            },
+        });
+    }
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { clearPayloadIssues, getPayloadIssues } from './diagnostics';
+import { Patient } from './types';
+import { overrideRoute, setupMockBackend } from '../test/mockServer';
+
+const PATIENT = 'patient_004';
+
+describe('Payload validation', () => {
+    const server = setupMockBackend('doctor@hospital.com');
+
+    // Patricia Davis as the backend sends her, for breaking one field at a time
+    const patient = () =>
+        structuredClone(server.backend.db.patients[PATIENT]) as unknown as Record<string, Record<string, unknown>>;
+
+    beforeEach(() => {
+        clearPayloadIssues();
+    });
+
+    it('drops records missing a required section and reports them', async () => {
+        const broken = patient();
+        delete broken.personalInfo;
+        overrideRoute(server.backend, 'GET', ENDPOINTS.patients.getAll, 200, { [PATIENT]: patient(), patient_999: broken });
+
+        const { data, error } = await Api.get<Record<string, Patient>>(ENDPOINTS.patients.getAll);
+
+        expect(error).toBeUndefined();
+        expect(Object.keys(data!)).toEqual([PATIENT]);
+        expect(getPayloadIssues()).toEqual([expect.objectContaining({
+            entity: 'patient',
+            recordId: 'patient_999',
+            action: 'dropped',
+            problems: ['personalInfo: missing'],
+        })]);
+    });
+
+    it('repairs fields of the wrong type and reports what was repaired', async () => {
+        const mistyped = patient();
+        mistyped.personalInfo.age = '67';
+        mistyped.medicalHistory.conditions = 'COPD';
+        overrideRoute(server.backend, 'GET', ENDPOINTS.patients.getById(PATIENT), 200, mistyped);
+
+        const { data } = await Api.get<Patient>(ENDPOINTS.patients.getById(PATIENT));
+
+        expect(data!.personalInfo.age).toBe(67);
+        expect(data!.medicalHistory.conditions).toEqual([]);
+        expect(getPayloadIssues()).toEqual([expect.objectContaining({
+            recordId: PATIENT,
+            action: 'repaired',
+            problems: ['personalInfo.age: number sent as text', 'medicalHistory.conditions: unexpected string'],
+        })]);
+    });
+
+    it('fills in descriptive text older records do not have without reporting it', async () => {
+        const older = patient();
+        delete older.medicalHistory.lastCheckup;
+        older.currentStatus.diagnosis = null;
+        overrideRoute(server.backend, 'GET', ENDPOINTS.patients.getById(PATIENT), 200, older);
+
+        const { data } = await Api.get<Patient>(ENDPOINTS.patients.getById(PATIENT));
+
+        expect(data!.medicalHistory.lastCheckup).toBe('');
+        expect(data!.currentStatus.diagnosis).toBe('');
+        expect(data!.personalInfo.name).toBe('Patricia Davis');
+        expect(getPayloadIssues()).toEqual([]);
+    });
+
+    it('fails a read of a single record that is beyond repair', async () => {
+        overrideRoute(server.backend, 'GET', ENDPOINTS.patients.getById(PATIENT), 200, { currentStatus: {} });
+
+        const { data, error, status } = await Api.get<Patient>(ENDPOINTS.patients.getById(PATIENT));
+
+        expect(data).toBeUndefined();
+        expect(status).toBe(200);
+        expect(error).toEqual(expect.objectContaining({ status: 502 }));
+    });
+});
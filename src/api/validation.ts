@@ -0,0 +1,615 @@
+// Runtime validation of backend payloads. Responses are checked against the shapes in
+// `types.ts` at the client boundary: broken fields are repaired with safe defaults,
+// records that cannot be repaired are dropped, and both are reported to diagnostics.
+import type { ApiRequest, ApiResponse } from './api';
+import { API_BASE_URL } from './config';
+import { PayloadEntity, reportPayloadIssue } from './diagnostics';
+import { httpError } from './errors';
+import type { Room } from './hooks/useRooms';
+import type { Bed } from './hooks/useBeds';
+import { AlertEscalationStep, EnvironmentalReading, IoTDevice, Patient, StaffMember, VitalReading } from './types';
+
+type Json = Record<string, unknown>;
+type Reading = VitalReading | EnvironmentalReading;
+type DeviceAlert = IoTDevice['alerts'][string];
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects problems for one record while its fields are read.
+ * A missing section is reported once; the fields inside it are defaulted silently.
+ */
+class FieldReader {
+    constructor(
+        private readonly source: Json,
+        private readonly problems: string[],
+        private readonly path = '',
+        private readonly quiet = false
+    ) {}
+
+    // The raw object, so fields the app does not know about yet are passed through
+    get values(): Json {
+        return this.source;
+    }
+
+    private report(key: string, problem: string) {
+        if (!this.quiet) this.problems.push(`${this.path}${key}: ${problem}`);
+    }
+
+    private describe(value: unknown): string {
+        if (value === undefined) return 'missing';
+        if (value === null) return 'null';
+        return `unexpected ${Array.isArray(value) ? 'array' : typeof value}`;
+    }
+
+    section(key: string): FieldReader {
+        const value = this.source[key];
+        if (isObject(value)) {
+            return new FieldReader(value, this.problems, `${this.path}${key}.`, this.quiet);
+        }
+        this.report(key, this.describe(value));
+        return new FieldReader({}, this.problems, `${this.path}${key}.`, true);
+    }
+
+    string(key: string, fallback = ''): string {
+        const value = this.source[key];
+        if (typeof value === 'string') return value;
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            this.report(key, `expected text, got ${typeof value}`);
+            return String(value);
+        }
+        this.report(key, this.describe(value));
+        return fallback;
+    }
+
+    // Descriptive text that older records may simply not have: only a wrong type is reported
+    text(key: string): string {
+        const value = this.source[key];
+        return value === undefined || value === null ? '' : this.string(key);
+    }
+
+    optionalString(key: string): string | undefined {
+        const value = this.source[key];
+        if (value === undefined || value === null) return undefined;
+        return this.string(key);
+    }
+
+    number(key: string, fallback = 0): number {
+        const value = this.source[key];
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+            this.report(key, 'number sent as text');
+            return Number(value);
+        }
+        this.report(key, this.describe(value));
+        return fallback;
+    }
+
+    boolean(key: string, fallback = false): boolean {
+        const value = this.source[key];
+        if (typeof value === 'boolean') return value;
+        if (value === 'true' || value === 'false') {
+            this.report(key, 'boolean sent as text');
+            return value === 'true';
+        }
+        this.report(key, this.describe(value));
+        return fallback;
+    }
+
+    oneOf<T extends string>(key: string, allowed: readonly T[], fallback: T): T {
+        const value = this.source[key];
+        if (allowed.includes(value as T)) return value as T;
+        this.report(key, value === undefined ? 'missing' : `unknown value "${String(value)}"`);
+        return fallback;
+    }
+
+    strings(key: string): string[] {
+        const value = this.source[key];
+        if (Array.isArray(value)) {
+            const valid = value.filter((item): item is string => typeof item === 'string');
+            if (valid.length !== value.length) this.report(key, 'non-text entries removed');
+            return valid;
+        }
+        if (value !== undefined && value !== null) this.report(key, this.describe(value));
+        return [];
+    }
+
+    objects(key: string): Json[] {
+        const value = this.source[key];
+        if (Array.isArray(value)) {
+            const valid = value.filter(isObject);
+            if (valid.length !== value.length) this.report(key, 'malformed entries removed');
+            return valid;
+        }
+        if (value !== undefined && value !== null) this.report(key, this.describe(value));
+        return [];
+    }
+
+    record(key: string): Json {
+        const value = this.source[key];
+        if (isObject(value)) return value;
+        if (value !== undefined && value !== null) this.report(key, this.describe(value));
+        return {};
+    }
+}
+
+// Entity normalizers return null when a record is beyond repair
+
+const normalizePatient = (raw: unknown, problems: string[]): Patient | null => {
+    if (!isObject(raw) || !isObject(raw.personalInfo)) {
+        problems.push('personalInfo: missing');
+        return null;
+    }
+    const fields = new FieldReader(raw, problems);
+
+    const info = fields.section('personalInfo');
+    const history = fields.section('medicalHistory');
+    const status = fields.section('currentStatus');
+    const predictions = fields.section('predictions');
+
+    return {
+        ...raw,
+        personalInfo: {
+            ...info.values,
+            name: info.string('name', 'Unknown patient'),
+            age: info.number('age'),
+            gender: info.text('gender'),
+            admissionDate: info.text('admissionDate'),
+            ward: info.text('ward'),
+            roomId: info.text('roomId'),
+            bedId: info.text('bedId'),
+        },
+        medicalHistory: {
+            ...history.values,
+            conditions: history.strings('conditions'),
+            medications: history.objects('medications').map((medication, index) => {
+                const med = new FieldReader(medication, problems, `medicalHistory.medications.${index}.`);
+                return {
+                    name: med.string('name'),
+                    dosage: med.text('dosage'),
+                    frequency: med.text('frequency'),
+                    startDate: med.text('startDate'),
+                };
+            }),
+            allergies: history.strings('allergies'),
+            lastCheckup: history.text('lastCheckup'),
+            admissionReason: history.text('admissionReason'),
+        },
+        currentStatus: {
+            ...status.values,
+            diagnosis: status.text('diagnosis'),
+            status: status.string('status', 'unknown'),
+            consciousness: status.text('consciousness'),
+            mobility: status.text('mobility'),
+            lastUpdated: status.text('lastUpdated'),
+        },
+        predictions: {
+            ...predictions.values,
+            riskLevel: predictions.string('riskLevel', 'unknown'),
+            riskScore: predictions.number('riskScore'),
+            confidence: predictions.number('confidence'),
+            predictedAt: predictions.text('predictedAt'),
+            nextPrediction: predictions.text('nextPrediction'),
+            factors: predictions.strings('factors'),
+        },
+    };
+};
+
+const STAFF_ROLES = ['nurse', 'doctor', 'admin', 'technician'] as const;
+const SHIFT_TYPES = ['day', 'night', 'on-call'] as const;
+
+const normalizeStaffMember = (raw: unknown, problems: string[]): StaffMember | null => {
+    if (!isObject(raw) || !isObject(raw.personalInfo)) {
+        problems.push('personalInfo: missing');
+        return null;
+    }
+    const fields = new FieldReader(raw, problems);
+
+    const info = fields.section('personalInfo');
+    const contact = info.section('contact');
+    const status = fields.section('currentStatus');
+
+    const schedule: StaffMember['schedule'] = {};
+    Object.entries(fields.record('schedule')).forEach(([date, shift]) => {
+        if (!isObject(shift)) {
+            problems.push(`schedule.${date}: malformed shift removed`);
+            return;
+        }
+        const entry = new FieldReader(shift, problems, `schedule.${date}.`);
+        schedule[date] = {
+            shiftStart: entry.string('shiftStart'),
+            shiftEnd: entry.string('shiftEnd'),
+            ward: entry.text('ward'),
+            roomIds: entry.strings('roomIds'),
+            patientAssignments: entry.strings('patientAssignments'),
+            shiftType: entry.oneOf('shiftType', SHIFT_TYPES, 'day'),
+        };
+    });
+
+    return {
+        ...raw,
+        personalInfo: {
+            ...info.values,
+            name: info.string('name', 'Unknown staff member'),
+            role: info.oneOf('role', STAFF_ROLES, 'nurse'),
+            department: info.text('department'),
+            specialization: info.text('specialization'),
+            contact: {
+                email: contact.text('email'),
+                phone: contact.text('phone'),
+            },
+        },
+        schedule,
+        currentStatus: {
+            ...status.values,
+            onDuty: status.boolean('onDuty'),
+            location: status.text('location'),
+            lastUpdated: status.text('lastUpdated'),
+            workload: status.number('workload'),
+        },
+    };
+};
+
+const READING_NUMBER_FIELDS = [
+    'heartRate', 'oxygenLevel', 'temperature', 'respiratoryRate', 'glucose',
+    'humidity', 'airQuality', 'lightLevel', 'noiseLevel', 'pressure', 'co2Level',
+    'batteryLevel', 'signalStrength',
+];
+const DEVICE_STATUSES = ['online', 'offline', 'maintenance'] as const;
+
+const looksLikeReading = (value: Json): boolean =>
+    'timestamp' in value || 'deviceStatus' in value || READING_NUMBER_FIELDS.some(field => field in value);
+
+/**
+ * Clean a single sensor reading. Vital signs are never defaulted: a missing or unreadable
+ * value is removed rather than replaced with a number that could look clinically real.
+ */
+const normalizeReading = (raw: unknown, problems: string[], path: string, timestampKey?: string): Reading | null => {
+    if (!isObject(raw)) {
+        problems.push(`${path}: malformed reading removed`);
+        return null;
+    }
+    const fields = new FieldReader(raw, problems, `${path}.`);
+    const reading: Json = { ...raw };
+
+    READING_NUMBER_FIELDS.forEach(field => {
+        if (!(field in raw)) return;
+        const value = fields.number(field, Number.NaN);
+        if (Number.isNaN(value)) {
+            delete reading[field];
+        } else {
+            reading[field] = value;
+        }
+    });
+
+    if ('bloodPressure' in raw) {
+        const pressure = raw.bloodPressure;
+        const bp = isObject(pressure) ? new FieldReader(pressure, problems, `${path}.bloodPressure.`) : null;
+        const systolic = bp?.number('systolic', Number.NaN) ?? Number.NaN;
+        const diastolic = bp?.number('diastolic', Number.NaN) ?? Number.NaN;
+        if (Number.isNaN(systolic) || Number.isNaN(diastolic)) {
+            if (!bp) problems.push(`${path}.bloodPressure: malformed`);
+            delete reading.bloodPressure;
+        } else {
+            reading.bloodPressure = { systolic, diastolic };
+        }
+    }
+
+    if ('bedOccupancy' in raw) {
+        reading.bedOccupancy = fields.boolean('bedOccupancy');
+    }
+
+    if ('deviceStatus' in raw) {
+        reading.deviceStatus = fields.oneOf('deviceStatus', DEVICE_STATUSES, 'offline');
+    }
+
+    if (typeof raw.timestamp !== 'string') {
+        if (timestampKey) {
+            // Readings are keyed by their timestamp, so the key can stand in for a missing field
+            reading.timestamp = timestampKey;
+            if (raw.timestamp !== undefined) problems.push(`${path}.timestamp: replaced with reading key`);
+        } else {
+            fields.string('timestamp');
+        }
+    }
+
+    if (!READING_NUMBER_FIELDS.some(field => typeof reading[field] === 'number') && !('bedOccupancy' in reading)) {
+        problems.push(`${path}: no usable values, reading removed`);
+        return null;
+    }
+    return reading as unknown as Reading;
+};
+
+/**
+ * Vitals are stored either as `{ timestamp: reading }` or, for patient monitors,
+ * as `{ patientId: { timestamp: reading } }`.
+ */
+const normalizeVitals = (raw: unknown, problems: string[]): IoTDevice['vitals'] => {
+    if (raw === undefined || raw === null) return {};
+    if (!isObject(raw)) {
+        problems.push('vitals: malformed, removed');
+        return {};
+    }
+
+    const vitals: Record<string, Reading | Record<string, Reading>> = {};
+    Object.entries(raw).forEach(([key, value]) => {
+        if (isObject(value) && !looksLikeReading(value)) {
+            const readings: Record<string, Reading> = {};
+            Object.entries(value).forEach(([timestamp, reading]) => {
+                const clean = normalizeReading(reading, problems, `vitals.${key}.${timestamp}`, timestamp);
+                if (clean) readings[timestamp] = clean;
+            });
+            vitals[key] = readings;
+        } else {
+            const clean = normalizeReading(value, problems, `vitals.${key}`, key);
+            if (clean) vitals[key] = clean;
+        }
+    });
+    return vitals as IoTDevice['vitals'];
+};
+
+const ALERT_TYPES = ['critical', 'warning', 'info'] as const;
+
+const ESCALATION_TARGETS = ['charge_nurse', 'on_call_doctor'] as const;
+
+const normalizeEscalationHistory = (fields: FieldReader, problems: string[], path: string): AlertEscalationStep[] =>
+    fields.objects('escalationHistory').map((raw, index) => {
+        const step = new FieldReader(raw, problems, `${path}.escalationHistory.${index}.`);
+        return {
+            ...raw,
+            // An unknown step is shown as the last one of the chain, never as a lower one
+            target: step.oneOf('target', ESCALATION_TARGETS, 'on_call_doctor'),
+            staffId: step.optionalString('staffId'),
+            staffName: step.optionalString('staffName'),
+            escalatedAt: step.string('escalatedAt'),
+        };
+    });
+
+const normalizeAlert = (raw: unknown, problems: string[], path: string): DeviceAlert | null => {
+    if (!isObject(raw)) {
+        problems.push(`${path}: malformed alert removed`);
+        return null;
+    }
+    const fields = new FieldReader(raw, problems, `${path}.`);
+    return {
+        ...raw,
+        // An unknown severity is shown as a warning: never silently downgraded to info
+        type: fields.oneOf('type', ALERT_TYPES, 'warning'),
+        message: fields.string('message', 'No message'),
+        timestamp: fields.string('timestamp'),
+        resolved: fields.boolean('resolved'),
+        resolvedBy: fields.optionalString('resolvedBy'),
+        resolvedAt: fields.optionalString('resolvedAt'),
+        assignedTo: fields.optionalString('assignedTo'),
+        acknowledged: raw.acknowledged === undefined ? undefined : fields.boolean('acknowledged'),
+        acknowledgedBy: fields.optionalString('acknowledgedBy'),
+        acknowledgedAt: fields.optionalString('acknowledgedAt'),
+        escalationDueAt: fields.optionalString('escalationDueAt'),
+        escalationHistory: raw.escalationHistory === undefined ? undefined : normalizeEscalationHistory(fields, problems, path),
+        suppressedBy: fields.optionalString('suppressedBy'),
+    };
+};
+
+const normalizeAlerts = (raw: unknown, problems: string[]): IoTDevice['alerts'] => {
+    if (raw === undefined || raw === null) return {};
+    if (!isObject(raw)) {
+        problems.push('alerts: malformed, removed');
+        return {};
+    }
+    const alerts: IoTDevice['alerts'] = {};
+    Object.entries(raw).forEach(([alertId, alert]) => {
+        const clean = normalizeAlert(alert, problems, `alerts.${alertId}`);
+        if (clean) alerts[alertId] = clean;
+    });
+    return alerts;
+};
+
+const DEVICE_TYPES = ['vitals_monitor', 'environmental_sensor', 'bed_sensor', 'infusion_pump', 'ventilator'] as const;
+
+const normalizeDevice = (raw: unknown, problems: string[]): IoTDevice | null => {
+    if (!isObject(raw) || !isObject(raw.deviceInfo)) {
+        problems.push('deviceInfo: missing');
+        return null;
+    }
+    const info = new FieldReader(raw.deviceInfo, problems, 'deviceInfo.');
+    if (!DEVICE_TYPES.includes(raw.deviceInfo.type as typeof DEVICE_TYPES[number])) {
+        // Screens branch on the device type, so a device without a known one cannot be shown
+        problems.push(`deviceInfo.type: unknown value "${String(raw.deviceInfo.type)}"`);
+        return null;
+    }
+
+    return {
+        ...raw,
+        deviceInfo: {
+            ...info.values,
+            type: info.oneOf('type', DEVICE_TYPES, 'vitals_monitor'),
+            manufacturer: info.text('manufacturer'),
+            model: info.text('model'),
+            roomId: info.string('roomId'),
+            bedId: info.optionalString('bedId'),
+            currentPatientId: info.optionalString('currentPatientId'),
+            lastCalibrated: info.text('lastCalibrated'),
+            calibrationDue: info.text('calibrationDue'),
+            maintenanceSchedule: info.text('maintenanceSchedule'),
+        },
+        vitals: normalizeVitals(raw.vitals, problems),
+        alerts: normalizeAlerts(raw.alerts, problems),
+    };
+};
+
+const ROOM_TYPES = ['ICU', 'ER', 'surgery', 'isolation', 'general'] as const;
+// Unknown room states are treated as unavailable so nobody is assigned to them by mistake
+const ROOM_STATUSES = ['available', 'occupied', 'maintenance', 'reserved'] as const;
+
+const normalizeRoom = (raw: unknown, problems: string[], id?: string): Room | null => {
+    if (!isObject(raw)) {
+        problems.push('room: malformed');
+        return null;
+    }
+    const fields = new FieldReader(raw, problems);
+    return {
+        ...raw,
+        roomId: fields.string('roomId', id),
+        roomType: fields.oneOf('roomType', ROOM_TYPES, 'general'),
+        floor: fields.number('floor'),
+        capacity: fields.number('capacity', 1),
+        assignedPatient: fields.optionalString('assignedPatient'),
+        assignedDevices: fields.strings('assignedDevices'),
+        status: fields.oneOf('status', ROOM_STATUSES, 'maintenance'),
+        description: fields.optionalString('description'),
+        createdAt: fields.optionalString('createdAt'),
+        updatedAt: fields.optionalString('updatedAt'),
+    };
+};
+
+const normalizeBed = (raw: unknown, problems: string[]): Bed | null => {
+    if (!isObject(raw)) {
+        problems.push('bed: malformed');
+        return null;
+    }
+    const fields = new FieldReader(raw, problems);
+    return {
+        ...raw,
+        roomId: fields.string('roomId'),
+        bedNumber: fields.string('bedNumber'),
+        type: fields.string('type'),
+        status: fields.string('status', 'maintenance'),
+        patientId: fields.optionalString('patientId'),
+        features: fields.strings('features'),
+        lastCleaned: fields.optionalString('lastCleaned'),
+    } as Bed;
+};
+
+type Normalizer<T> = (raw: unknown, problems: string[], id?: string) => T | null;
+
+const checkOne = <T>(
+    entity: PayloadEntity,
+    normalize: Normalizer<T>,
+    raw: unknown,
+    endpoint: string,
+    recordId?: string
+): T | null => {
+    const problems: string[] = [];
+    const clean = normalize(raw, problems, recordId);
+    if (problems.length > 0) {
+        reportPayloadIssue({ endpoint, entity, recordId, action: clean ? 'repaired' : 'dropped', problems });
+    }
+    return clean;
+};
+
+const checkCollection = <T>(
+    entity: PayloadEntity,
+    normalize: Normalizer<T>,
+    raw: unknown,
+    endpoint: string
+): Record<string, T> => {
+    if (!isObject(raw)) {
+        reportPayloadIssue({ endpoint, entity, action: 'dropped', problems: ['expected a collection keyed by id'] });
+        return {};
+    }
+    const result: Record<string, T> = {};
+    Object.entries(raw).forEach(([id, record]) => {
+        const clean = checkOne(entity, normalize, record, endpoint, id);
+        if (clean) result[id] = clean;
+    });
+    return result;
+};
+
+// Validators return undefined when a single-record payload had to be dropped
+type PayloadValidator = (data: unknown, endpoint: string, match: RegExpMatchArray) => unknown;
+
+const collectionOf = <T>(entity: PayloadEntity, normalize: Normalizer<T>): PayloadValidator =>
+    (data, endpoint) => checkCollection(entity, normalize, data, endpoint);
+
+const single = <T>(entity: PayloadEntity, normalize: Normalizer<T>): PayloadValidator =>
+    (data, endpoint, match) => checkOne(entity, normalize, data, endpoint, match[1]) ?? undefined;
+
+const latestReading: PayloadValidator = (data, endpoint, match) => {
+    if (!isObject(data)) {
+        reportPayloadIssue({ endpoint, entity: 'vitals', recordId: match[1], action: 'dropped', problems: ['malformed response'] });
+        return undefined;
+    }
+    const timestamp = typeof data.timestamp === 'string' ? data.timestamp : undefined;
+    const reading = checkOne('vitals', (raw, problems) => normalizeReading(raw, problems, 'data', timestamp), data.data, endpoint, match[1]);
+    return { ...data, data: reading };
+};
+
+const deviceVitals: PayloadValidator = (data, endpoint, match) =>
+    checkOne('vitals', (raw, problems) => normalizeVitals(raw, problems), data, endpoint, match[1]) ?? {};
+
+const deviceAlerts: PayloadValidator = (data, endpoint, match) =>
+    checkOne('alert', (raw, problems) => normalizeAlerts(raw, problems), data, endpoint, match[1]) ?? {};
+
+/**
+ * Check a reading pushed over the live channel; `source` is reported as its endpoint
+ */
+export const validateLiveReading = (raw: unknown, source: string, deviceId: string, timestamp?: string): Reading | null =>
+    checkOne('vitals', (value, problems) => normalizeReading(value, problems, 'reading', timestamp), raw, source, deviceId);
+
+/**
+ * Check an alert pushed over the live channel; `source` is reported as its endpoint
+ */
+export const validateLiveAlert = (raw: unknown, source: string, alertId: string): DeviceAlert | null =>
+    checkOne('alert', (value, problems) => normalizeAlert(value, problems, 'alert'), raw, source, alertId);
+
+// Endpoint paths from ENDPOINTS that return entities, matched with or without a trailing slash.
+// Only reads are checked; anything not listed here is passed through untouched.
+const PAYLOAD_SCHEMAS: Array<{ pattern: RegExp; validate: PayloadValidator }> = [
+    { pattern: /^\/patients\/?$/, validate: collectionOf('patient', normalizePatient) },
+    { pattern: /^\/patients\/(?:ward|risk)\/[^/]+\/?$/, validate: collectionOf('patient', normalizePatient) },
+    { pattern: /^\/patients\/([^/]+)\/?$/, validate: single('patient', normalizePatient) },
+
+    { pattern: /^\/staff\/?$/, validate: collectionOf('staff', normalizeStaffMember) },
+    { pattern: /^\/staff\/(?:on-duty|search)\/?$/, validate: collectionOf('staff', normalizeStaffMember) },
+    { pattern: /^\/staff\/by-ward\/[^/]+\/?$/, validate: collectionOf('staff', normalizeStaffMember) },
+    { pattern: /^\/staff\/(?!(?:stats|load|departments)\/?$)([^/]+)\/?$/, validate: single('staff', normalizeStaffMember) },
+
+    { pattern: /^\/iotData\/?$/, validate: collectionOf('device', normalizeDevice) },
+    { pattern: /^\/iotData\/env-sensors\/([^/]+)\/vitals\/latest\/?$/, validate: latestReading },
+    { pattern: /^\/iotData\/([^/]+)\/vitals\/latest\/?$/, validate: latestReading },
+    { pattern: /^\/iotData\/([^/]+)\/vitals\/?$/, validate: deviceVitals },
+    { pattern: /^\/iotData\/([^/]+)\/alerts\/?$/, validate: deviceAlerts },
+    { pattern: /^\/iotData\/([^/]+)\/?$/, validate: single('device', normalizeDevice) },
+
+    { pattern: /^\/rooms\/?$/, validate: collectionOf('room', normalizeRoom) },
+    { pattern: /^\/rooms\/(?!stats$)([^/]+)\/?$/, validate: single('room', normalizeRoom) },
+
+    { pattern: /^\/beds\/?$/, validate: collectionOf('bed', normalizeBed) },
+    { pattern: /^\/beds\/room\/[^/]+(?:\/available)?\/?$/, validate: collectionOf('bed', normalizeBed) },
+];
+
+const basePath = (() => {
+    try {
+        return new URL(API_BASE_URL).pathname.replace(/\/$/, '');
+    } catch {
+        return '';
+    }
+})();
+
+const endpointPath = (url: string): string => {
+    const path = new URL(url).pathname;
+    return basePath && path.startsWith(basePath) ? path.slice(basePath.length) || '/' : path;
+};
+
+/**
+ * Response interceptor that validates successful reads before any hook sees them.
+ */
+export const validateResponse = (response: ApiResponse, request: ApiRequest): ApiResponse => {
+    if (request.method !== 'GET' || response.error || response.data === undefined) {
+        return response;
+    }
+
+    const endpoint = endpointPath(request.url);
+    for (const { pattern, validate } of PAYLOAD_SCHEMAS) {
+        const match = endpoint.match(pattern);
+        if (!match) continue;
+
+        const data = validate(response.data, endpoint, match);
+        if (data === undefined) {
+            return { ...response, data: undefined, error: httpError(502, `Received a malformed record from ${endpoint}`) };
+        }
+        return { ...response, data };
+    }
+    return response;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import Api from './api';
+import { flushAuditLog } from './audit';
+import { ENDPOINTS } from './config';
+import { VitalReading } from './types';
+import {
+    ThresholdRule,
+    VitalThresholds,
+    evaluateVitals,
+    fieldLevel,
+    thresholdRulesFor,
+    updatePatientThresholds,
+    updateWardThresholds,
+} from './vitalThresholds';
+import { setupMockBackend } from '../test/mockServer';
+
+const reading = (minute: number, overrides: Partial<VitalReading> = {}): Partial<VitalReading> => ({
+    heartRate: 80,
+    oxygenLevel: 97,
+    temperature: 98.4,
+    bloodPressure: { systolic: 120, diastolic: 80 },
+    timestamp: `2025-03-10T12:${String(minute).padStart(2, '0')}:00Z`,
+    ...overrides,
+});
+
+const rule = (overrides: Partial<ThresholdRule>): ThresholdRule =>
+    ({ field: 'heartRate', operator: '>', value: 120, level: 'warning', for_minutes: 0, ...overrides });
+
+describe('Vital sign thresholds', () => {
+    const thresholds: VitalThresholds = {
+        wards: { ICU: [rule({ field: 'heartRate', value: 100 })] },
+        patients: { patient_007: [rule({ field: 'oxygenLevel', operator: '<', value: 86 })] },
+    };
+
+    it('takes each field from the patient, else the ward, else the built-in rules', () => {
+        const rules = thresholdRulesFor(thresholds, 'patient_007', 'ICU');
+
+        expect(rules.filter(applied => applied.field === 'oxygenLevel')).toEqual([
+            expect.objectContaining({ value: 86, source: 'patient' }),
+        ]);
+        expect(rules.filter(applied => applied.field === 'heartRate')).toEqual([
+            expect.objectContaining({ value: 100, source: 'ward' }),
+        ]);
+        expect(rules.filter(applied => applied.field === 'temperature').every(applied => applied.source === 'default')).toBe(true);
+    });
+
+    it('accepts the baseline SpO2 of a COPD patient that is critical for others', () => {
+        const latest = [reading(0, { oxygenLevel: 88 })];
+
+        expect(fieldLevel(evaluateVitals(latest, thresholdRulesFor(thresholds, 'patient_007')), 'oxygenLevel')).toBe('normal');
+        expect(fieldLevel(evaluateVitals(latest, thresholdRulesFor(thresholds, 'patient_001')), 'oxygenLevel')).toBe('critical');
+    });
+
+    it('holds sustained rules only once the breach has lasted long enough', () => {
+        const rules = thresholdRulesFor({ wards: {}, patients: { patient_001: [rule({ for_minutes: 5 })] } }, 'patient_001');
+        const tachycardic = (from: number, to: number) =>
+            Array.from({ length: to - from + 1 }, (_, index) => reading(from + index, { heartRate: 125 }));
+
+        expect(evaluateVitals([reading(0), ...tachycardic(1, 5)], rules).level).toBe('normal');
+        expect(evaluateVitals([reading(0), ...tachycardic(1, 6)], rules).fields.heartRate).toEqual(
+            expect.objectContaining({ value: 125, rule: expect.objectContaining({ for_minutes: 5 }) })
+        );
+        // A reading back in range starts the wait again
+        expect(evaluateVitals([...tachycardic(0, 5), reading(6), ...tachycardic(7, 9)], rules).level).toBe('normal');
+    });
+
+    describe('editing', () => {
+        const server = setupMockBackend('doctor@hospital.com');
+
+        it('saves patient and ward rules with an audit entry each', async () => {
+            const copd = [rule({ field: 'oxygenLevel', operator: '<', value: 85, level: 'critical' })];
+            const patient = await updatePatientThresholds('patient_004', copd, 'Patricia Davis');
+            expect(patient.error).toBeUndefined();
+            expect(patient.data?.patients.patient_004).toEqual(copd);
+
+            const ward = await updateWardThresholds('General', [rule({ for_minutes: 5 })]);
+            expect(ward.error).toBeUndefined();
+
+            const { data } = await Api.get<VitalThresholds>(ENDPOINTS.settings.vitalThresholds);
+            expect(data?.wards.General).toEqual([rule({ for_minutes: 5 })]);
+            await flushAuditLog();
+            expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+                action: 'update',
+                entity: expect.objectContaining({ type: 'patient', id: 'patient_004' }),
+                changes: [{ field: 'rules', before: [], after: copd }],
+            }));
+            expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+                entity: expect.objectContaining({ type: 'ward', id: 'General' }),
+            }));
+        });
+
+        it('drops the rules of a patient saved without any', async () => {
+            await updatePatientThresholds('patient_004', [rule({})]);
+            expect((await updatePatientThresholds('patient_004', [])).error).toBeUndefined();
+            expect(server.backend.db.vitalThresholds.patients).not.toHaveProperty('patient_004');
+        });
+
+        it('refuses invalid rules and unknown patients', async () => {
+            expect((await updatePatientThresholds('patient_004', [rule({ value: Number.NaN })])).error?.status).toBe(422);
+            expect((await updatePatientThresholds('patient_004', [rule({ for_minutes: 120 })])).error?.status).toBe(422);
+            expect((await updatePatientThresholds('patient_999', [rule({})])).error?.status).toBe(404);
+        });
+    });
+
+    describe('as staff', () => {
+        setupMockBackend('staff@hospital.com');
+
+        it('cannot change thresholds', async () => {
+            expect((await updateWardThresholds('General', [rule({})])).error?.status).toBe(403);
+        });
+    });
+});
@@ -0,0 +1,232 @@
+import Api from './api';
+import { ENDPOINTS } from './config';
+import { VitalReading } from './types';
+import { toTimestampMs } from '../utils/dateUtils';
+
+// Vital sign thresholds: when a reading counts as a warning or critical. Built-in rules apply to
+// everyone; a ward can replace them with its own defaults, and a doctor can replace those for one
+// patient, e.g. an SpO2 of 88% that is this COPD patient's baseline. Rules replace the less specific
+// ones field by field. A rule can require the breach to last, like "heart rate above 120 for 5 minutes".
+// The same evaluation colours the monitoring views, feeds the assistant and flags breaches as alerts on
+// the doctor's dashboard (useRealTimeAlerts) that the backend has not raised. The backend is expected to
+// raise its own alerts from the rules of GET /settings/vital-thresholds, as the mock monitors do.
+
+export type VitalField = 'heartRate' | 'oxygenLevel' | 'temperature' | 'systolic' | 'diastolic' | 'respiratoryRate' | 'glucose';
+
+export const VITAL_FIELDS: VitalField[] = ['heartRate', 'oxygenLevel', 'temperature', 'systolic', 'diastolic', 'respiratoryRate', 'glucose'];
+
+export const VITAL_FIELD_INFO: Record<VitalField, { label: string; unit: string }> = {
+    heartRate: { label: 'Heart rate', unit: 'bpm' },
+    oxygenLevel: { label: 'SpO2', unit: '%' },
+    temperature: { label: 'Temperature', unit: '°F' },
+    systolic: { label: 'Systolic BP', unit: 'mmHg' },
+    diastolic: { label: 'Diastolic BP', unit: 'mmHg' },
+    respiratoryRate: { label: 'Respiratory rate', unit: '/min' },
+    glucose: { label: 'Glucose', unit: 'mg/dL' },
+};
+
+export type VitalLevel = 'normal' | 'warning' | 'critical';
+
+export interface ThresholdRule {
+    field: VitalField;
+    // Breached when the value is above ('>') or below ('<') `value`
+    operator: '>' | '<';
+    value: number;
+    level: Exclude<VitalLevel, 'normal'>;
+    // Minutes the breach has to last before it counts, 0 for right away
+    for_minutes: number;
+}
+
+export interface VitalThresholds {
+    // Defaults per ward, replacing the built-in rules of the fields they cover
+    wards: Record<string, ThresholdRule[]>;
+    // Rules per patient id, replacing those of the ward for the fields they cover
+    patients: Record<string, ThresholdRule[]>;
+}
+
+export type ThresholdSource = 'patient' | 'ward' | 'default';
+
+export type AppliedThresholdRule = ThresholdRule & { source: ThresholdSource };
+
+export interface ThresholdBreach {
+    rule: AppliedThresholdRule;
+    // Latest value of the field
+    value: number;
+    // Time (ms) of the first reading of the run of breaching readings that ends with the latest one
+    since: number;
+}
+
+export interface VitalsAssessment {
+    // Worst level of any field
+    level: VitalLevel;
+    // Worst breach per field; fields without one are normal
+    fields: Partial<Record<VitalField, ThresholdBreach>>;
+    breaches: ThresholdBreach[];
+}
+
+// Longest a breach can be required to last; monitors keep a few minutes of readings
+export const MAX_RULE_MINUTES = 60;
+
+const rule = (field: VitalField, operator: ThresholdRule['operator'], value: number, level: ThresholdRule['level']): ThresholdRule =>
+    ({ field, operator, value, level, for_minutes: 0 });
+
+export const DEFAULT_THRESHOLD_RULES: ThresholdRule[] = [
+    rule('heartRate', '>', 110, 'warning'),
+    rule('heartRate', '>', 130, 'critical'),
+    rule('heartRate', '<', 55, 'warning'),
+    rule('heartRate', '<', 45, 'critical'),
+    rule('oxygenLevel', '<', 94, 'warning'),
+    rule('oxygenLevel', '<', 90, 'critical'),
+    rule('temperature', '>', 100.4, 'warning'),
+    rule('temperature', '>', 103, 'critical'),
+    rule('temperature', '<', 96, 'warning'),
+    rule('systolic', '>', 160, 'warning'),
+    rule('systolic', '<', 100, 'warning'),
+    rule('systolic', '<', 90, 'critical'),
+    rule('diastolic', '>', 100, 'warning'),
+    rule('diastolic', '<', 50, 'warning'),
+    rule('respiratoryRate', '>', 22, 'warning'),
+    rule('respiratoryRate', '>', 28, 'critical'),
+    rule('respiratoryRate', '<', 8, 'critical'),
+    rule('glucose', '>', 250, 'warning'),
+    rule('glucose', '<', 70, 'warning'),
+];
+
+export const EMPTY_VITAL_THRESHOLDS: VitalThresholds = { wards: {}, patients: {} };
+
+const LEVEL_ORDER: VitalLevel[] = ['normal', 'warning', 'critical'];
+
+const rank = (level: VitalLevel) => LEVEL_ORDER.indexOf(level);
+
+const worse = (a: VitalLevel, b: VitalLevel) => (rank(a) >= rank(b) ? a : b);
+
+/**
+ * Value of a field in a reading, undefined when the reading has no number for it
+ */
+export const vitalValue = (reading: Partial<VitalReading>, field: VitalField): number | undefined => {
+    const value = field === 'systolic' || field === 'diastolic' ? reading.bloodPressure?.[field] : reading[field];
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+// "86%", "98.6°F", "30/min", but "125 bpm"
+const withUnit = (value: number, field: VitalField) => {
+    const { unit } = VITAL_FIELD_INFO[field];
+    return /^[%°/]/.test(unit) ? `${value}${unit}` : `${value} ${unit}`;
+};
+
+const sustained = (rule: ThresholdRule) => (rule.for_minutes > 0 ? ` for ${rule.for_minutes} min` : '');
+
+/**
+ * "SpO2 < 85% for 5 min"
+ */
+export const describeRule = (rule: ThresholdRule) =>
+    `${VITAL_FIELD_INFO[rule.field].label} ${rule.operator} ${withUnit(rule.value, rule.field)}${sustained(rule)}`;
+
+/**
+ * The rules that apply to a patient: theirs for the fields they have rules for, else the ward's,
+ * else the built-in ones
+ */
+export const thresholdRulesFor = (thresholds: VitalThresholds, patientId?: string, ward?: string): AppliedThresholdRule[] => {
+    const layers: Array<[ThresholdSource, ThresholdRule[]]> = [
+        ['patient', (patientId && thresholds.patients[patientId]) || []],
+        ['ward', (ward && thresholds.wards[ward]) || []],
+        ['default', DEFAULT_THRESHOLD_RULES],
+    ];
+    return VITAL_FIELDS.flatMap(field => {
+        const [source, rules] = layers.find(([, rules]) => rules.some(rule => rule.field === field)) ?? ['default', []];
+        return rules.filter(rule => rule.field === field).map(rule => ({ ...rule, source }));
+    });
+};
+
+const breached = (rule: ThresholdRule, value: number | undefined) =>
+    value !== undefined && (rule.operator === '>' ? value > rule.value : value < rule.value);
+
+/**
+ * Assess the latest of the readings against the rules. Rules with `for_minutes` hold only when every
+ * reading breached them since at least that long before the latest one, so the history has to reach back as far.
+ */
+export const evaluateVitals = (readings: Array<Partial<VitalReading>>, rules: AppliedThresholdRule[]): VitalsAssessment => {
+    // Oldest first, one reading per time
+    const byTime = new Map(readings.map(reading => [toTimestampMs(reading.timestamp), reading]));
+    const history = [...byTime.entries()].filter(([at]) => Number.isFinite(at)).sort(([a], [b]) => a - b);
+    const assessment: VitalsAssessment = { level: 'normal', fields: {}, breaches: [] };
+    if (history.length === 0) return assessment;
+
+    const [latestAt, latest] = history[history.length - 1];
+    rules.forEach(rule => {
+        const value = vitalValue(latest, rule.field);
+        if (value === undefined || !breached(rule, value)) return;
+        // Start of the run of breaching readings that ends with the latest one
+        let index = history.length - 1;
+        while (index > 0 && breached(rule, vitalValue(history[index - 1][1], rule.field))) index--;
+        const since = history[index][0];
+        if (latestAt - since < rule.for_minutes * 60 * 1000) return;
+
+        const breach = { rule, value, since };
+        assessment.breaches.push(breach);
+        const current = assessment.fields[rule.field];
+        if (!current || rank(rule.level) > rank(current.rule.level)) {
+            assessment.fields[rule.field] = breach;
+        }
+        assessment.level = worse(assessment.level, rule.level);
+    });
+    return assessment;
+};
+
+/**
+ * Level of one field in an assessment; blood pressure is the worse of systolic and diastolic
+ */
+export const fieldLevel = (assessment: VitalsAssessment, field: VitalField | 'bloodPressure'): VitalLevel =>
+    field === 'bloodPressure'
+        ? worse(fieldLevel(assessment, 'systolic'), fieldLevel(assessment, 'diastolic'))
+        : assessment.fields[field]?.rule.level ?? 'normal';
+
+/**
+ * "SpO2 86%", "heart rate 125 bpm for 5 min": what a breach found, for alert messages
+ */
+export const describeBreach = ({ rule, value }: ThresholdBreach) => {
+    const { label } = VITAL_FIELD_INFO[rule.field];
+    const name = rule.field === 'oxygenLevel' ? label : label.charAt(0).toLowerCase() + label.slice(1);
+    return `${name} ${withUnit(value, rule.field)}${sustained(rule)}`;
+};
+
+/**
+ * What puts an assessment at its level, e.g. "SpO2 86%, heart rate 125 bpm for 5 min"
+ */
+export const describeAssessment = (assessment: VitalsAssessment) =>
+    assessment.breaches
+        .filter(breach => breach.rule.level === assessment.level)
+        .map(describeBreach)
+        .join(', ');
+
+/**
+ * Replace the rules of a patient; an empty list makes the ward's rules apply again
+ */
+export const updatePatientThresholds = (patientId: string, rules: ThresholdRule[], patientName?: string, before?: ThresholdRule[]) =>
+    Api.put<VitalThresholds>(ENDPOINTS.settings.patientThresholds(patientId), { rules }, {
+        audit: {
+            action: 'update',
+            entity: { type: 'patient', id: patientId, name: patientName ?? patientId },
+            description: rules.length > 0
+                ? `Set the vital sign thresholds of ${patientName ?? patientId}: ${rules.map(describeRule).join(', ')}`
+                : `Remove the vital sign thresholds of ${patientName ?? patientId}`,
+            before: { rules: before ?? [] },
+            after: { rules },
+        },
+    });
+
+/**
+ * Replace the default rules of a ward; an empty list makes the built-in rules apply again
+ */
+export const updateWardThresholds = (ward: string, rules: ThresholdRule[], before?: ThresholdRule[]) =>
+    Api.put<VitalThresholds>(ENDPOINTS.settings.wardThresholds(ward), { rules }, {
+        audit: {
+            action: 'update',
+            entity: { type: 'ward', id: ward, name: ward },
+            description: rules.length > 0
+                ? `Set the default vital sign thresholds of ${ward}: ${rules.map(describeRule).join(', ')}`
+                : `Remove the default vital sign thresholds of ${ward}`,
+            before: { rules: before ?? [] },
+            after: { rules },
+        },
+    });
@@ -1,16 +1,34 @@
 import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
 import LoginScreen from './LoginScreen';
+import MfaChallengeScreen from './MfaChallengeScreen';
 import SignupScreen from './SignupScreen';
+import SwitchUserScreen from './SwitchUserScreen';
+
+type AuthView = { screen: 'switch' } | { screen: 'login'; email?: string } | { screen: 'signup' };
 
 const AuthContainer: React.FC = () => {
-  const [isSignup, setIsSignup] = useState(false);
+  const { recentAccounts, mfaChallenge } = useAuth();
+  // Shared terminals open on the accounts used here before
+  const [view, setView] = useState<AuthView>(recentAccounts.length > 0 ? { screen: 'switch' } : { screen: 'login' });
+
+  if (mfaChallenge) return <MfaChallengeScreen />;
+
+  if (view.screen === 'switch' && recentAccounts.length > 0) {
+    return <SwitchUserScreen onSignIn={(email) => setView({ screen: 'login', email })} />;
+  }
 
   return (
     <>
-      {isSignup ? (
-        <SignupScreen onSwitchToLogin={() => setIsSignup(false)} />
+      {view.screen === 'signup' ? (
+        <SignupScreen onSwitchToLogin={() => setView({ screen: 'login' })} />
       ) : (
-        <LoginScreen onSwitchToSignup={() => setIsSignup(true)} />
+        <LoginScreen
+          key={view.screen === 'login' ? view.email : undefined}
+          initialEmail={view.screen === 'login' ? view.email : undefined}
+          onSwitchToSignup={() => setView({ screen: 'signup' })}
+          onSwitchUser={recentAccounts.length > 0 ? () => setView({ screen: 'switch' }) : undefined}
+        />
       )}
     </>
   );
@@ -0,0 +1,19 @@
+import React, { ReactNode } from 'react';
+import { usePermission } from '../../hooks/usePermission';
+import { Permission } from '../../utils/permissions';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  // Rendered instead of the children when the permission is missing
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Render the children only if the signed-in user has the permission
+ */
+const Can: React.FC<CanProps> = ({ permission, fallback = null, children }) => (
+  <>{usePermission(permission) ? children : fallback}</>
+);
+
+export default Can;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AlertCircle, ShieldAlert, X } from 'lucide-react';
+import { EMERGENCY_ACCESS_MINUTES } from '../../api/config';
+import { requestEmergencyAccess } from '../../api/emergencyAccess';
+import { describeApiError } from '../../api/errors';
+
+interface EmergencyAccessDialogProps {
+  onClose: () => void;
+}
+
+const MIN_JUSTIFICATION_LENGTH = 15;
+
+// Break-the-glass: opens every patient record for a limited time once the user said why
+const EmergencyAccessDialog: React.FC<EmergencyAccessDialogProps> = ({ onClose }) => {
+  const [justification, setJustification] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+      setError('Describe the emergency in a few words, e.g. the patient and what happened');
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    const response = await requestEmergencyAccess(justification);
+    if (response.error) {
+      setError(describeApiError(response.error));
+      setSubmitting(false);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full" role="dialog" aria-labelledby="emergency-access-title">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <ShieldAlert className="h-5 w-5 text-red-600" />
+            <h2 id="emergency-access-title" className="text-lg font-semibold text-gray-900">Emergency access</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Opens every patient record, including patients not assigned to you, for {EMERGENCY_ACCESS_MINUTES} minutes.
+            Your name, the time and the reason below are recorded and reviewed by an administrator.
+          </p>
+          <div>
+            <label htmlFor="emergency-justification" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for access
+            </label>
+            <textarea
+              id="emergency-justification"
+              rows={3}
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="e.g. Cardiac arrest in room 204, covering for the attending physician"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 sm:text-sm"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              {submitting ? 'Requesting...' : 'Open all records'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyAccessDialog;
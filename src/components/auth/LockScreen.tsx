@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { IDLE_LOCK_MINUTES } from '../../api/config';
+import { hasUnlockPin } from '../../utils/unlockPin';
+import { AlertCircle, KeyRound, Lock, LogOut, Users } from 'lucide-react';
+
+const LOCK_MESSAGES = {
+  idle: `Locked after ${IDLE_LOCK_MINUTES} minutes without activity.`,
+  manual: 'This terminal is locked.',
+  expired: 'Your session has ended. Enter your password to continue where you left off.',
+};
+
+// Covers the dashboard, which stays mounted underneath so nothing is lost on unlock
+const LockScreen: React.FC = () => {
+  const { user, locked, resumeSession, logout, switchUser, error } = useAuth();
+  const pinAllowed = !!user && locked !== 'expired' && hasUnlockPin(user.id);
+  const [usePin, setUsePin] = useState(pinAllowed);
+  const [secret, setSecret] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!user || !locked) return null;
+
+  const withPin = usePin && pinAllowed;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const resumed = await resumeSession(withPin ? { pin: secret } : { password: secret, code });
+    setSubmitting(false);
+    if (!resumed) {
+      setSecret('');
+      setCode('');
+      // Too many wrong PINs remove the PIN
+      if (withPin && !hasUnlockPin(user.id)) setUsePin(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 flex items-center justify-center px-4">
+      <div className="max-w-sm w-full bg-white rounded-2xl shadow-2xl p-8">
+        <div className="text-center">
+          <div className="mx-auto h-14 w-14 bg-blue-100 rounded-full flex items-center justify-center">
+            <Lock className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-gray-900">{user.name}</h2>
+          <p className="mt-1 text-sm text-gray-600">{LOCK_MESSAGES[locked]}</p>
+        </div>
+
+        <form className="mt-6 space-y-4" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="unlock-secret" className="sr-only">{withPin ? 'PIN' : 'Password'}</label>
+            <input
+              id="unlock-secret"
+              type="password"
+              inputMode={withPin ? 'numeric' : undefined}
+              autoComplete={withPin ? 'off' : 'current-password'}
+              autoFocus
+              required
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder={withPin ? 'PIN' : 'Password'}
+            />
+          </div>
+          {!withPin && user.mfaEnabled && (
+            <div>
+              <label htmlFor="unlock-code" className="sr-only">Authentication code</label>
+              <input
+                id="unlock-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Authentication code"
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-3 px-4 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {submitting ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        <div className="mt-4 flex items-center justify-between text-sm">
+          {pinAllowed ? (
+            <button
+              type="button"
+              onClick={() => {
+                setUsePin(!withPin);
+                setSecret('');
+              }}
+              className="flex items-center text-blue-600 hover:text-blue-700"
+            >
+              <KeyRound className="h-4 w-4 mr-1" />
+              {withPin ? 'Use password' : 'Use PIN'}
+            </button>
+          ) : <span />}
+          <button
+            type="button"
+            onClick={() => switchUser()}
+            className="flex items-center text-gray-600 hover:text-gray-800"
+          >
+            <Users className="h-4 w-4 mr-1" />
+            Switch user
+          </button>
+          <button
+            type="button"
+            onClick={logout}
+            className="flex items-center text-gray-600 hover:text-gray-800"
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
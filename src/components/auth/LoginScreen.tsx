@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { MOCK_API } from '../../api/config';
 import { Building2, User, Lock, AlertCircle, LucideBuilding2} from 'lucide-react';
 
 interface LoginScreenProps {
   onSwitchToSignup?: () => void;
+  // Back to the recently used accounts of this terminal
+  onSwitchUser?: () => void;
+  initialEmail?: string;
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onSwitchToSignup }) => {
-  const [email, setEmail] = useState('');
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSwitchToSignup, onSwitchUser, initialEmail = '' }) => {
+  const [email, setEmail] = useState(initialEmail);
   const [password, setPassword] = useState('');
   const [localError, setLocalError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -21,7 +25,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSwitchToSignup }) => {
     try {
       const success = await login(email, password);
       if (!success) {
-        setLocalError(authError || 'Invalid credentials. Use password "password" for demo accounts.');
+        setLocalError(authError || (MOCK_API ? 'Invalid credentials. Use password "password" for demo accounts.' : 'Invalid credentials.'));
       }
     } catch (err) {
       setLocalError('Login failed. Please try again.');
@@ -36,7 +40,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSwitchToSignup }) => {
   const demoAccounts = [
     { email: 'admin@hospital.com', role: 'Admin', description: 'Full system access' },
     { email: 'doctor@hospital.com', role: 'Doctor', description: 'Patient monitoring & alerts' },
-    { email: 'staff@hospital.com', role: 'Staff', description: 'Schedule & room management' }
+    { email: 'staff@hospital.com', role: 'Staff', description: 'Schedule & room management' },
+    { email: 'p.patel@hospital.com', role: 'Technician', description: 'IoT device management' }
   ];
 
   return (
@@ -114,9 +119,38 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSwitchToSignup }) => {
           </div>
         </form>
 
-        <div className="mt-5">
-             
-        </div>
+        {/* The fixture accounts only exist in the mock backend */}
+        {MOCK_API && (
+          <div className="mt-5 space-y-2">
+            <p className="text-xs text-gray-500 text-center">Demo accounts (password "password")</p>
+            {demoAccounts.map(account => (
+              <button
+                key={account.email}
+                type="button"
+                onClick={() => {
+                  setEmail(account.email);
+                  setPassword('password');
+                }}
+                className="w-full text-left px-3 py-2 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors"
+              >
+                <span className="text-sm font-medium text-gray-900">{account.role}</span>
+                <span className="ml-2 text-xs text-gray-500">{account.email} · {account.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {onSwitchUser && (
+          <div className="mt-4 text-center">
+            <button
+              type="button"
+              onClick={onSwitchUser}
+              className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+            >
+              Back to recent accounts
+            </button>
+          </div>
+        )}
 
         {onSwitchToSignup && (
           <div className="text-center">
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import MfaSetup from './MfaSetup';
+import { AlertCircle, ShieldCheck } from 'lucide-react';
+
+// Second sign-in step: the authenticator code, or setting up the app when the role requires one
+const MfaChallengeScreen: React.FC = () => {
+  const { mfaChallenge, verifyMfa, cancelMfa, finishMfaEnrollment, error } = useAuth();
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!mfaChallenge) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const verified = await verifyMfa(code);
+    if (!verified) {
+      setCode('');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-2xl p-8">
+        <div className="text-center">
+          <div className="mx-auto h-14 w-14 bg-blue-100 rounded-full flex items-center justify-center">
+            <ShieldCheck className="h-7 w-7 text-blue-600" />
+          </div>
+          <h2 className="mt-4 text-xl font-semibold text-gray-900">Two-factor authentication</h2>
+          <p className="mt-1 text-sm text-gray-600">{mfaChallenge.email}</p>
+        </div>
+
+        {mfaChallenge.enrollment ? (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-lg p-3">
+              Your role requires a second factor. Set up an authenticator app to finish signing in.
+            </p>
+            <MfaSetup onDone={finishMfaEnrollment} onCancel={cancelMfa} />
+          </div>
+        ) : (
+          <form className="mt-6 space-y-4" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-1">
+                Code from your authenticator app
+              </label>
+              <input
+                id="mfa-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm tracking-widest"
+                placeholder="123456"
+              />
+              <p className="mt-1 text-xs text-gray-500">No phone at hand? Enter one of your backup codes instead.</p>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+                <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+                <span className="text-sm text-red-700">{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full py-3 px-4 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {submitting ? 'Verifying...' : 'Verify'}
+            </button>
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={cancelMfa}
+                className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MfaChallengeScreen;
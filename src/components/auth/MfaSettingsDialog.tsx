@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import MfaSetup from './MfaSetup';
+import { AlertCircle, ShieldCheck, X } from 'lucide-react';
+
+interface MfaSettingsDialogProps {
+  onClose: () => void;
+}
+
+// Turns the signed-in user's authenticator app on or off
+const MfaSettingsDialog: React.FC<MfaSettingsDialogProps> = ({ onClose }) => {
+  const { user, disableMfa } = useAuth();
+  const [settingUp, setSettingUp] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!user) return null;
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await disableMfa(code);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not turn two-factor authentication off');
+      setCode('');
+      setSaving(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (settingUp) return <MfaSetup onDone={onClose} onCancel={onClose} />;
+
+    if (!user.mfaEnabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Signing in will also ask for a code from an authenticator app on your phone, so a password alone is
+            not enough to open your account.
+          </p>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setSettingUp(true)}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors duration-200"
+            >
+              Set up
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleDisable} className="space-y-4">
+        <div className="flex items-center space-x-2 text-green-700">
+          <ShieldCheck className="h-5 w-5" />
+          <span className="text-sm font-medium">Two-factor authentication is on</span>
+        </div>
+        <div>
+          <label htmlFor="mfa-disable-code" className="block text-sm font-medium text-gray-700 mb-1">
+            Code from the app or a backup code, to turn it off
+          </label>
+          <input
+            id="mfa-disable-code"
+            type="text"
+            autoComplete="one-time-code"
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50 transition-colors duration-200"
+          >
+            {saving ? 'Turning off...' : 'Turn off'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-6">{renderBody()}</div>
+      </div>
+    </div>
+  );
+};
+
+export default MfaSettingsDialog;
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { MfaEnrollment } from '../../api/auth';
+import { createQrCode } from '../../utils/qrCode';
+import { AlertCircle, CheckCircle, Copy } from 'lucide-react';
+
+interface MfaSetupProps {
+  // After the backup codes were shown
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+// Scanners need four light modules around the code
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<{ text: string }> = ({ text }) => {
+  const modules = useMemo(() => createQrCode(text), [text]);
+  const size = modules.length + QUIET_ZONE * 2;
+  const path = modules.flatMap((row, y) =>
+    row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''))
+  ).join('');
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className="h-44 w-44 mx-auto"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code for the authenticator app"
+    >
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+// Adds an authenticator app: QR code, a first code to confirm it works, then the backup codes
+const MfaSetup: React.FC<MfaSetupProps> = ({ onDone, onCancel }) => {
+  const { startMfaEnrollment, confirmMfaEnrollment } = useAuth();
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    // Only the last request's secret is valid, so earlier answers are ignored
+    let current = true;
+    startMfaEnrollment()
+      .then(result => current && setEnrollment(result))
+      .catch(err => current && setError(err instanceof Error ? err.message : 'Could not start two-factor setup'));
+    return () => {
+      current = false;
+    };
+  }, [startMfaEnrollment]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      setBackupCodes(await confirmMfaEnrollment(code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid authentication code');
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const errorMessage = error && (
+    <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+      <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+      <span className="text-sm text-red-700">{error}</span>
+    </div>
+  );
+
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2 text-green-700">
+          <CheckCircle className="h-5 w-5" />
+          <span className="text-sm font-medium">Two-factor authentication is on</span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Keep these backup codes somewhere safe. Each one signs you in once if your phone is not at hand.
+          They are not shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 bg-gray-50 rounded-md p-3 font-mono text-sm text-gray-900" aria-label="Backup codes">
+          {backupCodes.map(backupCode => <li key={backupCode}>{backupCode}</li>)}
+        </ul>
+        <div className="flex justify-between">
+          <button
+            type="button"
+            onClick={() => navigator.clipboard?.writeText(backupCodes.join('\n'))}
+            className="flex items-center px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+          >
+            <Copy className="h-4 w-4 mr-1" />
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={onDone}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors duration-200"
+          >
+            I have saved them
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <p className="text-sm text-gray-600">
+        Scan the code with an authenticator app, such as Google Authenticator or Microsoft Authenticator, then
+        enter the six-digit code it shows.
+      </p>
+      {enrollment ? (
+        <>
+          <QrCode text={enrollment.otpauth_uri} />
+          <p className="text-xs text-gray-500 text-center">
+            Cannot scan? Enter this key instead:
+            <span className="block font-mono text-sm text-gray-900 break-all mt-1">{enrollment.secret}</span>
+          </p>
+        </>
+      ) : !error && <p className="text-sm text-gray-500 text-center py-8">Loading...</p>}
+
+      <div>
+        <label htmlFor="mfa-setup-code" className="block text-sm font-medium text-gray-700 mb-1">Code from the app</label>
+        <input
+          id="mfa-setup-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm tracking-widest"
+          placeholder="123456"
+        />
+      </div>
+
+      {errorMessage}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting || !enrollment}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+        >
+          {submitting ? 'Checking...' : 'Turn on'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MfaSetup;
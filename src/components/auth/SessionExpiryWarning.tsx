@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { SESSION_WARNING_MS } from '../../api/config';
+import { formatCountdown } from '../../utils/dateUtils';
+import { AlertCircle, Clock } from 'lucide-react';
+
+// Counts down the last minutes of a session; entering the password starts a new one in place
+const SessionExpiryWarning: React.FC = () => {
+  const { user, locked, sessionExpiresAt, resumeSession, logout, error } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const remaining = sessionExpiresAt ? sessionExpiresAt.getTime() - now : Infinity;
+  const visible = !!user && !locked && remaining <= SESSION_WARNING_MS;
+
+  // Tick every second while the warning shows, otherwise once when it is due
+  useEffect(() => {
+    if (!sessionExpiresAt || locked) return;
+    const untilWarning = sessionExpiresAt.getTime() - SESSION_WARNING_MS - Date.now();
+    if (untilWarning > 2 ** 31 - 1) return;
+    if (untilWarning > 0) {
+      const timer = setTimeout(() => setNow(Date.now()), untilWarning);
+      return () => clearTimeout(timer);
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sessionExpiresAt, locked, visible]);
+
+  if (!visible) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const resumed = await resumeSession({ password, code });
+    setSubmitting(false);
+    setPassword('');
+    setCode('');
+    if (resumed) setNow(Date.now());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center px-4" role="alertdialog" aria-labelledby="session-expiry-title">
+      <div className="max-w-sm w-full bg-white rounded-lg shadow-xl p-6">
+        <div className="flex items-center space-x-3">
+          <Clock className="h-6 w-6 text-amber-500" />
+          <h2 id="session-expiry-title" className="text-lg font-semibold text-gray-900">
+            Session ends in {formatCountdown(remaining)}
+          </h2>
+        </div>
+        <p className="mt-2 text-sm text-gray-600">
+          Enter your password to stay signed in. Otherwise the screen locks and your work stays open until you sign in again.
+        </p>
+
+        <form className="mt-4 space-y-3" onSubmit={handleSubmit}>
+          <label htmlFor="session-password" className="sr-only">Password</label>
+          <input
+            id="session-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder="Password"
+          />
+          {user?.mfaEnabled && (
+            <>
+              <label htmlFor="session-code" className="sr-only">Authentication code</label>
+              <input
+                id="session-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Authentication code"
+              />
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={logout}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+            >
+              Sign out
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              {submitting ? 'Signing in...' : 'Stay signed in'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryWarning;
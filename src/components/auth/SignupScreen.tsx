@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { Building2, User, Lock, AlertCircle, Mail, Phone, Briefcase } from 'lucide-react';
+import { Building2, User, Lock, AlertCircle, Mail, Phone, Briefcase, Clock } from 'lucide-react';
 import { SignupRequest } from '../../api/auth';
 
 interface SignupScreenProps {
@@ -14,13 +14,15 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
     confirmPassword: '',
     first_name: '',
     last_name: '',
-    role: 'staff' as 'admin' | 'doctor' | 'staff',
+    role: 'staff' as SignupRequest['role'],
     phone: '',
     department: '',
     specialization: ''
   });
   const [localError, setLocalError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Self-registered accounts wait for an administrator before they can sign in
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
   const { signup, error: authError } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -53,9 +55,11 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
         specialization: formData.specialization || undefined
       };
 
-      const success = await signup(signupData);
-      if (!success) {
+      const outcome = await signup(signupData);
+      if (!outcome) {
         setLocalError(authError || 'Signup failed. Please check your information and try again.');
+      } else if (outcome === 'pending_approval') {
+        setAwaitingApproval(true);
       }
     } catch (err) {
       setLocalError('Signup failed. Please try again.');
@@ -89,6 +93,24 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
             <p className="mt-2 text-sm text-gray-600">Create your staff account</p>
           </div>
 
+        {awaitingApproval ? (
+          <div className="mt-8 space-y-6 text-center">
+            <div className="mx-auto h-12 w-12 bg-yellow-100 rounded-full flex items-center justify-center">
+              <Clock className="h-6 w-6 text-yellow-700" />
+            </div>
+            <p className="text-sm text-gray-700">
+              Your account for {formData.email} was created and is waiting for approval by an administrator.
+              You can sign in once it has been approved.
+            </p>
+            <button
+              type="button"
+              onClick={onSwitchToLogin}
+              className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+            >
+              Back to sign in
+            </button>
+          </div>
+        ) : (
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
@@ -184,7 +206,7 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
             </div>
 
             <div>
-              <label htmlFor="role" className="sr-only">Role</label>
+              <label htmlFor="role" className="sr-only">Requested role</label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                   <Briefcase className="h-5 w-5 text-gray-400" />
@@ -199,9 +221,9 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
                 >
                   <option value="staff">Staff</option>
                   <option value="doctor">Doctor</option>
-                 
                 </select>
               </div>
+              <p className="mt-1 text-xs text-gray-500">An administrator confirms the role before you can sign in.</p>
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -279,6 +301,7 @@ const SignupScreen: React.FC<SignupScreenProps> = ({ onSwitchToLogin }) => {
             </button>
           </div>
         </form>
+        )}
         </div>
       </div>
     </div>
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasParkedSession } from '../../api/sessionVault';
+import { RecentAccount } from '../../utils/recentAccounts';
+import { formatRelativeTime } from '../../utils/dateUtils';
+import { AlertCircle, KeyRound, UserPlus, X } from 'lucide-react';
+
+interface SwitchUserScreenProps {
+  // Continue on the login screen, with the account's email filled in when one was picked
+  onSignIn: (email?: string) => void;
+}
+
+// Tiles for the accounts recently used on this terminal; parked sessions come back with a PIN
+const SwitchUserScreen: React.FC<SwitchUserScreenProps> = ({ onSignIn }) => {
+  const { recentAccounts, switchTo, forgetRecentAccount, error } = useAuth();
+  const [selected, setSelected] = useState<RecentAccount | null>(null);
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const pick = (account: RecentAccount) => {
+    if (!hasParkedSession(account.id)) {
+      onSignIn(account.email);
+      return;
+    }
+    setSelected(account);
+    setPin('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setSubmitting(true);
+    const switched = await switchTo(selected.id, pin);
+    setSubmitting(false);
+    if (!switched) {
+      setPin('');
+      // The PIN was removed or the session ended: only the password is left
+      if (!hasParkedSession(selected.id)) onSignIn(selected.email);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+      <div className="max-w-2xl w-full bg-white rounded-2xl shadow-2xl p-8">
+        <h2 className="text-2xl font-bold text-gray-900 text-center">Who is using this terminal?</h2>
+        <p className="mt-1 text-sm text-gray-600 text-center">Pick your account and enter your PIN</p>
+
+        <div className="mt-6 grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {recentAccounts.map(account => (
+            <div key={account.id} className="relative">
+              <button
+                type="button"
+                onClick={() => pick(account)}
+                className={`w-full h-full text-left p-4 border rounded-lg transition-colors ${
+                  selected?.id === account.id
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:bg-blue-50 hover:border-blue-300'
+                }`}
+              >
+                <div className="h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center text-blue-700 font-semibold">
+                  {account.name.split(' ').map(part => part[0]).join('').slice(0, 2)}
+                </div>
+                <p className="mt-2 text-sm font-medium text-gray-900">{account.name}</p>
+                <p className="text-xs text-gray-500 capitalize">
+                  {account.role}{account.department && ` · ${account.department}`}
+                </p>
+                <p className="mt-1 text-xs text-gray-400">
+                  {hasParkedSession(account.id) ? 'PIN' : 'Password'} · {formatRelativeTime(new Date(account.lastActiveAt))}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  forgetRecentAccount(account.id);
+                  if (selected?.id === account.id) setSelected(null);
+                }}
+                className="absolute top-2 right-2 p-1 text-gray-300 hover:text-gray-500"
+                title={`Remove ${account.name} from this terminal`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {selected && (
+          <form className="mt-6 space-y-3" onSubmit={handleSubmit}>
+            <label htmlFor="switch-pin" className="block text-sm font-medium text-gray-700">
+              PIN for {selected.name}
+            </label>
+            <div className="flex space-x-3">
+              <input
+                id="switch-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                required
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              <button
+                type="submit"
+                disabled={submitting}
+                className="flex items-center px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                {submitting ? 'Switching...' : 'Switch'}
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => onSignIn(selected.email)}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Use password instead
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2">
+            <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onSignIn()}
+          className="mt-6 w-full flex items-center justify-center py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <UserPlus className="h-4 w-4 mr-2" />
+          Sign in with another account
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SwitchUserScreen;
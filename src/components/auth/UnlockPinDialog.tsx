@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { PIN_PATTERN, hasUnlockPin } from '../../utils/unlockPin';
+import { AlertCircle, X } from 'lucide-react';
+
+interface UnlockPinDialogProps {
+  onClose: () => void;
+}
+
+// Sets or removes the PIN that unlocks this terminal and switches back to the signed-in user
+const UnlockPinDialog: React.FC<UnlockPinDialogProps> = ({ onClose }) => {
+  const { user, savePin, removePin } = useAuth();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(pin)) {
+      setError('The PIN must be 4 to 8 digits');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('The PINs do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      await savePin(pin);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the PIN');
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    removePin();
+    onClose();
+  };
+
+  const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Unlock PIN</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Unlocks this terminal, and switches back to your session after someone else used it, while the
+            session is valid. After five wrong attempts the PIN is removed.
+          </p>
+          <div>
+            <label htmlFor="unlock-pin" className="block text-sm font-medium text-gray-700 mb-1">New PIN</label>
+            <input
+              id="unlock-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="unlock-pin-confirm" className="block text-sm font-medium text-gray-700 mb-1">Repeat PIN</label>
+            <input
+              id="unlock-pin-confirm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between pt-2">
+            {hasUnlockPin(user.id) ? (
+              <button
+                type="button"
+                onClick={handleRemove}
+                className="px-4 py-2 text-sm text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors duration-200"
+              >
+                Remove PIN
+              </button>
+            ) : <span />}
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              {saving ? 'Saving...' : 'Save PIN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockPinDialog;
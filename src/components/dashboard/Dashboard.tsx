@@ -1,48 +1,87 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermission';
+import { useFacilityId } from '../../api/hooks/useFacilities';
+import { navigate, usePathname } from '../../store/locationStore';
+import { useHospitalLoadState } from '../../store/hospitalSelectors';
+import { belongsToRole, homePath, matchRoute } from '../../utils/routes';
+import { forbiddenError, httpError } from '../../api/errors';
 import Sidebar from './Sidebar';
 import AdminDashboard from './views/AdminDashboard';
 import DoctorDashboard from './views/DoctorDashboard';
 import StaffDashboard from './views/StaffDashboard';
 import Header from './Header';
 import FloatingSmartAssistant from './components/FloatingSmartAssistant';
+import ApiErrorState from '../ui/ApiErrorState';
+import ConnectivityBanner from '../ui/ConnectivityBanner';
+import EmergencyAccessBanner from '../ui/EmergencyAccessBanner';
+import Toaster from '../ui/Toaster';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const [activeView, setActiveView] = useState('overview');
+  const pathname = usePathname();
+  const permissions = usePermissions();
+  const { loading } = useHospitalLoadState();
+  const facilityId = useFacilityId();
+
+  const role = user?.role;
+  const inOwnTree = role ? belongsToRole(role, pathname) : false;
+  const match = role ? matchRoute(role, pathname) : null;
+
+  // The bare address and links meant for another role open the user's own overview, e.g. after
+  // switching user on a shared workstation
+  useEffect(() => {
+    if (role && !inOwnTree) navigate(homePath(role), { replace: true });
+  }, [role, inOwnTree]);
 
   const renderDashboard = () => {
-    console.log('Dashboard: renderDashboard called with user role:', user?.role);
-    console.log('Dashboard: activeView is:', activeView);
-    
-    switch (user?.role) {
+    if (!role || !inOwnTree) return null;
+    if (!match) return <ApiErrorState error={httpError(404, 'Page not found')} />;
+
+    const { route, params } = match;
+    if (route.permission && !permissions.has(route.permission)) {
+      // Permissions from the staff record are only known once the hospital data has loaded
+      if (loading) {
+        return (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-lg text-gray-600">Loading...</div>
+          </div>
+        );
+      }
+      return <ApiErrorState error={forbiddenError()} />;
+    }
+
+    switch (role) {
       case 'admin':
-        console.log('Dashboard: Rendering AdminDashboard');
-        return <AdminDashboard activeView={activeView} />;
+        return <AdminDashboard activeView={route.view} params={params} />;
       case 'doctor':
-        return <DoctorDashboard activeView={activeView} />;
+        return <DoctorDashboard activeView={route.view} params={params} />;
       case 'staff':
-        return <StaffDashboard activeView={activeView} />;
+        return <StaffDashboard activeView={route.view} />;
       default:
-        console.log('Dashboard: Access denied for role:', user?.role);
         return <div>Access denied</div>;
     }
   };
 
   return (
     <div className="flex h-screen bg-gray-50">
-      <Sidebar activeView={activeView} setActiveView={setActiveView} userRole={user?.role} />
+      <Sidebar activeView={match?.route.view} userRole={role} />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Header />
-        <main className="flex-1 overflow-x-hidden overflow-y-auto bg-gray-50">
+        <EmergencyAccessBanner />
+        <ConnectivityBanner />
+        {/* Screens start over in another facility, with its own records, forms and selections */}
+        <main key={facilityId ?? ''} className="flex-1 overflow-x-hidden overflow-y-auto bg-gray-50">
           {renderDashboard()}
         </main>
       </div>
       
       {/* Floating Smart Assistant */}
       <FloatingSmartAssistant />
+
+      <Toaster />
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
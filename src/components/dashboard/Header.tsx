@@ -1,14 +1,22 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { useHospitalData } from '../../contexts/HospitalDataContext';
-import { Bell, LogOut, User, AlertTriangle, RefreshCw } from 'lucide-react';
+import { useHospitalActions } from '../../contexts/HospitalDataContext';
+import { useActiveAlerts } from '../../store/hospitalSelectors';
+import UnlockPinDialog from '../auth/UnlockPinDialog';
+import MfaSettingsDialog from '../auth/MfaSettingsDialog';
+import FacilitySwitcher from '../ui/FacilitySwitcher';
+import { useFacilities } from '../../api/hooks/useFacilities';
+import { Bell, LogOut, User, AlertTriangle, RefreshCw, Lock, KeyRound, ShieldCheck, Users } from 'lucide-react';
 
 const Header: React.FC = () => {
-  const { user, logout } = useAuth();
-  const { getActiveAlerts, refreshAlertsOnly } = useHospitalData();
-  const activeAlerts = getActiveAlerts();
+  const { user, logout, lock, switchUser } = useAuth();
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [showMfaDialog, setShowMfaDialog] = useState(false);
+  const activeAlerts = useActiveAlerts();
+  const { refreshAlertsOnly } = useHospitalActions();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  const { current: facility } = useFacilities();
 
   // Remove auto-refresh from Header since context handles it
   // Auto-refresh is now handled by HospitalDataContext with reduced frequency
@@ -26,13 +34,17 @@ const Header: React.FC = () => {
   };
 
   return (
-    <header className="bg-white shadow-sm border-b border-gray-200">
+    <header
+      className="bg-white shadow-sm border-b border-gray-200 border-t-4"
+      style={{ borderTopColor: facility?.accent_color ?? 'transparent' }}
+    >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center py-4">
-          <div className="flex items-center">
+          <div className="flex items-center space-x-6">
             <h1 className="text-xl font-semibold text-gray-900">
               Smart Hospital Dashboard
             </h1>
+            <FacilitySwitcher />
           </div>
 
           <div className="flex items-center space-x-4">
@@ -71,6 +83,34 @@ const Header: React.FC = () => {
                 </div>
               </div>
 
+              <button
+                onClick={() => setShowPinDialog(true)}
+                className="p-2 text-gray-400 hover:text-gray-500 transition-colors duration-200"
+                title="Unlock PIN"
+              >
+                <KeyRound className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowMfaDialog(true)}
+                className={`p-2 transition-colors duration-200 ${user?.mfaEnabled ? 'text-green-600 hover:text-green-700' : 'text-gray-400 hover:text-gray-500'}`}
+                title="Two-factor authentication"
+              >
+                <ShieldCheck className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => switchUser()}
+                className="p-2 text-gray-400 hover:text-gray-500 transition-colors duration-200"
+                title="Switch user"
+              >
+                <Users className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => lock('manual')}
+                className="p-2 text-gray-400 hover:text-gray-500 transition-colors duration-200"
+                title="Lock screen"
+              >
+                <Lock className="h-5 w-5" />
+              </button>
               <button
                 onClick={logout}
                 className="p-2 text-gray-400 hover:text-gray-500 transition-colors duration-200"
@@ -115,6 +155,9 @@ const Header: React.FC = () => {
           </div>
         </div>
       )}
+
+      {showPinDialog && <UnlockPinDialog onClose={() => setShowPinDialog(false)} />}
+      {showMfaDialog && <MfaSettingsDialog onClose={() => setShowMfaDialog(false)} />}
     </header>
   );
 };
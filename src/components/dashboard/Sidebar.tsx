@@ -1,5 +1,5 @@
 import React from 'react';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, UserRole } from '../../contexts/AuthContext';
 import { 
   Users, 
   Activity, 
@@ -15,20 +15,35 @@ import {
   Stethoscope,
   ClipboardList,
   MapPin,
-  MessageCircle
+  Bug,
+  History,
+  ShieldAlert,
+  UserCog
 } from 'lucide-react';
+import { usePermissions } from '../../hooks/usePermission';
+import { useFacilities } from '../../api/hooks/useFacilities';
+import { navigate } from '../../store/locationStore';
+import { findViewRoute, viewPath } from '../../utils/routes';
+
+interface MenuItem {
+  id: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+}
 
 interface SidebarProps {
-  activeView: string;
-  setActiveView: (view: string) => void;
-  userRole?: string;
+  activeView?: string;
+  userRole?: UserRole;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, userRole }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activeView, userRole }) => {
   const { user } = useAuth();
 
-  const getMenuItems = () => {
-    const baseItems = [
+  const permissions = usePermissions();
+  const { current: facility } = useFacilities();
+
+  const getMenuItems = (): MenuItem[] => {
+    const baseItems: MenuItem[] = [
       { id: 'overview', label: 'Overview', icon: Home }
     ];
 
@@ -37,10 +52,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, userRole }
         return [
           ...baseItems,
           { id: 'staff', label: 'Staff Management', icon: UserPlus },
+          { id: 'users', label: 'User Accounts', icon: UserCog },
           { id: 'rooms', label: 'Room Management', icon: Bed },
           { id: 'devices', label: 'IoT Devices', icon: Monitor },
           { id: 'alerts', label: 'System Alerts', icon: AlertTriangle },
           { id: 'analytics', label: 'Analytics', icon: Activity },
+          { id: 'diagnostics', label: 'Data Diagnostics', icon: Bug },
+          { id: 'audit', label: 'Audit Log', icon: History },
+          { id: 'emergency-access', label: 'Emergency Access', icon: ShieldAlert },
           { id: 'settings', label: 'Settings', icon: Settings }
         ];
       case 'doctor':
@@ -57,43 +76,34 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, userRole }
           { id: 'schedule', label: 'My Schedule', icon: Calendar },
           { id: 'rooms', label: 'Room Status', icon: MapPin },
           { id: 'patients', label: 'Assigned Patients', icon: Users },
+          { id: 'devices', label: 'IoT Devices', icon: Monitor },
           { id: 'tasks', label: 'Tasks', icon: ClipboardList }
         ];
-      case 'doctor':
-        return [
-          ...baseItems,
-          { id: 'patients', label: 'My Patients', icon: Stethoscope },
-          { id: 'alerts', label: 'Health Alerts', icon: Heart },
-          { id: 'monitoring', label: 'Real-time Monitoring', icon: Activity },
-          { id: 'analytics', label: 'Patient Analytics', icon: ClipboardList },
-          { id: 'assistant', label: 'Smart Assistant', icon: MessageCircle }
-        ];
-      case 'staff':
-        return [
-          ...baseItems,
-          { id: 'schedule', label: 'My Schedule', icon: Calendar },
-          { id: 'rooms', label: 'Room Status', icon: MapPin },
-          { id: 'patients', label: 'Assigned Patients', icon: Users },
-          { id: 'tasks', label: 'Tasks', icon: ClipboardList },
-          { id: 'assistant', label: 'Smart Assistant', icon: MessageCircle }
-        ];
       default:
         return baseItems;
     }
   };
 
-  const menuItems = getMenuItems();
+  // Hidden from users without the permission of the screen, see utils/routes.ts
+  const menuItems = getMenuItems().filter(item => {
+    const permission = userRole && findViewRoute(userRole, item.id)?.permission;
+    return !permission || permissions.has(permission);
+  });
 
   return (
     <div className="bg-white shadow-lg h-full w-64 flex flex-col">
       {/* Header */}
       <div className="p-6 border-b border-gray-200">
         <div className="flex items-center space-x-3">
-          <div className="h-10 w-10 bg-blue-600 rounded-lg flex items-center justify-center">
+          {/* Themed per facility, so it is clear at a glance which site the screens belong to */}
+          <div
+            className="h-10 w-10 bg-blue-600 rounded-lg flex items-center justify-center"
+            style={facility ? { backgroundColor: facility.accent_color } : undefined}
+          >
             <Building2 className="h-6 w-6 text-white" />
           </div>
           <div>
-            <h2 className="text-lg font-semibold text-gray-900">Smart Hospital</h2>
+            <h2 className="text-lg font-semibold text-gray-900">{facility?.short_name ?? 'Smart Hospital'}</h2>
             <p className="text-sm text-gray-500">Digital Twin</p>
           </div>
         </div>
@@ -122,8 +132,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, userRole }
             <button
               key={item.id}
               onClick={() => {
-                console.log('Sidebar: Setting activeView to:', item.id);
-                setActiveView(item.id);
+                if (userRole) navigate(viewPath(userRole, item.id));
               }}
               className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors duration-200 ${
                 activeView === item.id
@@ -1,23 +1,46 @@
-import React from 'react';
-import { useHospitalData } from '../../../contexts/HospitalDataContext';
+import React, { useState } from 'react';
+import { describeApiError } from '../../../api/errors';
+import { sumFacilitySummaries } from '../../../api/facility';
+import { useFacilities, useFacilitySummaries } from '../../../api/hooks/useFacilities';
+import { usePermission } from '../../../hooks/usePermission';
+import { HospitalState, useHospitalStore } from '../../../store/hospitalStore';
+import { selectActiveAlerts, selectCriticalPatients } from '../../../store/hospitalSelectors';
 import { isDeviceOnline } from '../../../utils/deviceUtils';
 import { Heart, AlertTriangle, Users, Monitor } from 'lucide-react';
 
+// Only the counts are selected, so a device refresh that changes no totals does not re-render the cards
+const selectPatientCount = (state: HospitalState) => Object.keys(state.entities.patients).length;
+const selectCriticalCount = (state: HospitalState) => selectCriticalPatients(state).length;
+const selectOnlineDeviceCount = (state: HospitalState) =>
+  Object.values(state.entities.devices).filter(d => isDeviceOnline(d)).length;
+const selectActiveAlertCount = (state: HospitalState) => selectActiveAlerts(state).length;
+
 const OverviewCards: React.FC = () => {
-  const { patients, staff, iotDevices, getCriticalPatients, getActiveAlerts } = useHospitalData();
+  const patientCount = useHospitalStore(selectPatientCount);
+  const criticalCount = useHospitalStore(selectCriticalCount);
+  const onlineDeviceCount = useHospitalStore(selectOnlineDeviceCount);
+  const activeAlertCount = useHospitalStore(selectActiveAlertCount);
+
+  // Admins of several sites can switch the cards to the totals of the whole group
+  const canCompare = usePermission('facility.compare');
+  const { facilities, current } = useFacilities();
+  const canShowGroup = canCompare && facilities.length > 1;
+  const [showGroup, setShowGroup] = useState(false);
+  const group = useFacilitySummaries(canShowGroup && showGroup);
+  const totals = canShowGroup && showGroup && group.loaded ? sumFacilitySummaries(group.summaries) : null;
 
   const cards = [
     {
       title: 'Total Patients',
-      value: Object.keys(patients).length,
-      change: 'Real-time data',
+      value: totals ? totals.patients : patientCount,
+      change: totals ? `Across ${group.summaries.length} facilities` : 'Real-time data',
       changeType: 'neutral',
       icon: Users,
       color: 'blue'
     },
     {
       title: 'Critical Cases',
-      value: getCriticalPatients().length,
+      value: totals ? totals.critical_patients : criticalCount,
       change: 'Live monitoring',
       changeType: 'neutral',
       icon: Heart,
@@ -25,7 +48,7 @@ const OverviewCards: React.FC = () => {
     },
     {
       title: 'Active Devices',
-      value: Object.values(iotDevices).filter(d => isDeviceOnline(d)).length,
+      value: totals ? totals.devices_online : onlineDeviceCount,
       change: 'Connected',
       changeType: 'positive',
       icon: Monitor,
@@ -33,7 +56,7 @@ const OverviewCards: React.FC = () => {
     },
     {
       title: 'Active Alerts',
-      value: getActiveAlerts().length,
+      value: totals ? totals.active_alerts : activeAlertCount,
       change: 'Real-time alerts',
       changeType: 'neutral',
       icon: AlertTriangle,
@@ -59,7 +82,7 @@ const OverviewCards: React.FC = () => {
     }
   };
 
-  return (
+  const grid = (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
       {cards.map((card, index) => {
         const Icon = card.icon;
@@ -84,6 +107,35 @@ const OverviewCards: React.FC = () => {
       })}
     </div>
   );
+
+  if (!canShowGroup) return grid;
+
+  const scopeButton = (wholeGroup: boolean, label: string) => (
+    <button
+      onClick={() => setShowGroup(wholeGroup)}
+      aria-pressed={showGroup === wholeGroup}
+      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors duration-200 ${
+        showGroup === wholeGroup ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <div className="inline-flex bg-gray-100 rounded-lg p-1">
+          {scopeButton(false, current?.short_name ?? 'This facility')}
+          {scopeButton(true, 'All facilities')}
+        </div>
+      </div>
+      {group.error && showGroup && (
+        <p className="text-sm text-red-600">{describeApiError(group.error)}</p>
+      )}
+      {grid}
+    </div>
+  );
 };
 
 export default OverviewCards;
\ No newline at end of file
@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Mic, MicOff, Send, Loader, Volume2, VolumeX, Settings } from 'lucide-react';
 import { processChatQuery } from '../../../../services/queryService';
+import { useVitalThresholds } from '../../../../api/hooks/useVitalThresholds';
 import { ttsService, initializeGoogleTTS, setVoicePreferences } from '../../../../services/textToSpeechService';
+import { useEntities } from '../../../../store/hospitalSelectors';
+import { usePrivacyMode } from '../../../../hooks/usePrivacyMode';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
+import { maskNames } from '../../../../utils/privacy';
 
 // TypeScript declarations for Speech Recognition API
 declare global {
@@ -24,6 +29,10 @@ const SmartQueryChat: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  // Loads the vital sign thresholds that the answers about vitals are checked against
+  useVitalThresholds();
+  // Answers leave out the patients the user may not open
+  const { patients: accessiblePatients } = useAccessiblePatients();
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   const [googleAPIKey, setGoogleAPIKey] = useState('');
@@ -96,6 +105,15 @@ const SmartQueryChat: React.FC = () => {
     });
   }, [googleAPIKey, useGoogleTTS, voiceRate, voicePitch]);
 
+  // Privacy mode reads initials instead of patient names; the chat itself still shows them
+  const patients = useEntities('patients');
+  const { masked: voiceMasked } = usePrivacyMode('voice-assistant');
+  useEffect(() => {
+    const names = Object.values(patients).map(patient => patient.personalInfo.name);
+    ttsService.setRedaction(voiceMasked ? text => maskNames(text, names) : null);
+    return () => ttsService.setRedaction(null);
+  }, [patients, voiceMasked]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -157,7 +175,7 @@ const SmartQueryChat: React.FC = () => {
     setIsProcessing(true);
     
     try {
-      const response = await processChatQuery(input.trim());
+      const response = await processChatQuery(input.trim(), patientId => patientId in accessiblePatients);
       
       const assistantMessage = {
         text: response.message,
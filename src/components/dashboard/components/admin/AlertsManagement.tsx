@@ -1,13 +1,22 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { AlertTriangle, CheckCircle, Clock, Filter, User, RefreshCw } from 'lucide-react';
-import { IoTDevice } from '../../../../api/types';
+import { AlertEscalationStep, IoTDevice } from '../../../../api/types';
+import { acknowledgeAlert } from '../../../../api/escalation';
+import { EscalationBadge, EscalationHistory } from '../../../ui/AlertEscalation';
+import { ActiveSnoozes, SnoozeButton } from '../../../ui/AlertSnooze';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { API_BASE_URL } from '../../../../api/config';
+import Can from '../../../auth/Can';
+import Api from '../../../../api/api';
+import { query, subscribeToQuery } from '../../../../api/queryCache';
+import { ENDPOINTS } from '../../../../api/config';
+import { optimisticChange, optimisticMutation, patchRecord } from '../../../../api/optimistic';
+import { compareTimestampsDesc, formatTimestamp } from '../../../../utils/dateUtils';
 
 interface AlertWithDevice {
   id: string;
   deviceId: string;
   roomId: string;
+  patientId?: string;
   deviceType: IoTDevice['deviceInfo']['type'];
   type: 'critical' | 'warning' | 'info'; // Changed from severity to type to match backend
   message: string;
@@ -16,52 +25,13 @@ interface AlertWithDevice {
   resolvedBy?: string;
   resolvedAt?: string;
   assignedTo?: string;
+  acknowledged?: boolean;
+  acknowledgedBy?: string;
+  escalationDueAt?: string;
+  escalationHistory?: AlertEscalationStep[];
+  suppressedBy?: string;
 }
 
-const formatTimestamp = (timestamp: string | undefined | null): string => {
-  if (!timestamp) return 'No data available';
-  
-  try {
-    let date: Date;
-    
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      const [datePart, timePart] = timestamp.split('_');
-      const [year, month, day] = datePart.split('-');
-      const [hour, minute, second] = timePart.split('-');
-      date = new Date(
-        parseInt(year), 
-        parseInt(month) - 1,
-        parseInt(day), 
-        parseInt(hour), 
-        parseInt(minute), 
-        parseInt(second || '0')
-      );
-    } else {
-      date = new Date(timestamp);
-    }
-    
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date created from timestamp:', timestamp);
-      return 'Invalid date';
-    }
-    
-    const result = date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-    
-    return result;
-  } catch (error) {
-    console.error('Error formatting timestamp:', timestamp, error);
-    return 'Invalid date format';
-  }
-};
-
 // Helper function to format device ID
 const formatDeviceId = (deviceId: string): string => {
   return deviceId
@@ -85,6 +55,42 @@ const formatId = (id: string): string => {
     .replace(/\b\w/g, (char) => char.toUpperCase()); // Capitalize first letter of each word
 };
 
+// Flatten the device alerts of an IoT devices response into one list
+const toAlertsWithDevice = (data: unknown, assignee?: string): AlertWithDevice[] => {
+  const transformedAlerts: AlertWithDevice[] = [];
+  if (!data || typeof data !== 'object') return transformedAlerts;
+
+  // data is an object with device IDs as keys
+  Object.entries(data).forEach(([deviceId, deviceData]: [string, any]) => {
+    if (deviceData && deviceData.alerts && typeof deviceData.alerts === 'object') {
+      // alerts is an object with alert IDs as keys
+      Object.entries(deviceData.alerts).forEach(([alertId, alertData]: [string, any]) => {
+        const deviceInfo = deviceData.deviceInfo || {};
+        transformedAlerts.push({
+          id: `${deviceId}_${alertId}`,
+          deviceId: deviceId,
+          roomId: deviceInfo.roomId || deviceInfo.location?.room || 'Unknown',
+          patientId: deviceInfo.currentPatientId,
+          deviceType: deviceInfo.type || 'Unknown',
+          type: alertData.type as 'critical' | 'warning' | 'info', // Use 'type' instead of 'severity'
+          message: alertData.message || 'No message',
+          timestamp: alertData.timestamp || '',
+          resolved: alertData.resolved || false,
+          resolvedBy: alertData.resolvedBy,
+          resolvedAt: alertData.resolvedAt,
+          assignedTo: alertData.assignedTo || assignee,
+          acknowledged: alertData.acknowledged,
+          acknowledgedBy: alertData.acknowledgedBy,
+          escalationDueAt: alertData.escalationDueAt,
+          escalationHistory: alertData.escalationHistory,
+          suppressedBy: alertData.suppressedBy
+        });
+      });
+    }
+  });
+  return transformedAlerts;
+};
+
 const AlertsManagement: React.FC = () => {
   const { user } = useAuth();
   const [alerts, setAlerts] = useState<AlertWithDevice[]>([]);
@@ -100,46 +106,19 @@ const AlertsManagement: React.FC = () => {
       setError(null);
       console.log('🚨 AlertsManagement: Fetching alerts from API...');
       
-      const response = await fetch(`${API_BASE_URL}/iotData/`);
-      if (!response.ok) {
+      const response = await query(ENDPOINTS.iot.getAll);
+      if (response.error) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       
-      const data = await response.json();
+      const data = response.data;
       console.log('🚨 AlertsManagement: Received data:', data);
       
       if (!data || typeof data !== 'object') {
         console.warn('🚨 AlertsManagement: No devices data in response');
-        setAlerts([]);
-        return;
       }
 
-      // Transform device alerts into AlertWithDevice format
-      const transformedAlerts: AlertWithDevice[] = [];
-      
-      // data is an object with device IDs as keys
-      Object.entries(data).forEach(([deviceId, deviceData]: [string, any]) => {
-        if (deviceData && deviceData.alerts && typeof deviceData.alerts === 'object') {
-          // alerts is an object with alert IDs as keys
-          Object.entries(deviceData.alerts).forEach(([alertId, alertData]: [string, any]) => {
-            const deviceInfo = deviceData.deviceInfo || {};
-            transformedAlerts.push({
-              id: `${deviceId}_${alertId}`,
-              deviceId: deviceId,
-              roomId: deviceInfo.roomId || deviceInfo.location?.room || 'Unknown',
-              deviceType: deviceInfo.type || 'Unknown',
-              type: alertData.type as 'critical' | 'warning' | 'info', // Use 'type' instead of 'severity'
-              message: alertData.message || 'No message',
-              timestamp: alertData.timestamp || '',
-              resolved: alertData.resolved || false,
-              resolvedBy: alertData.resolvedBy,
-              resolvedAt: alertData.resolvedAt,
-              assignedTo: alertData.assignedTo || user?.name
-            });
-          });
-        }
-      });
-
+      const transformedAlerts = toAlertsWithDevice(data, user?.name);
       console.log('🚨 AlertsManagement: Transformed alerts:', transformedAlerts);
       setAlerts(transformedAlerts);
       
@@ -151,6 +130,11 @@ const AlertsManagement: React.FC = () => {
     }
   }, [user?.email]);
 
+  // Refetches and optimistic resolutions of the devices list reach this view too
+  useEffect(() => subscribeToQuery(ENDPOINTS.iot.getAll, data => {
+    setAlerts(toAlertsWithDevice(data, user?.name));
+  }), [user?.name]);
+
   useEffect(() => {
     fetchAlerts();
   }, [fetchAlerts]);
@@ -168,56 +152,7 @@ const AlertsManagement: React.FC = () => {
           return true;
       }
     })
-    .sort((a, b) => {
-      // Sort by timestamp in descending order (newest first)
-      const timestampA = a.timestamp;
-      const timestampB = b.timestamp;
-      
-      if (!timestampA || !timestampB) return 0;
-      
-      try {
-        let dateA: Date, dateB: Date;
-        
-        // Handle custom timestamp format (YYYY-MM-DD_HH-MM-SS)
-        if (typeof timestampA === 'string' && timestampA.includes('_')) {
-          const [datePart, timePart] = timestampA.split('_');
-          const [year, month, day] = datePart.split('-');
-          const [hour, minute, second] = timePart.split('-');
-          dateA = new Date(
-            parseInt(year), 
-            parseInt(month) - 1, 
-            parseInt(day), 
-            parseInt(hour), 
-            parseInt(minute), 
-            parseInt(second || '0')
-          );
-        } else {
-          dateA = new Date(timestampA);
-        }
-        
-        if (typeof timestampB === 'string' && timestampB.includes('_')) {
-          const [datePart, timePart] = timestampB.split('_');
-          const [year, month, day] = datePart.split('-');
-          const [hour, minute, second] = timePart.split('-');
-          dateB = new Date(
-            parseInt(year), 
-            parseInt(month) - 1, 
-            parseInt(day), 
-            parseInt(hour), 
-            parseInt(minute), 
-            parseInt(second || '0')
-          );
-        } else {
-          dateB = new Date(timestampB);
-        }
-        
-        // Return descending order (newest first)
-        return dateB.getTime() - dateA.getTime();
-      } catch (error) {
-        console.error('Error sorting alerts by timestamp:', error);
-        return 0;
-      }
-    });
+    .sort((a, b) => compareTimestampsDesc(a.timestamp, b.timestamp));
 
   const resolveAlert = async (alertId: string) => {
     try {
@@ -236,36 +171,42 @@ const AlertsManagement: React.FC = () => {
       
       console.log('🔄 Resolving alert:', { alertId, deviceId, backendAlertId });
       
-      const response = await fetch(`${API_BASE_URL}/iotData/${deviceId}/alerts/${encodeURIComponent(backendAlertId)}/resolve`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          resolvedBy: user?.name,
-          resolvedAt: new Date().toISOString()
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to resolve alert: ${response.status} - ${errorText}`);
-      }
+      const resolution = { resolvedBy: user?.name, resolvedAt: new Date().toISOString() };
 
-      // Update local state
-      setAlerts(prev => prev.map(alert => 
-        alert.id === alertId 
-          ? { ...alert, resolved: true, resolvedBy: user?.name, resolvedAt: new Date().toISOString() }
-          : alert
-      ));
+      // Shown as resolved right away; a rejected resolution is undone with a toast
+      const result = await optimisticMutation(
+        [optimisticChange(ENDPOINTS.iot.getAll, patchRecord<IoTDevice>(deviceId, device => ({
+          ...device,
+          alerts: {
+            ...device.alerts,
+            [backendAlertId]: { ...device.alerts?.[backendAlertId], resolved: true, ...resolution },
+          },
+        })))],
+        () => Api.post(ENDPOINTS.iot.resolveAlert(deviceId, backendAlertId), resolution, {
+          audit: {
+            action: 'resolve',
+            entity: { type: 'alert', id: alertId, name: alerts.find(alert => alert.id === alertId)?.message },
+            description: `Resolve alert on ${deviceId}`,
+            before: { resolved: false },
+            after: { resolved: true, ...resolution },
+          },
+        }),
+        'Alert was not resolved'
+      );
 
-      console.log('✅ Alert resolved successfully:', alertId);
+      if (result.success) {
+        console.log('✅ Alert resolved successfully:', alertId);
+      }
     } catch (error) {
       console.error('❌ Error resolving alert:', error);
       setError(error instanceof Error ? error.message : 'Failed to resolve alert');
     }
   };
 
+  // The combined ID is the device ID, an underscore and the backend's alert ID
+  const acknowledge = (alert: AlertWithDevice) =>
+    acknowledgeAlert(alert.deviceId, alert.id.slice(alert.deviceId.length + 1), user?.name, alert.message);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -360,6 +301,8 @@ const AlertsManagement: React.FC = () => {
         </div>
       </div>
 
+      <ActiveSnoozes />
+
       {/* Alerts List */}
       <div className="bg-white rounded-lg shadow-sm border">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -401,15 +344,32 @@ const AlertsManagement: React.FC = () => {
                           Resolved by {alert.resolvedBy} at {formatTimestamp(alert.resolvedAt)}
                         </span>
                       )}
+                      <EscalationBadge alert={alert} />
                     </div>
+                    <EscalationHistory history={alert.escalationHistory} />
                   </div>
+                  {!alert.resolved && !alert.suppressedBy && (
+                    <SnoozeButton deviceId={alert.deviceId} patientId={alert.patientId} />
+                  )}
+                  {!alert.resolved && !alert.acknowledged && (
+                    <Can permission="alert.acknowledge">
+                      <button
+                        onClick={() => acknowledge(alert)}
+                        className="ml-4 px-3 py-1 bg-orange-500 text-white text-xs rounded hover:bg-orange-600"
+                      >
+                        Acknowledge
+                      </button>
+                    </Can>
+                  )}
                   {!alert.resolved && (
-                    <button
-                      onClick={() => resolveAlert(alert.id)}
-                      className="ml-4 px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
-                    >
-                      Resolve
-                    </button>
+                    <Can permission="alert.resolve">
+                      <button
+                        onClick={() => resolveAlert(alert.id)}
+                        className="ml-4 px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
+                      >
+                        Resolve
+                      </button>
+                    </Can>
                   )}
                 </div>
               </div>
@@ -1,9 +1,16 @@
 import React, { useState, useMemo } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
+import { useEntities, useHospitalLoadState } from '../../../../store/hospitalSelectors';
 import { TrendingUp, TrendingDown, Activity, Clock, Heart, Thermometer, Droplets, User, ChevronDown, Calendar } from 'lucide-react';
+import ApiErrorState from '../../../ui/ApiErrorState';
+import FacilityComparison from './FacilityComparison';
 
 const Analytics: React.FC = () => {
-  const { patients, staff, iotDevices, loading, error, refreshAlertsOnly } = useHospitalData();
+  const patients = useEntities('patients');
+  const staff = useEntities('staff');
+  const iotDevices = useEntities('devices');
+  const { loading, error } = useHospitalLoadState();
+  const { refreshAlertsOnly } = useHospitalActions();
   const [selectedVital, setSelectedVital] = useState<'heartRate' | 'temperature' | 'oxygenLevel'>('heartRate');
   const [selectedPatient, setSelectedPatient] = useState<string>('');
   const [selectedTimePeriod, setSelectedTimePeriod] = useState<'hour' | 'week' | 'month' | 'year'>('hour');
@@ -312,17 +319,7 @@ const Analytics: React.FC = () => {
   }
 
   if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full">
-        <div className="text-lg text-red-600 mb-4">Error: {error}</div>
-        <button 
-          onClick={refreshAlertsOnly}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Retry
-        </button>
-      </div>
-    );
+    return <ApiErrorState error={error} onRetry={refreshAlertsOnly} />;
   }
 
   // Calculate room occupancy from IoT devices
@@ -453,6 +450,8 @@ const Analytics: React.FC = () => {
         })}
       </div>
 
+      <FacilityComparison />
+
       {/* Department Breakdown */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { Download, History, RefreshCw, Search } from 'lucide-react';
+import { AuditAction, AuditChange, AuditEntityType, AuditEntry, AuditFilters, auditEntriesToCsv } from '../../../../api/audit';
+import { useAuditLog } from '../../../../api/hooks/useAuditLog';
+import { describeApiError } from '../../../../api/errors';
+import { formatTimestamp, toDateInputValue } from '../../../../utils/dateUtils';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  patient: 'Patient',
+  staff: 'Staff',
+  room: 'Room',
+  bed: 'Bed',
+  device: 'Device',
+  alert: 'Alert',
+  suppression: 'Alert snooze',
+  user: 'User account',
+  ward: 'Ward',
+  setting: 'Setting',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  assign: 'Assigned',
+  unassign: 'Unassigned',
+  discharge: 'Discharged',
+  acknowledge: 'Acknowledged',
+  resolve: 'Resolved',
+  emergency_access: 'Emergency access',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  assign: 'bg-purple-100 text-purple-800',
+  unassign: 'bg-gray-100 text-gray-800',
+  discharge: 'bg-yellow-100 text-yellow-800',
+  acknowledge: 'bg-orange-100 text-orange-800',
+  resolve: 'bg-green-100 text-green-800',
+  emergency_access: 'bg-red-600 text-white',
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const download = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ChangeList: React.FC<{ changes: AuditChange[] }> = ({ changes }) => (
+  <ul className="space-y-1">
+    {changes.map(change => (
+      <li key={change.field} className="text-xs">
+        <span className="font-mono text-gray-700">{change.field}</span>
+        <span className="text-gray-500">: </span>
+        <span className="text-red-700 line-through">{formatValue(change.before)}</span>
+        <span className="text-gray-500"> → </span>
+        <span className="text-green-700">{formatValue(change.after)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+// Changes made through the dashboard, searchable and exportable for compliance reviews
+const AuditLog: React.FC = () => {
+  const [draft, setDraft] = useState<AuditFilters>({});
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { entries, pending, loading, error, refresh } = useAuditLog(filters);
+
+  const rows: Array<AuditEntry & { unsent?: boolean }> = [
+    ...pending.map(entry => ({ ...entry, unsent: true })),
+    ...entries,
+  ];
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const name = `audit-log-${toDateInputValue()}`;
+    if (format === 'csv') {
+      download(`${name}.csv`, auditEntriesToCsv(rows), 'text/csv');
+    } else {
+      download(`${name}.json`, JSON.stringify(rows, null, 2), 'application/json');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <History className="h-8 w-8 text-gray-700" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-sm text-gray-500">Who changed what, when and why</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={refresh}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={() => exportAs('csv')}
+            disabled={rows.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>CSV</span>
+          </button>
+          <button
+            onClick={() => exportAs('json')}
+            disabled={rows.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>JSON</span>
+          </button>
+        </div>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilters({ ...draft });
+        }}
+        className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-wrap items-end gap-3"
+      >
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="audit-search" className="block text-xs font-medium text-gray-500 mb-1">Search</label>
+          <input
+            id="audit-search"
+            type="search"
+            value={draft.search ?? ''}
+            onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+            placeholder="Person, record, description or reason"
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-entity" className="block text-xs font-medium text-gray-500 mb-1">Record type</label>
+          <select
+            id="audit-entity"
+            value={draft.entityType ?? ''}
+            onChange={(e) => setDraft({ ...draft, entityType: (e.target.value || undefined) as AuditEntityType | undefined })}
+            className={inputClass}
+          >
+            <option value="">All records</option>
+            {Object.entries(ENTITY_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-action" className="block text-xs font-medium text-gray-500 mb-1">Action</label>
+          <select
+            id="audit-action"
+            value={draft.action ?? ''}
+            onChange={(e) => setDraft({ ...draft, action: (e.target.value || undefined) as AuditAction | undefined })}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-from" className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            id="audit-from"
+            type="date"
+            value={draft.from ?? ''}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-to" className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            id="audit-to"
+            type="date"
+            value={draft.to ?? ''}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          className="flex items-center space-x-2 px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          <Search className="h-4 w-4" />
+          <span>Search</span>
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {describeApiError(error)}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+            <History className="h-10 w-10 text-gray-300 mb-3" />
+            <p>{loading ? 'Loading audit entries...' : 'No changes match these filters.'}</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fields</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(entry => {
+                const isExpanded = expanded === entry.id;
+                return (
+                  <tr key={entry.id} className="align-top hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                      <div>{formatTimestamp(entry.at)}</div>
+                      {entry.unsent && <div className="text-xs text-yellow-700">Not sent yet</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.actor?.name ?? 'Unknown'}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                        {ACTION_LABELS[entry.action]}
+                      </span>
+                      {entry.priority === 'high' && (
+                        <span className={`ml-1 inline-flex px-2 py-1 rounded-full text-xs font-medium ${
+                          entry.review ? 'bg-gray-100 text-gray-700' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {entry.review ? `Reviewed: ${entry.review.outcome}` : 'Awaiting review'}
+                        </span>
+                      )}
+                      <div className="mt-1 text-gray-900">{entry.description}</div>
+                      <div className="text-xs text-gray-500">
+                        {ENTITY_LABELS[entry.entity.type]}
+                        {entry.entity.id && <span className="font-mono"> {entry.entity.id}</span>}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {entry.changes.length === 0 ? (
+                        <span className="text-xs text-gray-400">—</span>
+                      ) : (
+                        <>
+                          <ChangeList changes={isExpanded ? entry.changes : entry.changes.slice(0, 3)} />
+                          {entry.changes.length > 3 && (
+                            <button
+                              onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                              className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              {isExpanded ? 'Show less' : `Show ${entry.changes.length - 3} more`}
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{entry.reason ?? ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
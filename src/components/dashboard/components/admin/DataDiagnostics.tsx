@@ -0,0 +1,149 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Bug, Trash2, CheckCircle, Wrench, XCircle } from 'lucide-react';
+import {
+  PayloadEntity,
+  clearPayloadIssues,
+  getPayloadIssues,
+  subscribeToPayloadIssues,
+} from '../../../../api/diagnostics';
+
+const ENTITY_LABELS: Record<PayloadEntity, string> = {
+  patient: 'Patient',
+  staff: 'Staff',
+  device: 'Device',
+  vitals: 'Vitals',
+  alert: 'Alert',
+  room: 'Room',
+  bed: 'Bed',
+};
+
+const DataDiagnostics: React.FC = () => {
+  const issues = useSyncExternalStore(subscribeToPayloadIssues, getPayloadIssues);
+  const [entityFilter, setEntityFilter] = useState<PayloadEntity | 'all'>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filteredIssues = entityFilter === 'all'
+    ? issues
+    : issues.filter(issue => issue.entity === entityFilter);
+  const droppedCount = issues.filter(issue => issue.action === 'dropped').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Bug className="h-8 w-8 text-gray-700" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Data Diagnostics</h1>
+            <p className="text-sm text-gray-500">
+              Backend records that failed validation since this page was loaded
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value as PayloadEntity | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All records</option>
+            {Object.entries(ENTITY_LABELS).map(([entity, label]) => (
+              <option key={entity} value={entity}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={clearPayloadIssues}
+            disabled={issues.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Clear</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <p className="text-sm text-gray-500">Affected records</p>
+          <p className="text-2xl font-semibold text-gray-900">{issues.length}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <p className="text-sm text-gray-500">Repaired</p>
+          <p className="text-2xl font-semibold text-yellow-600">{issues.length - droppedCount}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <p className="text-sm text-gray-500">Dropped</p>
+          <p className="text-2xl font-semibold text-red-600">{droppedCount}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {filteredIssues.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+            <CheckCircle className="h-10 w-10 text-green-500 mb-3" />
+            <p>All received records matched their schema.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Endpoint</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Problems</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last seen</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredIssues.map(issue => {
+                const isExpanded = expanded === issue.key;
+                return (
+                  <tr key={issue.key} className="align-top hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{ENTITY_LABELS[issue.entity]}</div>
+                      <div className="text-gray-500 font-mono text-xs">{issue.recordId || 'whole response'}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 font-mono">{issue.endpoint}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {issue.action === 'dropped' ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          <XCircle className="h-3 w-3 mr-1" />
+                          Dropped
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          <Wrench className="h-3 w-3 mr-1" />
+                          Repaired
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <ul className="space-y-1">
+                        {(isExpanded ? issue.problems : issue.problems.slice(0, 3)).map(problem => (
+                          <li key={problem} className="font-mono text-xs">{problem}</li>
+                        ))}
+                      </ul>
+                      {issue.problems.length > 3 && (
+                        <button
+                          onClick={() => setExpanded(isExpanded ? null : issue.key)}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {isExpanded ? 'Show less' : `Show ${issue.problems.length - 3} more`}
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                      <div>{issue.lastSeen.toLocaleTimeString()}</div>
+                      {issue.count > 1 && <div className="text-xs">seen {issue.count} times</div>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataDiagnostics;
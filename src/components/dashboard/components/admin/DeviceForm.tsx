@@ -1,8 +1,11 @@
 import React, { useState, useCallback } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
 import { X } from 'lucide-react';
 import { IoTDevice } from '../../../../api/types';
-import { API_BASE_URL } from '../../../../api/config';
+import Api from '../../../../api/api';
+import { ENDPOINTS } from '../../../../api/config';
+import { describeApiError, forbiddenError } from '../../../../api/errors';
+import { usePermission } from '../../../../hooks/usePermission';
 
 interface DeviceFormProps {
   onClose: () => void;
@@ -20,7 +23,8 @@ interface NewDeviceForm {
 }
 
 const DeviceForm: React.FC<DeviceFormProps> = ({ onClose }) => {
-  const { refreshData } = useHospitalData();
+  const { refreshData } = useHospitalActions();
+  const canCreate = usePermission('device.manage');
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [newDevice, setNewDevice] = useState<NewDeviceForm>({
@@ -93,7 +97,12 @@ const DeviceForm: React.FC<DeviceFormProps> = ({ onClose }) => {
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    if (!canCreate) {
+      setError(describeApiError(forbiddenError()));
+      return;
+    }
+
     if (!validateForm()) {
       return;
     }
@@ -117,17 +126,16 @@ const DeviceForm: React.FC<DeviceFormProps> = ({ onClose }) => {
         alerts: {}
       };
 
-      const response = await fetch(`${API_BASE_URL}/iotData`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+      const response = await Api.post(ENDPOINTS.iot.getAll, deviceData, {
+        audit: {
+          action: 'create',
+          entity: { type: 'device' },
+          description: `Add ${newDevice.type.replace('_', ' ')} to room ${deviceData.deviceInfo.roomId}`,
         },
-        body: JSON.stringify(deviceData)
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `Failed to create device: ${response.status}`);
+      if (response.error) {
+        throw new Error(`Failed to create device: ${response.error.message}`);
       }
 
       // Success - refresh data and close form
@@ -139,7 +147,7 @@ const DeviceForm: React.FC<DeviceFormProps> = ({ onClose }) => {
     } finally {
       setSubmitting(false);
     }
-  }, [newDevice, refreshData, onClose]);
+  }, [canCreate, newDevice, refreshData, onClose]);
 
   const handleCancel = () => {
     onClose();
@@ -315,7 +323,7 @@ const DeviceForm: React.FC<DeviceFormProps> = ({ onClose }) => {
             </button>
             <button
               type="submit"
-              disabled={submitting}
+              disabled={submitting || !canCreate}
               className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 ${
                 submitting ? 'opacity-50 cursor-not-allowed' : ''
               }`}
@@ -1,64 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
+import { useEntities, useHospitalLoadState } from '../../../../store/hospitalSelectors';
 import { Plus, Search, Edit, Wifi, WifiOff, Battery, AlertTriangle, Thermometer, Droplets, Wind, User, UserCheck, UserX, InfoIcon, Volume2, CloudRain, Sun } from 'lucide-react';
 import { getLatestVitals, isVitalReading, isEnvironmentalReading } from '../../../../utils/deviceUtils';
 import { assignPatientToMonitor, unassignPatientFromMonitor, getAvailablePatientsForMonitor } from '../../../../api/patientMonitorAssignment';
-import { API_BASE_URL } from '../../../../api/config';
+import { query } from '../../../../api/queryCache';
+import { ENDPOINTS } from '../../../../api/config';
 import DeviceForm from './DeviceForm';
+import ApiErrorState from '../../../ui/ApiErrorState';
+import Can from '../../../auth/Can';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+import { useSearchParam } from '../../../../store/locationStore';
+import { EnvironmentalReading, VitalReading } from '../../../../api/types';
+
+// Latest readings of a device, which some backends nest under `data` or `readings`
+type LatestMonitorVitals = Partial<VitalReading> & { data?: Partial<VitalReading> };
+type LatestSensorVitals = Partial<EnvironmentalReading> & {
+  data?: Partial<EnvironmentalReading>;
+  readings?: Partial<EnvironmentalReading>;
+};
 
 
-const formatTimestamp = (timestamp: string | undefined | null): string => {
-  if (!timestamp) return 'No data available';
-  
-  try {
-    // Debug: log the timestamp being processed
-    console.log('Formatting timestamp:', timestamp);
-    
-    // Handle different timestamp formats
-    let date: Date;
-    
-    // If timestamp contains underscore (backend format: YYYY-MM-DD_HH-MM-SS)
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      const [datePart, timePart] = timestamp.split('_');
-      const [year, month, day] = datePart.split('-');
-      const [hour, minute, second] = timePart.split('-');
-      date = new Date(
-        parseInt(year), 
-        parseInt(month) - 1, // Month is 0-indexed in JavaScript
-        parseInt(day), 
-        parseInt(hour), 
-        parseInt(minute), 
-        parseInt(second || '0') // Handle cases where seconds might be missing
-      );
-    } else {
-      // Standard ISO format or other formats
-      date = new Date(timestamp);
-    }
-    
-    // Check if date is valid
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date created from timestamp:', timestamp);
-      return 'Invalid date';
-    }
-    
-    // Return formatted date with more readable format
-    const result = date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-    
-    console.log('Formatted result:', result);
-    return result;
-  } catch (error) {
-    console.error('Error formatting timestamp:', timestamp, error);
-    return 'Invalid date format';
-  }
-};
 
 // Utility function to format IDs (remove underscores, capitalize first letter)
 const formatId = (id: string): string => {
@@ -95,8 +57,11 @@ const getPatientName = (patientId: string, patients: Record<string, any>): strin
 };
 
 const DeviceManagement: React.FC = () => {
-  const { iotDevices, patients, loading, error, refreshData } = useHospitalData();
-  const [searchTerm, setSearchTerm] = useState('');
+  const iotDevices = useEntities('devices');
+  const patients = useEntities('patients');
+  const { loading, error } = useHospitalLoadState();
+  const { refreshData } = useHospitalActions();
+  const [searchTerm, setSearchTerm] = useSearchParam('q');
   const [showAddForm, setShowAddForm] = useState(false);
   const [assigningPatient, setAssigningPatient] = useState<string | null>(null);
   const [availablePatients, setAvailablePatients] = useState<any[]>([]);
@@ -108,15 +73,15 @@ const DeviceManagement: React.FC = () => {
   const fetchVitalMonitorVitals = async (monitorId: string) => {
     try {
       console.log(`Fetching vital monitor vitals for monitor: ${monitorId}`);
-      const response = await fetch(`${API_BASE_URL}/iotData/${monitorId}/vitals/latest`);
+      const response = await query<LatestMonitorVitals>(ENDPOINTS.iot.latestVitals(monitorId));
       console.log(`Response status for ${monitorId}:`, response.status);
       
-      if (response.ok) {
-        const data = await response.json();
+      if (!response.error) {
+        const data = response.data;
         console.log(`Vital monitor vitals data for ${monitorId}:`, data);
         
         // Extract the actual readings from the nested structure
-        if (data.data) {
+        if (data?.data) {
           // The backend returns {timestamp, data, patientId}
           const vitals = {
             ...data.data,
@@ -133,7 +98,7 @@ const DeviceManagement: React.FC = () => {
           return data || null;
         }
       } else {
-        console.warn(`Failed to fetch vitals for ${monitorId}:`, response.status, response.statusText);
+        console.warn(`Failed to fetch vitals for ${monitorId}:`, response.status, response.error);
       }
       return null;
     } catch (error) {
@@ -146,15 +111,15 @@ const DeviceManagement: React.FC = () => {
   const fetchEnvironmentalSensorVitals = async (sensorId: string) => {
     try {
       console.log(`Fetching environmental vitals for sensor: ${sensorId}`);
-      const response = await fetch(`${API_BASE_URL}/iotData/env-sensors/${sensorId}/vitals/latest`);
+      const response = await query<LatestSensorVitals>(ENDPOINTS.iot.envSensorLatestVitals(sensorId));
       console.log(`Response status for ${sensorId}:`, response.status);
       
-      if (response.ok) {
-        const data = await response.json();
+      if (!response.error) {
+        const data = response.data;
         console.log(`Environmental vitals data for ${sensorId}:`, data);
         
         // Extract the actual readings from the nested structure
-        if (data.readings) {
+        if (data?.readings) {
           // Merge the top-level info with the readings
           const vitals = {
             ...data.readings,
@@ -167,10 +132,10 @@ const DeviceManagement: React.FC = () => {
           return vitals;
         } else {
           // Fallback to the original data structure
-          return data.data || data || null;
+          return data?.data || data || null;
         }
       } else {
-        console.warn(`Failed to fetch vitals for ${sensorId}:`, response.status, response.statusText);
+        console.warn(`Failed to fetch vitals for ${sensorId}:`, response.status, response.error);
       }
       return null;
     } catch (error) {
@@ -270,17 +235,7 @@ const DeviceManagement: React.FC = () => {
   }
 
   if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full">
-        <div className="text-lg text-red-600 mb-4">Error: {error}</div>
-        <button 
-          onClick={refreshData}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Retry
-        </button>
-      </div>
-    );
+    return <ApiErrorState error={error} onRetry={refreshData} />;
   }
 
   // Calculate device stats
@@ -455,13 +410,15 @@ const DeviceManagement: React.FC = () => {
         <h1 className="text-2xl font-bold text-gray-900">IoT Device Management</h1>
         <div className="flex space-x-3">
           
-          <button 
-            onClick={() => setShowAddForm(true)}
-            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
-          >
-            <Plus className="h-5 w-5" />
-            <span>Add Device</span>
-          </button>
+          <Can permission="device.manage">
+            <button 
+              onClick={() => setShowAddForm(true)}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+            >
+              <Plus className="h-5 w-5" />
+              <span>Add Device</span>
+            </button>
+          </Can>
         </div>
       </div>
 
@@ -617,13 +574,15 @@ const DeviceManagement: React.FC = () => {
                               {getPatientName(currentPatientId, patients)}
                             </span>
                           </div>
-                          <button
-                            onClick={() => handleUnassignPatient(id)}
-                            disabled={assigningPatient === id}
-                            className="text-red-600 hover:text-red-800 text-xs px-3 py-1 bg-white border border-red-200 rounded-md hover:bg-red-50 transition-colors"
-                          >
-                            {assigningPatient === id ? 'Detaching...' : 'Detach'}
-                          </button>
+                          <Can permission="device.assign">
+                            <button
+                              onClick={() => handleUnassignPatient(id)}
+                              disabled={assigningPatient === id}
+                              className="text-red-600 hover:text-red-800 text-xs px-3 py-1 bg-white border border-red-200 rounded-md hover:bg-red-50 transition-colors"
+                            >
+                              {assigningPatient === id ? 'Detaching...' : 'Detach'}
+                            </button>
+                          </Can>
                         </div>
                       </div>
                     ) : (
@@ -633,13 +592,15 @@ const DeviceManagement: React.FC = () => {
                             <UserX className="h-4 w-4 text-gray-400" />
                             <span className="text-sm text-gray-600">No patient assigned</span>
                           </div>
-                          <button
-                            onClick={() => showPatientAssignmentModal(id)}
-                            disabled={assigningPatient === id}
-                            className="text-blue-600 hover:text-blue-800 text-xs px-3 py-1 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors"
-                          >
-                            {assigningPatient === id ? 'Assigning...' : 'Assign'}
-                          </button>
+                          <Can permission="device.assign">
+                            <button
+                              onClick={() => showPatientAssignmentModal(id)}
+                              disabled={assigningPatient === id}
+                              className="text-blue-600 hover:text-blue-800 text-xs px-3 py-1 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors"
+                            >
+                              {assigningPatient === id ? 'Assigning...' : 'Assign'}
+                            </button>
+                          </Can>
                         </div>
                       </div>
                     )}
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CheckCircle, RefreshCw, ShieldAlert, XCircle } from 'lucide-react';
+import { AuditEntry, AuditFilters, AuditReviewOutcome, reviewAuditEntry } from '../../../../api/audit';
+import { useAuditLog } from '../../../../api/hooks/useAuditLog';
+import { describeApiError } from '../../../../api/errors';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+
+// Kept outside the component so useAuditLog sees the same filters on every render
+const AWAITING_REVIEW: AuditFilters = { priority: 'high', unreviewed: true };
+const ALL_HIGH_PRIORITY: AuditFilters = { priority: 'high' };
+
+const ReviewCard: React.FC<{ entry: AuditEntry & { unsent?: boolean } }> = ({ entry }) => {
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = async (outcome: AuditReviewOutcome) => {
+    setSaving(true);
+    setError(null);
+    const response = await reviewAuditEntry(entry.id, outcome, note);
+    if (response.error) setError(describeApiError(response.error));
+    setSaving(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{entry.actor?.name ?? 'Unknown'}</p>
+          <p className="text-sm text-gray-700">{entry.description}</p>
+          <p className="text-xs text-gray-500">
+            {formatTimestamp(entry.at)}
+            {entry.unsent && <span className="text-yellow-700"> · Not sent yet</span>}
+          </p>
+        </div>
+        {entry.review && (
+          <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
+            entry.review.outcome === 'appropriate' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {entry.review.outcome === 'appropriate' ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+            <span>{entry.review.outcome === 'appropriate' ? 'Appropriate' : 'Inappropriate'}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="mt-3 bg-gray-50 rounded-md p-3">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Justification</p>
+        <p className="text-sm text-gray-900">{entry.reason ?? '—'}</p>
+      </div>
+
+      {entry.review ? (
+        <p className="mt-3 text-xs text-gray-500">
+          Reviewed by {entry.review.by?.name ?? 'Unknown'} on {formatTimestamp(entry.review.at)}
+          {entry.review.note && <span className="block text-sm text-gray-700 mt-1">{entry.review.note}</span>}
+        </p>
+      ) : !entry.unsent && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note (optional)"
+            aria-label="Review note"
+            className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => review('appropriate')}
+            disabled={saving}
+            className="px-3 py-2 text-sm text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            Appropriate
+          </button>
+          <button
+            onClick={() => review('inappropriate')}
+            disabled={saving}
+            className="px-3 py-2 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+          >
+            Inappropriate
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+// Queue of high-priority audit entries, such as emergency access, for admins to review one by one
+const EmergencyAccessReview: React.FC = () => {
+  const [showReviewed, setShowReviewed] = useState(false);
+  const { entries, pending, loading, error, refresh } = useAuditLog(showReviewed ? ALL_HIGH_PRIORITY : AWAITING_REVIEW);
+
+  const rows: Array<AuditEntry & { unsent?: boolean }> = [
+    ...pending.map(entry => ({ ...entry, unsent: true })),
+    ...entries,
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ShieldAlert className="h-8 w-8 text-red-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Emergency Access Review</h1>
+            <p className="text-sm text-gray-500">Records opened outside a clinician's own assignments</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showReviewed} onChange={(e) => setShowReviewed(e.target.checked)} />
+            <span>Show reviewed</span>
+          </label>
+          <button
+            onClick={refresh}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {describeApiError(error)}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex flex-col items-center justify-center py-12 text-gray-500">
+          <CheckCircle className="h-10 w-10 text-gray-300 mb-3" />
+          <p>{loading ? 'Loading...' : 'Nothing waiting for review.'}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rows.map(entry => <ReviewCard key={entry.id} entry={entry} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyAccessReview;
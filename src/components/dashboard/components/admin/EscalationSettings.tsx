@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { BellRing, Trash2 } from 'lucide-react';
+import { describeApiError } from '../../../../api/errors';
+import {
+  ALERT_SEVERITIES,
+  AlertSeverity,
+  EscalationPolicy,
+  EscalationRule,
+  updateEscalationPolicy,
+} from '../../../../api/escalation';
+import { useEscalationPolicy } from '../../../../api/hooks/useEscalationPolicy';
+import { useFacilities } from '../../../../api/hooks/useFacilities';
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Info',
+};
+
+const MINUTE_OPTIONS = [1, 2, 5, 10, 15, 30, 60];
+
+// Select value of a rule: minutes, 'never', or '' for a ward that follows the severity's rule
+const ruleValue = (rule: EscalationRule | undefined) =>
+  rule === undefined ? '' : rule.acknowledge_minutes === null ? 'never' : String(rule.acknowledge_minutes);
+
+const toRule = (value: string): EscalationRule | undefined =>
+  value === '' ? undefined : { acknowledge_minutes: value === 'never' ? null : Number(value) };
+
+const RuleSelect: React.FC<{
+  label: string;
+  rule: EscalationRule | undefined;
+  disabled: boolean;
+  // Offered on ward rows only
+  inheritLabel?: string;
+  onChange: (rule: EscalationRule | undefined) => void;
+}> = ({ label, rule, disabled, inheritLabel, onChange }) => {
+  const minutes = [...new Set([...MINUTE_OPTIONS, ...(rule?.acknowledge_minutes ? [rule.acknowledge_minutes] : [])])]
+    .sort((a, b) => a - b);
+  return (
+    <select
+      aria-label={label}
+      value={ruleValue(rule)}
+      disabled={disabled}
+      onChange={(e) => onChange(toRule(e.target.value))}
+      className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      {inheritLabel && <option value="">{inheritLabel}</option>}
+      {minutes.map(value => (
+        <option key={value} value={value}>{value} min</option>
+      ))}
+      <option value="never">Never escalate</option>
+    </select>
+  );
+};
+
+// Minutes to acknowledge an alert before it goes to the charge nurse and then the on-call doctor,
+// per severity with optional rules per ward; saved as soon as something changes
+export const EscalationSettings: React.FC = () => {
+  const { policy, loaded, error: loadError } = useEscalationPolicy();
+  const { current } = useFacilities();
+  const [newWard, setNewWard] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: EscalationPolicy) => {
+    setSaving(true);
+    setError(null);
+    const response = await updateEscalationPolicy(next, policy);
+    if (response.error) setError(describeApiError(response.error));
+    setSaving(false);
+  };
+
+  const message = error ?? (loadError ? `${describeApiError(loadError)} The default escalation rules apply.` : null);
+  const disabled = !loaded || saving;
+
+  const setWardRule = (ward: string, severity: AlertSeverity, rule: EscalationRule | undefined) => {
+    const others = Object.fromEntries(Object.entries(policy.wards[ward] ?? {}).filter(([key]) => key !== severity));
+    save({ ...policy, wards: { ...policy.wards, [ward]: rule ? { ...others, [severity]: rule } : others } });
+  };
+
+  const removeWard = (ward: string) => {
+    save({ ...policy, wards: Object.fromEntries(Object.entries(policy.wards).filter(([key]) => key !== ward)) });
+  };
+
+  const addWard = () => {
+    if (!newWard) return;
+    save({ ...policy, wards: { ...policy.wards, [newWard]: {} } });
+    setNewWard('');
+  };
+
+  const wardsWithRules = Object.keys(policy.wards).sort();
+  const otherWards = (current?.wards ?? []).filter(ward => !policy.wards[ward]);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center space-x-3 mb-1">
+        <BellRing className="h-6 w-6 text-red-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Alert Escalation</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        An alert nobody acknowledged within these minutes goes to the charge nurse of the ward, and after as many
+        minutes again to the on-call doctor.
+      </p>
+      <table className="text-sm">
+        <thead>
+          <tr>
+            <th className="pr-6 pb-2 text-left font-medium text-gray-700">Ward</th>
+            {ALERT_SEVERITIES.map(severity => (
+              <th key={severity} className="px-3 pb-2 text-left font-medium text-gray-700">{SEVERITY_LABELS[severity]}</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td className="pr-6 py-1 text-gray-700">All wards</td>
+            {ALERT_SEVERITIES.map(severity => (
+              <td key={severity} className="px-3 py-1">
+                <RuleSelect
+                  label={`${SEVERITY_LABELS[severity]} alerts in all wards`}
+                  rule={policy.severities[severity]}
+                  disabled={disabled}
+                  onChange={rule => rule && save({ ...policy, severities: { ...policy.severities, [severity]: rule } })}
+                />
+              </td>
+            ))}
+            <td />
+          </tr>
+          {wardsWithRules.map(ward => (
+            <tr key={ward}>
+              <td className="pr-6 py-1 text-gray-700">{ward}</td>
+              {ALERT_SEVERITIES.map(severity => (
+                <td key={severity} className="px-3 py-1">
+                  <RuleSelect
+                    label={`${SEVERITY_LABELS[severity]} alerts in ${ward}`}
+                    rule={policy.wards[ward][severity]}
+                    disabled={disabled}
+                    inheritLabel="As all wards"
+                    onChange={rule => setWardRule(ward, severity, rule)}
+                  />
+                </td>
+              ))}
+              <td className="py-1">
+                <button
+                  onClick={() => removeWard(ward)}
+                  disabled={disabled}
+                  aria-label={`Remove the rules of ${ward}`}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {otherWards.length > 0 && (
+        <div className="mt-4 flex items-center space-x-2">
+          <select
+            aria-label="Ward"
+            value={newWard}
+            disabled={disabled}
+            onChange={(e) => setNewWard(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Choose a ward...</option>
+            {otherWards.map(ward => (
+              <option key={ward} value={ward}>{ward}</option>
+            ))}
+          </select>
+          <button
+            onClick={addWard}
+            disabled={disabled || !newWard}
+            className="px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add ward rules
+          </button>
+        </div>
+      )}
+      {message && <p className="mt-2 text-sm text-red-700">{message}</p>}
+    </div>
+  );
+};
+
+export default EscalationSettings;
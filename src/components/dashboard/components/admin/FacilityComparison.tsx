@@ -0,0 +1,75 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { describeApiError } from '../../../../api/errors';
+import { FacilityTotals, sumFacilitySummaries } from '../../../../api/facility';
+import { useFacilities, useFacilitySummaries } from '../../../../api/hooks/useFacilities';
+import { usePermission } from '../../../../hooks/usePermission';
+
+const percentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const Cells: React.FC<{ counts: FacilityTotals }> = ({ counts }) => (
+  <>
+    <td className="px-4 py-3 text-sm text-gray-900">{counts.patients}</td>
+    <td className="px-4 py-3 text-sm text-red-600">{counts.critical_patients}</td>
+    <td className="px-4 py-3 text-sm text-gray-900">
+      {counts.beds_occupied}/{counts.beds_total}
+      <span className="ml-1 text-gray-500">({percentage(counts.beds_occupied, counts.beds_total)}%)</span>
+    </td>
+    <td className="px-4 py-3 text-sm text-gray-900">{counts.devices_online}/{counts.devices}</td>
+    <td className="px-4 py-3 text-sm text-orange-600">{counts.active_alerts}</td>
+  </>
+);
+
+// Every facility of the group side by side, with the group's totals. Only for admins of more than one site.
+export const FacilityComparison: React.FC = () => {
+  const canCompare = usePermission('facility.compare');
+  const { facilities } = useFacilities();
+  const enabled = canCompare && facilities.length > 1;
+  const { summaries, loaded, error } = useFacilitySummaries(enabled);
+
+  if (!enabled) return null;
+
+  const nameOf = (id: string) => facilities.find(facility => facility.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <Building2 className="h-5 w-5 text-gray-500" />
+        <h2 className="text-lg font-semibold text-gray-900">Facility Comparison</h2>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600">{describeApiError(error)}</p>
+      ) : !loaded ? (
+        <p className="text-sm text-gray-500">Loading facilities...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Facility', 'Patients', 'Critical', 'Beds occupied', 'Devices online', 'Active alerts'].map(heading => (
+                  <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {summaries.map(summary => (
+                <tr key={summary.facility_id}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{nameOf(summary.facility_id)}</td>
+                  <Cells counts={summary} />
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-4 py-3 text-sm text-gray-900">All facilities</td>
+                <Cells counts={sumFacilitySummaries(summaries)} />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FacilityComparison;
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { overrideRoute, setupMockBackend } from '../../../../test/mockServer';
+import { renderSignedIn } from '../../../../test/providers';
+import PatientForm from './PatientForm';
+
+describe('PatientForm', () => {
+  const server = setupMockBackend();
+
+  const renderForm = async (props: Partial<React.ComponentProps<typeof PatientForm>> = {}) => {
+    const onClose = vi.fn();
+    const view = await renderSignedIn(<PatientForm onClose={onClose} {...props} />);
+    const form = view.container.querySelector('form')!;
+    const nameInput = form.querySelector<HTMLInputElement>('input[type="text"]')!;
+    const ageInput = form.querySelector<HTMLInputElement>('input[type="number"]')!;
+    return { ...view, onClose, form, nameInput, ageInput };
+  };
+
+  it('requires the personal details before it can be submitted', async () => {
+    const { form, nameInput, ageInput } = await renderForm();
+
+    expect(nameInput.required).toBe(true);
+    expect(ageInput.required).toBe(true);
+    expect(form.checkValidity()).toBe(false);
+  });
+
+  it('creates the patient and closes', async () => {
+    const { form, nameInput, ageInput, onClose } = await renderForm();
+
+    fireEvent.change(nameInput, { target: { value: 'Grace Hopper' } });
+    fireEvent.change(ageInput, { target: { value: '85' } });
+    fireEvent.submit(form);
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(Object.values(server.backend.db.patients)).toContainEqual(expect.objectContaining({
+      personalInfo: expect.objectContaining({ name: 'Grace Hopper', age: 85 }),
+    }));
+  });
+
+  it('shows server-side field errors next to the field and stays open', async () => {
+    overrideRoute(server.backend, 'POST', '/patients/', 422, {
+      detail: [{ loc: ['body', 'personalInfo', 'name'], msg: 'name must contain a first and last name', type: 'value_error' }],
+    });
+    const { form, nameInput, ageInput, onClose } = await renderForm();
+
+    fireEvent.change(nameInput, { target: { value: 'Grace' } });
+    fireEvent.change(ageInput, { target: { value: '85' } });
+    fireEvent.submit(form);
+
+    expect(await screen.findByText('name must contain a first and last name')).toBeTruthy();
+    expect(screen.getByText('Please fix the highlighted fields.')).toBeTruthy();
+    expect(nameInput.className).toContain('border-red-300');
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('saves edits to an existing patient', async () => {
+    const patient = structuredClone(server.backend.db.patients.patient_004);
+    const { form, nameInput, onClose } = await renderForm({ patientId: 'patient_004', patient });
+
+    expect(nameInput.value).toBe('Patricia Davis');
+    fireEvent.change(nameInput, { target: { value: 'Patricia Davis-Reed' } });
+    fireEvent.submit(form);
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    await waitFor(() =>
+      expect(server.backend.db.patients.patient_004.personalInfo.name).toBe('Patricia Davis-Reed')
+    );
+  });
+});
@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
 import { X, Plus, Trash2, AlertCircle } from 'lucide-react';
 import { Patient } from '../../../../api/types';
+import { FieldErrors, describeApiError, forbiddenError, getFieldErrors } from '../../../../api/errors';
+import { usePermission } from '../../../../hooks/usePermission';
+import { useFacilities } from '../../../../api/hooks/useFacilities';
+import { toBackendTimestamp, toDateInputValue } from '../../../../utils/dateUtils';
 
 interface PatientFormProps {
   patientId?: string;
@@ -10,37 +14,13 @@ interface PatientFormProps {
 }
 
 // Helper function to format dates to match backend format
-const formatDate = (date: Date | string | null | undefined): string => {
-  if (!date) {
-    date = new Date();
-  }
-  const d = typeof date === 'string' ? new Date(date) : date;
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  const hours = String(d.getHours()).padStart(2, '0');
-  const minutes = String(d.getMinutes()).padStart(2, '0');
-  const seconds = String(d.getSeconds()).padStart(2, '0');
-  return `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
-};
+const formatDate = (date: Date | string | null | undefined): string => toBackendTimestamp(date);
 
 // Helper function to format date for input type="date"
-const formatDateForInput = (dateStr: string | null | undefined): string => {
-  if (!dateStr) return new Date().toISOString().split('T')[0];
-  try {
-    // If the date is already in backend format (YYYY-MM-DD_HH-MM-SS)
-    if (dateStr.includes('_')) {
-      const [datePart] = dateStr.split('_');
-      return datePart;
-    }
-    // If the date is in ISO format or other format
-    const date = new Date(dateStr);
-    return date.toISOString().split('T')[0];
-  } catch (e) {
-    console.error('Error parsing date:', dateStr, e);
-    return new Date().toISOString().split('T')[0];
-  }
-};
+const formatDateForInput = (dateStr: string | null | undefined): string => toDateInputValue(dateStr);
+
+// Offered until the facility's own ward catalog has loaded
+const DEFAULT_WARDS = ['ICU', 'Emergency', 'Cardiology', 'Neurology', 'Pediatrics', 'Surgery', 'Maternity'];
 
 // Helper function to ensure medication array is valid
 const sanitizeMedications = (medications: any[] | null | undefined) => {
@@ -53,16 +33,16 @@ const sanitizeMedications = (medications: any[] | null | undefined) => {
   }));
 };
 
-interface ValidationErrors {
-  [key: string]: string[];
-}
-
 const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }) => {
-  const { addPatient, updatePatient } = useHospitalData();
+  const { addPatient, updatePatient } = useHospitalActions();
+  const { current: facility } = useFacilities();
   const isEditing = !!patient;
+  const canSave = usePermission(isEditing ? 'patient.edit' : 'patient.create');
   const [error, setError] = useState<string | null>(null);
-  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+  const [validationErrors, setValidationErrors] = useState<FieldErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Recorded with the change in the audit log
+  const [changeReason, setChangeReason] = useState('');
 
   const [formData, setFormData] = useState({
     personalInfo: {
@@ -108,10 +88,19 @@ const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }
     startDate: new Date().toISOString().split('T')[0]
   });
 
+  // The wards of the facility, plus the patient's own if it is no longer in the catalog
+  const catalog = facility?.wards ?? DEFAULT_WARDS;
+  const savedWard = patient?.personalInfo?.ward;
+  const wards = savedWard && !catalog.includes(savedWard) ? [...catalog, savedWard] : catalog;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setValidationErrors({});
+    if (!canSave) {
+      setError(describeApiError(forbiddenError()));
+      return;
+    }
     setIsSubmitting(true);
     
     try {
@@ -142,16 +131,12 @@ const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }
       } as Patient;
       
       const result = isEditing && patientId 
-        ? await updatePatient(patientId, formattedData)
+        ? await updatePatient(patientId, formattedData, changeReason)
         : await addPatient(formattedData);
 
       if (!result.success) {
-        if (result.errors?.validationErrors) {
-          setValidationErrors(result.errors.validationErrors);
-          throw new Error('Please fix the validation errors below.');
-        } else {
-          throw new Error(result.errors?.message || 'Failed to save patient data. Please try again.');
-        }
+        setValidationErrors(getFieldErrors(result.error));
+        throw new Error(describeApiError(result.error));
       }
       
       onClose();
@@ -375,13 +360,9 @@ const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="">Select Ward</option>
-                <option value="ICU">ICU</option>
-                <option value="Emergency">Emergency</option>
-                <option value="Cardiology">Cardiology</option>
-                <option value="Neurology">Neurology</option>
-                <option value="Pediatrics">Pediatrics</option>
-                <option value="Surgery">Surgery</option>
-                <option value="Maternity">Maternity</option>
+                {wards.map(ward => (
+                  <option key={ward} value={ward}>{ward}</option>
+                ))}
               </select>
             </div>
             <div>
@@ -560,6 +541,23 @@ const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }
           </div>
         </div>
 
+        {isEditing && (
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <label htmlFor="patient-change-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for change
+            </label>
+            <input
+              id="patient-change-reason"
+              type="text"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              placeholder="e.g. Diagnosis revised after CT results"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">Recorded in the audit log with the changes</p>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex justify-end space-x-4">
           <button
@@ -572,7 +570,7 @@ const PatientForm: React.FC<PatientFormProps> = ({ patientId, patient, onClose }
           </button>
           <button
             type="submit"
-            disabled={isSubmitting}
+            disabled={isSubmitting || !canSave}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
           >
             {isSubmitting ? (
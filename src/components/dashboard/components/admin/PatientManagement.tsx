@@ -1,66 +1,20 @@
 import React, { useState } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
+import { useEntities, useHospitalLoadState } from '../../../../store/hospitalSelectors';
 import { Plus, Search, Edit, Trash2, Eye, AlertCircle } from 'lucide-react';
 import PatientForm from './PatientForm';
 import { Patient } from '../../../../api/types';
+import ApiErrorState from '../../../ui/ApiErrorState';
+import Can from '../../../auth/Can';
+import { formatTimestamp } from '../../../../utils/dateUtils';
 
 
 
-const formatTimestamp = (timestamp: string | undefined | null): string => {
-  if (!timestamp) return 'No data available';
-  
-  try {
-    // Debug: log the timestamp being processed
-    console.log('Formatting timestamp:', timestamp);
-    
-    // Handle different timestamp formats
-    let date: Date;
-    
-    // If timestamp contains underscore (backend format: YYYY-MM-DD_HH-MM-SS)
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      const [datePart, timePart] = timestamp.split('_');
-      const [year, month, day] = datePart.split('-');
-      const [hour, minute, second] = timePart.split('-');
-      date = new Date(
-        parseInt(year), 
-        parseInt(month) - 1, // Month is 0-indexed in JavaScript
-        parseInt(day), 
-        parseInt(hour), 
-        parseInt(minute), 
-        parseInt(second || '0') // Handle cases where seconds might be missing
-      );
-    } else {
-      // Standard ISO format or other formats
-      date = new Date(timestamp);
-    }
-    
-    // Check if date is valid
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date created from timestamp:', timestamp);
-      return 'Invalid date';
-    }
-    
-    // Return formatted date with more readable format
-    const result = date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-    
-    console.log('Formatted result:', result);
-    return result;
-  } catch (error) {
-    console.error('Error formatting timestamp:', timestamp, error);
-    return 'Invalid date format';
-  }
-};
 
 const PatientManagement: React.FC = () => {
-  const { patients, loading, error, refreshData } = useHospitalData();
+  const patients = useEntities('patients');
+  const { loading, error } = useHospitalLoadState();
+  const { refreshData } = useHospitalActions();
   const [searchTerm, setSearchTerm] = useState('');
   const [showForm, setShowForm] = useState(false);
   const [editingPatient, setEditingPatient] = useState<{ id: string; data: Patient } | null>(null);
@@ -83,17 +37,7 @@ const PatientManagement: React.FC = () => {
   }
 
   if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full">
-        <div className="text-lg text-red-600 mb-4">Error: {error}</div>
-        <button 
-          onClick={refreshData}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Retry
-        </button>
-      </div>
-    );
+    return <ApiErrorState error={error} onRetry={refreshData} />;
   }
 
   // Add safety check for patients data
@@ -353,13 +297,15 @@ const PatientManagement: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Patient Management</h1>
-        <button
-          onClick={() => setShowForm(true)}
-          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
-        >
-          <Plus className="h-5 w-5" />
-          <span>Add Patient</span>
-        </button>
+        <Can permission="patient.create">
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <Plus className="h-5 w-5" />
+            <span>Add Patient</span>
+          </button>
+        </Can>
       </div>
 
       {/* Search */}
@@ -450,12 +396,14 @@ const PatientManagement: React.FC = () => {
                           >
                             <Eye className="h-5 w-5" />
                           </button>
-                          <button
-                            onClick={() => handleEdit(id, patient)}
-                            className="text-green-600 hover:text-green-900"
-                          >
-                            <Edit className="h-5 w-5" />
-                          </button>
+                          <Can permission="patient.edit">
+                            <button
+                              onClick={() => handleEdit(id, patient)}
+                              className="text-green-600 hover:text-green-900"
+                            >
+                              <Edit className="h-5 w-5" />
+                            </button>
+                          </Can>
                         </div>
                       </td>
                     </tr>
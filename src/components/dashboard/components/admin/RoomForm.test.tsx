@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { overrideRoute, setupMockBackend } from '../../../../test/mockServer';
+import { renderSignedIn } from '../../../../test/providers';
+import RoomForm from './RoomForm';
+
+const renderForm = async () => {
+  const onClose = vi.fn();
+  const view = await renderSignedIn(<RoomForm onClose={onClose} />);
+  const form = view.container.querySelector('form')!;
+  const roomNumber = screen.getByPlaceholderText<HTMLInputElement>('e.g., 101, 205A');
+  return { ...view, onClose, form, roomNumber };
+};
+
+describe('RoomForm', () => {
+  const server = setupMockBackend();
+
+  it('requires a room number', async () => {
+    const { form, roomNumber } = await renderForm();
+
+    expect(roomNumber.required).toBe(true);
+    expect(form.checkValidity()).toBe(false);
+  });
+
+  it('creates the room under its backend id and closes', async () => {
+    const { form, roomNumber, onClose } = await renderForm();
+
+    fireEvent.change(roomNumber, { target: { value: '301' } });
+    fireEvent.submit(form);
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(server.backend.db.rooms.room_301).toMatchObject({ roomId: 'room_301', roomType: 'general', floor: 1 });
+  });
+
+  it('shows why the backend refused the room and stays open', async () => {
+    const { form, roomNumber, onClose } = await renderForm();
+
+    fireEvent.change(roomNumber, { target: { value: '101' } });
+    fireEvent.submit(form);
+
+    expect(await screen.findByText('Room room_101 already exists')).toBeTruthy();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('lists server-side field errors', async () => {
+    overrideRoute(server.backend, 'POST', '/rooms/', 422, {
+      detail: [{ loc: ['body', 'capacity'], msg: 'ensure this value is less than or equal to 12', type: 'value_error' }],
+    });
+    const { form, roomNumber, onClose } = await renderForm();
+
+    fireEvent.change(roomNumber, { target: { value: '301' } });
+    fireEvent.submit(form);
+
+    expect(await screen.findByText('Please fix the highlighted fields.')).toBeTruthy();
+    expect(screen.getByText('capacity:').parentElement?.textContent).toBe(
+      'capacity: ensure this value is less than or equal to 12'
+    );
+    expect(onClose).not.toHaveBeenCalled();
+    expect(server.backend.db.rooms.room_301).toBeUndefined();
+  });
+});
+
+describe('RoomForm without room.manage', () => {
+  const server = setupMockBackend('doctor@hospital.com');
+
+  it('does not let the room be saved', async () => {
+    const { form, roomNumber, onClose } = await renderForm();
+
+    fireEvent.change(roomNumber, { target: { value: '301' } });
+    expect(screen.getByRole('button', { name: 'Create Room' })).toHaveProperty('disabled', true);
+
+    fireEvent.submit(form);
+
+    expect(await screen.findByText('You do not have permission to perform this action.')).toBeTruthy();
+    expect(onClose).not.toHaveBeenCalled();
+    expect(server.backend.db.rooms.room_301).toBeUndefined();
+  });
+});
@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
-import { useBeds, Bed } from '../../../../api/hooks/useBeds';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
+import { useEntities } from '../../../../store/hospitalSelectors';
+import { useBeds, Bed, withPatientAssigned, withPatientDischarged } from '../../../../api/hooks/useBeds';
 import { X, Save, Bed as BedIcon, Monitor, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
-import { API_BASE_URL } from '../../../../api/config';
+import Api from '../../../../api/api';
+import { ENDPOINTS } from '../../../../api/config';
+import { FieldErrors, describeApiError, forbiddenError, getFieldErrors } from '../../../../api/errors';
+import { IoTDevice } from '../../../../api/types';
+import { usePermission } from '../../../../hooks/usePermission';
+import { useFacilities } from '../../../../api/hooks/useFacilities';
 
 interface RoomFormProps {
   roomId?: string;
@@ -19,11 +25,33 @@ interface RoomData {
   description?: string;
 }
 
+const ROOM_TYPE_LABELS: Record<RoomData['roomType'], string> = {
+  general: 'General',
+  ICU: 'ICU',
+  ER: 'Emergency Room',
+  surgery: 'Surgery',
+  isolation: 'Isolation',
+};
+
+// Monitor placement changes, recorded in the audit trail with the device info they replaced
+const saveDeviceInfo = (monitorId: string, before: IoTDevice['deviceInfo'], deviceInfo: unknown, description: string) =>
+  Api.put(ENDPOINTS.iot.deviceInfo(monitorId), deviceInfo, {
+    audit: { action: 'update', entity: { type: 'device', id: monitorId }, description, before },
+  });
+
 const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
-  const { patients, iotDevices, addRoom, updateRoom, refreshAlertsOnly } = useHospitalData();
+  const patients = useEntities('patients');
+  const iotDevices = useEntities('devices');
+  const { addRoom, updateRoom, refreshAlertsOnly } = useHospitalActions();
   const { getRoomBeds, assignPatientToBed, dischargePatientFromBed } = useBeds();
+  const canManageRoom = usePermission('room.manage');
+  const canAssignBeds = usePermission('bed.assign');
+  // Room types the facility has; all of them until its catalog has loaded
+  const { current: facility } = useFacilities();
+  const roomTypes = facility?.room_types ?? (Object.keys(ROOM_TYPE_LABELS) as Array<RoomData['roomType']>);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [roomBeds, setRoomBeds] = useState<Record<string, Bed>>({});
   const [assignmentLoading, setAssignmentLoading] = useState<Record<string, boolean>>({});
   const [confirmAction, setConfirmAction] = useState<{
@@ -136,17 +164,10 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
         });
         
         // Assign the new monitor to this bed
-        const response = await fetch(`${API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(updatedDeviceInfo),
-        });
+        const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Assign monitor ${monitorId} to bed ${bedId}`);
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => null);
-          throw new Error(errorData?.detail || `Failed to assign monitor ${monitorId} to bed ${bedId}`);
+        if (response.error) {
+          throw new Error(response.error.message);
         }
 
         console.log(`✓ Successfully assigned monitor ${monitorId} to bed ${bedId}`);
@@ -184,9 +205,13 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
           console.warn('Failed to unassign patient from monitors:', monitorError);
         }
 
+        // Shown as free right away; a rejected discharge restores the bed and explains why in a toast
+        const previousBeds = roomBeds;
+        setRoomBeds(withPatientDischarged(roomBeds, confirmAction.bedId));
         const result = await dischargePatientFromBed(confirmAction.bedId, confirmAction.patientId);
         if (!result.success) {
-          throw new Error(result.error || 'Failed to discharge patient from bed');
+          setRoomBeds(previousBeds);
+          return;
         }
         
         // Unassign monitors from this bed (but keep them in the room)
@@ -217,6 +242,10 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
     setAssignmentLoading(prev => ({ ...prev, [loadingKey]: true }));
     setError(null);
 
+    // Shown as occupied right away; a rejected assignment restores the beds and explains why in a toast
+    const previousBeds = roomBeds;
+    setRoomBeds(withPatientAssigned(roomBeds, bedId, patientId));
+
     try {
       const result = await assignPatientToBed(bedId, patientId);
       if (result.success) {
@@ -234,10 +263,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
           refreshAlertsOnly() // Only refresh IoT devices instead of all data
         ]);
       } else {
-        throw new Error(result.error || 'Failed to assign patient to bed');
+        setRoomBeds(previousBeds);
       }
     } catch (err) {
       console.error('Error assigning patient to bed:', err);
+      setRoomBeds(previousBeds);
       setError(err instanceof Error ? err.message : 'Failed to assign patient to bed');
     } finally {
       setAssignmentLoading(prev => ({ ...prev, [loadingKey]: false }));
@@ -297,18 +327,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
             bedId: bedId    // Assign to specific bed
           };
 
-          const response = await fetch(`${API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(updatedDeviceInfo),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => null);
-            console.error(`Failed to assign monitor ${monitorId} to bed ${bedId}:`, errorData);
-            throw new Error(errorData?.detail || `Failed to assign monitor ${monitorId} to bed`);
+          const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Assign monitor ${monitorId} to bed ${bedId}`);
+
+          if (response.error) {
+            console.error(`Failed to assign monitor ${monitorId} to bed ${bedId}:`, response.error);
+            throw new Error(response.error.message);
           }
 
           console.log(`✓ Successfully auto-assigned monitor ${monitorId} to bed ${bedId}`);
@@ -343,18 +366,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
             currentPatientId: null // Also clear patient assignment when unassigning from bed
           };
 
-          const response = await fetch(`${API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(updatedDeviceInfo),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => null);
-            console.error(`Failed to unassign monitor ${monitorId} from bed ${bedId}:`, errorData);
-            throw new Error(errorData?.detail || `Failed to unassign monitor ${monitorId}`);
+          const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Unassign monitor ${monitorId} from bed ${bedId}`);
+
+          if (response.error) {
+            console.error(`Failed to unassign monitor ${monitorId} from bed ${bedId}:`, response.error);
+            throw new Error(response.error.message);
           }
 
           console.log(`✓ Successfully unassigned monitor ${monitorId} from bed ${bedId}`);
@@ -386,18 +402,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
             currentPatientId: null // Clear patient assignment
           };
 
-          const response = await fetch(`${API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(updatedDeviceInfo),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => null);
-            console.error(`Failed to unassign patient ${patientId} from monitor ${monitorId}:`, errorData);
-            throw new Error(errorData?.detail || `Failed to unassign patient from monitor ${monitorId}`);
+          const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Detach patient ${patientId} from monitor ${monitorId}`);
+
+          if (response.error) {
+            console.error(`Failed to unassign patient ${patientId} from monitor ${monitorId}:`, response.error);
+            throw new Error(response.error.message);
           }
 
           console.log(`✓ Successfully unassigned patient ${patientId} from monitor ${monitorId}`);
@@ -435,18 +444,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
         updatedDeviceInfo
       });
 
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedDeviceInfo),
-      });
+      const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Add monitor ${monitorId} to room ${roomId}`);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        console.error(`Failed to add monitor ${monitorId} to room:`, errorData);
-        throw new Error(errorData?.detail || `Failed to add monitor ${monitorId} to room`);
+      if (response.error) {
+        console.error(`Failed to add monitor ${monitorId} to room:`, response.error);
+        throw new Error(response.error.message);
       }
 
       console.log(`✓ Successfully added monitor ${monitorId} to room ${roomId}`);
@@ -491,18 +493,11 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
         updatedDeviceInfo
       });
 
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/iotData/${monitorId}/deviceInfo`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedDeviceInfo),
-      });
+      const response = await saveDeviceInfo(monitorId, currentDevice.deviceInfo, updatedDeviceInfo, `Remove monitor ${monitorId} from room ${roomId}`);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        console.error(`Failed to remove monitor ${monitorId} from room:`, errorData);
-        throw new Error(errorData?.detail || `Failed to remove monitor ${monitorId} from room`);
+      if (response.error) {
+        console.error(`Failed to remove monitor ${monitorId} from room:`, response.error);
+        throw new Error(response.error.message);
       }
 
       console.log(`✓ Successfully removed monitor ${monitorId} from room`);
@@ -523,8 +518,13 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setError(null);
+    setFieldErrors({});
+    if (!canManageRoom) {
+      setError(describeApiError(forbiddenError()));
+      return;
+    }
+    setLoading(true);
 
     try {
       const requestData = {
@@ -544,7 +544,8 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
 
         onClose();
       } else {
-        setError(result.errors?.message || `Failed to ${isEditing ? 'update' : 'create'} room`);
+        setError(describeApiError(result.error));
+        setFieldErrors(getFieldErrors(result.error));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -584,6 +585,15 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
               {error}
+              {Object.keys(fieldErrors).length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-sm">
+                  {Object.entries(fieldErrors).map(([field, messages]) => (
+                    <li key={field}>
+                      <span className="font-medium">{field}:</span> {messages.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
@@ -622,11 +632,9 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
                 onChange={(e) => setFormData(prev => ({ ...prev, roomType: e.target.value as RoomData['roomType'] }))}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="general">General</option>
-                <option value="ICU">ICU</option>
-                <option value="ER">Emergency Room</option>
-                <option value="surgery">Surgery</option>
-                <option value="isolation">Isolation</option>
+                {roomTypes.map(type => (
+                  <option key={type} value={type}>{ROOM_TYPE_LABELS[type]}</option>
+                ))}
               </select>
             </div>
 
@@ -973,7 +981,7 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
                           <button
                             type="button"
                             onClick={() => handlePatientBedDischarge(bedId, bed.patientId!)}
-                            disabled={assignmentLoading[`discharge_${bedId}`]}
+                            disabled={!canAssignBeds || assignmentLoading[`discharge_${bedId}`]}
                             className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 hover:border-red-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                           >
                             {assignmentLoading[`discharge_${bedId}`] ? (
@@ -1002,7 +1010,7 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
                                 e.target.value = ''; // Reset selection
                               }
                             }}
-                            disabled={assignmentLoading[`patient_${bedId}`]}
+                            disabled={!canAssignBeds || assignmentLoading[`patient_${bedId}`]}
                             className="w-full text-sm px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             <option value="">
@@ -1056,7 +1064,7 @@ const RoomForm: React.FC<RoomFormProps> = ({ roomId, onClose }) => {
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !canManageRoom}
               className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
             >
               <Save className="h-4 w-4" />
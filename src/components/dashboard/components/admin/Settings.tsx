@@ -1,5 +1,161 @@
-import React, { useState } from 'react';
-import { Settings as SettingsIcon, Bell, Shield, Database, Monitor } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Settings as SettingsIcon, Bell, Shield, Database, Monitor, EyeOff } from 'lucide-react';
+import { authAPI, MfaPolicy } from '../../../../api/auth';
+import { describeApiError } from '../../../../api/errors';
+import { maskedScreensFor, PRIVACY_SCREENS, PrivacyPolicy, PrivacyScreen, updatePrivacyPolicy } from '../../../../api/privacy';
+import { usePrivacyPolicy } from '../../../../api/hooks/usePrivacyPolicy';
+import EscalationSettings from './EscalationSettings';
+
+const MFA_ROLES: Array<{ role: MfaPolicy['required_roles'][number]; label: string }> = [
+  { role: 'admin', label: 'Administrators' },
+  { role: 'doctor', label: 'Doctors' },
+  { role: 'staff', label: 'Staff' },
+];
+
+// Roles that must sign in with an authenticator app; saved as soon as a box changes
+const MfaPolicySettings: React.FC = () => {
+  const [policy, setPolicy] = useState<MfaPolicy | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authAPI.getMfaPolicy()
+      .then(setPolicy)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the two-factor policy'));
+  }, []);
+
+  const toggle = async (role: MfaPolicy['required_roles'][number]) => {
+    if (!policy) return;
+    const required_roles = policy.required_roles.includes(role)
+      ? policy.required_roles.filter(required => required !== role)
+      : [...policy.required_roles, role];
+    setSaving(true);
+    setError(null);
+    try {
+      setPolicy(await authAPI.updateMfaPolicy({ required_roles }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the two-factor policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Require Two-Factor Authentication</label>
+      <p className="text-xs text-gray-500 mb-2">Accounts without an authenticator app set it up at their next sign-in.</p>
+      <div className="flex flex-wrap gap-4">
+        {MFA_ROLES.map(({ role, label }) => (
+          <label key={role} className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!policy?.required_roles.includes(role)}
+              disabled={!policy || saving}
+              onChange={() => toggle(role)}
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+const PRIVACY_SCREEN_LABELS: Record<PrivacyScreen, string> = {
+  'assigned-patients': 'Assigned patients',
+  'room-status': 'Room status',
+  'alert-notifications': 'Alert pop-ups',
+  'voice-assistant': 'Voice read-outs',
+};
+
+const RELOCK_OPTIONS = [15, 30, 60, 120, 300];
+
+// Screens that mask patient names, ages and diagnoses, per role; saved as soon as something changes
+const PrivacySettings: React.FC = () => {
+  const { policy, loaded, error: loadError } = usePrivacyPolicy();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: PrivacyPolicy) => {
+    setSaving(true);
+    setError(null);
+    const response = await updatePrivacyPolicy(next, policy);
+    if (response.error) setError(describeApiError(response.error));
+    setSaving(false);
+  };
+
+  const message = error ?? (loadError ? `${describeApiError(loadError)} The default privacy settings apply.` : null);
+
+  const toggle = (role: MfaPolicy['required_roles'][number], screen: PrivacyScreen) => {
+    const screens = maskedScreensFor(policy, role);
+    save({
+      ...policy,
+      masked_screens: {
+        ...policy.masked_screens,
+        [role]: screens.includes(screen) ? screens.filter(masked => masked !== screen) : [...screens, screen],
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center space-x-3 mb-1">
+        <EyeOff className="h-6 w-6 text-purple-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Privacy Mode</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Checked screens show patient initials instead of names and hide ages and diagnoses until hovered or revealed,
+        e.g. on terminals visitors walk past. Voice read-outs say initials instead of names.
+      </p>
+      <table className="text-sm">
+        <thead>
+          <tr>
+            <th className="pr-6 pb-2 text-left font-medium text-gray-700">Screen</th>
+            {MFA_ROLES.map(({ role, label }) => (
+              <th key={role} className="px-3 pb-2 font-medium text-gray-700">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {PRIVACY_SCREENS.map(screen => (
+            <tr key={screen}>
+              <td className="pr-6 py-1 text-gray-700">{PRIVACY_SCREEN_LABELS[screen]}</td>
+              {MFA_ROLES.map(({ role, label }) => (
+                <td key={role} className="px-3 py-1 text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`${PRIVACY_SCREEN_LABELS[screen]} for ${label}`}
+                    checked={maskedScreensFor(policy, role).includes(screen)}
+                    disabled={!loaded || saving}
+                    onChange={() => toggle(role, screen)}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-4">
+        <label htmlFor="privacy-relock" className="block text-sm font-medium text-gray-700 mb-1">Hide revealed details again after</label>
+        <select
+          id="privacy-relock"
+          value={policy.relock_seconds}
+          disabled={!loaded || saving}
+          onChange={(e) => save({ ...policy, relock_seconds: Number(e.target.value) })}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {[...new Set([...RELOCK_OPTIONS, policy.relock_seconds])].sort((a, b) => a - b).map(seconds => (
+            <option key={seconds} value={seconds}>
+              {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds === 60 ? '' : 's'}`}
+            </option>
+          ))}
+        </select>
+      </div>
+      {message && <p className="mt-2 text-sm text-red-700">{message}</p>}
+    </div>
+  );
+};
 
 const Settings: React.FC = () => {
   const [notifications, setNotifications] = useState({
@@ -122,12 +278,7 @@ const Settings: React.FC = () => {
               className="w-full md:w-1/3 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
-          <div className="flex items-center justify-between">
-            <label className="text-sm font-medium text-gray-700">Two-Factor Authentication</label>
-            <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200">
-              Enable
-            </button>
-          </div>
+          <MfaPolicySettings />
           <div className="flex items-center justify-between">
             <label className="text-sm font-medium text-gray-700">Audit Logging</label>
             <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs font-medium">
@@ -137,6 +288,10 @@ const Settings: React.FC = () => {
         </div>
       </div>
 
+      <PrivacySettings />
+
+      <EscalationSettings />
+
       {/* Save Button */}
       <div className="flex justify-end">
         <button className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors duration-200">
@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useStaff } from '../../../../api/hooks/useStaff';
+import { useUserAccounts } from '../../../../api/hooks/useUserAccounts';
 import { validateApiConfig, checkApiHealth, API_BASE_URL } from '../../../../api/config';
-import { Plus, Search, Edit, Trash2, Eye, Calendar, X, Save, User, Phone, Mail, Clock, MapPin } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Eye, Calendar, X, Save, User, Phone, Mail, Clock, MapPin, ShieldCheck } from 'lucide-react';
 import { StaffMember } from '../../../../api/staffService';
+import ApiErrorState from '../../../ui/ApiErrorState';
+import Can from '../../../auth/Can';
+import { usePermission } from '../../../../hooks/usePermission';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+import { useSearchParam } from '../../../../store/locationStore';
 
 interface StaffModalState {
   type: 'view' | 'edit' | 'schedule' | 'add' | 'statistics' | null;
@@ -24,11 +30,24 @@ const StaffManagement: React.FC = () => {
     toggleDutyStatus,
     searchStaff,
   } = useStaff();
-
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterRole, setFilterRole] = useState<string>('');
-  const [filterDepartment, setFilterDepartment] = useState<string>('');
-  const [filterOnDuty, setFilterOnDuty] = useState<boolean | undefined>(undefined);
+  const canManageStaff = usePermission('staff.manage');
+  const canManageUsers = usePermission('user.manage');
+  const { users: accounts } = useUserAccounts();
+
+  // Search and filters live in the address, so a filtered list survives a reload and can be shared
+  const [searchTerm, setSearchTerm] = useSearchParam('q');
+  const [filterRole, setFilterRole] = useSearchParam('role');
+  const [filterDepartment, setFilterDepartment] = useSearchParam('department');
+  const [onDutyParam, setOnDutyParam] = useSearchParam('onDuty');
+  const filterOnDuty = onDutyParam === '' ? undefined : onDutyParam === 'true';
+  const setFilterOnDuty = (onDuty: boolean | undefined) => setOnDutyParam(onDuty === undefined ? '' : onDuty.toString());
+  const filters = {
+    role: filterRole || undefined,
+    department: filterDepartment || undefined,
+    onDuty: filterOnDuty
+  };
+  // The filters of the address the screen was opened with are applied right away
+  const [initialFilters] = useState(filters);
   const [apiHealthy, setApiHealthy] = useState<boolean | null>(null);
   const [modalState, setModalState] = useState<StaffModalState>({
     type: null,
@@ -52,7 +71,7 @@ const StaffManagement: React.FC = () => {
         setApiHealthy(isHealthy);
         
         if (isHealthy) {
-          await getStaffMembers();
+          await getStaffMembers(initialFilters);
           // Temporarily comment out statistics to debug basic staff loading
           // await getStaffStatistics();
         } else {
@@ -64,7 +83,7 @@ const StaffManagement: React.FC = () => {
       }
     };
     loadData();
-  }, [getStaffMembers, getStaffStatistics]);
+  }, [getStaffMembers, getStaffStatistics, initialFilters]);
 
   // Handler functions for staff actions
   const handleViewStaff = (staffId: string) => {
@@ -184,20 +203,12 @@ const StaffManagement: React.FC = () => {
       console.log('Search results:', results);
     } else {
       // Reset to show all staff with current filters
-      await getStaffMembers({ 
-        role: filterRole || undefined, 
-        department: filterDepartment || undefined,
-        onDuty: filterOnDuty 
-      });
+      await getStaffMembers(filters);
     }
   };
 
   const handleFilter = async () => {
-    await getStaffMembers({ 
-      role: filterRole || undefined, 
-      department: filterDepartment || undefined,
-      onDuty: filterOnDuty 
-    });
+    await getStaffMembers(filters);
   };
 
   const updateFormData = (path: string, value: any) => {
@@ -225,8 +236,7 @@ const StaffManagement: React.FC = () => {
 
   if (error) {
     return (
-      <div className="flex flex-col items-center justify-center h-full space-y-4">
-        <div className="text-lg text-red-600 mb-2">Error: {error}</div>
+      <ApiErrorState error={error} onRetry={() => getStaffMembers()}>
         {apiHealthy === false && (
           <div className="text-sm text-amber-600 bg-amber-50 p-3 rounded-lg border border-amber-200">
             <p className="font-medium">API Connection Issue</p>
@@ -234,13 +244,7 @@ const StaffManagement: React.FC = () => {
             <p>Please make sure the backend server is running.</p>
           </div>
         )}
-        <button 
-          onClick={() => getStaffMembers()}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Retry
-        </button>
-      </div>
+      </ApiErrorState>
     );
   }
 
@@ -265,6 +269,25 @@ const StaffManagement: React.FC = () => {
   };
 
   // Use statistics from API or fallback to calculated values
+  // The account linked to the staff record under User Accounts, otherwise the one with the same email
+  const renderSignIn = (staffId: string, member: StaffMember) => {
+    const email = member.personalInfo.contact.email.toLowerCase();
+    const account = accounts.find(candidate => candidate.staff_id === staffId)
+      ?? accounts.find(candidate => !candidate.staff_id && candidate.email.toLowerCase() === email);
+    if (!account) return <span className="text-sm text-gray-400">No account</span>;
+    if (account.status === 'deactivated') return <span className="text-sm text-gray-400">Deactivated</span>;
+    return account.mfa_enabled ? (
+      <span className="px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        2FA on
+      </span>
+    ) : (
+      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+        Password only
+      </span>
+    );
+  };
+
   const staffCount = statistics?.total_staff ?? Object.keys(staff).length;
   const onDutyCount = statistics?.on_duty_count ?? Object.values(staff).filter(s => s.currentStatus.onDuty).length;
   const doctorCount = statistics?.by_role?.doctor ?? Object.values(staff).filter(s => s.personalInfo.role === 'doctor').length;
@@ -274,13 +297,15 @@ const StaffManagement: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Staff Management</h1>
-        <button 
-          onClick={handleAddStaff}
-          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
-        >
-          <Plus className="h-5 w-5" />
-          <span>Add Staff</span>
-        </button>
+        <Can permission="staff.manage">
+          <button 
+            onClick={handleAddStaff}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <Plus className="h-5 w-5" />
+            <span>Add Staff</span>
+          </button>
+        </Can>
       </div>
 
       {/* Search and Filters */}
@@ -402,6 +427,9 @@ const StaffManagement: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workload</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                {canManageUsers && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sign-in</th>
+                )}
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
@@ -442,6 +470,11 @@ const StaffManagement: React.FC = () => {
                     <div className="text-sm text-gray-900">{member.personalInfo.contact.email}</div>
                     <div className="text-sm text-gray-500">{member.personalInfo.contact.phone}</div>
                   </td>
+                  {canManageUsers && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {renderSignIn(id, member)}
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex justify-end space-x-2">
                       <button 
@@ -451,13 +484,15 @@ const StaffManagement: React.FC = () => {
                       >
                         <Eye className="h-5 w-5" />
                       </button>
-                      <button 
-                        onClick={() => handleEditStaff(id)}
-                        className="text-gray-600 hover:text-gray-900 p-1 rounded-md hover:bg-gray-50"
-                        title="Edit Staff"
-                      >
-                        <Edit className="h-5 w-5" />
-                      </button>
+                      {canManageStaff && (
+                        <button 
+                          onClick={() => handleEditStaff(id)}
+                          className="text-gray-600 hover:text-gray-900 p-1 rounded-md hover:bg-gray-50"
+                          title="Edit Staff"
+                        >
+                          <Edit className="h-5 w-5" />
+                        </button>
+                      )}
                       <button 
                         onClick={() => handleScheduleStaff(id)}
                         className="text-green-600 hover:text-green-900 p-1 rounded-md hover:bg-green-50"
@@ -465,24 +500,28 @@ const StaffManagement: React.FC = () => {
                       >
                         <Calendar className="h-5 w-5" />
                       </button>
-                      <button 
-                        onClick={() => handleToggleDuty(id, member.currentStatus.onDuty)}
-                        className={`p-1 rounded-md ${
-                          member.currentStatus.onDuty 
-                            ? 'text-red-600 hover:text-red-900 hover:bg-red-50' 
-                            : 'text-green-600 hover:text-green-900 hover:bg-green-50'
-                        }`}
-                        title={member.currentStatus.onDuty ? 'Mark Off Duty' : 'Mark On Duty'}
-                      >
-                        <Clock className="h-5 w-5" />
-                      </button>
-                      <button 
-                        onClick={() => handleDeleteStaff(id)}
-                        className="text-red-600 hover:text-red-900 p-1 rounded-md hover:bg-red-50"
-                        title="Delete Staff"
-                      >
-                        <Trash2 className="h-5 w-5" />
-                      </button>
+                      {canManageStaff && (
+                        <>
+                          <button 
+                            onClick={() => handleToggleDuty(id, member.currentStatus.onDuty)}
+                            className={`p-1 rounded-md ${
+                              member.currentStatus.onDuty 
+                                ? 'text-red-600 hover:text-red-900 hover:bg-red-50' 
+                                : 'text-green-600 hover:text-green-900 hover:bg-green-50'
+                            }`}
+                            title={member.currentStatus.onDuty ? 'Mark Off Duty' : 'Mark On Duty'}
+                          >
+                            <Clock className="h-5 w-5" />
+                          </button>
+                          <button 
+                            onClick={() => handleDeleteStaff(id)}
+                            className="text-red-600 hover:text-red-900 p-1 rounded-md hover:bg-red-50"
+                            title="Delete Staff"
+                          >
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -578,7 +617,7 @@ const StaffManagement: React.FC = () => {
                     <div className="flex items-center space-x-2">
                       <Clock className="h-4 w-4 text-gray-400" />
                       <span className="text-gray-900">
-                        {new Date(modalState.staffData.currentStatus.lastUpdated).toLocaleString()}
+                        {formatTimestamp(modalState.staffData.currentStatus.lastUpdated)}
                       </span>
                     </div>
                   </div>
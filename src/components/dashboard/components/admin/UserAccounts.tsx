@@ -0,0 +1,421 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, KeyRound, RefreshCw, Search, ShieldCheck, UserCheck, UserPlus, UserX, X } from 'lucide-react';
+import { AccountStatus, User } from '../../../../api/auth';
+import { AccountRole, InviteRequest, UserAccountService, accountName } from '../../../../api/userAccounts';
+import { useUserAccounts } from '../../../../api/hooks/useUserAccounts';
+import { ApiResponse } from '../../../../api/api';
+import { describeApiError } from '../../../../api/errors';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useEntities } from '../../../../store/hospitalSelectors';
+import { showToast } from '../../../../store/toastStore';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+
+const ROLES: AccountRole[] = ['admin', 'doctor', 'staff'];
+
+const STATUS_LABELS: Record<AccountStatus, string> = {
+  active: 'Active',
+  pending: 'Awaiting approval',
+  invited: 'Invited',
+  deactivated: 'Deactivated',
+};
+
+const STATUS_STYLES: Record<AccountStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  invited: 'bg-blue-100 text-blue-800',
+  deactivated: 'bg-gray-200 text-gray-700',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Shows a temporary password once, for the admin to hand over in person
+const TemporaryPasswordDialog: React.FC<{ name: string; password: string; onClose: () => void }> = ({ name, password, onClose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+    <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Temporary password</h2>
+      <p className="text-sm text-gray-600">
+        Give this password to {name}. It is not shown again; {name} signs in with it and can then set up two-factor
+        authentication.
+      </p>
+      <p className="font-mono text-lg text-center bg-gray-50 rounded-md py-3 tracking-wider" aria-label="Temporary password">
+        {password}
+      </p>
+      <div className="flex justify-end">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors duration-200"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+interface InviteDialogProps {
+  staffOptions: Array<[string, string]>;
+  onInvited: (account: User, password: string) => void;
+  onClose: () => void;
+}
+
+const InviteDialog: React.FC<InviteDialogProps> = ({ staffOptions, onInvited, onClose }) => {
+  const [form, setForm] = useState<InviteRequest>({ email: '', first_name: '', last_name: '', role: 'staff', department: '', staff_id: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (field: keyof InviteRequest) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const response = await UserAccountService.invite({
+      ...form,
+      department: form.department || undefined,
+      staff_id: form.staff_id || undefined,
+    });
+    setSaving(false);
+    if (response.error || !response.data) {
+      setError(response.error ? describeApiError(response.error) : 'Could not send the invitation');
+      return;
+    }
+    const { temporary_password, ...account } = response.data;
+    onInvited(account, temporary_password);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Invite a user</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="invite-first-name" className="block text-sm font-medium text-gray-700 mb-1">First name</label>
+              <input id="invite-first-name" required value={form.first_name} onChange={update('first_name')} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="invite-last-name" className="block text-sm font-medium text-gray-700 mb-1">Last name</label>
+              <input id="invite-last-name" required value={form.last_name} onChange={update('last_name')} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input id="invite-email" type="email" required value={form.email} onChange={update('email')} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select id="invite-role" value={form.role} onChange={update('role')} className={inputClass}>
+                {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="invite-department" className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+              <input id="invite-department" value={form.department} onChange={update('department')} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="invite-staff" className="block text-sm font-medium text-gray-700 mb-1">Staff record</label>
+            <select id="invite-staff" value={form.staff_id} onChange={update('staff_id')} className={inputClass}>
+              <option value="">Not linked</option>
+              {staffOptions.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+            </select>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-2 flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              {saving ? 'Inviting...' : 'Invite'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Sign-in accounts: approvals of self-registered accounts, invitations, roles, staff records and passwords
+const UserAccounts: React.FC = () => {
+  const { user } = useAuth();
+  const { users, loading, error, refresh } = useUserAccounts();
+  const staff = useEntities('staff');
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<AccountStatus | ''>('');
+  const [inviting, setInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [approvalRoles, setApprovalRoles] = useState<Record<string, AccountRole>>({});
+  const [temporaryPassword, setTemporaryPassword] = useState<{ name: string; password: string } | null>(null);
+
+  const staffOptions: Array<[string, string]> = Object.entries(staff)
+    .map(([id, member]): [string, string] => [id, member.personalInfo.name])
+    .sort(([, a], [, b]) => a.localeCompare(b));
+  const linkedStaff = new Set(users.map(account => account.staff_id).filter(Boolean));
+
+  const statusOf = (account: User): AccountStatus => account.status ?? 'active';
+  const pendingCount = users.filter(account => statusOf(account) === 'pending').length;
+
+  const term = search.trim().toLowerCase();
+  const rows = users
+    .filter(account => !statusFilter || statusOf(account) === statusFilter)
+    .filter(account => !term || `${accountName(account)} ${account.email}`.toLowerCase().includes(term))
+    // Accounts waiting for approval first
+    .sort((a, b) => Number(statusOf(b) === 'pending') - Number(statusOf(a) === 'pending') || accountName(a).localeCompare(accountName(b)));
+
+  // One change at a time per row; failures are reported as toasts
+  const run = async (account: User, action: () => Promise<ApiResponse>, failure: string) => {
+    setBusyId(account.id);
+    const response = await action();
+    setBusyId(null);
+    if (response.error) showToast({ kind: 'error', title: failure, message: describeApiError(response.error) });
+  };
+
+  const handleResetPassword = async (account: User) => {
+    if (!window.confirm(`Reset the password of ${accountName(account)}? Their current password stops working.`)) return;
+    setBusyId(account.id);
+    const response = await UserAccountService.resetPassword(account);
+    setBusyId(null);
+    if (response.error || !response.data) {
+      showToast({ kind: 'error', title: 'Password not reset', message: response.error ? describeApiError(response.error) : undefined });
+      return;
+    }
+    setTemporaryPassword({ name: accountName(account), password: response.data.temporary_password });
+  };
+
+  const handleSetActive = (account: User, active: boolean) => {
+    if (!active && !window.confirm(`Deactivate the account of ${accountName(account)}? They are signed out everywhere.`)) return;
+    run(account, () => UserAccountService.setActive(account, active), active ? 'Account not reactivated' : 'Account not deactivated');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">User Accounts</h1>
+          <p className="text-sm text-gray-500">
+            {pendingCount > 0 ? `${pendingCount} account${pendingCount === 1 ? '' : 's'} waiting for approval` : 'Who can sign in, and as what'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={refresh}
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={() => setInviting(true)}
+            className="flex items-center space-x-2 px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            <UserPlus className="h-4 w-4" />
+            <span>Invite user</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or email"
+            aria-label="Search accounts"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as AccountStatus | '')}
+          aria-label="Status"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          {(Object.keys(STATUS_LABELS) as AccountStatus[]).map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {describeApiError(error)}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Staff record</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last sign-in</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(account => {
+                const status = statusOf(account);
+                const self = account.id === user?.id;
+                const busy = busyId === account.id;
+                const approvalRole = approvalRoles[account.id] ?? (account.role as AccountRole);
+                return (
+                  <tr key={account.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900 flex items-center">
+                        {accountName(account)}
+                        {account.mfa_enabled && <ShieldCheck className="h-4 w-4 ml-1 text-green-600" aria-label="Two-factor authentication on" />}
+                      </div>
+                      <div className="text-sm text-gray-500">{account.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <select
+                        value={status === 'pending' ? approvalRole : account.role}
+                        disabled={self || busy}
+                        aria-label={`Role of ${accountName(account)}`}
+                        onChange={(e) => {
+                          const role = e.target.value as AccountRole;
+                          if (status === 'pending') {
+                            setApprovalRoles(prev => ({ ...prev, [account.id]: role }));
+                          } else {
+                            run(account, () => UserAccountService.changeRole(account, role), 'Role not changed');
+                          }
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm capitalize disabled:bg-gray-50"
+                      >
+                        {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <select
+                        value={account.staff_id ?? ''}
+                        disabled={busy}
+                        aria-label={`Staff record of ${accountName(account)}`}
+                        onChange={(e) => {
+                          const staffId = e.target.value || null;
+                          run(
+                            account,
+                            () => UserAccountService.linkStaff(account, staffId, staffId ? staff[staffId]?.personalInfo.name : undefined),
+                            'Staff record not linked'
+                          );
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                      >
+                        <option value="">Not linked</option>
+                        {staffOptions
+                          .filter(([id]) => id === account.staff_id || !linkedStaff.has(id))
+                          .map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatTimestamp(account.last_login_at, { fallback: 'Never' })}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        {status === 'pending' && (
+                          <button
+                            onClick={() => run(account, () => UserAccountService.approve(account, approvalRole), 'Account not approved')}
+                            disabled={busy}
+                            className="flex items-center px-2 py-1 text-green-700 bg-green-50 rounded-md hover:bg-green-100 disabled:opacity-50"
+                            title="Approve"
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </button>
+                        )}
+                        {status === 'deactivated' ? (
+                          <button
+                            onClick={() => handleSetActive(account, true)}
+                            disabled={busy}
+                            className="text-green-600 hover:text-green-900 p-1 rounded-md hover:bg-green-50 disabled:opacity-50"
+                            title="Reactivate"
+                          >
+                            <UserCheck className="h-5 w-5" />
+                          </button>
+                        ) : !self && (
+                          <button
+                            onClick={() => handleSetActive(account, false)}
+                            disabled={busy}
+                            className="text-red-600 hover:text-red-900 p-1 rounded-md hover:bg-red-50 disabled:opacity-50"
+                            title={status === 'pending' ? 'Reject' : 'Deactivate'}
+                          >
+                            <UserX className="h-5 w-5" />
+                          </button>
+                        )}
+                        {status !== 'pending' && (
+                          <button
+                            onClick={() => handleResetPassword(account)}
+                            disabled={busy}
+                            className="text-gray-600 hover:text-gray-900 p-1 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                            title="Reset password"
+                          >
+                            <KeyRound className="h-5 w-5" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-8">{loading ? 'Loading...' : 'No accounts match.'}</p>
+          )}
+        </div>
+      </div>
+
+      {inviting && (
+        <InviteDialog
+          staffOptions={staffOptions.filter(([id]) => !linkedStaff.has(id))}
+          onClose={() => setInviting(false)}
+          onInvited={(account, password) => {
+            setInviting(false);
+            setTemporaryPassword({ name: accountName(account), password });
+          }}
+        />
+      )}
+      {temporaryPassword && (
+        <TemporaryPasswordDialog
+          name={temporaryPassword.name}
+          password={temporaryPassword.password}
+          onClose={() => setTemporaryPassword(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UserAccounts;
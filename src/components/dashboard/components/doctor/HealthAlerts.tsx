@@ -1,19 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../../contexts/HospitalDataContext';
+import { useActiveAlerts, useEntities } from '../../../../store/hospitalSelectors';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
 import { AlertTriangle, Heart, CheckCircle, RefreshCw, X, User, MapPin, Calendar, Activity, Pill, AlertCircle } from 'lucide-react';
 import { Patient } from '../../../../api/types';
+import { compareTimestampsDesc, formatTimestamp } from '../../../../utils/dateUtils';
+import { useSearchParam } from '../../../../store/locationStore';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { acknowledgeAlert } from '../../../../api/escalation';
+import Can from '../../../auth/Can';
+import { EscalationBadge, EscalationHistory } from '../../../ui/AlertEscalation';
+import { SnoozeButton } from '../../../ui/AlertSnooze';
+import Sparkline from '../../../ui/Sparkline';
+import { groupAlerts, incidentSparkline } from '../../../../utils/alertCorrelation';
 
 const HealthAlerts: React.FC = () => {
-  const { getActiveAlerts, getCriticalPatients, refreshAlertsOnly } = useHospitalData();
-  const [filter, setFilter] = useState('all');
+  const { user } = useAuth();
+  const activeAlerts = useActiveAlerts();
+  const devices = useEntities('devices');
+  const { patients } = useAccessiblePatients();
+  const criticalPatients = Object.values(patients).filter(patient => patient.currentStatus?.status === 'critical');
+  const { refreshAlertsOnly } = useHospitalActions();
+  // In the address, so a filtered list can be reloaded, bookmarked and reached with back
+  const [filter, setFilter] = useSearchParam('severity', 'all');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  const activeAlerts = getActiveAlerts();
-  const criticalPatients = getCriticalPatients();
-
   // Filter and sort alerts based on selected filter (newest first)
   const filteredAlerts = activeAlerts
     .filter(alert => {
@@ -21,56 +35,11 @@ const HealthAlerts: React.FC = () => {
       if (filter === 'warning') return alert.alert.type === 'warning';
       return true; // 'all' - show all alerts
     })
-    .sort((a, b) => {
-      // Sort by timestamp in descending order (newest first)
-      const timestampA = a.alert.timestamp;
-      const timestampB = b.alert.timestamp;
-      
-      if (!timestampA || !timestampB) return 0;
-      
-      try {
-        let dateA: Date, dateB: Date;
-        
-        // Handle custom timestamp format (YYYY-MM-DD_HH-MM-SS)
-        if (typeof timestampA === 'string' && timestampA.includes('_')) {
-          const [datePart, timePart] = timestampA.split('_');
-          const [year, month, day] = datePart.split('-');
-          const [hour, minute, second] = timePart.split('-');
-          dateA = new Date(
-            parseInt(year), 
-            parseInt(month) - 1, 
-            parseInt(day), 
-            parseInt(hour), 
-            parseInt(minute), 
-            parseInt(second || '0')
-          );
-        } else {
-          dateA = new Date(timestampA);
-        }
-        
-        if (typeof timestampB === 'string' && timestampB.includes('_')) {
-          const [datePart, timePart] = timestampB.split('_');
-          const [year, month, day] = datePart.split('-');
-          const [hour, minute, second] = timePart.split('-');
-          dateB = new Date(
-            parseInt(year), 
-            parseInt(month) - 1, 
-            parseInt(day), 
-            parseInt(hour), 
-            parseInt(minute), 
-            parseInt(second || '0')
-          );
-        } else {
-          dateB = new Date(timestampB);
-        }
-        
-        // Return descending order (newest first)
-        return dateB.getTime() - dateA.getTime();
-      } catch (error) {
-        console.error('Error sorting alerts by timestamp:', error);
-        return 0;
-      }
-    });
+    .sort((a, b) => compareTimestampsDesc(a.alert.timestamp, b.alert.timestamp));
+
+  // Repeats of an alert are listed once, as an incident with a count, the most recently active first
+  const incidents = groupAlerts(filteredAlerts.map(item => ({ ...item.alert, deviceId: item.deviceId, item })))
+    .sort((a, b) => b.lastAt - a.lastAt);
 
   // Auto-refresh every 60 seconds (reduced from 30 seconds)
   useEffect(() => {
@@ -140,55 +109,6 @@ const HealthAlerts: React.FC = () => {
       .replace(/\b\w/g, (char) => char.toUpperCase()); // Capitalize first letter of each word
   };
 
-  // Helper function to safely format timestamps
-  const formatTimestamp = (timestamp: string | undefined | null): string => {
-    if (!timestamp) return 'No timestamp';
-    
-    try {
-      // Debug: log the timestamp being processed
-      console.log('HealthAlerts - Formatting timestamp:', timestamp);
-      
-      let date: Date;
-      
-      if (typeof timestamp === 'string' && timestamp.includes('_')) {
-        const [datePart, timePart] = timestamp.split('_');
-        const [year, month, day] = datePart.split('-');
-        const [hour, minute, second] = timePart.split('-');
-        date = new Date(
-          parseInt(year), 
-          parseInt(month) - 1, 
-          parseInt(day), 
-          parseInt(hour), 
-          parseInt(minute), 
-          parseInt(second || '0')
-        );
-      } else {
-        date = new Date(timestamp);
-      }
-      
-      if (isNaN(date.getTime())) {
-        console.warn('HealthAlerts - Invalid date created from timestamp:', timestamp);
-        return 'Invalid date';
-      }
-      
-      const result = date.toLocaleString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: true
-      });
-      
-      console.log('HealthAlerts - Formatted result:', result);
-      return result;
-    } catch (error) {
-      console.error('HealthAlerts - Error formatting timestamp:', timestamp, error);
-      return 'Invalid date format';
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -343,30 +263,61 @@ const HealthAlerts: React.FC = () => {
           </div>
         </div>
         <div className="divide-y divide-gray-200">
-          {filteredAlerts.length > 0 ? (
-            filteredAlerts.map((alert, index) => (
-              <div key={index} className="p-6 hover:bg-gray-50">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start space-x-3">
-                    <AlertTriangle className="h-5 w-5 text-yellow-600 mt-1" />
-                    <div>
-                      <h3 className="text-sm font-semibold text-gray-900">{alert.alert.message}</h3>
-                      <p className="text-sm text-gray-600">Device: {formatDeviceId(alert.deviceId)}</p>
-                      <p className="text-sm text-gray-500">
-                        {formatTimestamp(alert.alert.timestamp)}
-                      </p>
+          {incidents.length > 0 ? (
+            incidents.map(incident => {
+              const alert = incident.latest.item;
+              const unacknowledged = incident.alerts.filter(({ item }) => !item.alert.acknowledged);
+              return (
+                <div key={incident.id} className="p-6 hover:bg-gray-50">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-3">
+                      <AlertTriangle className="h-5 w-5 text-yellow-600 mt-1" />
+                      <div>
+                        <h3 className="text-sm font-semibold text-gray-900">
+                          {alert.alert.message}
+                          {incident.count > 1 && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                              ×{incident.count}
+                            </span>
+                          )}
+                        </h3>
+                        <p className="text-sm text-gray-600">Device: {formatDeviceId(alert.deviceId)}</p>
+                        <p className="text-sm text-gray-500">
+                          {incident.count > 1 && `${formatTimestamp(incident.firstAt)} – `}
+                          {formatTimestamp(alert.alert.timestamp)}
+                        </p>
+                        {incident.count > 1 && <Sparkline values={incidentSparkline(incident)} className="mt-1 text-yellow-600" />}
+                        <div className="mt-2">
+                          <EscalationBadge alert={alert.alert} />
+                        </div>
+                        <EscalationHistory history={alert.alert.escalationHistory} />
+                      </div>
+                    </div>
+                    <div className="flex items-start space-x-2">
+                      {!alert.alert.suppressedBy && (
+                        <SnoozeButton deviceId={alert.deviceId} patientId={devices[alert.deviceId]?.deviceInfo.currentPatientId} />
+                      )}
+                      {unacknowledged.length > 0 && (
+                        <Can permission="alert.acknowledge">
+                          <button
+                            onClick={() => unacknowledged.forEach(({ item }) =>
+                              acknowledgeAlert(item.deviceId, item.alertId, user?.name, item.alert.message))}
+                            className="px-3 py-1 bg-orange-500 text-white text-xs rounded hover:bg-orange-600"
+                          >
+                            Acknowledge
+                          </button>
+                        </Can>
+                      )}
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        alert.alert.type === 'critical' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {alert.alert.type}
+                      </span>
                     </div>
-                  </div>
-                  <div className="flex space-x-2">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      alert.alert.type === 'critical' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
-                    }`}>
-                      {alert.alert.type}
-                    </span>
                   </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           ) : (
             <div className="p-8 text-center">
               <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
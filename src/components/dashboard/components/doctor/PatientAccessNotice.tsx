@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { Lock, ShieldAlert } from 'lucide-react';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
+import EmergencyAccessDialog from '../../../auth/EmergencyAccessDialog';
+
+// Says that only the doctor's own patients are shown, with the way to others in an emergency
+const PatientAccessNotice: React.FC = () => {
+  const { patients, restricted } = useAccessiblePatients();
+  const [requesting, setRequesting] = useState(false);
+
+  if (!restricted) return null;
+
+  const count = Object.keys(patients).length;
+
+  return (
+    <>
+      <div className="flex items-center bg-white border border-gray-200 rounded-lg px-4 py-3 text-sm text-gray-700">
+        <Lock className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+        <span>
+          Showing the {count} patient{count === 1 ? '' : 's'} assigned to you. Other records open only with emergency access.
+        </span>
+        <button
+          onClick={() => setRequesting(true)}
+          className="ml-auto flex items-center space-x-1 px-3 py-1.5 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 whitespace-nowrap"
+        >
+          <ShieldAlert className="h-4 w-4" />
+          <span>Emergency access</span>
+        </button>
+      </div>
+      {requesting && <EmergencyAccessDialog onClose={() => setRequesting(false)} />}
+    </>
+  );
+};
+
+export default PatientAccessNotice;
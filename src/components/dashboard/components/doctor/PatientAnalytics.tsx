@@ -1,16 +1,17 @@
 import React from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
 import { TrendingUp, TrendingDown, BarChart3, PieChart } from 'lucide-react';
 
 const PatientAnalytics: React.FC = () => {
-  const { patients, getCriticalPatients } = useHospitalData();
+  const { patients } = useAccessiblePatients();
 
   // Convert Record to array for calculations
   const patientsArray = Object.values(patients);
+  const criticalPatients = patientsArray.filter(patient => patient.currentStatus?.status === 'critical');
 
   const analytics = {
     totalPatients: patientsArray.length,
-    criticalPatients: getCriticalPatients().length,
+    criticalPatients: criticalPatients.length,
     averageAge: patientsArray.length > 0 
       ? Math.round(patientsArray.reduce((sum, p) => sum + p.personalInfo.age, 0) / patientsArray.length)
       : 0,
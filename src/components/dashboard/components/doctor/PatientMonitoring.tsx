@@ -1,14 +1,41 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
-import { getLatestVitals, getPatientLatestVitals } from '../../../../utils/deviceUtils';
+import { useEntities } from '../../../../store/hospitalSelectors';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
+import { getLatestVitals, getPatientLatestVitals, getPatientVitalHistory } from '../../../../utils/deviceUtils';
 import { VitalReading } from '../../../../api/types';
-import { Search, Heart, Activity, Thermometer, Droplets, Brain, Loader, RefreshCw } from 'lucide-react';
-import { API_BASE_URL } from '../../../../api/config';
+import { Search, Heart, Activity, Thermometer, Droplets, Brain, Loader, RefreshCw, Monitor, SlidersHorizontal } from 'lucide-react';
+import Api from '../../../../api/api';
+import { API_BASE_URL, ENDPOINTS } from '../../../../api/config';
 import { useRealTimeVitals } from '../../../../api/hooks/useRealTimeVitals';
+import { useVitalThresholds } from '../../../../api/hooks/useVitalThresholds';
+import {
+  VitalField,
+  VitalLevel,
+  VitalsAssessment,
+  describeRule,
+  evaluateVitals,
+  fieldLevel,
+  thresholdRulesFor,
+} from '../../../../api/vitalThresholds';
+import { formatTimestamp as formatDateTime } from '../../../../utils/dateUtils';
+import { patientMonitoringPath } from '../../../../utils/routes';
+import RouteLink from '../../../ui/RouteLink';
+import Can from '../../../auth/Can';
+import VitalThresholdEditor from './VitalThresholdEditor';
+
+const VITAL_LEVEL_COLORS: Record<VitalLevel, string> = {
+  normal: 'text-green-600',
+  warning: 'text-yellow-600',
+  critical: 'text-red-600',
+};
 
 const PatientMonitoring: React.FC = () => {
-  const { patients, iotDevices } = useHospitalData();
+  const { patients } = useAccessiblePatients();
+  const iotDevices = useEntities('devices');
   const [searchTerm, setSearchTerm] = useState('');
+  // Patient whose thresholds are being edited
+  const [editingThresholds, setEditingThresholds] = useState<string | null>(null);
+  const { thresholds } = useVitalThresholds();
   const [loadingPredictions, setLoadingPredictions] = useState<Record<string, boolean>>({});
   const [predictionResults, setPredictionResults] = useState<Record<string, any>>(() => {
     // Initialize from localStorage to persist across view switches
@@ -196,27 +223,17 @@ const PatientMonitoring: React.FC = () => {
   const getHealthPrediction = async (patientId: string) => {
     setLoadingPredictions(prev => ({ ...prev, [patientId]: true }));
     
-    const apiUrl = `${API_BASE_URL}/predict/risk/${patientId}`;
-    console.log('Making API call to:', apiUrl);
-    
     try {
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const response = await Api.get(ENDPOINTS.predict.risk(patientId));
 
       console.log('API Response status:', response.status);
-      console.log('API Response headers:', response.headers);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`);
+      if (response.error) {
+        console.error('API Error response:', response.error);
+        throw new Error(`HTTP error! status: ${response.status}, message: ${response.error?.message}`);
       }
 
-      const result = await response.json();
+      const result = response.data;
       
       console.log('Full API response for patient', patientId, ':', result);
       console.log('Response keys:', Object.keys(result));
@@ -255,60 +272,9 @@ const PatientMonitoring: React.FC = () => {
     }
   };
 
-  // Helper function to safely format timestamps in Pakistan Standard Time (PST - UTC+5)
-  const formatTimestamp = (timestamp: string | undefined | null): string => {
-    if (!timestamp) return 'No data available';
-    
-    try {
-      // Debug: log the timestamp being processed
-      console.log('Formatting timestamp:', timestamp);
-      
-      // Handle different timestamp formats
-      let date: Date;
-      
-      // If timestamp contains underscore (backend format: YYYY-MM-DD_HH-MM-SS)
-      if (typeof timestamp === 'string' && timestamp.includes('_')) {
-        const [datePart, timePart] = timestamp.split('_');
-        const [year, month, day] = datePart.split('-');
-        const [hour, minute, second] = timePart.split('-');
-        date = new Date(
-          parseInt(year), 
-          parseInt(month) - 1, // Month is 0-indexed in JavaScript
-          parseInt(day), 
-          parseInt(hour), 
-          parseInt(minute), 
-          parseInt(second || '0') // Handle cases where seconds might be missing
-        );
-      } else {
-        // Standard ISO format or other formats
-        date = new Date(timestamp);
-      }
-      
-      // Check if date is valid
-      if (isNaN(date.getTime())) {
-        console.warn('Invalid date created from timestamp:', timestamp);
-        return 'Invalid date';
-      }
-      
-      // Format in Pakistan Standard Time (UTC+5)
-      const result = date.toLocaleString('en-PK', {
-        timeZone: 'Asia/Karachi',
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: true
-      });
-      
-      console.log('Formatted result (PST):', result);
-      return `${result} PST`;
-    } catch (error) {
-      console.error('Error formatting timestamp:', timestamp, error);
-      return 'Invalid date format';
-    }
-  };
+  // Timestamps are shown in the hospital time zone with its abbreviation
+  const formatTimestamp = (timestamp: string | undefined | null): string =>
+    formatDateTime(timestamp, { showTimeZone: true });
 
   const filteredPatients = patientsEntries.filter(([_patientId, patient]) =>
     patient.personalInfo.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -327,21 +293,16 @@ const PatientMonitoring: React.FC = () => {
     }
   };
 
-  const getVitalStatus = (vital: number, type: string) => {
-    switch (type) {
-      case 'heartRate':
-        if (vital < 60 || vital > 100) return 'text-red-600';
-        return 'text-green-600';
-      case 'oxygenLevel':
-        if (vital < 95) return 'text-red-600';
-        return 'text-green-600';
-      case 'temperature':
-        if (vital < 97 || vital > 99.5) return 'text-red-600';
-        return 'text-green-600';
-      default:
-        return 'text-gray-600';
-    }
-  };
+  // Colour of a vital sign by the thresholds that apply to the patient
+  const getVitalStatus = (assessment: VitalsAssessment, field: VitalField | 'bloodPressure') =>
+    VITAL_LEVEL_COLORS[fieldLevel(assessment, field)];
+
+  // The rule a vital sign breaches, as a tooltip
+  const getVitalRule = (assessment: VitalsAssessment, ...fields: VitalField[]) =>
+    fields.flatMap(field => {
+      const breach = assessment.fields[field];
+      return breach ? [describeRule(breach.rule)] : [];
+    }).join(', ') || undefined;
 
   return (
     <div className="space-y-6">
@@ -363,13 +324,7 @@ const PatientMonitoring: React.FC = () => {
             </button>
             <div className="text-right">
               <div className="text-sm text-gray-500">
-                Live monitoring • Last updated: {new Date().toLocaleString('en-PK', {
-                  timeZone: 'Asia/Karachi',
-                  hour: '2-digit',
-                  minute: '2-digit',
-                  second: '2-digit',
-                  hour12: true
-                })} PST
+                Live monitoring • Last updated: {formatDateTime(new Date(), { style: 'time', showTimeZone: true })}
               </div>
               {vitalsError && (
                 <div className="text-xs text-red-500 mt-1">
@@ -427,6 +382,12 @@ const PatientMonitoring: React.FC = () => {
           });
           const deviceId = device ? Object.keys(iotDevices).find(id => iotDevices[id] === device) : null;
           const isRealTimeVitals = deviceId && realTimeVitals[deviceId];
+
+          // Sustained rules need the readings leading up to the latest one
+          const assessment = evaluateVitals(
+            [...(device ? getPatientVitalHistory(device, patientId) : []), ...(vitals ? [vitals] : [])],
+            thresholdRulesFor(thresholds, patientId, patient.personalInfo.ward)
+          );
           
           // More detailed debugging
           console.log(`=== Patient ${patientId} Debug Info ===`);
@@ -515,6 +476,22 @@ const PatientMonitoring: React.FC = () => {
                     <span className={`px-3 py-1 rounded-full text-sm font-medium border ${getRiskLevelColor(riskLevel)}`}>
                       {riskLevel} Risk
                     </span>
+                    <RouteLink
+                      to={patientMonitoringPath(patientId)}
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <Monitor className="h-3 w-3 mr-1" />
+                      Live Monitoring
+                    </RouteLink>
+                    <Can permission="vitals.thresholds">
+                      <button
+                        onClick={() => setEditingThresholds(editingThresholds === patientId ? null : patientId)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200"
+                      >
+                        <SlidersHorizontal className="h-3 w-3 mr-1" />
+                        Thresholds
+                      </button>
+                    </Can>
                     <button
                       onClick={() => getHealthPrediction(patientId)}
                       disabled={isLoadingPrediction}
@@ -556,7 +533,7 @@ const PatientMonitoring: React.FC = () => {
                               <Heart className="h-4 w-4 text-red-600" />
                               <span className="text-sm font-medium text-red-800">Heart Rate</span>
                             </div>
-                            <span className={`text-lg font-bold ${getVitalStatus(vitals.heartRate, 'heartRate')}`}>
+                            <span className={`text-lg font-bold ${getVitalStatus(assessment, 'heartRate')}`} title={getVitalRule(assessment, 'heartRate')}>
                               {vitals.heartRate.toFixed(0)}
                             </span>
                           </div>
@@ -569,7 +546,7 @@ const PatientMonitoring: React.FC = () => {
                               <Droplets className="h-4 w-4 text-blue-600" />
                               <span className="text-sm font-medium text-blue-800">Oxygen</span>
                             </div>
-                            <span className={`text-lg font-bold ${getVitalStatus(vitals.oxygenLevel, 'oxygenLevel')}`}>
+                            <span className={`text-lg font-bold ${getVitalStatus(assessment, 'oxygenLevel')}`} title={getVitalRule(assessment, 'oxygenLevel')}>
                               {vitals.oxygenLevel.toFixed(0)}
                             </span>
                           </div>
@@ -582,7 +559,7 @@ const PatientMonitoring: React.FC = () => {
                               <Thermometer className="h-4 w-4 text-orange-600" />
                               <span className="text-sm font-medium text-orange-800">Temperature</span>
                             </div>
-                            <span className={`text-lg font-bold ${getVitalStatus(vitals.temperature, 'temperature')}`}>
+                            <span className={`text-lg font-bold ${getVitalStatus(assessment, 'temperature')}`} title={getVitalRule(assessment, 'temperature')}>
                               {vitals.temperature.toFixed(1)}
                             </span>
                           </div>
@@ -595,7 +572,10 @@ const PatientMonitoring: React.FC = () => {
                               <Activity className="h-4 w-4 text-green-600" />
                               <span className="text-sm font-medium text-green-800">Blood Pressure</span>
                             </div>
-                            <span className="text-lg font-bold text-green-800">
+                            <span
+                              className={`text-lg font-bold ${getVitalStatus(assessment, 'bloodPressure')}`}
+                              title={getVitalRule(assessment, 'systolic', 'diastolic')}
+                            >
                               {Math.round(vitals.bloodPressure.systolic)}/{Math.round(vitals.bloodPressure.diastolic)}
                             </span>
                           </div>
@@ -704,6 +684,14 @@ const PatientMonitoring: React.FC = () => {
                     <p className="text-sm text-gray-500">This patient doesn't have a monitoring device assigned</p>
                   </div>
                 )}
+                {editingThresholds === patientId && (
+                  <VitalThresholdEditor
+                    patientId={patientId}
+                    patientName={patient.personalInfo.name}
+                    ward={patient.personalInfo.ward}
+                    onClose={() => setEditingThresholds(null)}
+                  />
+                )}
               </div>
             </div>
           );
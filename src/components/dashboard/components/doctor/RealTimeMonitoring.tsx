@@ -1,76 +1,34 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useEntities, useHospitalLoadState } from '../../../../store/hospitalSelectors';
+import { useAccessiblePatients } from '../../../../hooks/useAccessiblePatients';
 import { Activity, Heart, Thermometer, Droplets, Battery, Wifi, WifiOff, RefreshCw } from 'lucide-react';
 import { useRealTimeVitals } from '../../../../api/hooks/useRealTimeVitals';
-import { getLatestVitals, getPatientLatestVitals, isVitalReading } from '../../../../utils/deviceUtils';
+import { useVitalThresholds } from '../../../../api/hooks/useVitalThresholds';
+import { VitalField, VitalLevel, VitalsAssessment, evaluateVitals, fieldLevel, thresholdRulesFor } from '../../../../api/vitalThresholds';
+import { getLatestVitals, getPatientLatestVitals, getPatientVitalHistory, isVitalReading } from '../../../../utils/deviceUtils';
 import { VitalReading } from '../../../../api/types';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+import { httpError } from '../../../../api/errors';
+import { viewPath } from '../../../../utils/routes';
+import ApiErrorState from '../../../ui/ApiErrorState';
+import RouteLink from '../../../ui/RouteLink';
 
-const formatTimestamp = (timestamp: string | undefined | null): string => {
-  if (!timestamp) {
-    console.log('Timestamp is null/undefined, using current time');
-    return new Date().toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-  }
-  
-  try {
-    let date: Date;
-    
-    // Handle different timestamp formats
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      // Backend format: YYYY-MM-DD_HH-MM-SS
-      const [datePart, timePart] = timestamp.split('_');
-      const [year, month, day] = datePart.split('-');
-      const [hour, minute, second] = timePart.split('-');
-      date = new Date(
-        parseInt(year), 
-        parseInt(month) - 1, 
-        parseInt(day), 
-        parseInt(hour), 
-        parseInt(minute), 
-        parseInt(second || '0')
-      );
-    } else {
-      // ISO format or other standard formats
-      date = new Date(timestamp);
-    }
-    
-    // Check if date is valid
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date, using current time instead');
-      date = new Date();
-    }
-    
-    // Return simplified format for better display
-    return date.toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-    
-  } catch (error) {
-    console.error('Error formatting timestamp, using current time:', error);
-    return new Date().toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
-  }
+const VITAL_LEVEL_COLORS: Record<VitalLevel, string> = {
+  normal: 'text-green-600',
+  warning: 'text-yellow-600',
+  critical: 'text-red-600',
 };
 
-const RealTimeMonitoring: React.FC = () => {
-  const { patients, iotDevices } = useHospitalData();
+interface RealTimeMonitoringProps {
+  // From /doctor/patients/:patientId/monitoring: only the monitor of this patient
+  patientId?: string;
+}
+
+const RealTimeMonitoring: React.FC<RealTimeMonitoringProps> = ({ patientId: focusedPatientId }) => {
+  const { patients } = useAccessiblePatients();
+  const iotDevices = useEntities('devices');
+  const { loading } = useHospitalLoadState();
+  const { thresholds } = useVitalThresholds();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -82,7 +40,7 @@ const RealTimeMonitoring: React.FC = () => {
   }, []);
 
   // Convert Record objects to arrays
-  const patientsArray = Object.entries(patients);
+  const patientsArray = Object.entries(patients).filter(([patientId]) => !focusedPatientId || patientId === focusedPatientId);
   const iotDevicesArray = Object.values(iotDevices);
 
   // Get device IDs for real-time monitoring
@@ -168,34 +126,45 @@ const RealTimeMonitoring: React.FC = () => {
 
 
 
-  const getVitalStatus = (vital: number, type: string) => {
-    switch (type) {
-      case 'heartRate':
-        if (vital < 60) return { status: 'low', color: 'text-blue-600' };
-        if (vital > 100) return { status: 'high', color: 'text-red-600' };
-        return { status: 'normal', color: 'text-green-600' };
-      case 'oxygenLevel':
-        if (vital < 95) return { status: 'low', color: 'text-red-600' };
-        if (vital < 98) return { status: 'warning', color: 'text-yellow-600' };
-        return { status: 'normal', color: 'text-green-600' };
-      case 'temperature':
-        if (vital < 97 || vital > 99.5) return { status: 'abnormal', color: 'text-red-600' };
-        return { status: 'normal', color: 'text-green-600' };
-      default:
-        return { status: 'unknown', color: 'text-gray-600' };
-    }
+  // Latest vitals of a patient against their thresholds, with the readings before for sustained rules
+  const assessPatient = (patientId: string, vitals: VitalReading) => {
+    const device = getPatientDevice(patientId);
+    return evaluateVitals(
+      [...(device ? getPatientVitalHistory(device, patientId) : []), vitals],
+      thresholdRulesFor(thresholds, patientId, patients[patientId]?.personalInfo.ward)
+    );
   };
 
-  const getBPStatus = (systolic: number, diastolic: number) => {
-    if (systolic > 140 || diastolic > 90) return { status: 'high', color: 'text-red-600' };
-    if (systolic < 90 || diastolic < 60) return { status: 'low', color: 'text-blue-600' };
-    return { status: 'normal', color: 'text-green-600' };
+  const getVitalStatus = (assessment: VitalsAssessment, field: VitalField | 'bloodPressure') => {
+    const status = fieldLevel(assessment, field);
+    return { status, color: VITAL_LEVEL_COLORS[status] };
   };
 
+  const focusedPatient = focusedPatientId ? patients[focusedPatientId] : undefined;
+
+  if (focusedPatientId && !focusedPatient && !loading) {
+    return (
+      <ApiErrorState error={httpError(404, 'This patient is not among the patients you can open')}>
+        <RouteLink to={viewPath('doctor', 'monitoring')} className="text-sm text-blue-600 hover:text-blue-800">
+          Show all monitored patients
+        </RouteLink>
+      </ApiErrorState>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold text-gray-900">Real-Time Patient Monitoring</h1>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {focusedPatient ? `Real-Time Monitoring: ${focusedPatient.personalInfo.name}` : 'Real-Time Patient Monitoring'}
+          </h1>
+          {focusedPatient && (
+            <RouteLink to={viewPath('doctor', 'monitoring')} className="text-sm text-blue-600 hover:text-blue-800">
+              Show all monitored patients
+            </RouteLink>
+          )}
+        </div>
         <div className="text-right flex items-center space-x-4">
           <button
             onClick={refreshVitals}
@@ -244,10 +213,7 @@ const RealTimeMonitoring: React.FC = () => {
               const vitals = getPatientVitals(patientId);
               if (!vitals) return false;
               
-              const hr = getVitalStatus(vitals.heartRate, 'heartRate');
-              const o2 = getVitalStatus(vitals.oxygenLevel, 'oxygenLevel');
-              const temp = getVitalStatus(vitals.temperature, 'temperature');
-              return hr.status === 'normal' && o2.status === 'normal' && temp.status === 'normal';
+              return assessPatient(patientId, vitals).level === 'normal';
             }).length}
           </p>
           <p className="text-xs text-gray-500 mt-1">Within normal range</p>
@@ -259,10 +225,7 @@ const RealTimeMonitoring: React.FC = () => {
               const vitals = getPatientVitals(patientId);
               if (!vitals) return false;
               
-              const hr = getVitalStatus(vitals.heartRate, 'heartRate');
-              const o2 = getVitalStatus(vitals.oxygenLevel, 'oxygenLevel');
-              const temp = getVitalStatus(vitals.temperature, 'temperature');
-              return hr.status === 'normal' && o2.status === 'normal' && temp.status === 'normal';
+              return assessPatient(patientId, vitals).level === 'normal';
             }).length}
           </p>
           <p className="text-xs text-gray-500 mt-1">Abnormal readings</p>
@@ -281,10 +244,11 @@ const RealTimeMonitoring: React.FC = () => {
           const deviceId = getDeviceId(device);
           const isLiveData = Boolean(realTimeVitals[deviceId]);
 
-          const hrStatus = getVitalStatus(vitals.heartRate, 'heartRate');
-          const o2Status = getVitalStatus(vitals.oxygenLevel, 'oxygenLevel');
-          const tempStatus = getVitalStatus(vitals.temperature, 'temperature');
-          const bpStatus = getBPStatus(vitals.bloodPressure.systolic, vitals.bloodPressure.diastolic);
+          const assessment = assessPatient(patientId, vitals);
+          const hrStatus = getVitalStatus(assessment, 'heartRate');
+          const o2Status = getVitalStatus(assessment, 'oxygenLevel');
+          const tempStatus = getVitalStatus(assessment, 'temperature');
+          const bpStatus = getVitalStatus(assessment, 'bloodPressure');
 
           return (
             <div key={patientId} className={`bg-white rounded-lg shadow-sm border overflow-hidden ${
@@ -379,7 +343,7 @@ const RealTimeMonitoring: React.FC = () => {
                     <span className="text-gray-600">Last Update:</span>
                     <div className="flex items-center space-x-2">
                       <span className="text-gray-900">
-                        {formatTimestamp(vitals?.timestamp || lastUpdated[deviceId])}
+                        {formatTimestamp(vitals?.timestamp || lastUpdated[deviceId], { style: 'short' })}
                       </span>
                       {isLiveData && (
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">
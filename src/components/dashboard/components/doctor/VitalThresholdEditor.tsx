@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { describeApiError } from '../../../../api/errors';
+import { useVitalThresholds } from '../../../../api/hooks/useVitalThresholds';
+import {
+  ThresholdRule,
+  VITAL_FIELDS,
+  VITAL_FIELD_INFO,
+  VitalField,
+  describeRule,
+  thresholdRulesFor,
+  updatePatientThresholds,
+  updateWardThresholds,
+} from '../../../../api/vitalThresholds';
+
+const MINUTE_OPTIONS = [0, 1, 2, 5, 10, 15, 30, 60];
+
+const SOURCE_LABELS = { patient: 'this patient', ward: 'ward default', default: 'built-in' };
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const RuleRow: React.FC<{
+  rule: ThresholdRule;
+  disabled: boolean;
+  onChange: (rule: ThresholdRule) => void;
+  onRemove: () => void;
+}> = ({ rule, disabled, onChange, onRemove }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <select
+      aria-label="Vital sign"
+      value={rule.field}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...rule, field: e.target.value as VitalField })}
+      className={inputClass}
+    >
+      {VITAL_FIELDS.map(field => (
+        <option key={field} value={field}>{VITAL_FIELD_INFO[field].label}</option>
+      ))}
+    </select>
+    <select
+      aria-label="Comparison"
+      value={rule.operator}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...rule, operator: e.target.value as ThresholdRule['operator'] })}
+      className={inputClass}
+    >
+      <option value=">">above</option>
+      <option value="<">below</option>
+    </select>
+    <input
+      aria-label="Threshold"
+      type="number"
+      step="any"
+      value={Number.isFinite(rule.value) ? rule.value : ''}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...rule, value: e.target.value === '' ? Number.NaN : Number(e.target.value) })}
+      className={`${inputClass} w-20`}
+    />
+    <span className="text-xs text-gray-500">{VITAL_FIELD_INFO[rule.field].unit}</span>
+    <select
+      aria-label="Lasting"
+      value={rule.for_minutes}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...rule, for_minutes: Number(e.target.value) })}
+      className={inputClass}
+    >
+      {MINUTE_OPTIONS.map(minutes => (
+        <option key={minutes} value={minutes}>{minutes === 0 ? 'right away' : `for ${minutes} min`}</option>
+      ))}
+    </select>
+    <select
+      aria-label="Level"
+      value={rule.level}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...rule, level: e.target.value as ThresholdRule['level'] })}
+      className={inputClass}
+    >
+      <option value="warning">Warning</option>
+      <option value="critical">Critical</option>
+    </select>
+    <button
+      onClick={onRemove}
+      disabled={disabled}
+      aria-label="Remove rule"
+      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+    >
+      <Trash2 className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+// Rules of one patient or ward, edited as a draft and saved together
+const RuleListEditor: React.FC<{
+  title: string;
+  hint: string;
+  rules: ThresholdRule[];
+  disabled: boolean;
+  onSave: (rules: ThresholdRule[]) => Promise<string | null>;
+}> = ({ title, hint, rules, disabled, onSave }) => {
+  const [draft, setDraft] = useState<ThresholdRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const shown = draft ?? rules;
+  const valid = shown.every(rule => Number.isFinite(rule.value));
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    const message = await onSave(draft);
+    setSaving(false);
+    setError(message);
+    if (!message) setDraft(null);
+  };
+
+  return (
+    <div>
+      <h5 className="text-sm font-medium text-gray-800">{title}</h5>
+      <p className="text-xs text-gray-500 mb-2">{hint}</p>
+      <div className="space-y-2">
+        {shown.map((rule, index) => (
+          <RuleRow
+            key={index}
+            rule={rule}
+            disabled={disabled || saving}
+            onChange={changed => setDraft(shown.map((other, at) => (at === index ? changed : other)))}
+            onRemove={() => setDraft(shown.filter((_, at) => at !== index))}
+          />
+        ))}
+      </div>
+      <div className="mt-2 flex items-center space-x-2">
+        <button
+          onClick={() => setDraft([...shown, { field: 'heartRate', operator: '>', value: 120, level: 'warning', for_minutes: 5 }])}
+          disabled={disabled || saving}
+          className="inline-flex items-center px-2 py-1 text-xs text-blue-700 hover:bg-blue-50 rounded disabled:opacity-50"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add rule
+        </button>
+        {draft && (
+          <>
+            <button
+              onClick={save}
+              disabled={disabled || saving || !valid}
+              className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              disabled={saving}
+              className="px-3 py-1 text-gray-700 text-xs rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+interface VitalThresholdEditorProps {
+  patientId: string;
+  patientName: string;
+  ward?: string;
+  onClose: () => void;
+}
+
+/**
+ * Vital sign thresholds of a patient and the defaults of their ward. A field with rules of the
+ * patient ignores the ward's, and a field with ward rules ignores the built-in ones.
+ */
+export const VitalThresholdEditor: React.FC<VitalThresholdEditorProps> = ({ patientId, patientName, ward, onClose }) => {
+  const { thresholds, loaded, error } = useVitalThresholds();
+  const patientRules = thresholds.patients[patientId] ?? [];
+  const wardRules = (ward && thresholds.wards[ward]) || [];
+  const applied = thresholdRulesFor(thresholds, patientId, ward);
+
+  const savePatient = async (rules: ThresholdRule[]) => {
+    const response = await updatePatientThresholds(patientId, rules, patientName, patientRules);
+    return response.error ? describeApiError(response.error) : null;
+  };
+
+  const saveWard = async (rules: ThresholdRule[]) => {
+    if (!ward) return null;
+    const response = await updateWardThresholds(ward, rules, wardRules);
+    return response.error ? describeApiError(response.error) : null;
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+          <SlidersHorizontal className="h-4 w-4 mr-2 text-blue-600" />
+          Vital Sign Thresholds
+        </h4>
+        <button onClick={onClose} aria-label="Close thresholds" className="p-1 text-gray-400 hover:text-gray-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700">{describeApiError(error)} The built-in thresholds are shown.</p>}
+      <RuleListEditor
+        title={patientName}
+        hint="Replace the ward's thresholds for the vital signs these rules cover."
+        rules={patientRules}
+        disabled={!loaded}
+        onSave={savePatient}
+      />
+      {ward && (
+        <RuleListEditor
+          title={`${ward} ward defaults`}
+          hint="Apply to every patient of the ward, replacing the built-in thresholds for the vital signs they cover."
+          rules={wardRules}
+          disabled={!loaded}
+          onSave={saveWard}
+        />
+      )}
+      <div>
+        <h5 className="text-sm font-medium text-gray-800">In effect</h5>
+        <ul className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-x-4 text-xs text-gray-600">
+          {applied.map((rule, index) => (
+            <li key={index}>
+              <span className={rule.level === 'critical' ? 'text-red-700' : 'text-yellow-700'}>{describeRule(rule)}</span>
+              {' '}({rule.level}, {SOURCE_LABELS[rule.source]})
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default VitalThresholdEditor;
@@ -1,14 +1,19 @@
 import React from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useEntities } from '../../../../store/hospitalSelectors';
 import { Bed, Users, Thermometer, RefreshCw } from 'lucide-react';
 import { IoTDevice } from '../../../../api/types';
+import { formatTimestamp } from '../../../../utils/dateUtils';
+import { initials } from '../../../../utils/privacy';
+import { usePrivacyMode } from '../../../../hooks/usePrivacyMode';
+import Masked from '../../../ui/Masked';
 
 interface RoomStatusProps {
   roomDevices: [string, IoTDevice][];
 }
 
 const RoomStatus: React.FC<RoomStatusProps> = ({ roomDevices }) => {
-  const { patients } = useHospitalData();
+  const patients = useEntities('patients');
+  const privacy = usePrivacyMode('room-status');
 
   const getDeviceStatusColor = (status: 'online' | 'offline' | 'maintenance') => {
     switch (status) {
@@ -64,7 +69,11 @@ const RoomStatus: React.FC<RoomStatusProps> = ({ roomDevices }) => {
                         <Users className="h-5 w-5 text-green-600" />
                         <div>
                           <p className="text-sm font-medium text-gray-600">Patient</p>
-                          <p className="text-sm text-gray-900">{patient.personalInfo.name}</p>
+                          <p className="text-sm text-gray-900">
+                            <Masked mode={privacy} mask={initials(patient.personalInfo.name)}>
+                              {patient.personalInfo.name}
+                            </Masked>
+                          </p>
                         </div>
                       </div>
                     )}
@@ -86,7 +95,7 @@ const RoomStatus: React.FC<RoomStatusProps> = ({ roomDevices }) => {
                       <div>
                         <p className="text-sm font-medium text-gray-600">Last Updated</p>
                         <p className="text-sm text-gray-900">
-                          {latestVitals ? new Date(latestVitals.timestamp).toLocaleTimeString() : 'N/A'}
+                          {latestVitals ? formatTimestamp(latestVitals.timestamp, { style: 'time' }) : 'N/A'}
                         </p>
                       </div>
                     </div>
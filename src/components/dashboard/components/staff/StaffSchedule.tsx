@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useEntities } from '../../../../store/hospitalSelectors';
 import { Calendar, Clock, MapPin, Users } from 'lucide-react';
+import { formatTimestamp } from '../../../../utils/dateUtils';
 
 interface StaffScheduleProps {
   staffId?: string;
@@ -9,7 +10,7 @@ interface StaffScheduleProps {
 
 const StaffSchedule: React.FC<StaffScheduleProps> = ({ staffId }) => {
   const { user } = useAuth();
-  const { staff } = useHospitalData();
+  const staff = useEntities('staff');
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
 
   const currentStaff = staffId ? staff[staffId] : undefined;
@@ -143,8 +144,8 @@ const StaffSchedule: React.FC<StaffScheduleProps> = ({ staffId }) => {
                     <div>
                       <p className="text-sm font-medium text-gray-600">Shift Hours</p>
                       <p className="text-lg font-semibold text-gray-900">
-                        {new Date(scheduleData.shiftStart).toLocaleTimeString()} - 
-                        {new Date(scheduleData.shiftEnd).toLocaleTimeString()}
+                        {formatTimestamp(scheduleData.shiftStart, { style: 'time' })} - 
+                        {formatTimestamp(scheduleData.shiftEnd, { style: 'time' })}
                       </p>
                     </div>
                   </div>
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { useHospitalData } from '../../../../contexts/HospitalDataContext';
+import { useEntities } from '../../../../store/hospitalSelectors';
+import { useStaff } from '../../../../api/hooks/useStaff';
+import { TaskStatus } from '../../../../api/staffService';
 import { CheckCircle, Clock, AlertCircle, Calendar } from 'lucide-react';
 
 interface TaskListProps {
@@ -11,7 +13,7 @@ interface Task {
   title: string;
   description: string;
   priority: 'high' | 'medium' | 'low';
-  status: 'pending' | 'in_progress' | 'completed';
+  status: TaskStatus;
   dueDate: string;
   assignedTo: string;
   patientId?: string;
@@ -19,8 +21,11 @@ interface Task {
 }
 
 const TaskList: React.FC<TaskListProps> = ({ staffId }) => {
-  const { patients } = useHospitalData();
+  const patients = useEntities('patients');
+  const { updateTaskStatus } = useStaff();
   const [filter, setFilter] = useState<'all' | 'pending' | 'in_progress' | 'completed'>('all');
+  // Status changes made here, applied over the task data until it is reloaded
+  const [statusChanges, setStatusChanges] = useState<Record<string, TaskStatus>>({});
 
   // Mock tasks - in a real app, this would come from the backend
   const mockTasks: Task[] = [
@@ -76,7 +81,20 @@ const TaskList: React.FC<TaskListProps> = ({ staffId }) => {
     }
   };
 
-  const filteredTasks = mockTasks.filter(task => 
+  // Saved right away, or queued while the backend is unreachable
+  const changeStatus = async (task: Task, status: TaskStatus) => {
+    setStatusChanges(prev => ({ ...prev, [task.id]: status }));
+    if (!staffId) return;
+
+    const saved = await updateTaskStatus(staffId, task.id, status);
+    if (!saved) {
+      setStatusChanges(prev => ({ ...prev, [task.id]: task.status }));
+    }
+  };
+
+  const tasks = mockTasks.map(task => ({ ...task, status: statusChanges[task.id] ?? task.status }));
+
+  const filteredTasks = tasks.filter(task => 
     filter === 'all' ? true : task.status === filter
   );
 
@@ -142,12 +160,18 @@ const TaskList: React.FC<TaskListProps> = ({ staffId }) => {
             {task.status !== 'completed' && (
               <div className="mt-4 flex justify-end space-x-2">
                 {task.status === 'pending' && (
-                  <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium">
+                  <button
+                    onClick={() => changeStatus(task, 'in_progress')}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium"
+                  >
                     Start Task
                   </button>
                 )}
                 {task.status === 'in_progress' && (
-                  <button className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm font-medium">
+                  <button
+                    onClick={() => changeStatus(task, 'completed')}
+                    className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm font-medium"
+                  >
                     Complete Task
                   </button>
                 )}
@@ -1,14 +1,22 @@
-import React from 'react';
-import { useHospitalData } from '../../../contexts/HospitalDataContext';
-import { useRealTimeAlerts } from '../../../hooks/useRealTimeAlerts';
+import React, { useCallback, useState } from 'react';
+import { useAccessiblePatients } from '../../../hooks/useAccessiblePatients';
+import { AlertWithDevice, useRealTimeAlerts } from '../../../hooks/useRealTimeAlerts';
 import OverviewCards from '../components/OverviewCards';
 import PatientMonitoring from '../components/doctor/PatientMonitoring';
 import HealthAlerts from '../components/doctor/HealthAlerts';
 import RealTimeMonitoring from '../components/doctor/RealTimeMonitoring';
 import PatientAnalytics from '../components/doctor/PatientAnalytics';
+import PatientAccessNotice from '../components/doctor/PatientAccessNotice';
+import { EscalationBadge } from '../../ui/AlertEscalation';
+import { AlertNotification, AlertNotificationContainer } from '../../ui/AlertNotification';
+import Sparkline from '../../ui/Sparkline';
+import { AlertIncident, incidentSparkline } from '../../../utils/alertCorrelation';
+import { formatTimestamp } from '../../../utils/dateUtils';
+import { RouteParams } from '../../../utils/routes';
 
 interface DoctorDashboardProps {
   activeView: string;
+  params?: RouteParams;
 }
 
 const formatId = (deviceId: string): string => {
@@ -16,18 +24,28 @@ const formatId = (deviceId: string): string => {
     .replace(/_/g, ' ') // Replace underscores with spaces
     .replace(/\b\w/g, (char) => char.toUpperCase()); // Capitalize first letter of each word
 };
-const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView }) => {
-  const { getCriticalPatients } = useHospitalData();
+const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView, params = {} }) => {
+  const { patients } = useAccessiblePatients();
+  const criticalPatients = Object.values(patients).filter(patient => patient.currentStatus?.status === 'critical');
   
+  // Incidents with a notification up; repeats of an alert update its notification instead of adding one
+  const [notified, setNotified] = useState<string[]>([]);
+  const notify = useCallback((_alert: AlertWithDevice, incident: AlertIncident<AlertWithDevice>) => {
+    setNotified(ids => [...ids.filter(id => id !== incident.id), incident.id]);
+  }, []);
+  const dismiss = useCallback((incidentId: string) => {
+    setNotified(ids => ids.filter(id => id !== incidentId));
+  }, []);
+
   // Use real-time alerts for live updates
-  const { alerts: realtimeAlerts } = useRealTimeAlerts({
+  const { incidents: allIncidents } = useRealTimeAlerts({
     pollInterval: 5000, // Poll every 5 seconds
     enabled: true,
-    onNewAlert: (alert) => {
-      // Optional: You could add toast notifications here
-      console.log('🚨 New alert in doctor dashboard:', alert);
-    }
+    onNewAlert: notify
   });
+  // Alerts about patients the doctor may not open neither show up nor pop up; room alerts always do
+  const incidents = allIncidents.filter(({ latest }) => !latest.patientId || latest.patientId in patients);
+  const openIncidents = incidents.filter(incident => !incident.resolved);
 
   const renderView = () => {
     switch (activeView) {
@@ -43,13 +61,13 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView }) => {
             <OverviewCards />
             
             {/* Critical Patients Alert */}
-            {getCriticalPatients().length > 0 && (
+            {criticalPatients.length > 0 && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                 <h3 className="text-lg font-semibold text-red-900 mb-3">
                   Critical Patients Requiring Attention
                 </h3>
                 <div className="grid gap-3">
-                  {getCriticalPatients().map((patient, index) => (
+                  {criticalPatients.map((patient, index) => (
                     <div key={`critical-patient-${index}`} className="bg-white p-4 rounded-lg border border-red-200">
                       <div className="flex justify-between items-start">
                         <div>
@@ -79,22 +97,36 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView }) => {
             {/* Recent Alerts */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Health Alerts</h3>
-              {realtimeAlerts.filter(alert => !alert.resolved).length > 0 ? (
+              {openIncidents.length > 0 ? (
                 <div className="space-y-3">
-                  {realtimeAlerts
-                    .filter(alert => !alert.resolved)
+                  {openIncidents
                     .slice(0, 3)
-                    .map((alert) => (
-                    <div key={`${alert.deviceId}-${alert.id}`} className="flex items-center space-x-3 p-3 bg-amber-50 rounded-lg">
+                    .map(({ latest: alert, ...incident }) => (
+                    <div key={incident.id} className="flex items-center space-x-3 p-3 bg-amber-50 rounded-lg">
                       <div className="h-2 w-2 bg-amber-500 rounded-full"></div>
                       <div className="flex-1">
-                        <p className="text-sm font-medium text-amber-900">{alert.message}</p>
+                        <p className="text-sm font-medium text-amber-900">
+                          {alert.message}
+                          {incident.count > 1 && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs bg-amber-200 text-amber-900">×{incident.count}</span>
+                          )}
+                        </p>
                         <p className="text-xs text-amber-600">
-                          {alert.timestamp}
+                          {incident.count > 1 ? `${formatTimestamp(incident.firstAt)} – ${formatTimestamp(incident.lastAt)}` : formatTimestamp(alert.timestamp)}
                         </p>
+                        {incident.count > 1 && (
+                          <Sparkline values={incidentSparkline({ latest: alert, ...incident })} className="text-amber-600" />
+                        )}
                         <p className="text-xs text-amber-600">
                           {formatId(alert.deviceId)} | {formatId(alert.roomId)}
                         </p>
+                        <div className="mt-1">
+                          {alert.flaggedByThresholds ? (
+                            <span className="text-xs text-amber-700">Breaches the patient's thresholds</span>
+                          ) : (
+                            <EscalationBadge alert={alert} />
+                          )}
+                        </div>
                       </div>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         alert.type === 'critical' 
@@ -119,7 +151,7 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView }) => {
       case 'alerts':
         return <HealthAlerts />;
       case 'monitoring':
-        return <RealTimeMonitoring />;
+        return <RealTimeMonitoring patientId={params.patientId} />;
       case 'analytics':
         return <PatientAnalytics />;
       default:
@@ -128,8 +160,24 @@ const DoctorDashboard: React.FC<DoctorDashboardProps> = ({ activeView }) => {
   };
 
   return (
-    <div className="p-6">
+    <div className="p-6 space-y-6">
+      <PatientAccessNotice />
       {renderView()}
+      <AlertNotificationContainer>
+        {notified.map(incidentId => {
+          const incident = incidents.find(({ id }) => id === incidentId);
+          if (!incident || incident.resolved) return null;
+          return (
+            <AlertNotification
+              key={incidentId}
+              alert={{ ...incident.latest, timestamp: formatTimestamp(incident.latest.timestamp) }}
+              count={incident.count}
+              sparkline={incidentSparkline(incident)}
+              onClose={() => dismiss(incidentId)}
+            />
+          );
+        })}
+      </AlertNotificationContainer>
     </div>
   );
 };
@@ -1,11 +1,15 @@
 import React from 'react';
 import { useAuth } from '../../../contexts/AuthContext';
-import { useHospitalData } from '../../../contexts/HospitalDataContext';
+import { useHospitalActions } from '../../../contexts/HospitalDataContext';
+import { useEntities, useHospitalLoadState } from '../../../store/hospitalSelectors';
 import OverviewCards from '../components/OverviewCards';
 import StaffSchedule from '../components/staff/StaffSchedule';
 import RoomStatus from '../components/staff/RoomStatus';
 import AssignedPatients from '../components/staff/AssignedPatients';
 import TaskList from '../components/staff/TaskList';
+import DeviceManagement from '../components/admin/DeviceManagement';
+import ApiErrorState from '../../ui/ApiErrorState';
+import { formatTimestamp } from '../../../utils/dateUtils';
 
 interface StaffDashboardProps {
   activeView: string;
@@ -13,7 +17,11 @@ interface StaffDashboardProps {
 
 const StaffDashboard: React.FC<StaffDashboardProps> = ({ activeView }) => {
   const { user } = useAuth();
-  const { staff, iotDevices, patients, loading, error, refreshData } = useHospitalData();
+  const staff = useEntities('staff');
+  const iotDevices = useEntities('devices');
+  const patients = useEntities('patients');
+  const { loading, error } = useHospitalLoadState();
+  const { refreshData } = useHospitalActions();
 
   if (loading) {
     return (
@@ -24,17 +32,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ activeView }) => {
   }
 
   if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full">
-        <div className="text-lg text-red-600 mb-4">Error: {error}</div>
-        <button 
-          onClick={refreshData}
-          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-        >
-          Retry
-        </button>
-      </div>
-    );
+    return <ApiErrorState error={error} onRetry={refreshData} />;
   }
 
   // Find current staff member
@@ -133,8 +131,8 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ activeView }) => {
                     </div>
                     <div className="text-right">
                       <p className="text-sm font-medium text-blue-900">
-                        {new Date(currentStaff.schedule[today].shiftStart).toLocaleTimeString()} - 
-                        {new Date(currentStaff.schedule[today].shiftEnd).toLocaleTimeString()}
+                        {formatTimestamp(currentStaff.schedule[today].shiftStart, { style: 'time' })} - 
+                        {formatTimestamp(currentStaff.schedule[today].shiftEnd, { style: 'time' })}
                       </p>
                     </div>
                   </div>
@@ -184,6 +182,9 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ activeView }) => {
         return <AssignedPatients patients={assignedPatients} />;
       case 'tasks':
         return <TaskList staffId={currentStaffId} />;
+      case 'devices':
+        // Only technicians and biomedical engineering staff get here, see utils/routes.ts
+        return <DeviceManagement />;
       default:
         return <div>View not found</div>;
     }
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { EscalationBadge } from './AlertEscalation';
+import { toBackendTimestamp } from '../../utils/dateUtils';
+
+const dueIn = (ms: number) => ({ resolved: false, escalationDueAt: toBackendTimestamp(new Date(Date.now() + ms)) });
+
+describe('EscalationBadge', () => {
+  it('counts down to the next step of an unacknowledged alert', () => {
+    render(<EscalationBadge alert={dueIn(3 * 60 * 1000)} />);
+    expect(screen.getByText(/Not acknowledged · next step in (2:5\d|3:00)/)).toBeTruthy();
+  });
+
+  it('waits a moment for the backend to take a step that just came due', () => {
+    render(<EscalationBadge alert={dueIn(-1000)} />);
+    expect(screen.getByText(/escalating\.\.\./)).toBeTruthy();
+  });
+
+  it('shows a deadline the backend let pass as overdue', () => {
+    render(<EscalationBadge alert={dueIn(-2 * 60 * 1000)} />);
+    const badge = screen.getByText(/Not acknowledged · overdue by 2:0\d/);
+    expect(badge.className).toContain('bg-red-100');
+  });
+});
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { BellOff, BellRing, CheckCircle, Clock } from 'lucide-react';
+import { ENDPOINTS } from '../../api/config';
+import { AlertEscalationFields, ESCALATION_TARGET_LABELS, escalationStatus } from '../../api/escalation';
+import { query } from '../../api/queryCache';
+import { AlertEscalationStep } from '../../api/types';
+import { formatCountdown, formatTimestamp } from '../../utils/dateUtils';
+
+// The backend escalates on its own clock; the devices are reloaded this long after a deadline
+const REFRESH_AFTER_DEADLINE_MS = 5000;
+
+const describeStep = (step: AlertEscalationStep) =>
+  `${ESCALATION_TARGET_LABELS[step.target]} (${step.staffName ?? 'nobody scheduled'})`;
+
+// Time left until `dueAt`, ticking every second, null without a deadline
+const useTimeLeft = (dueAt: number | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (dueAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    // Fetch the step the backend took, so every screen showing the alert moves on with it
+    const refresh = setTimeout(
+      () => query(ENDPOINTS.iot.getAll, { force: true }),
+      Math.max(0, dueAt - Date.now()) + REFRESH_AFTER_DEADLINE_MS
+    );
+    return () => {
+      clearInterval(timer);
+      clearTimeout(refresh);
+    };
+  }, [dueAt]);
+
+  return dueAt === null ? null : dueAt - now;
+};
+
+/**
+ * Escalation state of an alert: acknowledged, snoozed, waiting for acknowledgement, or escalated and
+ * to whom, with a countdown to the next step, or how long it is overdue. Nothing for resolved alerts.
+ */
+export const EscalationBadge: React.FC<{ alert: AlertEscalationFields }> = ({ alert }) => {
+  const { state, latest, dueAt } = escalationStatus(alert);
+  const timeLeft = useTimeLeft(dueAt);
+
+  if (state === 'resolved') return null;
+
+  if (state === 'snoozed') {
+    return (
+      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+        <BellOff className="h-3 w-3 mr-1" />
+        Snoozed
+      </span>
+    );
+  }
+
+  if (state === 'acknowledged') {
+    return (
+      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        Acknowledged{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}
+      </span>
+    );
+  }
+
+  // Still due after the reload: the backend did not take the step, so nobody was paged
+  const overdue = timeLeft !== null && timeLeft <= -REFRESH_AFTER_DEADLINE_MS;
+  const countdown = timeLeft === null
+    ? null
+    : timeLeft > 0 ? `next step in ${formatCountdown(timeLeft)}` : overdue ? `overdue by ${formatCountdown(-timeLeft)}` : 'escalating...';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+        state === 'escalated' || overdue ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+      }`}
+    >
+      {state === 'escalated' ? <BellRing className="h-3 w-3 mr-1" /> : <Clock className="h-3 w-3 mr-1" />}
+      {latest ? `Escalated to ${describeStep(latest)}` : 'Not acknowledged'}
+      {countdown && ` · ${countdown}`}
+    </span>
+  );
+};
+
+/**
+ * Every step the alert went up its escalation chain, oldest first
+ */
+export const EscalationHistory: React.FC<{ history?: AlertEscalationStep[] }> = ({ history }) => {
+  if (!history || history.length === 0) return null;
+
+  return (
+    <ol className="mt-2 space-y-1 text-xs text-gray-600">
+      {history.map((step, index) => (
+        <li key={index} className="flex items-center space-x-2">
+          <BellRing className="h-3 w-3 text-red-500" />
+          <span>{formatTimestamp(step.escalatedAt)}: escalated to {describeStep(step)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default EscalationBadge;
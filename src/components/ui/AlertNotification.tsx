@@ -1,5 +1,10 @@
 import React from 'react';
 import { AlertTriangle, Clock, CheckCircle, X } from 'lucide-react';
+import { useEntities } from '../../store/hospitalSelectors';
+import { usePrivacyMode } from '../../hooks/usePrivacyMode';
+import { maskNames } from '../../utils/privacy';
+import Masked from './Masked';
+import Sparkline from './Sparkline';
 
 interface AlertNotificationProps {
   alert: {
@@ -10,6 +15,9 @@ interface AlertNotificationProps {
     message: string;
     timestamp: string;
   };
+  // Alerts in the incident the notification stands for, and the readings they reported
+  count?: number;
+  sparkline?: number[];
   onClose: () => void;
   autoClose?: boolean;
   duration?: number; // in milliseconds
@@ -17,16 +25,26 @@ interface AlertNotificationProps {
 
 export const AlertNotification: React.FC<AlertNotificationProps> = ({
   alert,
+  count = 1,
+  sparkline,
   onClose,
   autoClose = true,
   duration = 5000
 }) => {
+  const patients = useEntities('patients');
+  const privacy = usePrivacyMode('alert-notifications');
+
+  // Callers pass a new onClose on every render; that must not restart the timer
+  const onCloseRef = React.useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Every repeat of the alert keeps the notification up for another `duration`
   React.useEffect(() => {
     if (autoClose) {
-      const timer = setTimeout(onClose, duration);
+      const timer = setTimeout(() => onCloseRef.current(), duration);
       return () => clearTimeout(timer);
     }
-  }, [autoClose, duration, onClose]);
+  }, [autoClose, duration, count]);
 
   const getAlertStyle = (type: string) => {
     switch (type) {
@@ -64,14 +82,24 @@ export const AlertNotification: React.FC<AlertNotificationProps> = ({
           <div className="ml-3 w-0 flex-1 pt-0.5">
             <p className="text-sm font-medium">
               New {alert.type} alert
+              {count > 1 && (
+                <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs font-semibold bg-white/70">×{count}</span>
+              )}
             </p>
             <p className="mt-1 text-sm">
-              {alert.message}
+              {/* Alert messages name the patient, e.g. "Sarah Johnson: SpO2 below 90%" */}
+              <Masked
+                mode={privacy}
+                mask={maskNames(alert.message, Object.values(patients).map(patient => patient.personalInfo.name))}
+              >
+                {alert.message}
+              </Masked>
             </p>
+            {sparkline && <Sparkline values={sparkline} className="mt-1 opacity-75" />}
             <div className="mt-2 text-xs opacity-75">
               <p>Device: {alert.deviceId.replace(/^m/, 'M').replace('_', ' ')}</p>
               <p>Room: {alert.roomId.split('_')[1]}</p>
-              <p>Time: {alert.timestamp}</p>
+              <p>{count > 1 ? 'Latest' : 'Time'}: {alert.timestamp}</p>
             </div>
           </div>
           <div className="ml-4 flex-shrink-0 flex">
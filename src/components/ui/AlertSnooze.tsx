@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { BellOff } from 'lucide-react';
+import {
+  AlertSuppression,
+  MAX_SUPPRESSION_HOURS,
+  SuppressionScope,
+  createSuppression,
+  liftSuppression,
+} from '../../api/alertSuppression';
+import { describeApiError } from '../../api/errors';
+import { useAlertSuppressions } from '../../api/hooks/useAlertSuppressions';
+import { usePrivacyMode } from '../../hooks/usePrivacyMode';
+import { useEntities } from '../../store/hospitalSelectors';
+import { formatTimestamp } from '../../utils/dateUtils';
+import { initials } from '../../utils/privacy';
+import Can from '../auth/Can';
+import Masked from './Masked';
+
+const DURATION_MINUTES = [30, 60, 120, 240, 480, MAX_SUPPRESSION_HOURS * 60];
+
+const describeDuration = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${minutes / 60} h`);
+
+const formatDeviceId = (deviceId: string) => deviceId.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+
+// Name of what a rule silences, for lists and the audit trail
+const useTargetName = () => {
+  const patients = useEntities('patients');
+  return (scope: SuppressionScope, targetId: string) =>
+    scope === 'patient' ? patients[targetId]?.personalInfo.name ?? targetId : formatDeviceId(targetId);
+};
+
+interface SnoozeButtonProps {
+  deviceId: string;
+  // Offers snoozing every device of the patient, when the device monitors one
+  patientId?: string;
+}
+
+/**
+ * Snooze the alerts of a device or its patient for a while, with a reason. Alerts are still recorded
+ * but raise no notifications and do not escalate until the snooze expires or is lifted.
+ */
+export const SnoozeButton: React.FC<SnoozeButtonProps> = ({ deviceId, patientId }) => {
+  const targetName = useTargetName();
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<SuppressionScope>('device');
+  const [minutes, setMinutes] = useState(DURATION_MINUTES[0]);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setOpen(false);
+    setReason('');
+    setError(null);
+  };
+
+  const snooze = async () => {
+    const targetId = scope === 'patient' && patientId ? patientId : deviceId;
+    setSaving(true);
+    setError(null);
+    const response = await createSuppression(
+      {
+        scope,
+        target_id: targetId,
+        reason: reason.trim(),
+        expires_at: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+      },
+      targetName(scope, targetId)
+    );
+    setSaving(false);
+    if (response.error) {
+      setError(describeApiError(response.error));
+    } else {
+      close();
+    }
+  };
+
+  if (!open) {
+    return (
+      <Can permission="alert.suppress">
+        <button
+          onClick={() => setOpen(true)}
+          className="ml-4 inline-flex items-center px-3 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200"
+        >
+          <BellOff className="h-3 w-3 mr-1" />
+          Snooze
+        </button>
+      </Can>
+    );
+  }
+
+  return (
+    <div className="ml-4 w-64 p-3 space-y-2 bg-gray-50 border border-gray-200 rounded-lg text-xs">
+      {patientId && (
+        <select
+          aria-label="Snooze alerts of"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as SuppressionScope)}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+        >
+          <option value="device">This device</option>
+          <option value="patient">Every device of the patient</option>
+        </select>
+      )}
+      <select
+        aria-label="Snooze for"
+        value={minutes}
+        onChange={(e) => setMinutes(Number(e.target.value))}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+      >
+        {DURATION_MINUTES.map(value => (
+          <option key={value} value={value}>For {describeDuration(value)}</option>
+        ))}
+      </select>
+      <input
+        aria-label="Reason"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason, e.g. sensor being replaced"
+        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+      />
+      {error && <p className="text-red-700">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <button onClick={close} className="px-3 py-1 text-gray-700 hover:bg-gray-200 rounded">
+          Cancel
+        </button>
+        <button
+          onClick={snooze}
+          disabled={saving || !reason.trim()}
+          className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-800 disabled:opacity-50"
+        >
+          Snooze
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Snoozes in force, with who set them, why and until when, and a way to lift them early
+ */
+export const ActiveSnoozes: React.FC = () => {
+  const { suppressions, error } = useAlertSuppressions();
+  const targetName = useTargetName();
+  const privacy = usePrivacyMode('alert-notifications');
+  const [liftError, setLiftError] = useState<string | null>(null);
+
+  const lift = async (suppression: AlertSuppression) => {
+    setLiftError(null);
+    const response = await liftSuppression(suppression, targetName(suppression.scope, suppression.target_id));
+    if (response.error) setLiftError(describeApiError(response.error));
+  };
+
+  const message = liftError ?? (error ? describeApiError(error) : null);
+  if (suppressions.length === 0 && !message) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+        <BellOff className="h-5 w-5 text-gray-600" />
+        <h3 className="text-lg font-medium text-gray-900">Snoozed Alerts ({suppressions.length})</h3>
+      </div>
+      {message && <p className="px-6 pt-3 text-sm text-red-700">{message}</p>}
+      <ul className="divide-y divide-gray-200">
+        {suppressions.map(suppression => {
+          const name = targetName(suppression.scope, suppression.target_id);
+          return (
+            <li key={suppression.id} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {suppression.scope === 'patient' ? 'Patient ' : 'Device '}
+                  {suppression.scope === 'patient' ? <Masked mode={privacy} mask={initials(name)}>{name}</Masked> : name}
+                  {' '}until {formatTimestamp(suppression.expires_at)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {suppression.reason} · by {suppression.created_by}
+                </p>
+              </div>
+              <Can permission="alert.suppress">
+                <button
+                  onClick={() => lift(suppression)}
+                  className="ml-4 px-3 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200"
+                >
+                  Lift
+                </button>
+              </Can>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SnoozeButton;
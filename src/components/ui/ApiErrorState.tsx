@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertTriangle, WifiOff, Lock } from 'lucide-react';
+import { ApiError, describeApiError, isOfflineError } from '../../api/errors';
+
+interface ApiErrorStateProps {
+  error: ApiError;
+  onRetry?: () => void;
+  children?: React.ReactNode;
+}
+
+export const ApiErrorState: React.FC<ApiErrorStateProps> = ({ error, onRetry, children }) => {
+  const isOffline = isOfflineError(error);
+  const isDenied = error.kind === 'Unauthorized' || error.kind === 'Forbidden';
+
+  const getIcon = () => {
+    if (isOffline) return <WifiOff className="h-8 w-8 text-amber-500" />;
+    if (isDenied) return <Lock className="h-8 w-8 text-gray-500" />;
+    return <AlertTriangle className="h-8 w-8 text-red-500" />;
+  };
+
+  return (
+    <div role="alert" className="flex flex-col items-center justify-center h-full space-y-4">
+      {getIcon()}
+      <div className={`text-lg ${isOffline ? 'text-amber-700' : 'text-red-600'}`}>
+        {describeApiError(error)}
+      </div>
+      {children}
+      {/* Retrying cannot fix a permission problem */}
+      {onRetry && error.kind !== 'Forbidden' && (
+        <button
+          onClick={onRetry}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ApiErrorState;
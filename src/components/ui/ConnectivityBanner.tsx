@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { WifiOff, Wifi, UploadCloud, AlertTriangle } from 'lucide-react';
+import { useConnectivity } from '../../store/hospitalSelectors';
+import { useOfflineStatus } from '../../api/hooks/useOffline';
+import { discardQueuedMutation, forceQueuedMutation, isQueuedByActiveUser, replayQueuedMutations } from '../../api/offline';
+import { formatRelativeTime, formatTimestamp } from '../../utils/dateUtils';
+
+export const ConnectivityBanner: React.FC = () => {
+  const { connectivity, lastConnectivityIssue } = useConnectivity();
+  const { staleSince, queue, replaying } = useOfflineStatus();
+  const [showQueue, setShowQueue] = useState(false);
+
+  const pending = queue.filter(item => item.status === 'pending');
+  const held = queue.filter(item => item.status !== 'pending');
+
+  if (connectivity === 'online' && queue.length === 0) {
+    return null;
+  }
+
+  const isOffline = connectivity === 'offline';
+
+  return (
+    <div role="status">
+      {connectivity !== 'online' && (
+        <div
+          className={`flex items-center px-4 py-2 text-sm border-b ${
+            isOffline
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          {isOffline ? (
+            <WifiOff className="h-4 w-4 mr-2 flex-shrink-0" />
+          ) : (
+            <Wifi className="h-4 w-4 mr-2 flex-shrink-0" />
+          )}
+          <span className="font-medium">
+            {isOffline ? 'Backend unreachable.' : 'Unstable connection.'}
+          </span>
+          <span className="ml-1">
+            {isOffline
+              ? staleSince
+                ? `Read-only: showing data saved ${formatRelativeTime(staleSince)} (${formatTimestamp(staleSince, { style: 'short' })}). Duty, schedule and task changes are queued.`
+                : 'Showing the last data received; requests are retried automatically.'
+              : 'Some requests needed retries, data may be slightly delayed.'}
+          </span>
+          {lastConnectivityIssue && (
+            <span className="ml-auto text-xs opacity-75">
+              Last issue: {lastConnectivityIssue.toLocaleTimeString()}
+            </span>
+          )}
+        </div>
+      )}
+
+      {queue.length > 0 && (
+        <div className={`px-4 py-2 text-sm border-b ${
+          held.length > 0 ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-blue-50 border-blue-200 text-blue-800'
+        }`}>
+          <div className="flex items-center">
+            {held.length > 0 ? (
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            ) : (
+              <UploadCloud className="h-4 w-4 mr-2 flex-shrink-0" />
+            )}
+            <span>
+              {pending.length > 0 && `${pending.length} change${pending.length === 1 ? '' : 's'} waiting to be sent`}
+              {pending.length > 0 && held.length > 0 && ', '}
+              {held.length > 0 && `${held.length} could not be applied`}
+              {replaying && ' (sending…)'}
+            </span>
+            <button
+              onClick={() => setShowQueue(!showQueue)}
+              className="ml-auto text-xs font-medium underline"
+            >
+              {showQueue ? 'Hide' : 'Review'}
+            </button>
+            {pending.length > 0 && !isOffline && (
+              <button
+                onClick={() => replayQueuedMutations()}
+                disabled={replaying}
+                className="ml-3 text-xs font-medium underline disabled:opacity-50"
+              >
+                Send now
+              </button>
+            )}
+          </div>
+
+          {showQueue && (
+            <ul className="mt-2 space-y-1">
+              {queue.map(item => (
+                <li key={item.id} className="flex items-center bg-white/60 rounded px-2 py-1">
+                  <span className="flex-1">
+                    {item.description}
+                    <span className="ml-2 text-xs opacity-75">
+                      queued {formatRelativeTime(item.queuedAt)}
+                      {!isQueuedByActiveUser(item) && ` by ${item.queuedBy!.name}, sent when they sign in again`}
+                    </span>
+                    {item.reason && <span className="block text-xs">{item.reason}</span>}
+                  </span>
+                  {item.status !== 'pending' && isQueuedByActiveUser(item) && (
+                    <button
+                      onClick={() => forceQueuedMutation(item.id)}
+                      disabled={replaying || isOffline}
+                      className="ml-3 text-xs font-medium underline disabled:opacity-50"
+                    >
+                      Apply anyway
+                    </button>
+                  )}
+                  {isQueuedByActiveUser(item) && (
+                    <button
+                      onClick={() => discardQueuedMutation(item.id)}
+                      disabled={replaying}
+                      className="ml-3 text-xs font-medium underline disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConnectivityBanner;
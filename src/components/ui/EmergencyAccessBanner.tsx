@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useEmergencyAccess } from '../../api/hooks/useEmergencyAccess';
+import { endEmergencyAccess } from '../../api/emergencyAccess';
+import { formatCountdown } from '../../utils/dateUtils';
+
+// Stays on top of the dashboard for as long as emergency access lasts
+export const EmergencyAccessBanner: React.FC = () => {
+  const grant = useEmergencyAccess();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!grant) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [grant]);
+
+  if (!grant) return null;
+
+  return (
+    <div role="alert" className="flex items-center px-4 py-2 text-sm bg-red-600 text-white border-b border-red-700">
+      <ShieldAlert className="h-4 w-4 mr-2 flex-shrink-0" />
+      <span className="font-medium">Emergency access: all patient records are open.</span>
+      <span className="ml-1 truncate">Reason: {grant.justification}</span>
+      <span className="ml-auto pl-4 font-mono whitespace-nowrap">
+        {formatCountdown(Date.parse(grant.expiresAt) - now)} left
+      </span>
+      <button
+        onClick={() => endEmergencyAccess()}
+        className="ml-4 px-2 py-1 text-xs font-medium bg-white text-red-700 rounded hover:bg-red-50 whitespace-nowrap"
+      >
+        End access
+      </button>
+    </div>
+  );
+};
+
+export default EmergencyAccessBanner;
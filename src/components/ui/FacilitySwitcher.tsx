@@ -0,0 +1,33 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { selectFacility } from '../../api/facility';
+import { useFacilities } from '../../api/hooks/useFacilities';
+
+// The facility the dashboard shows; a choice only for users who work in more than one
+export const FacilitySwitcher: React.FC = () => {
+  const { facilities, current } = useFacilities();
+
+  if (!current) return null;
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-gray-700">
+      <Building2 className="h-4 w-4" style={{ color: current.accent_color }} />
+      {facilities.length > 1 ? (
+        <select
+          aria-label="Facility"
+          value={current.id}
+          onChange={(e) => selectFacility(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {facilities.map(facility => (
+            <option key={facility.id} value={facility.id}>{facility.name}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="font-medium">{current.name}</span>
+      )}
+    </div>
+  );
+};
+
+export default FacilitySwitcher;
@@ -0,0 +1,43 @@
+import React, { ReactNode, useState } from 'react';
+import { PrivacyMode, useTimedReveal } from '../../hooks/usePrivacyMode';
+
+interface MaskedProps {
+  mode: PrivacyMode;
+  // Shown instead of the children in privacy mode, e.g. the initials of a name
+  mask?: ReactNode;
+  // Revealed from outside, e.g. by the reveal button of a whole card
+  revealed?: boolean;
+  children: ReactNode;
+}
+
+// Patient details that privacy mode hides; hovering shows them, clicking shows them until the relock
+export const Masked: React.FC<MaskedProps> = ({ mode, mask = '•••', revealed = false, children }) => {
+  const [hovered, setHovered] = useState(false);
+  const { revealed: clicked, reveal } = useTimedReveal(mode.relockSeconds);
+
+  if (!mode.masked) return <>{children}</>;
+
+  const shown = revealed || hovered || clicked;
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title={shown ? undefined : 'Hidden in privacy mode. Hover or click to show.'}
+      data-masked={!shown}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onClick={reveal}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          reveal();
+        }
+      }}
+      className={shown ? undefined : 'cursor-pointer select-none tracking-wide'}
+    >
+      {shown ? children : mask}
+    </span>
+  );
+};
+
+export default Masked;
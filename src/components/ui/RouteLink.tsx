@@ -0,0 +1,24 @@
+import React from 'react';
+import { navigate } from '../../store/locationStore';
+
+interface RouteLinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+}
+
+// A real link, so it can be copied or opened in a new tab, that opens plain clicks without a reload
+export const RouteLink: React.FC<RouteLinkProps> = ({ to, onClick, children, ...props }) => (
+  <a
+    {...props}
+    href={to}
+    onClick={(e) => {
+      onClick?.(e);
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(to);
+    }}
+  >
+    {children}
+  </a>
+);
+
+export default RouteLink;
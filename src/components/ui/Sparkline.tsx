@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * A tiny line chart of `values` without axes, scaled to its own range; nothing for fewer than two values
+ */
+export const Sparkline: React.FC<SparklineProps> = ({ values, width = 80, height = 20, className = 'text-current' }) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  // Keep the stroke inside the box
+  const pad = 1;
+  const points = values
+    .map((value, index) => {
+      const x = pad + (index / (values.length - 1)) * (width - 2 * pad);
+      const y = pad + (1 - (value - min) / range) * (height - 2 * pad);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
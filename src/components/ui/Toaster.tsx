@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Info, X } from 'lucide-react';
+import { dismissToast, ToastKind, useToasts } from '../../store/toastStore';
+
+const STYLES: Record<ToastKind, string> = {
+  error: 'bg-red-50 border-red-500 text-red-800',
+  success: 'bg-green-50 border-green-500 text-green-800',
+  info: 'bg-blue-50 border-blue-500 text-blue-800',
+};
+
+const ICONS: Record<ToastKind, React.ReactNode> = {
+  error: <AlertTriangle className="h-5 w-5 text-red-600" />,
+  success: <CheckCircle className="h-5 w-5 text-green-600" />,
+  info: <Info className="h-5 w-5 text-blue-600" />,
+};
+
+export const Toaster: React.FC = () => {
+  const toasts = useToasts();
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 space-y-2 pointer-events-none" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.kind === 'error' ? 'alert' : 'status'}
+          className={`max-w-sm w-full shadow-lg rounded-lg pointer-events-auto border-l-4 p-4 ${STYLES[toast.kind]}`}
+        >
+          <div className="flex items-start">
+            <div className="flex-shrink-0">{ICONS[toast.kind]}</div>
+            <div className="ml-3 flex-1">
+              <p className="text-sm font-medium">{toast.title}</p>
+              {toast.message && <p className="mt-1 text-sm opacity-90">{toast.message}</p>}
+            </div>
+            <button
+              onClick={() => dismissToast(toast.id)}
+              className="ml-4 flex-shrink-0 opacity-60 hover:opacity-100"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
@@ -0,0 +1,215 @@
+import { ReactNode } from 'react';
+import { describe, expect, it } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import Api from '../api/api';
+import { authAPI } from '../api/auth';
+import { ENDPOINTS } from '../api/config';
+import { MOCK_PASSWORD } from '../api/mock/fixtures';
+import { generateTotp } from '../api/mock/totp';
+import { getCachedQuery, query } from '../api/queryCache';
+import { hasParkedSession } from '../api/sessionVault';
+import { setupMockBackend } from '../test/mockServer';
+import { MAX_PIN_ATTEMPTS, hasUnlockPin, setUnlockPin } from '../utils/unlockPin';
+import { AuthProvider, useAuth } from './AuthContext';
+
+const wrapper = ({ children }: { children: ReactNode }) => <AuthProvider>{children}</AuthProvider>;
+
+describe('AuthProvider locking', () => {
+  const server = setupMockBackend('staff@hospital.com');
+
+  const renderSignedIn = async () => {
+    const hook = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(hook.result.current.user).not.toBeNull());
+    return hook;
+  };
+
+  it('unlocks with the PIN of the signed-in user', async () => {
+    const { result } = await renderSignedIn();
+    await setUnlockPin(result.current.user!.id, '2468');
+
+    act(() => result.current.lock('idle'));
+    expect(result.current.locked).toBe('idle');
+
+    expect(await act(() => result.current.resumeSession({ pin: '1357' }))).toBe(false);
+    expect(result.current.locked).toBe('idle');
+    expect(await act(() => result.current.resumeSession({ pin: '2468' }))).toBe(true);
+    expect(result.current.locked).toBeNull();
+  });
+
+  it('removes the PIN after too many wrong attempts', async () => {
+    const { result } = await renderSignedIn();
+    const userId = result.current.user!.id;
+    await setUnlockPin(userId, '2468');
+    act(() => result.current.lock());
+
+    for (let attempt = 0; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+      await act(() => result.current.resumeSession({ pin: '0000' }));
+    }
+
+    expect(hasUnlockPin(userId)).toBe(false);
+    expect(await act(() => result.current.resumeSession({ pin: '2468' }))).toBe(false);
+    expect(result.current.locked).toBe('manual');
+  });
+
+  it('locks instead of signing out when the session is revoked, and resumes with the password', async () => {
+    const { result } = await renderSignedIn();
+    await setUnlockPin(result.current.user!.id, '2468');
+    // Revoked on the server: neither the access token nor the refresh token works any more
+    Api.setFetch((input, init) => {
+      const { pathname } = new URL(input.toString());
+      if (pathname !== ENDPOINTS.auth.login) {
+        return Promise.resolve(new Response(JSON.stringify({ detail: 'Not authenticated' }), { status: 401 }));
+      }
+      return server.backend.fetch(input, init);
+    });
+
+    await act(() => Api.get(ENDPOINTS.patients.getAll));
+
+    expect(result.current.locked).toBe('expired');
+    expect(result.current.user?.email).toBe('staff@hospital.com');
+    expect(await act(() => result.current.resumeSession({ pin: '2468' }))).toBe(false);
+    expect(result.current.locked).toBe('expired');
+
+    expect(await act(() => result.current.resumeSession({ password: MOCK_PASSWORD }))).toBe(true);
+    expect(result.current.locked).toBeNull();
+  });
+
+  it('an idle lock does not replace an ended session', async () => {
+    const { result } = await renderSignedIn();
+
+    act(() => result.current.lock('expired'));
+    act(() => result.current.lock('idle'));
+
+    expect(result.current.locked).toBe('expired');
+  });
+});
+
+describe('AuthProvider user switching', () => {
+  setupMockBackend('staff@hospital.com');
+
+  const renderSignedIn = async () => {
+    const hook = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(hook.result.current.user).not.toBeNull());
+    return hook;
+  };
+
+  it('parks the session of a user with a PIN and switches back to it with the PIN', async () => {
+    const { result } = await renderSignedIn();
+    await act(() => result.current.savePin('2468'));
+    await query(ENDPOINTS.patients.getAll);
+
+    await act(() => result.current.switchUser());
+
+    expect(result.current.user).toBeNull();
+    expect(authAPI.isAuthenticated()).toBe(false);
+    expect(hasParkedSession('staff-1')).toBe(true);
+    // The next user starts with the data already loaded
+    expect(getCachedQuery(ENDPOINTS.patients.getAll)).toHaveProperty('patient_001');
+
+    await act(() => result.current.login('doctor@hospital.com', MOCK_PASSWORD));
+    expect(result.current.user?.name).toBe('Michael Chen');
+    expect(result.current.recentAccounts.map(account => account.email)).toEqual(['doctor@hospital.com', 'staff@hospital.com']);
+
+    // The doctor has no PIN, so their session ends instead of being parked
+    await act(() => result.current.switchUser());
+    expect(hasParkedSession('doctor-1')).toBe(false);
+
+    expect(await act(() => result.current.switchTo('staff-1', '1357'))).toBe(false);
+    expect(result.current.user).toBeNull();
+    expect(await act(() => result.current.switchTo('staff-1', '2468'))).toBe(true);
+
+    expect(result.current.user?.email).toBe('staff@hospital.com');
+    expect(authAPI.getSessionUser()).toEqual({ id: 'staff-1', name: 'Emma Wilson' });
+    expect((await Api.get(ENDPOINTS.patients.getAll)).status).toBe(200);
+  });
+
+  it('asks for the password when the parked session has ended meanwhile', async () => {
+    const { result } = await renderSignedIn();
+    await act(() => result.current.savePin('2468'));
+    await act(() => result.current.switchUser());
+    // Sessions end on the server however they were kept
+    Api.setFetch(async () => new Response(JSON.stringify({ detail: 'Not authenticated' }), { status: 401 }));
+
+    expect(await act(() => result.current.switchTo('staff-1', '2468'))).toBe(false);
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.error).toBe('Your session has ended. Enter your password instead.');
+    expect(hasParkedSession('staff-1')).toBe(false);
+  });
+
+  it('removes an account with its PIN from the terminal', async () => {
+    const { result } = await renderSignedIn();
+    await act(() => result.current.savePin('2468'));
+    await act(() => result.current.switchUser());
+
+    act(() => result.current.forgetRecentAccount('staff-1'));
+
+    expect(result.current.recentAccounts.map(account => account.id)).not.toContain('staff-1');
+    expect(hasParkedSession('staff-1')).toBe(false);
+    expect(hasUnlockPin('staff-1')).toBe(false);
+  });
+});
+
+describe('AuthProvider two-factor sign-in', () => {
+  const server = setupMockBackend('doctor@hospital.com');
+  const SECRET = 'JBSWY3DPEHPK3PXP';
+
+  const renderSignedOut = async () => {
+    await authAPI.logout();
+    const hook = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(hook.result.current.loading).toBe(false));
+    return hook;
+  };
+
+  it('asks for the authenticator code after the password', async () => {
+    server.backend.db.mfa['doctor-1'] = { secret: SECRET, enabled: true, backupCodes: [] };
+    const { result } = await renderSignedOut();
+
+    expect(await act(() => result.current.login('doctor@hospital.com', MOCK_PASSWORD))).toBe(true);
+    expect(result.current.user).toBeNull();
+    expect(result.current.mfaChallenge).toEqual(expect.objectContaining({ email: 'doctor@hospital.com', enrollment: false }));
+    expect(authAPI.isAuthenticated()).toBe(false);
+
+    const code = generateTotp(SECRET);
+    const wrongCode = String((Number(code) + 500000) % 1000000).padStart(6, '0');
+    expect(await act(() => result.current.verifyMfa(wrongCode))).toBe(false);
+    expect(result.current.error).toBe('Invalid authentication code');
+
+    expect(await act(() => result.current.verifyMfa(code))).toBe(true);
+    expect(result.current.mfaChallenge).toBeNull();
+    expect(result.current.user).toEqual(expect.objectContaining({ id: 'doctor-1', mfaEnabled: true }));
+  });
+
+  it('accepts each backup code once', async () => {
+    server.backend.db.mfa['doctor-1'] = { secret: SECRET, enabled: true, backupCodes: ['K7PQ2MXA'] };
+    const { result } = await renderSignedOut();
+
+    await act(() => result.current.login('doctor@hospital.com', MOCK_PASSWORD));
+    expect(await act(() => result.current.verifyMfa('k7pq-2mxa'))).toBe(true);
+
+    act(() => result.current.logout());
+    await act(() => result.current.login('doctor@hospital.com', MOCK_PASSWORD));
+    expect(await act(() => result.current.verifyMfa('K7PQ-2MXA'))).toBe(false);
+  });
+
+  it('has accounts of a role that requires it set up an authenticator app to sign in', async () => {
+    server.backend.db.mfaPolicy = { required_roles: ['doctor'] };
+    const { result } = await renderSignedOut();
+
+    await act(() => result.current.login('doctor@hospital.com', MOCK_PASSWORD));
+    expect(result.current.mfaChallenge?.enrollment).toBe(true);
+
+    const { secret, otpauth_uri } = await act(() => result.current.startMfaEnrollment());
+    expect(otpauth_uri).toBe(
+      `otpauth://totp/Smart%20Hospital:doctor%40hospital.com?secret=${secret}&issuer=Smart%20Hospital&algorithm=SHA1&digits=6&period=30`
+    );
+    const backupCodes = await act(() => result.current.confirmMfaEnrollment(generateTotp(secret)));
+    expect(backupCodes).toHaveLength(10);
+    // Signing in waits until the backup codes were shown
+    expect(result.current.user).toBeNull();
+
+    act(() => result.current.finishMfaEnrollment());
+    expect(result.current.user).toEqual(expect.objectContaining({ id: 'doctor-1', mfaEnabled: true }));
+    await expect(authAPI.disableMfa(generateTotp(secret))).rejects.toThrow('Your role requires two-factor authentication');
+  });
+});
@@ -1,5 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI, User as APIUser, SignupRequest } from '../api/auth';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import Api from '../api/api';
+import { authAPI, isMfaChallenge, isSignupPending, AuthResponse, MfaChallenge, MfaEnrollment, User as APIUser, SignupRequest } from '../api/auth';
+import { IDLE_LOCK_MINUTES } from '../api/config';
+import { clearQueryCache } from '../api/queryCache';
+import { flushAuditLog } from '../api/audit';
+import { clearOfflineData, replayQueuedMutations } from '../api/offline';
+import { clearEmergencyAccess } from '../api/emergencyAccess';
+import {
+  discardParkedSession,
+  enrollSessionVault,
+  forgetSessionVault,
+  hasSessionVault,
+  parkSession,
+  unparkSession,
+} from '../api/sessionVault';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import { forgetAccount, listRecentAccounts, RecentAccount, rememberAccount } from '../utils/recentAccounts';
+import { MAX_PIN_ATTEMPTS, clearUnlockPin, hasUnlockPin, setUnlockPin, verifyUnlockPin } from '../utils/unlockPin';
 
 export type UserRole = 'admin' | 'doctor' | 'staff';
 
@@ -10,15 +27,62 @@ export interface User {
   email: string;
   department?: string;
   specialization?: string;
+  mfaEnabled: boolean;
+  // Staff record linked to the account by an admin
+  staffId?: string;
+}
+
+// 'pending_approval': the account was created but an admin has to approve it before it signs in
+export type SignupOutcome = 'signed_in' | 'pending_approval';
+
+// Why the screen is locked: no input for IDLE_LOCK_MINUTES, the user locked it, or the session ended
+export type LockReason = 'idle' | 'manual' | 'expired';
+
+// Accounts with two-factor authentication also give a code with the password
+export type ResumeCredentials = { password: string; code?: string } | { pin: string };
+
+// The second sign-in step, after the password was accepted
+export interface PendingMfa {
+  email: string;
+  // The account has no second factor yet but its role needs one: set it up to finish signing in
+  enrollment: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<boolean>;
-  signup: (userData: SignupRequest) => Promise<boolean>;
+  signup: (userData: SignupRequest) => Promise<SignupOutcome | null>;
   logout: () => void;
   error: string | null;
+  // Set between the password and the authenticator code
+  mfaChallenge: PendingMfa | null;
+  verifyMfa: (code: string) => Promise<boolean>;
+  cancelMfa: () => void;
+  // Adding an authenticator app, during sign-in or for the signed-in user. Confirming returns the
+  // backup codes; during sign-in finishMfaEnrollment then opens the dashboard.
+  startMfaEnrollment: () => Promise<MfaEnrollment>;
+  confirmMfaEnrollment: (code: string) => Promise<string[]>;
+  finishMfaEnrollment: () => void;
+  disableMfa: (code: string) => Promise<void>;
+  // Set while the screen is locked; the dashboard stays mounted underneath
+  locked: LockReason | null;
+  lock: (reason?: LockReason) => void;
+  // Unlock, or extend a session about to end, without losing the dashboard state.
+  // A PIN only works while the session is still valid.
+  resumeSession: (credentials: ResumeCredentials) => Promise<boolean>;
+  // When the user has to enter their password again, if the backend said
+  sessionExpiresAt: Date | null;
+  // Accounts used on this terminal, most recent first
+  recentAccounts: RecentAccount[];
+  // Hand the terminal to someone else. Users with a PIN keep their session parked and switch back
+  // with the PIN; the hospital data stays loaded for whoever signs in next.
+  switchUser: () => Promise<void>;
+  switchTo: (userId: string, pin: string) => Promise<boolean>;
+  forgetRecentAccount: (userId: string) => void;
+  // The PIN unlocks the screen and switches back to a parked session
+  savePin: (pin: string) => Promise<void>;
+  removePin: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,33 +95,6 @@ export const useAuth = () => {
   return context;
 };
 
-// Mock users for demonstration - kept for testing
-const mockUsers: User[] = [
-  {
-    id: 'admin-1',
-    name: 'Dr. Sarah Johnson',
-    role: 'admin',
-    email: 'admin@hospital.com',
-    department: 'Administration'
-  },
-  {
-    id: 'doctor-1',
-    name: 'Dr. Michael Chen',
-    role: 'doctor',
-    email: 'doctor@hospital.com',
-    department: 'Cardiology',
-    specialization: 'Interventional Cardiology'
-  },
-  {
-    id: 'staff-1',
-    name: 'Emma Wilson',
-    role: 'staff',
-    email: 'staff@hospital.com',
-    department: 'ICU',
-    specialization: 'Critical Care Nursing'
-  }
-];
-
 // Helper function to convert API user to local user format
 const convertAPIUserToUser = (apiUser: APIUser): User => ({
   id: apiUser.id,
@@ -66,20 +103,59 @@ const convertAPIUserToUser = (apiUser: APIUser): User => ({
   email: apiUser.email,
   department: apiUser.department,
   specialization: apiUser.specialization,
+  mfaEnabled: !!apiUser.mfa_enabled,
+  staffId: apiUser.staff_id ?? undefined,
 });
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [locked, setLocked] = useState<LockReason | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<Date | null>(() => authAPI.getSessionExpiry());
+  const [recentAccounts, setRecentAccounts] = useState<RecentAccount[]>(listRecentAccounts);
+  const [mfaChallenge, setMfaChallenge] = useState<(PendingMfa & { token: string }) | null>(null);
+  // Signed in by confirming enrollment, waiting for the backup codes to be noted
+  const enrolledUser = useRef<APIUser | null>(null);
+
+  const activate = (apiUser: APIUser) => {
+    const activeUser = convertAPIUserToUser(apiUser);
+    setUser(activeUser);
+    setLocked(null);
+    rememberAccount(activeUser);
+    setRecentAccounts(listRecentAccounts());
+    // Audit entries left from an earlier session, e.g. recorded before a reload while offline
+    flushAuditLog();
+  };
+
+  const signedIn = (apiUser: APIUser) => {
+    // A session parked earlier is replaced by this one
+    discardParkedSession(apiUser.id);
+    setMfaChallenge(null);
+    activate(apiUser);
+  };
+
+  // Either the session, or the second step of signing in
+  const passwordAccepted = (response: AuthResponse | MfaChallenge, email: string) => {
+    if (isMfaChallenge(response)) {
+      setMfaChallenge({ token: response.mfa_token, email, enrollment: !!response.enrollment_required });
+    } else {
+      signedIn(response.user);
+    }
+  };
+
+  const pinRemovedMessage = `PIN removed after ${MAX_PIN_ATTEMPTS} incorrect attempts. Enter your password instead.`;
+
+  useEffect(() => {
+    return authAPI.subscribe(() => setSessionExpiresAt(authAPI.getSessionExpiry()));
+  }, []);
 
   // Check for existing authentication on mount
   useEffect(() => {
     const initializeAuth = async () => {
       if (authAPI.isAuthenticated()) {
         try {
-          const apiUser = await authAPI.getCurrentUser();
-          setUser(convertAPIUserToUser(apiUser));
+          activate(await authAPI.getCurrentUser());
         } catch (error) {
           console.error('Failed to get current user:', error);
           // Token might be invalid, clear it
@@ -97,56 +173,266 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setError(null);
 
     try {
-      // First try real authentication
       const response = await authAPI.login({ email, password });
-      setUser(convertAPIUserToUser(response.user));
+      passwordAccepted(response, email);
       setError(null);
       return true;
     } catch (error) {
-      console.warn('Real authentication failed, trying mock users:', error);
-      
-      // Fallback to mock authentication for testing
-      const foundUser = mockUsers.find(u => u.email === email);
-      if (foundUser && password === 'password') {
-        setUser(foundUser);
-        setError(null);
-        return true;
-      }
-      
-      // Set specific error message
-      const errorMessage = error instanceof Error ? error.message : 'Invalid email or password';
-      setError(errorMessage);
+      console.error('Login failed:', error);
+      setError(error instanceof Error ? error.message : 'Invalid email or password');
       return false;
     } finally {
       setLoading(false);
     }
   };
 
-  const signup = async (userData: SignupRequest): Promise<boolean> => {
+  const signup = async (userData: SignupRequest): Promise<SignupOutcome | null> => {
     setLoading(true);
     setError(null);
 
     try {
       const response = await authAPI.signup(userData);
-      setUser(convertAPIUserToUser(response.user));
-      return true;
+      if (isSignupPending(response)) return 'pending_approval';
+      passwordAccepted(response, userData.email);
+      return 'signed_in';
     } catch (error) {
       console.error('Signup failed:', error);
       setError(error instanceof Error ? error.message : 'Signup failed');
-      return false;
+      return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const logout = () => {
+  const verifyMfa = async (code: string): Promise<boolean> => {
+    if (!mfaChallenge) return false;
+    setError(null);
+
+    try {
+      signedIn((await authAPI.verifyMfa(mfaChallenge.token, code)).user);
+      return true;
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      setError(error instanceof Error ? error.message : 'Invalid authentication code');
+      return false;
+    }
+  };
+
+  const cancelMfa = () => {
+    setMfaChallenge(null);
+    setError(null);
+  };
+
+  const mfaToken = mfaChallenge?.token;
+  // Stable while the setup is open; each call makes a new secret
+  const startMfaEnrollment = useCallback(() => authAPI.enrollMfa(mfaToken), [mfaToken]);
+
+  const confirmMfaEnrollment = async (code: string): Promise<string[]> => {
+    const response = await authAPI.confirmMfa(code, mfaChallenge?.token);
+    if (mfaChallenge) {
+      enrolledUser.current = response.user ?? null;
+    } else {
+      setUser(current => current && { ...current, mfaEnabled: true });
+    }
+    return response.backup_codes;
+  };
+
+  const finishMfaEnrollment = () => {
+    const apiUser = enrolledUser.current;
+    enrolledUser.current = null;
+    if (apiUser) signedIn(apiUser);
+  };
+
+  const disableMfa = async (code: string) => {
+    await authAPI.disableMfa(code);
+    setUser(current => current && { ...current, mfaEnabled: false });
+  };
+
+  const logout = useCallback(() => {
     authAPI.logout();
+    // Cached responses and offline copies belong to this session
+    clearQueryCache();
+    clearOfflineData();
+    clearEmergencyAccess();
+    setMfaChallenge(null);
     setUser(null);
+    setLocked(null);
     setError(null);
+  }, []);
+
+  const lock = useCallback((reason: LockReason = 'manual') => {
+    // An ended session stays ended until the password is entered
+    setLocked(current => (current === 'expired' ? current : reason));
+  }, []);
+
+  const resumeSession = async (credentials: ResumeCredentials): Promise<boolean> => {
+    if (!user) return false;
+    setError(null);
+
+    if ('pin' in credentials) {
+      const expiry = authAPI.getSessionExpiry();
+      if (locked === 'expired' || (expiry && expiry.getTime() <= Date.now())) {
+        setError('Your session has ended. Enter your password to continue.');
+        return false;
+      }
+      if (await verifyUnlockPin(user.id, credentials.pin)) {
+        setLocked(null);
+        return true;
+      }
+      if (hasUnlockPin(user.id)) {
+        setError('Incorrect PIN');
+      } else {
+        forgetSessionVault(user.id);
+        setError(pinRemovedMessage);
+      }
+      return false;
+    }
+
+    try {
+      // A new sign-in as the same user; cached data and the open screens are kept
+      const response = await authAPI.login({ email: user.email, password: credentials.password, mfa_code: credentials.code });
+      if (isMfaChallenge(response)) {
+        setError(response.enrollment_required
+          ? 'Your role now requires two-factor authentication. Sign out and sign in again to set it up.'
+          : 'Enter the code from your authenticator app');
+        return false;
+      }
+      activate(response.user);
+      return true;
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      setError(error instanceof Error ? error.message : 'Invalid email or password');
+      return false;
+    }
+  };
+
+  const switchUser = async () => {
+    if (user) {
+      let parked = false;
+      if (locked !== 'expired' && hasSessionVault(user.id)) {
+        const session = authAPI.detachSession();
+        parked = !!session && await parkSession(user.id, session).catch(() => false);
+        if (!parked && session) authAPI.restoreSession(session);
+      }
+      // Without a PIN there is no way back to the session, so it is ended on the server
+      if (!parked) await authAPI.logout();
+    }
+    // Unlike logout, cached responses and offline copies stay for the next user
+    setUser(null);
+    setLocked(null);
+    setError(null);
+  };
+
+  const switchTo = async (userId: string, pin: string): Promise<boolean> => {
+    setError(null);
+
+    if (!await verifyUnlockPin(userId, pin)) {
+      if (hasUnlockPin(userId)) {
+        setError('Incorrect PIN');
+      } else {
+        forgetSessionVault(userId);
+        setError(pinRemovedMessage);
+      }
+      return false;
+    }
+
+    const session = await unparkSession(userId, pin);
+    if (!session) {
+      setError('No session is saved for this account. Enter your password instead.');
+      return false;
+    }
+
+    authAPI.restoreSession(session);
+    try {
+      activate(await authAPI.getCurrentUser());
+      // Changes this user queued while offline are sent with their own session only
+      replayQueuedMutations();
+      return true;
+    } catch (error) {
+      console.error('Failed to switch user:', error);
+      // A 401 already dropped the session; anything else keeps it parked for the next try
+      const unverified = authAPI.detachSession();
+      if (unverified) await parkSession(userId, unverified).catch(() => false);
+      setLocked(null);
+      setError(unverified
+        ? 'Cannot reach the server to switch user. Please try again.'
+        : 'Your session has ended. Enter your password instead.');
+      return false;
+    }
+  };
+
+  const forgetRecentAccount = (userId: string) => {
+    forgetAccount(userId);
+    clearUnlockPin(userId);
+    forgetSessionVault(userId);
+    setRecentAccounts(listRecentAccounts());
+  };
+
+  const savePin = async (pin: string) => {
+    if (!user) return;
+    await setUnlockPin(user.id, pin);
+    await enrollSessionVault(user.id, pin);
   };
 
+  const removePin = () => {
+    if (!user) return;
+    clearUnlockPin(user.id);
+    forgetSessionVault(user.id);
+  };
+
+  // Shared terminals lock when nobody uses them; the session itself goes on
+  useIdleTimer(user && !locked ? IDLE_LOCK_MINUTES * 60 * 1000 : 0, () => lock('idle'));
+
+  // Lock when the session runs out, even if no request has failed yet
+  useEffect(() => {
+    if (!user || !sessionExpiresAt) return;
+    const remaining = sessionExpiresAt.getTime() - Date.now();
+    // Longer than setTimeout can wait; the backend's 401 still locks in the end
+    if (remaining > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => setLocked('expired'), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [user, sessionExpiresAt]);
+
+  // A 401 the token refresh could not recover means the session is gone: lock until the password is
+  // entered again, keeping the dashboard state
+  useEffect(() => {
+    return Api.addResponseInterceptor((response, request) => {
+      if (response.status === 401 && !request.skipAuth && authAPI.isAuthenticated()) {
+        console.warn('Session expired or revoked, locking');
+        setLocked('expired');
+      }
+      return response;
+    });
+  }, []);
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, signup, logout, error }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        login,
+        signup,
+        logout,
+        error,
+        mfaChallenge,
+        verifyMfa,
+        cancelMfa,
+        startMfaEnrollment,
+        confirmMfaEnrollment,
+        finishMfaEnrollment,
+        disableMfa,
+        locked,
+        lock,
+        resumeSession,
+        sessionExpiresAt,
+        recentAccounts,
+        switchUser,
+        switchTo,
+        forgetRecentAccount,
+        savePin,
+        removePin,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
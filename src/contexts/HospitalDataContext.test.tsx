@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { act, render, waitFor } from '@testing-library/react';
+import { authAPI } from '../api/auth';
+import { MOCK_PASSWORD } from '../api/mock/fixtures';
+import { getHospitalState } from '../store/hospitalStore';
+import { setupMockBackend } from '../test/mockServer';
+import { HospitalDataProvider } from './HospitalDataContext';
+
+describe('HospitalDataProvider', () => {
+  setupMockBackend('doctor@hospital.com');
+
+  it('loads the hospital data once someone signs in', async () => {
+    await authAPI.logout();
+    render(<HospitalDataProvider><div /></HospitalDataProvider>);
+    expect(getHospitalState().entities.patients).toEqual({});
+
+    await act(() => authAPI.login({ email: 'doctor@hospital.com', password: MOCK_PASSWORD }));
+
+    await waitFor(() => expect(Object.keys(getHospitalState().entities.patients)).not.toHaveLength(0));
+    expect(Object.keys(getHospitalState().entities.rooms)).not.toHaveLength(0);
+    expect(getHospitalState().status.error).toBeNull();
+  });
+});
@@ -1,51 +1,42 @@
-import React, { createContext, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, ReactNode } from 'react';
+import Api from '../api/api';
+import { authAPI } from '../api/auth';
+import { ApiResult, isOfflineError } from '../api/errors';
+import { getFacilityId, subscribeToFacility } from '../api/facility';
 import { usePatients } from '../api/hooks/usePatients';
 import { useIoT } from '../api/hooks/useIoT';
 import { useStaff } from '../api/hooks/useStaff';
 import { useAlertsAndPredictions } from '../api/hooks/useAlerts';
 import { useRooms, Room } from '../api/hooks/useRooms';
-import { Patient, StaffMember, IoTDevice } from '../api/types';
+import { Patient } from '../api/types';
+import { ConnectivityStatus, getHospitalState, setEntities, setStatus } from '../store/hospitalStore';
+import { selectActiveAlerts } from '../store/hospitalSelectors';
 
-interface ValidationErrors {
-  [key: string]: string[];
-}
-
-interface ApiError {
-  message: string;
-  validationErrors?: ValidationErrors;
-}
+export type { ConnectivityStatus };
 
-interface ApiResult<T> {
-  success: boolean;
-  data?: T;
-  errors?: ApiError;
-}
+// How long the degraded state sticks after the last retried or failed request
+const CONNECTIVITY_RECOVERY_MS = 60000;
 
-interface HospitalDataContextType {
-  patients: Record<string, Patient>;
-  staff: Record<string, StaffMember>;
-  iotDevices: Record<string, IoTDevice>;
-  rooms: Record<string, Room>;
-  loading: boolean;
-  error: string | null;
+interface HospitalDataActions {
   addPatient: (patient: Patient) => Promise<ApiResult<{ patientId: string }>>;
-  updatePatient: (id: string, patient: Patient) => Promise<ApiResult<void>>;
+  // `reason` is recorded in the audit trail
+  updatePatient: (id: string, patient: Patient, reason?: string) => Promise<ApiResult>;
   deletePatient: (id: string) => Promise<boolean>;
   addRoom: (room: Room) => Promise<ApiResult<{ roomId: string }>>;
-  updateRoom: (id: string, room: Room) => Promise<ApiResult<void>>;
+  updateRoom: (id: string, room: Room) => Promise<ApiResult>;
   deleteRoom: (id: string) => Promise<boolean>;
-  getCriticalPatients: () => Patient[];
-  getActiveAlerts: () => Array<{ deviceId: string; alertId: string; alert: IoTDevice['alerts'][string] }>;
   refreshData: () => Promise<void>;
   refreshAlertsOnly: () => Promise<void>;
 }
 
-const HospitalDataContext = createContext<HospitalDataContextType | undefined>(undefined);
+// Only the actions live in the context and never change, so data refreshes do not re-render
+// every consumer. Data is read from the store through the selector hooks.
+const HospitalDataContext = createContext<HospitalDataActions | undefined>(undefined);
 
-export const useHospitalData = () => {
+export const useHospitalActions = () => {
   const context = useContext(HospitalDataContext);
   if (context === undefined) {
-    throw new Error('useHospitalData must be used within a HospitalDataProvider');
+    throw new Error('useHospitalActions must be used within a HospitalDataProvider');
   }
   return context;
 };
@@ -92,11 +83,59 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
     deleteRoom: deleteRoomApi,
   } = useRooms();
 
+  const lastIssueAtRef = useRef(0);
+
+  // Track connection quality from every API response: retries mean degraded, exhausted retries mean offline
+  useEffect(() => {
+    return Api.addResponseInterceptor((response, request) => {
+      if (request.signal?.aborted) return response;
+
+      // Offline snapshots and queued writes arrive without an error but never reached the server
+      const unreachable = isOfflineError(response.error) || !!response.staleSince || !!response.queued;
+      if (unreachable || (response.retries ?? 0) > 0) {
+        lastIssueAtRef.current = Date.now();
+        setStatus({
+          connectivity: unreachable ? 'offline' : 'degraded',
+          lastConnectivityIssue: new Date(),
+        });
+      } else if (Date.now() - lastIssueAtRef.current > CONNECTIVITY_RECOVERY_MS) {
+        setStatus({ connectivity: 'online' });
+      } else if (getHospitalState().status.connectivity === 'offline') {
+        setStatus({ connectivity: 'degraded' });
+      }
+      return response;
+    });
+  }, []);
+
   const loading = patientsLoading || devicesLoading || staffLoading || alertsLoading || roomsLoading;
   const error = patientsError || devicesError || staffError || alertsError || roomsError;
 
+  // Mirror the request hooks into the store; unchanged records keep their identity there
+  useEffect(() => setEntities('patients', patients), [patients]);
+  useEffect(() => setEntities('staff', staff), [staff]);
+  useEffect(() => setEntities('devices', iotDevices), [iotDevices]);
+  useEffect(() => setEntities('rooms', rooms), [rooms]);
+  useEffect(() => setStatus({ loading, error }), [loading, error]);
+
+  // Loads once someone signs in, and again for another user or facility, which has other patients,
+  // staff, rooms and devices; before sign-in each request would be refused. Token refreshes keep
+  // both and load nothing.
   useEffect(() => {
-    refreshData();
+    let loadedFor: string | null = null;
+    const load = () => {
+      const userId = authAPI.getSessionUser()?.id;
+      const scope = userId ? `${userId}:${getFacilityId() ?? ''}` : null;
+      if (scope === loadedFor) return;
+      loadedFor = scope;
+      if (scope) actionsRef.current.refreshData();
+    };
+    load();
+    const unsubscribeAuth = authAPI.subscribe(load);
+    const unsubscribeFacility = subscribeToFacility(load);
+    return () => {
+      unsubscribeAuth();
+      unsubscribeFacility();
+    };
   }, []);
 
   // Set up periodic refresh for alerts only every 60 seconds (reduced frequency)
@@ -113,13 +152,10 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
   // Check for critical alerts every 30 seconds but only refresh if needed (reduced frequency)
   useEffect(() => {
     const criticalAlertRefreshInterval = setInterval(() => {
-      const activeAlerts = Object.entries(iotDevices).flatMap(([deviceId, device]) => {
-        return Object.entries(device.alerts || {})
-          .filter(([_, alert]) => !alert.resolved && alert.type === 'critical')
-          .map(([alertId, alert]) => ({ deviceId, alertId, alert }));
-      });
+      const hasCriticalAlerts = selectActiveAlerts(getHospitalState())
+        .some(({ alert }) => alert.type === 'critical');
 
-      if (activeAlerts.length > 0) {
+      if (hasCriticalAlerts) {
         console.log('⚠️ HospitalDataContext: Critical alerts detected, refreshing devices only...');
         // Only refresh devices, not all data
         getDevices();
@@ -127,22 +163,23 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
     }, 30000); // 30 seconds (reduced from 10 seconds)
 
     return () => clearInterval(criticalAlertRefreshInterval);
-  }, [iotDevices, getDevices]);
+  }, [getDevices]);
 
+  // Explicit refreshes bypass the query cache; the periodic polls above reuse fresh responses
   const refreshData = async () => {
     await Promise.all([
-      getPatients(),
-      getDevices(),
-      getStaffMembers(),
+      getPatients(undefined, { force: true }),
+      getDevices({ force: true }),
+      getStaffMembers(undefined, { force: true }),
       getAlerts(),
-      getRooms(),
+      getRooms({ force: true }),
     ]);
   };
 
   // Add a separate function to refresh only alert-related data
   const refreshAlertsOnly = async () => {
     console.log('🔄 HospitalDataContext: Refreshing alerts only...');
-    await getDevices(); // IoT devices contain the alerts
+    await getDevices({ force: true }); // IoT devices contain the alerts
   };
 
   const addPatient = async (patient: Patient) => {
@@ -153,13 +190,8 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
     return result;
   };
 
-  const updatePatient = async (id: string, patient: Patient) => {
-    const result = await updatePatientApi(id, patient);
-    if (result.success) {
-      await refreshData();
-    }
-    return result;
-  };
+  // Applied optimistically; the write itself invalidates and refetches the affected lists
+  const updatePatient = (id: string, patient: Patient, reason?: string) => updatePatientApi(id, patient, reason);
 
   const deletePatient = async (id: string) => {
     const success = await deletePatientApi(id);
@@ -177,13 +209,7 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
     return result;
   };
 
-  const updateRoom = async (id: string, room: Room) => {
-    const result = await updateRoomApi(id, room);
-    if (result.success) {
-      await refreshData();
-    }
-    return result;
-  };
+  const updateRoom = (id: string, room: Room) => updateRoomApi(id, room);
 
   const deleteRoom = async (id: string) => {
     const success = await deleteRoomApi(id);
@@ -193,38 +219,30 @@ export const HospitalDataProvider: React.FC<{ children: ReactNode }> = ({ childr
     return success;
   };
 
-  const getCriticalPatients = () => {
-    return Object.values(patients).filter(
-      patient => patient.currentStatus.status === 'critical'
-    );
-  };
-
-  const getActiveAlerts = () => {
-    return Object.entries(iotDevices).flatMap(([deviceId, device]) => {
-      return Object.entries(device.alerts || {})
-        .filter(([_, alert]) => !alert.resolved)
-        .map(([alertId, alert]) => ({ deviceId, alertId, alert }));
-    });
-  };
-
-  const value = {
-    patients,
-    staff,
-    iotDevices: iotDevices || {},
-    rooms: rooms || {},
-    loading,
-    error,
+  const actions: HospitalDataActions = {
     addPatient,
     updatePatient,
     deletePatient,
     addRoom,
     updateRoom,
     deleteRoom,
-    getCriticalPatients,
-    getActiveAlerts,
     refreshData,
     refreshAlertsOnly,
   };
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  // Stable wrappers around the latest actions, so the context value never changes
+  const value = useMemo<HospitalDataActions>(() => ({
+    addPatient: (patient) => actionsRef.current.addPatient(patient),
+    updatePatient: (id, patient, reason) => actionsRef.current.updatePatient(id, patient, reason),
+    deletePatient: (id) => actionsRef.current.deletePatient(id),
+    addRoom: (room) => actionsRef.current.addRoom(room),
+    updateRoom: (id, room) => actionsRef.current.updateRoom(id, room),
+    deleteRoom: (id) => actionsRef.current.deleteRoom(id),
+    refreshData: () => actionsRef.current.refreshData(),
+    refreshAlertsOnly: () => actionsRef.current.refreshAlertsOnly(),
+  }), []);
 
   return (
     <HospitalDataContext.Provider value={value}>
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, screen, waitFor } from '@testing-library/react';
+import { useAccessiblePatients } from './useAccessiblePatients';
+import { endEmergencyAccess, getEmergencyAccess, requestEmergencyAccess } from '../api/emergencyAccess';
+import { flushAuditLog } from '../api/audit';
+import { renderSignedIn } from '../test/providers';
+import { setupMockBackend } from '../test/mockServer';
+
+const Probe = () => {
+  const { patients, restricted } = useAccessiblePatients();
+  return (
+    <div data-testid="patients" data-restricted={restricted}>
+      {Object.keys(patients).sort().join(',')}
+    </div>
+  );
+};
+
+describe('useAccessiblePatients', () => {
+  const server = setupMockBackend('doctor@hospital.com');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const assignedToDoctor = () => [...new Set(
+    Object.values(server.backend.db.staff.staff_001.schedule).flatMap(shift => shift.patientAssignments)
+  )].sort().join(',');
+
+  it('shows a doctor only the patients on their schedule', async () => {
+    await renderSignedIn(<Probe />);
+
+    await waitFor(() => expect(screen.getByTestId('patients').textContent).toBe(assignedToDoctor()));
+    expect(screen.getByTestId('patients').dataset.restricted).toBe('true');
+    expect(assignedToDoctor().split(',').length).toBeLessThan(Object.keys(server.backend.db.patients).length);
+  });
+
+  it('opens every record during emergency access and records it for review', async () => {
+    await renderSignedIn(<Probe />);
+    await waitFor(() => expect(screen.getByTestId('patients').textContent).toBe(assignedToDoctor()));
+
+    await act(() => requestEmergencyAccess('Cardiac arrest in room 202, covering for Dr. Gomez'));
+
+    // Every record of the facility the doctor works in
+    const everyone = Object.keys(server.backend.db.patients)
+      .filter(id => server.backend.db.facilityOf[id] === 'central')
+      .sort().join(',');
+    await waitFor(() => expect(screen.getByTestId('patients').textContent).toBe(everyone));
+    expect(screen.getByTestId('patients').dataset.restricted).toBe('false');
+
+    await flushAuditLog();
+    expect(server.backend.db.audit).toEqual([
+      expect.objectContaining({
+        action: 'emergency_access',
+        priority: 'high',
+        actor: { id: 'doctor-1', name: 'Michael Chen' },
+        reason: 'Cardiac arrest in room 202, covering for Dr. Gomez',
+      }),
+    ]);
+
+    await act(() => endEmergencyAccess());
+    expect(server.backend.db.emergencyAccess[0].endedAt).toBeDefined();
+    await waitFor(() => expect(screen.getByTestId('patients').textContent).toBe(assignedToDoctor()));
+  });
+
+  it('ends emergency access when the granted time is up', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+
+    await requestEmergencyAccess('Rapid response call, patient not on my list', 10);
+    expect(getEmergencyAccess()).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(getEmergencyAccess()).toBeNull();
+  });
+});
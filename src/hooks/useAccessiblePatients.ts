@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { Patient } from '../api/types';
+import { useAuth } from '../contexts/AuthContext';
+import { useEntities, useStaffPatients } from '../store/hospitalSelectors';
+import { findStaffRecord } from '../utils/permissions';
+import { usePermission } from './usePermission';
+
+/**
+ * Patients the signed-in user may open: all of them with 'patient.view.all' (admins, or anyone
+ * during emergency access), otherwise the patients on their own schedule. `restricted` tells
+ * whether records are being held back.
+ */
+export const useAccessiblePatients = (): { patients: Record<string, Patient>; restricted: boolean } => {
+  const { user } = useAuth();
+  const staff = useEntities('staff');
+  const patients = useEntities('patients');
+  const viewAll = usePermission('patient.view.all');
+
+  const staffId = useMemo(() => {
+    const record = user ? findStaffRecord(staff, user) : undefined;
+    return record ? Object.keys(staff).find(id => staff[id] === record) : undefined;
+  }, [user, staff]);
+  const assigned = useStaffPatients(staffId);
+
+  return useMemo(() => ({
+    patients: viewAll ? patients : Object.fromEntries(assigned),
+    restricted: !viewAll,
+  }), [viewAll, patients, assigned]);
+};
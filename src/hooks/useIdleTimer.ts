@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Call `onIdle` once after `timeoutMs` without keyboard, pointer or touch input.
+ * A timeout of 0 or less turns the timer off.
+ */
+export const useIdleTimer = (timeoutMs: number, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (timeoutMs <= 0) return;
+
+    let timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [timeoutMs]);
+};
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useEmergencyAccess } from '../api/hooks/useEmergencyAccess';
+import { useEntities } from '../store/hospitalSelectors';
+import { findStaffRecord, Permission, permissionsFor } from '../utils/permissions';
+
+const NO_PERMISSIONS: ReadonlySet<Permission> = new Set();
+
+/**
+ * Everything the signed-in user may do, from their account role and their staff record, and every
+ * patient record while they have emergency access
+ */
+export const usePermissions = (): ReadonlySet<Permission> => {
+  const { user } = useAuth();
+  const staff = useEntities('staff');
+  const emergencyAccess = useEmergencyAccess();
+
+  return useMemo(() => {
+    if (!user) return NO_PERMISSIONS;
+    const record = findStaffRecord(staff, user);
+    const granted = permissionsFor({
+      role: user.role,
+      jobRole: record?.personalInfo.role,
+      department: record?.personalInfo.department ?? user.department,
+    });
+    return emergencyAccess ? new Set([...granted, 'patient.view.all' as const]) : granted;
+  }, [user, staff, emergencyAccess]);
+};
+
+/**
+ * Whether the signed-in user has the permission, or all of them when given a list
+ */
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const granted = usePermissions();
+  return (Array.isArray(permission) ? permission : [permission]).every(p => granted.has(p));
+};
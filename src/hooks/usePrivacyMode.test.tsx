@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, screen, waitFor } from '@testing-library/react';
+import { usePrivacyMode } from './usePrivacyMode';
+import { DEFAULT_PRIVACY_POLICY, updatePrivacyPolicy } from '../api/privacy';
+import { flushAuditLog } from '../api/audit';
+import { ENDPOINTS } from '../api/config';
+import Masked from '../components/ui/Masked';
+import { renderSignedIn } from '../test/providers';
+import { overrideRoute, setupMockBackend } from '../test/mockServer';
+
+const Probe = () => (
+  <div data-testid="name">
+    <Masked mode={usePrivacyMode('room-status')} mask="S. J.">Sarah Johnson</Masked>
+  </div>
+);
+
+const shownName = () => screen.getByTestId('name').textContent;
+
+describe('usePrivacyMode', () => {
+  describe('at a nursing station', () => {
+    const server = setupMockBackend('staff@hospital.com');
+
+    it('masks patient names for staff by default', async () => {
+      await renderSignedIn(<Probe />);
+      expect(shownName()).toBe('S. J.');
+    });
+
+    it('keeps masking when the policy cannot be loaded', async () => {
+      overrideRoute(server.backend, 'GET', ENDPOINTS.settings.privacy, 500, { detail: 'Database unavailable' });
+      await renderSignedIn(<Probe />);
+      await act(() => Promise.resolve());
+      expect(shownName()).toBe('S. J.');
+    });
+
+    it('falls back to the default for a role the policy leaves out', async () => {
+      overrideRoute(server.backend, 'GET', ENDPOINTS.settings.privacy, 200, {
+        masked_screens: { admin: [], doctor: [] },
+        relock_seconds: 30,
+      });
+      await renderSignedIn(<Probe />);
+      await act(() => Promise.resolve());
+      expect(shownName()).toBe('S. J.');
+    });
+  });
+
+  describe('configured by an admin', () => {
+    const server = setupMockBackend('admin@hospital.com');
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('masks the screens chosen for the role and relocks revealed names', async () => {
+      await renderSignedIn(<Probe />);
+      expect(shownName()).toBe('Sarah Johnson');
+
+      await act(() => updatePrivacyPolicy({
+        masked_screens: { ...DEFAULT_PRIVACY_POLICY.masked_screens, admin: ['room-status'] },
+        relock_seconds: 5,
+      }));
+      await waitFor(() => expect(shownName()).toBe('S. J.'));
+
+      vi.useFakeTimers({ toFake: ['setTimeout'] });
+      fireEvent.click(screen.getByRole('button'));
+      expect(shownName()).toBe('Sarah Johnson');
+
+      await act(() => vi.advanceTimersByTimeAsync(5000));
+      expect(shownName()).toBe('S. J.');
+    });
+
+    it('writes each change of the policy to the audit trail', async () => {
+      const policy = { ...DEFAULT_PRIVACY_POLICY, relock_seconds: 60 };
+      expect((await updatePrivacyPolicy(policy, DEFAULT_PRIVACY_POLICY)).error).toBeUndefined();
+
+      await flushAuditLog();
+      expect(server.backend.db.audit).toContainEqual(expect.objectContaining({
+        action: 'update',
+        entity: expect.objectContaining({ type: 'setting', id: 'privacy' }),
+        changes: [{ field: 'relock_seconds', before: 30, after: 60 }],
+      }));
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { usePrivacyPolicy } from '../api/hooks/usePrivacyPolicy';
+import { maskedScreensFor, PrivacyScreen } from '../api/privacy';
+
+export interface PrivacyMode {
+  // Whether the screen hides patient identifiers from the signed-in user's role
+  masked: boolean;
+  relockSeconds: number;
+}
+
+/**
+ * Whether privacy mode is on for the screen, from the admins' policy for the signed-in user's role
+ */
+export const usePrivacyMode = (screen: PrivacyScreen): PrivacyMode => {
+  const { user } = useAuth();
+  const { policy } = usePrivacyPolicy();
+  return {
+    masked: !!user && maskedScreensFor(policy, user.role).includes(screen),
+    relockSeconds: policy.relock_seconds,
+  };
+};
+
+/**
+ * Shows masked details on request and masks them again after `relockSeconds`
+ */
+export const useTimedReveal = (relockSeconds: number) => {
+  const [revealedAt, setRevealedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (revealedAt === null) return;
+    const timer = setTimeout(() => setRevealedAt(null), relockSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [revealedAt, relockSeconds]);
+
+  const reveal = useCallback(() => setRevealedAt(Date.now()), []);
+  const relock = useCallback(() => setRevealedAt(null), []);
+
+  return { revealed: revealedAt !== null, reveal, relock };
+};
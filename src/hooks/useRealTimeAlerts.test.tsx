@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import Api from '../api/api';
+import { ENDPOINTS } from '../api/config';
+import { createSuppression } from '../api/alertSuppression';
+import { IoTDevice } from '../api/types';
+import { setupMockBackend } from '../test/mockServer';
+import { incidentSparkline } from '../utils/alertCorrelation';
+import { useRealTimeAlerts } from './useRealTimeAlerts';
+
+const MONITOR = 'vitals_monitor_004';
+
+describe('useRealTimeAlerts', () => {
+  const server = setupMockBackend('doctor@hospital.com');
+
+  const raiseAlert = (timestamp: string, alert: Partial<IoTDevice['alerts'][string]> = {}) => {
+    server.backend.db.devices[MONITOR].alerts[timestamp] = {
+      type: 'warning',
+      message: `Alert raised at ${timestamp}`,
+      timestamp,
+      resolved: false,
+      ...alert,
+    };
+  };
+
+  // Poll interval 0 makes every refresh go to the backend instead of the query cache
+  const renderAlerts = () => {
+    const onNewAlert = vi.fn();
+    const onAlertResolved = vi.fn();
+    const hook = renderHook(() => useRealTimeAlerts({ enabled: false, pollInterval: 0, onNewAlert, onAlertResolved }));
+    return { ...hook, onNewAlert, onAlertResolved };
+  };
+
+  it('loads the alerts of every device without reporting them as new', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    const { result, onNewAlert } = renderAlerts();
+
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    expect(result.current.alerts).toContainEqual(expect.objectContaining({
+      id: '2025-03-10_11-00-00',
+      deviceId: MONITOR,
+      roomId: 'room_201',
+      deviceType: 'vitals_monitor',
+    }));
+    expect(onNewAlert).not.toHaveBeenCalled();
+  });
+
+  it('reports alerts that appeared since the last refresh', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    const { result, onNewAlert } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    raiseAlert('2025-03-10_12-30-00', { type: 'critical', message: 'SpO2 86%' });
+    await act(() => result.current.refreshAlerts());
+
+    expect(onNewAlert).toHaveBeenCalledTimes(1);
+    expect(onNewAlert).toHaveBeenCalledWith(expect.objectContaining({
+      id: '2025-03-10_12-30-00',
+      deviceId: MONITOR,
+      type: 'critical',
+      message: 'SpO2 86%',
+    }), expect.objectContaining({ count: 1 }));
+
+    // Nothing changed, nothing to report
+    await act(() => result.current.refreshAlerts());
+    expect(onNewAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('flags readings that breach the patient\'s thresholds without a backend alert', async () => {
+    server.backend.db.vitalThresholds.patients.patient_004 = [
+      { field: 'oxygenLevel', operator: '<', value: 100, level: 'critical', for_minutes: 0 },
+    ];
+    const { result } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    expect(result.current.alerts).toContainEqual(expect.objectContaining({
+      id: 'thresholds_critical',
+      deviceId: MONITOR,
+      patientId: 'patient_004',
+      type: 'critical',
+      message: expect.stringMatching(/: SpO2 \d+%$/),
+      resolved: false,
+      flaggedByThresholds: true,
+    }));
+  });
+
+  it('does not flag a breach the backend already raised an alert for', async () => {
+    server.backend.db.vitalThresholds.patients.patient_004 = [
+      { field: 'oxygenLevel', operator: '<', value: 100, level: 'critical', for_minutes: 0 },
+    ];
+    raiseAlert('2025-03-10_11-55-00', { type: 'critical', message: 'SpO2 86%' });
+    const { result } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    expect(result.current.alerts.filter(alert => alert.deviceId === MONITOR)).toEqual([
+      expect.objectContaining({ id: '2025-03-10_11-55-00', type: 'critical' }),
+    ]);
+  });
+
+  it('flags a breach of another vital sign or one newer than the open backend alert', async () => {
+    server.backend.db.vitalThresholds.patients.patient_004 = [
+      { field: 'oxygenLevel', operator: '<', value: 100, level: 'critical', for_minutes: 0 },
+    ];
+    raiseAlert('2025-03-10_11-55-00', { type: 'critical', message: 'Patricia Davis: heart rate 135 bpm' });
+    // Left open from a breach that ended before the current one started
+    raiseAlert('2025-03-10_10-00-00', { type: 'critical', message: 'Patricia Davis: SpO2 84%' });
+    const { result } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    expect(result.current.alerts).toContainEqual(expect.objectContaining({
+      id: 'thresholds_critical',
+      deviceId: MONITOR,
+      message: expect.stringMatching(/: SpO2 \d+%$/),
+    }));
+  });
+
+  it('does not report alerts that arrive already resolved', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    const { result, onNewAlert } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    raiseAlert('2025-03-10_12-30-00', { resolved: true });
+    await act(() => result.current.refreshAlerts());
+
+    expect(onNewAlert).not.toHaveBeenCalled();
+  });
+
+  it('reports repeats of an alert once and counts them in its incident', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    const { result, onNewAlert } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    raiseAlert('2025-03-10_12-30-00', { type: 'critical', message: 'SpO2 86%' });
+    await act(() => result.current.refreshAlerts());
+    raiseAlert('2025-03-10_12-32-00', { type: 'critical', message: 'SpO2 84%' });
+    raiseAlert('2025-03-10_12-35-00', { type: 'critical', message: 'SpO2 87%' });
+    await act(() => result.current.refreshAlerts());
+
+    expect(onNewAlert).toHaveBeenCalledTimes(1);
+    const incident = result.current.incidents.find(({ latest }) => latest.deviceId === MONITOR && latest.type === 'critical');
+    expect(incident).toEqual(expect.objectContaining({ count: 3, resolved: false }));
+    expect(incidentSparkline(incident!)).toEqual([86, 84, 87]);
+  });
+
+  it('does not report alerts of a snoozed device', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    await createSuppression({
+      scope: 'device',
+      target_id: MONITOR,
+      reason: 'SpO2 probe being replaced',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    const { result, onNewAlert } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+    const existing = result.current.alerts.find(alert => alert.id === '2025-03-10_11-00-00')!;
+    await waitFor(() => expect(result.current.isSnoozed({ ...existing, suppressedBy: undefined })).toBe(true));
+
+    raiseAlert('2025-03-10_12-30-00', { type: 'critical', message: 'SpO2 86%' });
+    await act(() => result.current.refreshAlerts());
+
+    expect(onNewAlert).not.toHaveBeenCalled();
+  });
+
+  it('reports alerts resolved since the last refresh', async () => {
+    raiseAlert('2025-03-10_11-00-00');
+    const { result, onAlertResolved } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    await Api.post(ENDPOINTS.iot.resolveAlert(MONITOR, '2025-03-10_11-00-00'), { resolvedBy: 'Dr. Michael Chen' });
+    await act(() => result.current.refreshAlerts());
+
+    expect(onAlertResolved).toHaveBeenCalledTimes(1);
+    expect(onAlertResolved).toHaveBeenCalledWith(expect.objectContaining({
+      id: '2025-03-10_11-00-00',
+      deviceId: MONITOR,
+      resolved: true,
+      resolvedBy: 'Dr. Michael Chen',
+    }));
+  });
+
+  it('lists open critical alerts first and resolved ones last', async () => {
+    raiseAlert('2025-03-10_11-00-00', { type: 'critical', resolved: true });
+    raiseAlert('2025-03-10_11-10-00', { type: 'warning' });
+    raiseAlert('2025-03-10_11-05-00', { type: 'critical' });
+    const { result } = renderAlerts();
+    await waitFor(() => expect(result.current.lastUpdated).not.toBeNull());
+
+    const raised = new Set(['2025-03-10_11-00-00', '2025-03-10_11-05-00', '2025-03-10_11-10-00']);
+    const ours = result.current.alerts.filter(alert => alert.deviceId === MONITOR && raised.has(alert.id));
+    expect(ours.map(alert => alert.id)).toEqual([
+      '2025-03-10_11-05-00',
+      '2025-03-10_11-10-00',
+      '2025-03-10_11-00-00',
+    ]);
+  });
+});
@@ -1,11 +1,31 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { IoTDevice } from '../api/types';
-import { API_BASE_URL } from '../api/config';
+import { AlertEscalationStep, IoTDevice } from '../api/types';
+import { query } from '../api/queryCache';
+import { ENDPOINTS } from '../api/config';
+import { LiveSubscription } from '../api/liveChannel';
+import { useLiveStatus, useLiveSubscription } from '../api/hooks/useLiveChannel';
+import { getHospitalState } from '../store/hospitalStore';
+import { compareTimestampsDesc, formatTimestamp, toTimestampMs } from '../utils/dateUtils';
+import { AlertIncident, DEFAULT_CORRELATION_WINDOW_MS, groupAlerts } from '../utils/alertCorrelation';
+import { findSuppression } from '../api/alertSuppression';
+import { useAlertSuppressions } from '../api/hooks/useAlertSuppressions';
+import {
+  EMPTY_VITAL_THRESHOLDS,
+  VITAL_FIELD_INFO,
+  ThresholdBreach,
+  VitalThresholds,
+  describeBreach,
+  evaluateVitals,
+  thresholdRulesFor
+} from '../api/vitalThresholds';
+import { getPatientVitalHistory } from '../utils/deviceUtils';
 
-interface AlertWithDevice {
+export interface AlertWithDevice {
   id: string;
   deviceId: string;
   roomId: string;
+  // Patient the device monitored when the alerts were loaded
+  patientId?: string;
   deviceType: IoTDevice['deviceInfo']['type'];
   type: 'critical' | 'warning' | 'info';
   message: string;
@@ -14,35 +34,158 @@ interface AlertWithDevice {
   resolvedBy?: string;
   resolvedAt?: string;
   assignedTo?: string;
+  acknowledged?: boolean;
+  acknowledgedBy?: string;
+  escalationDueAt?: string;
+  escalationHistory?: AlertEscalationStep[];
+  suppressedBy?: string;
+  // Raised here from the patient's threshold rules, not by the backend; it cannot be acknowledged
+  flaggedByThresholds?: boolean;
 }
 
 interface UseRealTimeAlertsOptions {
   pollInterval?: number; // in milliseconds
   enabled?: boolean;
-  onNewAlert?: (alert: AlertWithDevice) => void;
+  // Repeats of an alert within this window join its incident instead of being reported again
+  groupWindowMs?: number;
+  // Called for the first alert of every new incident, unless the alert is snoozed
+  onNewAlert?: (alert: AlertWithDevice, incident: AlertIncident<AlertWithDevice>) => void;
   onAlertResolved?: (alert: AlertWithDevice) => void;
 }
 
 interface UseRealTimeAlertsReturn {
   alerts: AlertWithDevice[];
+  // The same alerts grouped into incidents, open and most severe first; timestamps are not formatted
+  incidents: Array<AlertIncident<AlertWithDevice>>;
+  // Whether a snooze rule silences the alert
+  isSnoozed: (alert: AlertWithDevice) => boolean;
   loading: boolean;
   error: string | null;
   refreshAlerts: () => Promise<void>;
   lastUpdated: Date | null;
   isPolling: boolean;
+  // True while alerts are pushed over the live channel instead of polled
+  isLive: boolean;
   startPolling: () => void;
   stopPolling: () => void;
 }
 
+const liveAlertSubscriptions: LiveSubscription[] = [{ kind: 'alerts' }];
+
+const alertKey = (alert: AlertWithDevice) => `${alert.deviceId}-${alert.id}`;
+
+const toAlertWithDevice = (
+  deviceId: string,
+  alertId: string,
+  alert: IoTDevice['alerts'][string],
+  roomId: string,
+  deviceType: AlertWithDevice['deviceType'],
+  patientId?: string
+): AlertWithDevice => ({
+  id: alertId,
+  deviceId,
+  roomId,
+  patientId,
+  deviceType,
+  type: alert.type,
+  message: alert.message,
+  timestamp: alert.timestamp,
+  resolved: alert.resolved,
+  resolvedBy: alert.resolvedBy,
+  resolvedAt: alert.resolvedAt,
+  assignedTo: alert.assignedTo,
+  acknowledged: alert.acknowledged,
+  acknowledgedBy: alert.acknowledgedBy,
+  escalationDueAt: alert.escalationDueAt,
+  escalationHistory: alert.escalationHistory,
+  suppressedBy: alert.suppressedBy
+});
+
+const SEVERITY_ORDER: Record<AlertWithDevice['type'], number> = { critical: 0, warning: 1, info: 2 };
+
+// Whether an open backend alert of the device reports the breach: at least as severe, naming the
+// same vital sign, and raised since the breach started rather than left over from an earlier one
+const reportedByBackend = (breach: ThresholdBreach, deviceAlerts: AlertWithDevice[]) => {
+  const label = VITAL_FIELD_INFO[breach.rule.field].label.toLowerCase();
+  return deviceAlerts.some(alert =>
+    !alert.resolved &&
+    SEVERITY_ORDER[alert.type] <= SEVERITY_ORDER[breach.rule.level] &&
+    alert.message.toLowerCase().includes(label) &&
+    toTimestampMs(alert.timestamp) >= breach.since);
+};
+
+/**
+ * An alert for a monitor whose readings breach the patient's threshold rules in a way no backend
+ * alert reports yet, e.g. a new SpO2 breach next to an open heart rate alert. The id only names
+ * the level, so a breach that lasts stays one alert across refreshes.
+ */
+const thresholdAlert = (
+  deviceId: string,
+  device: IoTDevice,
+  thresholds: VitalThresholds,
+  backendAlerts: AlertWithDevice[]
+): AlertWithDevice | null => {
+  const patientId = device.deviceInfo.currentPatientId;
+  if (device.deviceInfo.type !== 'vitals_monitor' || !patientId) return null;
+
+  const readings = getPatientVitalHistory(device, patientId);
+  if (readings.length === 0) return null;
+
+  const patient = getHospitalState().entities.patients[patientId];
+  const assessment = evaluateVitals(readings, thresholdRulesFor(thresholds, patientId, patient?.personalInfo.ward));
+  const deviceAlerts = backendAlerts.filter(alert => alert.deviceId === deviceId);
+  const breaches = assessment.breaches.filter(breach => !reportedByBackend(breach, deviceAlerts));
+  if (breaches.length === 0) return null;
+
+  const type = breaches.some(breach => breach.rule.level === 'critical') ? 'critical' : 'warning';
+  const findings = breaches.filter(breach => breach.rule.level === type).map(describeBreach).join(', ');
+
+  return {
+    id: `thresholds_${type}`,
+    deviceId,
+    roomId: device.deviceInfo.roomId || 'Unknown',
+    patientId,
+    deviceType: device.deviceInfo.type,
+    type,
+    message: `${patient?.personalInfo.name ?? patientId}: ${findings}`,
+    timestamp: readings[readings.length - 1].timestamp,
+    resolved: false,
+    flaggedByThresholds: true
+  };
+};
+
+// Sort alerts by priority and timestamp, then format timestamps for display
+const sortForDisplay = (alerts: AlertWithDevice[]): AlertWithDevice[] =>
+  [...alerts].sort((a, b) => {
+    if (a.resolved !== b.resolved) return a.resolved ? 1 : -1;
+    if (!a.resolved && a.type !== b.type) {
+      if (a.type === 'critical') return -1;
+      if (b.type === 'critical') return 1;
+      if (a.type === 'warning') return -1;
+      if (b.type === 'warning') return 1;
+    }
+    return compareTimestampsDesc(a.timestamp, b.timestamp);
+  }).map(alert => ({ ...alert, timestamp: formatTimestamp(alert.timestamp) }));
+
+// Open incidents first, the most severe and most recently active of them first
+const sortIncidents = (incidents: Array<AlertIncident<AlertWithDevice>>) =>
+  [...incidents].sort((a, b) => {
+    if (a.resolved !== b.resolved) return a.resolved ? 1 : -1;
+    if (!a.resolved && a.latest.type !== b.latest.type) return SEVERITY_ORDER[a.latest.type] - SEVERITY_ORDER[b.latest.type];
+    return b.lastAt - a.lastAt;
+  });
+
 export const useRealTimeAlerts = (options: UseRealTimeAlertsOptions = {}): UseRealTimeAlertsReturn => {
   const {
     pollInterval = 5000, // 5 seconds default
     enabled = true,
+    groupWindowMs = DEFAULT_CORRELATION_WINDOW_MS,
     onNewAlert,
     onAlertResolved
   } = options;
 
   const [alerts, setAlerts] = useState<AlertWithDevice[]>([]);
+  const [incidents, setIncidents] = useState<Array<AlertIncident<AlertWithDevice>>>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
@@ -50,109 +193,105 @@ export const useRealTimeAlerts = (options: UseRealTimeAlertsOptions = {}): UseRe
 
   const intervalRef = useRef<number | null>(null);
   const previousAlertsRef = useRef<AlertWithDevice[]>([]);
+  // Unformatted alerts keyed by `${deviceId}-${alertId}`, so pushed alerts can be merged in
+  const rawAlertsRef = useRef<Map<string, AlertWithDevice>>(new Map());
 
-  const formatTimestamp = (timestamp: string | undefined | null): string => {
-    if (!timestamp) return 'No data available';
-    
-    try {
-      let date: Date;
-      
-      // Handle different timestamp formats
-      if (typeof timestamp === 'string' && timestamp.includes('_')) {
-        const [datePart, timePart] = timestamp.split('_');
-        const [year, month, day] = datePart.split('-');
-        const [hour, minute, second] = timePart.split('-');
-        date = new Date(
-          parseInt(year), 
-          parseInt(month) - 1,
-          parseInt(day), 
-          parseInt(hour), 
-          parseInt(minute), 
-          parseInt(second || '0')
-        );
-      } else {
-        date = new Date(timestamp);
-      }
-      
-      if (isNaN(date.getTime())) {
-        console.warn('Invalid date created from timestamp:', timestamp);
-        return 'Invalid date';
-      }
-      
-      return date.toLocaleString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: true
-      });
-    } catch (error) {
-      console.error('Error formatting timestamp:', timestamp, error);
-      return 'Invalid date format';
-    }
-  };
+  const isLive = useLiveStatus() === 'live';
+
+  const { suppressions } = useAlertSuppressions();
+  const suppressionsRef = useRef(suppressions);
+  suppressionsRef.current = suppressions;
+
+  // Marked by the backend once it saw the alert under a rule; until then the rules are checked here
+  const isSnoozed = useCallback((alert: AlertWithDevice) =>
+    !!alert.suppressedBy || findSuppression(suppressions, alert) !== null, [suppressions]);
 
   const fetchAlerts = useCallback(async (): Promise<AlertWithDevice[]> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/iotData`);
+      // Shares the device list with other pollers that fetched it within half an interval
+      const [response, thresholdsResponse] = await Promise.all([
+        query<Record<string, IoTDevice>>(ENDPOINTS.iot.getAll, { staleTime: pollInterval / 2 }),
+        query<VitalThresholds>(ENDPOINTS.settings.vitalThresholds)
+      ]);
       
-      if (!response.ok) {
+      if (response.error) {
         throw new Error(`HTTP ${response.status}: Failed to fetch IoT data`);
       }
 
-      const iotDevices: Record<string, IoTDevice> = await response.json();
+      const iotDevices = response.data;
       
       if (!iotDevices || typeof iotDevices !== 'object') {
         return [];
       }
 
       // Flatten alerts from all devices
-      const allAlerts = Object.entries(iotDevices).flatMap(([deviceId, device]) => {
-        if (!device || !device.deviceInfo) {
-          return [];
-        }
+      // Devices and alerts are validated by the API client, malformed ones never get here
+      const backendAlerts = Object.entries(iotDevices).flatMap(([deviceId, device]) =>
+        Object.entries(device.alerts).map(([alertId, alert]) => toAlertWithDevice(
+          deviceId,
+          alertId,
+          alert,
+          device.deviceInfo.roomId || 'Unknown',
+          device.deviceInfo.type,
+          device.deviceInfo.currentPatientId
+        ))
+      );
 
-        const alerts = device.alerts || {};
-        return Object.entries(alerts).map(([alertId, alert]) => {
-          if (!alert || typeof alert !== 'object') {
-            return null;
-          }
+      // Breaches of the patients' rules the backend did not raise an alert for; without the rules
+      // only the built-in ones apply. While alerts are pushed these are only checked on a reload.
+      const thresholds = thresholdsResponse.data ?? EMPTY_VITAL_THRESHOLDS;
+      const flagged = Object.entries(iotDevices)
+        .map(([deviceId, device]) => thresholdAlert(deviceId, device, thresholds, backendAlerts))
+        .filter((alert): alert is AlertWithDevice => alert !== null);
 
-          return {
-            id: alertId,
-            deviceId,
-            roomId: device.deviceInfo.roomId || 'Unknown',
-            deviceType: device.deviceInfo.type || 'unknown',
-            type: alert.type || 'info',
-            message: alert.message || 'No message',
-            timestamp: formatTimestamp(alert.timestamp),
-            resolved: Boolean(alert.resolved),
-            resolvedBy: alert.resolvedBy,
-            resolvedAt: alert.resolvedAt,
-            assignedTo: alert.assignedTo
-          } as AlertWithDevice;
-        }).filter((alert): alert is AlertWithDevice => alert !== null);
-      });
-
-      // Sort alerts by priority and timestamp
-      return allAlerts.sort((a, b) => {
-        if (a.resolved !== b.resolved) return a.resolved ? 1 : -1;
-        if (!a.resolved && a.type !== b.type) {
-          if (a.type === 'critical') return -1;
-          if (b.type === 'critical') return 1;
-          if (a.type === 'warning') return -1;
-          if (b.type === 'warning') return 1;
-        }
-        return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-      });
+      return [...backendAlerts, ...flagged];
 
     } catch (err) {
       console.error('Failed to fetch alerts:', err);
       throw err;
     }
-  }, []);
+  }, [pollInterval]);
+
+  // Publish a new raw alert set and report what appeared or got resolved since the last one
+  const applyAlerts = useCallback((rawAlerts: AlertWithDevice[]) => {
+    const newAlerts = sortForDisplay(rawAlerts);
+    const newIncidents = groupAlerts(rawAlerts, groupWindowMs);
+    const previousAlerts = previousAlertsRef.current;
+
+    // Detect new incidents; repeats of an alert and snoozed alerts raise nothing
+    if (onNewAlert && previousAlerts.length > 0) {
+      const previousAlertIds = new Set(previousAlerts.map(alertKey));
+      const openedIncidents = new Map(newIncidents.map(incident => [alertKey(incident.alerts[0]), incident]));
+      
+      newAlerts.forEach(alert => {
+        const incident = openedIncidents.get(alertKey(alert));
+        const snoozed = !!alert.suppressedBy || findSuppression(suppressionsRef.current, alert) !== null;
+        if (incident && !previousAlertIds.has(alertKey(alert)) && !alert.resolved && !snoozed) {
+          onNewAlert(alert, incident);
+        }
+      });
+    }
+
+    // Detect resolved alerts
+    if (onAlertResolved && previousAlerts.length > 0) {
+      previousAlerts.forEach(prevAlert => {
+        if (!prevAlert.resolved) {
+          const currentAlert = newAlerts.find(a => 
+            a.deviceId === prevAlert.deviceId && a.id === prevAlert.id
+          );
+          if (currentAlert && currentAlert.resolved) {
+            onAlertResolved(currentAlert);
+          }
+        }
+      });
+    }
+
+    rawAlertsRef.current = new Map(rawAlerts.map(alert => [alertKey(alert), alert]));
+    setAlerts(newAlerts);
+    setIncidents(sortIncidents(newIncidents));
+    previousAlertsRef.current = newAlerts;
+    setLastUpdated(new Date());
+  }, [groupWindowMs, onNewAlert, onAlertResolved]);
 
   const refreshAlerts = useCallback(async () => {
     if (loading) return; // Prevent concurrent requests
@@ -161,44 +300,33 @@ export const useRealTimeAlerts = (options: UseRealTimeAlertsOptions = {}): UseRe
     setError(null);
 
     try {
-      const newAlerts = await fetchAlerts();
-      const previousAlerts = previousAlertsRef.current;
-
-      // Detect new alerts
-      if (onNewAlert && previousAlerts.length > 0) {
-        const previousAlertIds = new Set(previousAlerts.map(a => `${a.deviceId}-${a.id}`));
-        
-        newAlerts.forEach(alert => {
-          const alertKey = `${alert.deviceId}-${alert.id}`;
-          if (!previousAlertIds.has(alertKey) && !alert.resolved) {
-            onNewAlert(alert);
-          }
-        });
-      }
-
-      // Detect resolved alerts
-      if (onAlertResolved && previousAlerts.length > 0) {
-        previousAlerts.forEach(prevAlert => {
-          if (!prevAlert.resolved) {
-            const currentAlert = newAlerts.find(a => 
-              a.deviceId === prevAlert.deviceId && a.id === prevAlert.id
-            );
-            if (currentAlert && currentAlert.resolved) {
-              onAlertResolved(currentAlert);
-            }
-          }
-        });
-      }
-
-      setAlerts(newAlerts);
-      previousAlertsRef.current = newAlerts;
-      setLastUpdated(new Date());
+      applyAlerts(await fetchAlerts());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch alerts');
     } finally {
       setLoading(false);
     }
-  }, [fetchAlerts, onNewAlert, onAlertResolved]);
+  }, [fetchAlerts, applyAlerts]);
+
+  useLiveSubscription(liveAlertSubscriptions, event => {
+    if (event.type !== 'alert') return;
+
+    // Pushed alerts may leave out the room and device type; fall back to the loaded device
+    const known = rawAlertsRef.current.get(`${event.deviceId}-${event.alertId}`);
+    const device = getHospitalState().entities.devices[event.deviceId];
+    const roomId = event.roomId || known?.roomId || device?.deviceInfo.roomId;
+    const deviceType = event.deviceType || known?.deviceType || device?.deviceInfo.type;
+    if (!roomId || !deviceType) {
+      refreshAlerts();
+      return;
+    }
+
+    const patientId = event.patientId || known?.patientId || device?.deviceInfo.currentPatientId;
+    const alert = toAlertWithDevice(event.deviceId, event.alertId, event.alert, roomId, deviceType, patientId);
+    const rawAlerts = new Map(rawAlertsRef.current);
+    rawAlerts.set(alertKey(alert), alert);
+    applyAlerts([...rawAlerts.values()]);
+  });
 
   const startPolling = useCallback(() => {
     if (intervalRef.current) {
@@ -217,18 +345,19 @@ export const useRealTimeAlerts = (options: UseRealTimeAlertsOptions = {}): UseRe
     setIsPolling(false);
   }, []);
 
-  // Initial load and setup polling
+  // Initial load, then poll unless alerts are pushed over the live channel.
+  // Going live reloads once so nothing from before the subscription is missed.
   useEffect(() => {
     refreshAlerts(); // Initial load
 
-    if (enabled) {
+    if (enabled && !isLive) {
       startPolling();
     }
 
     return () => {
       stopPolling();
     };
-  }, [enabled, startPolling, stopPolling, refreshAlerts]);
+  }, [enabled, isLive, startPolling, stopPolling, refreshAlerts]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -241,11 +370,14 @@ export const useRealTimeAlerts = (options: UseRealTimeAlertsOptions = {}): UseRe
 
   return {
     alerts,
+    incidents,
+    isSnoozed,
     loading,
     error,
     refreshAlerts,
     lastUpdated,
     isPolling,
+    isLive,
     startPolling,
     stopPolling
   };
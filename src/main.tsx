@@ -1,10 +1,22 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { MOCK_API } from './api/config';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const render = () =>
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+
+// The mock backend has to be in place before the first request; it is left out of the bundle otherwise
+if (MOCK_API) {
+  import('./api/mock/mockBackend').then(({ startMockBackend }) => {
+    startMockBackend();
+    render();
+  });
+} else {
+  render();
+}
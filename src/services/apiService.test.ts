@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fetchHealthRiskPrediction, fetchPatientRecord, normalizePatientId } from './apiService';
+import { setupMockBackend } from '../test/mockServer';
+
+describe('normalizePatientId', () => {
+  it.each([
+    ['P1001', 'patient_1001'],
+    ['P001', 'patient_001'],
+    ['1001', 'patient_1001'],
+    ['patient_1001', 'patient_1001'],
+  ])('maps %s to %s', (input, expected) => {
+    expect(normalizePatientId(input)).toBe(expected);
+  });
+
+  it('leaves other identifiers alone', () => {
+    expect(normalizePatientId('icu-bed-3')).toBe('icu-bed-3');
+  });
+
+  it('returns an empty string for an empty id', () => {
+    expect(normalizePatientId('')).toBe('');
+  });
+});
+
+describe('patient lookups', () => {
+  setupMockBackend('doctor@hospital.com');
+
+  it('finds a record by a short patient id', async () => {
+    const record = await fetchPatientRecord('P001');
+
+    expect(record.id).toBe('patient_001');
+    expect(record.personalInfo.name).toBe('Robert Miller');
+  });
+
+  it('reports an unknown patient by the id the user typed', async () => {
+    await expect(fetchPatientRecord('P999')).rejects.toThrow('Patient with ID "P999" not found');
+  });
+
+  it('reads the risk prediction of a bare patient number', async () => {
+    const prediction = await fetchHealthRiskPrediction('005');
+
+    expect(prediction.patientId).toBe('patient_005');
+    expect(prediction.predictedConditions).toContain('Fluid overload');
+  });
+});
@@ -1,7 +1,9 @@
-import { API_BASE_URL } from '../api/config';
+import type { ApiResponse } from '../api/api';
+import { query } from '../api/queryCache';
+import { compareTimestampsDesc, getLatestEntry, toIsoTimestamp } from '../utils/dateUtils';
 
-// Utility function to normalize patient IDs
-const normalizePatientId = (patientId: string): string => {
+// Normalize the patient IDs users type (P1001, 1001) to the backend format (patient_1001)
+export const normalizePatientId = (patientId: string): string => {
   if (!patientId) return '';
   
   // Convert P1001 -> patient_1001
@@ -22,16 +24,10 @@ const normalizePatientId = (patientId: string): string => {
   return patientId;
 };
 
-// Utility function to create requests with timeout
-const createRequestWithTimeout = (url: string, options: RequestInit = {}, timeout: number = 10000): Promise<Response> => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  
-  return fetch(url, {
-    ...options,
-    signal: controller.signal
-  }).finally(() => clearTimeout(timeoutId));
-};
+// Assistant queries read through the query cache but fail faster than the client's default timeout.
+// The payloads are checked where they are read, as each backend shapes them a little differently.
+const requestWithTimeout = (endpoint: string, params?: Record<string, string>, timeout: number = 10000): Promise<ApiResponse> =>
+  query(endpoint, { params, timeout });
 
 // Interfaces
 interface Patient {
@@ -141,43 +137,29 @@ interface HealthRiskPrediction {
   recommendations: string[];
   lastAssessment: string;
 }
-// Helper to parse backend timestamp format
+// Helper to convert backend timestamps to ISO, falling back to now for missing values
 const parseBackendTimestamp = (timestamp: string): string => {
-  if (!timestamp) {
-    return new Date().toISOString();
-  }
-  
-  try {
-    // Convert "2025-07-30_10-26-36" to "2025-07-30T10:26:36"
-    const isoFormat = timestamp.replace('_', 'T').replace(/-/g, ':');
-    const date = new Date(isoFormat);
-    
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid timestamp format:', timestamp);
-      return new Date().toISOString();
-    }
-    
-    return date.toISOString();
-  } catch (error) {
-    console.warn('Error parsing timestamp:', timestamp, error);
-    return new Date().toISOString();
+  const iso = toIsoTimestamp(timestamp);
+  if (!iso && timestamp) {
+    console.warn('Invalid timestamp format:', timestamp);
   }
+  return iso ?? new Date().toISOString();
 };
 // New API Methods
 const fetchPatientRecordFromAPI = async (patientId: string): Promise<PatientRecord> => {
   try {
     const backendPatientId = normalizePatientId(patientId);
     
-    const response = await createRequestWithTimeout(`${API_BASE_URL}/patients/${backendPatientId}`);
+    const response = await requestWithTimeout(`/patients/${backendPatientId}`);
     
-    if (!response.ok) {
-      if (response.status === 404) {
+    if (response.error) {
+      if (response.error.kind === 'NotFound') {
         throw new Error(`Patient with ID "${patientId}" not found`);
       }
       throw new Error(`Failed to fetch patient record (Status: ${response.status})`);
     }
     
-    const patientData = await response.json();
+    const patientData = response.data;
     
     // Parse and format the admission date from personalInfo and put it in currentStatus for consistency
     const formattedAdmissionDate = patientData.personalInfo?.admissionDate 
@@ -194,9 +176,6 @@ const fetchPatientRecordFromAPI = async (patientId: string): Promise<PatientReco
       }
     };
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('Error fetching patient record:', error);
     throw error;
   }
@@ -209,20 +188,12 @@ const getLatestVitalsFromTimestampKeys = (vitalsObject: any): any => {
     return null;
   }
   
-  // Get all timestamp keys and find the latest one
-  const timestampKeys = Object.keys(vitalsObject).filter(key => 
-    key.match(/^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/)
+  // Only timestamp-keyed entries are readings
+  const readings = Object.fromEntries(
+    Object.entries(vitalsObject).filter(([key]) => /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/.test(key))
   );
   
-  if (timestampKeys.length === 0) {
-    return null;
-  }
-  
-  // Sort timestamps and get the latest
-  timestampKeys.sort((a, b) => b.localeCompare(a));
-  const latestTimestamp = timestampKeys[0];
-  
-  return vitalsObject[latestTimestamp];
+  return getLatestEntry(readings)?.[1] ?? null;
 };
 
 // Helper to parse vitals data from string format
@@ -269,9 +240,9 @@ const fetchPatientVitalsFromAPI = async (patientId: string): Promise<VitalSigns>
     console.log(`🩺 Fetching vitals for patient: ${backendPatientId}`);
     
     // First, try to get vitals from patient predictions (most recent)
-    const patientResponse = await createRequestWithTimeout(`${API_BASE_URL}/patients/${backendPatientId}`);
-    if (patientResponse.ok) {
-      const patientData = await patientResponse.json();
+    const patientResponse = await requestWithTimeout(`/patients/${backendPatientId}`);
+    if (!patientResponse.error) {
+      const patientData = patientResponse.data;
       console.log('✅ Patient data received:', patientData);
       
       // Get vitals from latest prediction
@@ -303,12 +274,12 @@ const fetchPatientVitalsFromAPI = async (patientId: string): Promise<VitalSigns>
     
     // Fallback: Search through IoT devices for vitals monitors
     console.log('🔍 Searching IoT devices for vitals monitor...');
-    const devicesResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData`);
-    if (!devicesResponse.ok) {
+    const devicesResponse = await requestWithTimeout('/iotData');
+    if (devicesResponse.error) {
       throw new Error(`Failed to fetch IoT devices (Status: ${devicesResponse.status})`);
     }
     
-    const devices = await devicesResponse.json();
+    const devices = devicesResponse.data;
     console.log('📦 Available devices:', Object.keys(devices));
     
     // Find monitor for this patient
@@ -346,9 +317,6 @@ const fetchPatientVitalsFromAPI = async (patientId: string): Promise<VitalSigns>
     
     throw new Error(`No vitals found for patient ${patientId}`);
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('❌ Error fetching patient vitals:', error);
     throw error;
   }
@@ -359,11 +327,11 @@ const fetchMonitorVitalsFromAPI = async (roomNumber: string): Promise<VitalSigns
     console.log(`🖥️ Fetching monitor vitals for room: ${roomNumber}`);
     
     // Get all IoT devices to find monitor in the room
-    const devicesResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData`);
-    if (!devicesResponse.ok) {
+    const devicesResponse = await requestWithTimeout('/iotData');
+    if (devicesResponse.error) {
       throw new Error(`Failed to fetch IoT devices (Status: ${devicesResponse.status})`);
     }
-    const devices = await devicesResponse.json();
+    const devices = devicesResponse.data;
     
     // Find vitals monitor in the specified room
     let monitor = null;
@@ -412,9 +380,6 @@ const fetchMonitorVitalsFromAPI = async (roomNumber: string): Promise<VitalSigns
     console.warn(`⚠️ No vitals data found for monitor in room ${roomNumber}`);
     return null;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('❌ Error fetching monitor vitals:', error);
     return null;
   }
@@ -448,10 +413,10 @@ const fetchEnvironmentalDataFromAPI = async (roomNumber: string): Promise<Enviro
     
     try {
       console.log(`🎯 Fetching from sensor: ${sensorId}`);
-      const response = await createRequestWithTimeout(`${API_BASE_URL}/iotData/${sensorId}`);
+      const response = await requestWithTimeout(`/iotData/${sensorId}`);
       
-      if (response.ok) {
-        const sensorData = await response.json();
+      if (!response.error) {
+        const sensorData = response.data;
         console.log('✅ Environmental sensor response:', sensorData);
         
         if (sensorData && sensorData.vitals) {
@@ -474,10 +439,10 @@ const fetchEnvironmentalDataFromAPI = async (roomNumber: string): Promise<Enviro
       
       try {
         console.log(`🔍 Trying fallback sensor ID: ${id}`);
-        const response = await createRequestWithTimeout(`${API_BASE_URL}/iotData/${id}`);
+        const response = await requestWithTimeout(`/iotData/${id}`);
         
-        if (response.ok) {
-          const sensorData = await response.json();
+        if (!response.error) {
+          const sensorData = response.data;
           if (sensorData && sensorData.vitals) {
             const latestVitals = getLatestVitalsFromTimestampKeys(sensorData.vitals);
             if (latestVitals) {
@@ -493,10 +458,10 @@ const fetchEnvironmentalDataFromAPI = async (roomNumber: string): Promise<Enviro
 
     // Final fallback: Try general IoT data endpoint
     console.log('🔄 Trying general IoT data endpoint...');
-    const fallbackResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData`);
+    const fallbackResponse = await requestWithTimeout('/iotData');
     
-    if (fallbackResponse.ok) {
-      const devicesData = await fallbackResponse.json();
+    if (!fallbackResponse.error) {
+      const devicesData = fallbackResponse.data;
       console.log('📦 General IoT data response:', devicesData);
       
       // Look for environmental sensor data
@@ -517,9 +482,6 @@ const fetchEnvironmentalDataFromAPI = async (roomNumber: string): Promise<Enviro
     return null;
 
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('❌ Error fetching environmental data:', error);
     return null;
   }
@@ -530,16 +492,16 @@ const fetchHealthRiskPredictionFromAPI = async (patientId: string): Promise<Heal
     const backendPatientId = normalizePatientId(patientId);
     console.log(`🩺 Fetching health risk prediction for patient: ${backendPatientId}`);
     
-    const response = await createRequestWithTimeout(`${API_BASE_URL}/predict/risk/${backendPatientId}`);
+    const response = await requestWithTimeout(`/predict/risk/${backendPatientId}`);
     
-    if (!response.ok) {
-      if (response.status === 404) {
+    if (response.error) {
+      if (response.error.kind === 'NotFound') {
         throw new Error(`No risk prediction available for patient ${patientId}`);
       }
       throw new Error(`Failed to fetch risk prediction (Status: ${response.status})`);
     }
     
-    const predictionData = await response.json();
+    const predictionData = response.data;
     console.log('✅ Raw risk prediction data from API:', predictionData);
     
     // Extract prediction details from the correct structure
@@ -560,9 +522,6 @@ const fetchHealthRiskPredictionFromAPI = async (patientId: string): Promise<Heal
     console.log('📊 Mapped health risk data:', mappedData);
     return mappedData;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('❌ Error fetching health risk prediction:', error);
     throw error;
   }
@@ -570,17 +529,17 @@ const fetchHealthRiskPredictionFromAPI = async (patientId: string): Promise<Heal
 
 const fetchRoomOccupancyFromAPI = async (roomNumber?: string): Promise<RoomOccupancy[]> => {
   try {
-    const url = roomNumber 
-      ? `${API_BASE_URL}/rooms/room_${roomNumber}`
-      : `${API_BASE_URL}/rooms`;
+    const endpoint = roomNumber 
+      ? `/rooms/room_${roomNumber}`
+      : '/rooms';
     
-    const response = await createRequestWithTimeout(url);
-    if (!response.ok) {
+    const response = await requestWithTimeout(endpoint);
+    if (response.error) {
       throw new Error(`Failed to fetch room data (Status: ${response.status})`);
     }
     
     if (roomNumber) {
-      const roomData = await response.json();
+      const roomData = response.data;
       
       // Convert single room data to RoomOccupancy format
       return [{
@@ -596,7 +555,7 @@ const fetchRoomOccupancyFromAPI = async (roomNumber?: string): Promise<RoomOccup
         }] : []
       }];
     } else {
-      const roomsData = await response.json();
+      const roomsData = response.data;
       
       // Convert rooms object to RoomOccupancy array
       const roomsArray: RoomOccupancy[] = [];
@@ -617,9 +576,6 @@ const fetchRoomOccupancyFromAPI = async (roomNumber?: string): Promise<RoomOccup
       return roomsArray;
     }
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('Error fetching room occupancy:', error);
     throw error;
   }
@@ -628,11 +584,11 @@ const fetchRoomOccupancyFromAPI = async (roomNumber?: string): Promise<RoomOccup
 const fetchRoomAlertsFromAPI = async (roomNumber: string): Promise<Alert[]> => {
   try {
     // First get all IoT devices to find monitors in the room
-    const devicesResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData`);
-    if (!devicesResponse.ok) {
+    const devicesResponse = await requestWithTimeout('/iotData');
+    if (devicesResponse.error) {
       throw new Error(`Failed to fetch IoT devices (Status: ${devicesResponse.status})`);
     }
-    const devices = await devicesResponse.json();
+    const devices = devicesResponse.data;
     
     // Find monitors in the specified room
     const roomDevices = Object.entries(devices).filter(([, device]: [string, any]) => {
@@ -650,9 +606,9 @@ const fetchRoomAlertsFromAPI = async (roomNumber: string): Promise<Alert[]> => {
     
     for (const [deviceId] of roomDevices) {
       try {
-        const alertsResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData/${deviceId}/alerts/latest?limit=20&include_resolved=false`);
-        if (alertsResponse.ok) {
-          const alertsData = await alertsResponse.json();
+        const alertsResponse = await requestWithTimeout(`/iotData/${deviceId}/alerts/latest?limit=20&include_resolved=false`);
+        if (!alertsResponse.error) {
+          const alertsData = alertsResponse.data;
           const deviceAlerts = alertsData.alerts || [];
           
           // Convert to frontend format
@@ -662,7 +618,7 @@ const fetchRoomAlertsFromAPI = async (roomNumber: string): Promise<Alert[]> => {
             priority: alert.severity_level?.toLowerCase() || alert.severity?.toLowerCase() || alert.type || 'medium',
             message: alert.message || alert.description || 'No description',
             timestamp: alert.timestamp || new Date().toISOString(),
-            acknowledged: alert.resolved || false,
+            acknowledged: alert.acknowledged || alert.resolved || false,
             deviceId: deviceId,
             patientId: alert.patient_id || '',
             patientName: alert.patient_name || ''
@@ -677,28 +633,10 @@ const fetchRoomAlertsFromAPI = async (roomNumber: string): Promise<Alert[]> => {
     }
     
     // Sort by timestamp (newest first) with proper date handling
-    allRoomAlerts.sort((a, b) => {
-      try {
-        const dateA = new Date(a.timestamp);
-        const dateB = new Date(b.timestamp);
-        
-        // Handle invalid dates
-        if (isNaN(dateA.getTime()) && isNaN(dateB.getTime())) return 0;
-        if (isNaN(dateA.getTime())) return 1; // Push invalid dates to end
-        if (isNaN(dateB.getTime())) return -1;
-        
-        return dateB.getTime() - dateA.getTime();
-      } catch (error) {
-        console.warn('Error sorting alerts by timestamp:', error);
-        return 0;
-      }
-    });
+    allRoomAlerts.sort((a, b) => compareTimestampsDesc(a.timestamp, b.timestamp));
     
     return allRoomAlerts;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('Error fetching room alerts:', error);
     throw error;
   }
@@ -707,13 +645,13 @@ const fetchRoomAlertsFromAPI = async (roomNumber: string): Promise<Alert[]> => {
 const fetchMonitorAlertsFromAPI = async (monitorId: string): Promise<Alert[]> => {
   try {
     // Get alerts from specific monitor using IoT alerts endpoint
-    const alertsResponse = await createRequestWithTimeout(`${API_BASE_URL}/iotData/${monitorId}/alerts/latest?limit=50&include_resolved=false`);
+    const alertsResponse = await requestWithTimeout(`/iotData/${monitorId}/alerts/latest?limit=50&include_resolved=false`);
     
-    if (!alertsResponse.ok) {
+    if (alertsResponse.error) {
       throw new Error(`Failed to fetch alerts from monitor (Status: ${alertsResponse.status})`);
     }
     
-    const alertsData = await alertsResponse.json();
+    const alertsData = alertsResponse.data;
     const deviceAlerts = alertsData.alerts || [];
     
     // Convert to frontend format
@@ -723,15 +661,12 @@ const fetchMonitorAlertsFromAPI = async (monitorId: string): Promise<Alert[]> =>
       priority: alert.severity_level?.toLowerCase() || alert.severity?.toLowerCase() || alert.type || 'medium',
       message: alert.message || alert.description || 'No description',
       timestamp: alert.timestamp || new Date().toISOString(),
-      acknowledged: alert.resolved || false,
+      acknowledged: alert.acknowledged || alert.resolved || false,
       deviceId: monitorId,
       patientId: alert.patient_id || '',
       patientName: alert.patient_name || ''
     }));
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error(`Error fetching alerts for monitor ${monitorId}:`, error);
     throw error;
   }
@@ -740,17 +675,17 @@ const fetchMonitorAlertsFromAPI = async (monitorId: string): Promise<Alert[]> =>
 // API Methods using fetch
 const fetchPatientsFromAPI = async (status: string): Promise<Patient[]> => {
   try {
-    const url = new URL(`${API_BASE_URL}/patients`);
+    const params: Record<string, string> = {};
     if (status !== 'all') {
-      url.searchParams.append('status', status);
+      params.status = status;
     }
     
-    const response = await createRequestWithTimeout(url.toString());
-    if (!response.ok) {
+    const response = await requestWithTimeout('/patients', params);
+    if (response.error) {
       throw new Error(`Failed to fetch patients (Status: ${response.status})`);
     }
     
-    const patientsObject = await response.json();
+    const patientsObject = response.data;
     
     // Convert the patients object to an array and filter by status if needed
     const patientsArray: Patient[] = [];
@@ -790,13 +725,13 @@ const fetchPatientsFromAPI = async (status: string): Promise<Patient[]> => {
 
 const searchPatientsByNameFromAPI = async (searchName: string): Promise<Patient[]> => {
   try {
-    const response = await createRequestWithTimeout(`${API_BASE_URL}/patients`);
+    const response = await requestWithTimeout('/patients');
     
-    if (!response.ok) {
+    if (response.error) {
       throw new Error(`Failed to fetch patients (Status: ${response.status})`);
     }
     
-    const patientsObject = await response.json();
+    const patientsObject = response.data;
     
     // Convert the patients object to an array and filter by name
     const patientsArray: Patient[] = [];
@@ -830,9 +765,6 @@ const searchPatientsByNameFromAPI = async (searchName: string): Promise<Patient[
     
     return patientsArray;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out - server may be unavailable');
-    }
     console.error('Error searching patients by name:', error);
     throw error;
   }
@@ -840,16 +772,16 @@ const searchPatientsByNameFromAPI = async (searchName: string): Promise<Patient[
 
 const fetchRoomsFromAPI = async (status: string): Promise<Room[]> => {
   try {
-    const url = new URL(`${API_BASE_URL}/rooms`);
+    const params: Record<string, string> = {};
     if (status !== 'all') {
-      url.searchParams.append('status', status);
+      params.status = status;
     }
     
-    const response = await createRequestWithTimeout(url.toString());
-    if (!response.ok) {
+    const response = await requestWithTimeout('/rooms', params);
+    if (response.error) {
       throw new Error(`Failed to fetch rooms (Status: ${response.status})`);
     }
-    return await response.json();
+    return response.data;
   } catch (error) {
     console.error('Error fetching room status:', error);
     throw error;
@@ -858,12 +790,12 @@ const fetchRoomsFromAPI = async (status: string): Promise<Room[]> => {
 
 const fetchAlertsFromAPI = async (priority: string): Promise<Alert[]> => {
   try {
-    const response = await createRequestWithTimeout(`${API_BASE_URL}/alerts`);
-    if (!response.ok) {
+    const response = await requestWithTimeout('/alerts');
+    if (response.error) {
       throw new Error(`Failed to fetch alerts (Status: ${response.status})`);
     }
     
-    const alertsArray = await response.json();
+    const alertsArray = response.data;
     
     // Convert backend alert format to frontend format
     const convertedAlerts: Alert[] = alertsArray.map((alert: any) => ({
@@ -872,7 +804,7 @@ const fetchAlertsFromAPI = async (priority: string): Promise<Alert[]> => {
       priority: alert.severity_level?.toLowerCase() || alert.type || 'medium',
       message: alert.message || 'No description',
       timestamp: alert.timestamp || new Date().toISOString(),
-      acknowledged: alert.resolved || false,
+      acknowledged: alert.acknowledged || alert.resolved || false,
       deviceId: alert.device_id || 'Unknown',
       patientId: '', // Not directly available in alerts
       patientName: ''
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as apiService from './apiService';
+import { processChatQuery } from './queryService';
+
+vi.mock('./apiService');
+
+const api = vi.mocked(apiService);
+
+type Fetcher = keyof typeof api;
+
+// Only the intent decides which fetcher runs; answers are kept minimal
+const resolveWith = (fetcher: Fetcher, value: unknown) => {
+  (api[fetcher] as ReturnType<typeof vi.fn>).mockResolvedValue(value);
+};
+
+const calledFetchers = () =>
+  (Object.keys(api) as Fetcher[]).filter(name => vi.isMockFunction(api[name]) && vi.mocked(api[name]).mock.calls.length > 0);
+
+const ROBERT = { id: 'patient_001', name: 'Robert Miller', status: 'critical', roomNumber: '101' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resolveWith('fetchPatientsByStatus', []);
+  resolveWith('fetchAlerts', []);
+  resolveWith('fetchPatientRecord', { id: 'patient_001', personalInfo: {}, medicalHistory: {}, currentStatus: {} });
+  resolveWith('fetchPatientVitals', {});
+  resolveWith('fetchMonitorVitals', null);
+  resolveWith('fetchEnvironmentalData', null);
+  resolveWith('fetchHealthRiskPrediction', {});
+  resolveWith('fetchRoomOccupancy', []);
+  resolveWith('fetchRoomAlerts', []);
+  resolveWith('searchPatientsByName', [ROBERT]);
+});
+
+describe('processChatQuery intent routing', () => {
+  it.each<[string, Fetcher, unknown[]]>([
+    ['Show critical patients', 'fetchPatientsByStatus', ['critical']],
+    ['Show patient record for patient_1', 'fetchPatientRecord', ['patient_1']],
+    ['Show patient record for patient 2', 'fetchPatientRecord', ['2']],
+    ['Show vitals for patient_1', 'fetchPatientVitals', ['patient_1']],
+    ['Show vitals for patient P1001', 'fetchPatientVitals', ['P1001']],
+    ['Show health risk for patient_1', 'fetchHealthRiskPrediction', ['patient_1']],
+    ['Show monitor vitals for room 101', 'fetchMonitorVitals', ['101']],
+    ['Show environmental data for room 101', 'fetchEnvironmentalData', ['101']],
+    ['Show alerts for room 101', 'fetchRoomAlerts', ['101']],
+    ['Show high alerts', 'fetchAlerts', ['high']],
+    ['Show all alerts', 'fetchAlerts', ['all']],
+    ['Show occupied rooms', 'fetchRoomOccupancy', []],
+    ['Show available rooms', 'fetchRoomOccupancy', []],
+    ['Show room occupancy for room 201', 'fetchRoomOccupancy', ['201']],
+  ])('routes "%s" to %s', async (query, fetcher, args) => {
+    await processChatQuery(query);
+
+    expect(calledFetchers()).toEqual([fetcher]);
+    expect(api[fetcher]).toHaveBeenCalledWith(...args);
+  });
+
+  it.each<[string, Fetcher]>([
+    ['Show patient record for Robert Miller', 'fetchPatientRecord'],
+    ['Show vitals for Robert Miller', 'fetchPatientVitals'],
+    ['Show health risk for Robert Miller', 'fetchHealthRiskPrediction'],
+  ])('looks up "%s" by name before calling %s', async (query, fetcher) => {
+    await processChatQuery(query);
+
+    expect(api.searchPatientsByName).toHaveBeenCalledWith('Robert Miller');
+    expect(api[fetcher]).toHaveBeenCalledWith('patient_001');
+  });
+
+  it('asks for a more specific name when several patients match', async () => {
+    resolveWith('searchPatientsByName', [ROBERT, { ...ROBERT, id: 'patient_007', name: 'Robert Millerson' }]);
+
+    const response = await processChatQuery('Show vitals for Robert');
+
+    expect(response.message).toContain('Multiple patients found');
+    expect(api.fetchPatientVitals).not.toHaveBeenCalled();
+  });
+
+  it('says so when no patient has the name', async () => {
+    resolveWith('searchPatientsByName', []);
+
+    const response = await processChatQuery('Show patient record for Nobody Here');
+
+    expect(response.message).toContain('No patients found with name "Nobody Here"');
+    expect(api.fetchPatientRecord).not.toHaveBeenCalled();
+  });
+
+  it('asks for a room number instead of guessing one', async () => {
+    const response = await processChatQuery('Show alerts for the room');
+
+    expect(response.message).toContain('Please specify a room number');
+    expect(calledFetchers()).toEqual([]);
+  });
+
+  it('answers anything else with the help text', async () => {
+    const response = await processChatQuery('hello');
+
+    expect(response.message).toContain('Smart Hospital Assistant Help');
+    expect(calledFetchers()).toEqual([]);
+  });
+
+  it('turns a failed lookup into a message', async () => {
+    api.fetchPatientRecord.mockRejectedValue(new Error('Patient with ID "patient_9" not found'));
+
+    const response = await processChatQuery('Show patient record for patient_9');
+
+    expect(response.message).toContain('Patient with ID "patient_9" not found');
+  });
+
+  it('flags vitals outside the thresholds of the patient', async () => {
+    resolveWith('fetchPatientVitals', {
+      heartRate: 80,
+      oxygenLevel: 87,
+      temperature: 98.6,
+      bloodPressure: { systolic: 120, diastolic: 80 },
+      timestamp: '2025-03-10T12:00:00Z',
+      patientId: 'patient_001',
+    });
+
+    const response = await processChatQuery('Show vitals for patient_001');
+
+    expect(response.message).toContain('🚨 SpO2 < 90% (critical, standard range)');
+    expect(response.message).not.toContain('Heart rate >');
+  });
+});
+
+describe('processChatQuery patient access', () => {
+  const onlyRobert = (patientId: string) => patientId === ROBERT.id;
+
+  it('leaves patients the user may not open out of name lookups', async () => {
+    resolveWith('searchPatientsByName', [{ ...ROBERT, id: 'patient_007', name: 'Robert Millerson' }]);
+
+    const response = await processChatQuery('Show vitals for Robert', onlyRobert);
+
+    expect(response.message).toContain('No patients found with name "Robert"');
+    expect(api.fetchPatientVitals).not.toHaveBeenCalled();
+  });
+
+  it('refuses records looked up by id of patients the user may not open', async () => {
+    resolveWith('fetchPatientRecord', { id: 'patient_007', personalInfo: { name: 'Henry Walsh' }, medicalHistory: {}, currentStatus: {} });
+
+    const response = await processChatQuery('Show patient record for patient_007', onlyRobert);
+
+    expect(response.message).toContain('not assigned to you');
+    expect(response.message).not.toContain('Henry Walsh');
+  });
+
+  it('lists only the alerts about patients the user may open and the rooms', async () => {
+    resolveWith('fetchAlerts', [
+      { id: 'a1', roomNumber: '101', priority: 'high', message: 'SpO2 86%', timestamp: '', acknowledged: false, patientId: ROBERT.id },
+      { id: 'a2', roomNumber: 'n101', priority: 'high', message: 'Heart rate 130', timestamp: '', acknowledged: false, patientId: 'patient_007' },
+      { id: 'a3', roomNumber: '102', priority: 'high', message: 'Humidity 75%', timestamp: '', acknowledged: false, patientId: '' },
+    ]);
+
+    const response = await processChatQuery('Show all alerts', onlyRobert);
+
+    expect(response.message).toContain('(2 found)');
+    expect(response.message).not.toContain('Heart rate 130');
+  });
+});
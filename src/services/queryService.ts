@@ -10,6 +10,19 @@ import {
   fetchRoomAlerts,
   searchPatientsByName
 } from './apiService';
+import { ENDPOINTS, HOSPITAL_TIME_ZONE } from '../api/config';
+import { getCachedQuery } from '../api/queryCache';
+import { VitalReading } from '../api/types';
+import {
+  EMPTY_VITAL_THRESHOLDS,
+  VitalThresholds,
+  describeRule,
+  evaluateVitals,
+  thresholdRulesFor,
+} from '../api/vitalThresholds';
+import { getHospitalState } from '../store/hospitalStore';
+import { getPatientVitalHistory } from '../utils/deviceUtils';
+import { formatRelativeTime, formatTimestamp as formatDateTime, parseTimestamp } from '../utils/dateUtils';
 
 interface QueryResponse {
   message: string;
@@ -34,31 +47,29 @@ const formatPatientData = (patients: any[]): string => {
 };
 
 // Helper function to format timestamp
-const formatTimestamp = (timestamp: any): string => {
-  if (!timestamp) return 'Unknown';
-  
-  try {
-    let date: Date;
-    
-    // Handle backend timestamp format like "2025-07-30_12-11-06"
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      // Convert "2025-07-30_12-11-06" to ISO format "2025-07-30T12:11:06"
-      const isoFormat = timestamp.replace('_', 'T').replace(/-(\d{2})-(\d{2})$/, ':$1:$2');
-      date = new Date(isoFormat);
-    } else {
-      date = new Date(timestamp);
-    }
-    
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid timestamp:', timestamp);
-      return 'Invalid Date';
-    }
-    
-    return date.toLocaleString();
-  } catch (error) {
-    console.warn('Error formatting timestamp:', timestamp, error);
-    return 'Unknown';
-  }
+const formatTimestamp = (timestamp: any): string =>
+  formatDateTime(timestamp, { fallback: 'Unknown' });
+
+// Readings outside the thresholds that apply to the patient, with the readings the monitors
+// already sent for sustained rules; the built-in thresholds until the configured ones have loaded
+const formatThresholdFlags = (vitals: Partial<VitalReading>): string => {
+  const { patientId } = vitals;
+  const { entities, indexes } = getHospitalState();
+  const history = patientId
+    ? (indexes.devicesByPatient[patientId] ?? []).flatMap(deviceId => {
+      const device = entities.devices[deviceId];
+      return device ? getPatientVitalHistory(device, patientId) : [];
+    })
+    : [];
+  const thresholds = getCachedQuery<VitalThresholds>(ENDPOINTS.settings.vitalThresholds) ?? EMPTY_VITAL_THRESHOLDS;
+  const rules = thresholdRulesFor(thresholds, patientId, patientId ? entities.patients[patientId]?.personalInfo.ward : undefined);
+  const { fields } = evaluateVitals([...history, vitals], rules);
+
+  const sources = { patient: 'patient rule', ward: 'ward rule', default: 'standard range' };
+  const flags = Object.values(fields).map(({ rule }) =>
+    `• ${rule.level === 'critical' ? '🚨' : '⚠️'} ${describeRule(rule)} (${rule.level}, ${sources[rule.source]})`
+  );
+  return flags.length > 0 ? `\n\n**Outside thresholds:**\n${flags.join('\n')}` : '';
 };
 
 // Helper function to format vital signs
@@ -78,7 +89,7 @@ const formatVitalSigns = (vitals: any): string => {
 • 🌡️ Temperature: ${vitals.temperature ? vitals.temperature.toFixed(1) : 'N/A'}°C
 • 🫁 Oxygen Level: ${vitals.oxygenLevel ? vitals.oxygenLevel.toFixed(1) : 'N/A'}%
 ${vitals.respiratoryRate ? `• 💨 Respiratory Rate: ${vitals.respiratoryRate} breaths/min` : ''}
-• ⏰ Last Updated: ${formatTimestamp(vitals.timestamp)}`;
+• ⏰ Last Updated: ${formatTimestamp(vitals.timestamp)}${formatThresholdFlags(vitals)}`;
 };
 
 // Helper function to format environmental data
@@ -158,55 +169,7 @@ const formatAlerts = (alerts: any[]): string => {
 };
 
 // Helper function to calculate time ago
-const getTimeAgo = (timestamp: string): string => {
-  if (!timestamp) return 'Unknown time';
-  
-  try {
-    const now = new Date();
-    let alertTime: Date;
-    
-    // Handle different timestamp formats
-    if (typeof timestamp === 'string' && timestamp.includes('_')) {
-      // Handle format like "2025-07-30_11-48-54"
-      const isoFormat = timestamp.replace('_', 'T').replace(/-(\d{2})-(\d{2})$/, ':$1:$2');
-      alertTime = new Date(isoFormat);
-    } else {
-      alertTime = new Date(timestamp);
-    }
-    
-    // Check if date is valid
-    if (isNaN(alertTime.getTime())) {
-      console.warn('Invalid timestamp:', timestamp);
-      return 'Unknown time';
-    }
-    
-    const diffMs = now.getTime() - alertTime.getTime();
-    
-    // Handle future dates (shouldn't happen but just in case)
-    if (diffMs < 0) {
-      return 'Just now';
-    }
-    
-    const diffMins = Math.floor(diffMs / (1000 * 60));
-    
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    
-    const diffHours = Math.floor(diffMins / 60);
-    if (diffHours < 24) return `${diffHours}h ago`;
-    
-    const diffDays = Math.floor(diffHours / 24);
-    if (diffDays < 7) return `${diffDays}d ago`;
-    
-    const diffWeeks = Math.floor(diffDays / 7);
-    if (diffWeeks < 4) return `${diffWeeks}w ago`;
-    
-    return alertTime.toLocaleDateString();
-  } catch (error) {
-    console.warn('Error calculating time ago for timestamp:', timestamp, error);
-    return 'Unknown time';
-  }
-};
+const getTimeAgo = (timestamp: string): string => formatRelativeTime(timestamp);
 
 // Helper function to format conditions (remove underscores and capitalize)
 const formatConditions = (conditions: string[]): string => {
@@ -224,32 +187,17 @@ const formatConditions = (conditions: string[]): string => {
 
 // Helper function to format backend timestamp to readable date
 const formatBackendDate = (timestamp: string): string => {
-  if (!timestamp) {
+  const date = parseTimestamp(timestamp);
+  if (!date) {
     return 'Unknown';
   }
   
-  try {
-    // Handle backend timestamp format like "2025-07-18_05-00-00"
-    let isoFormat = timestamp;
-    if (timestamp.includes('_')) {
-      // Convert "2025-07-18_05-00-00" to "2025-07-18T05:00:00"
-      isoFormat = timestamp.replace('_', 'T').replace(/-(\d{2})-(\d{2})$/, ':$1:$2');
-    }
-    
-    const date = new Date(isoFormat);
-    if (!isNaN(date.getTime())) {
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit'
-      });
-    }
-    
-    return 'Unknown';
-  } catch (error) {
-    console.warn('Error formatting date:', timestamp, error);
-    return 'Unknown';
-  }
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: HOSPITAL_TIME_ZONE
+  });
 };
 
 // Helper function to format patient record
@@ -319,22 +267,7 @@ const formatHealthRiskPrediction = (risk: any): string => {
     : 'Continue monitoring';
   
   // Format date
-  let formattedDate = 'Unknown';
-  if (risk.predictedAt || risk.lastAssessment || risk.timestamp) {
-    try {
-      const dateStr = risk.predictedAt || risk.lastAssessment || risk.timestamp;
-      if (typeof dateStr === 'string' && dateStr.includes('_')) {
-        // Handle format like "2025-07-30_11-48-54"
-        const isoFormat = dateStr.replace('_', 'T').replace(/-(\d{2})-(\d{2})$/, ':$1:$2');
-        formattedDate = new Date(isoFormat).toLocaleString();
-      } else {
-        formattedDate = new Date(dateStr).toLocaleString();
-      }
-    } catch (error) {
-      console.warn('Date parsing error:', error);
-      formattedDate = risk.predictedAt || risk.lastAssessment || risk.timestamp;
-    }
-  }
+  const formattedDate = formatTimestamp(risk.predictedAt || risk.lastAssessment || risk.timestamp);
   
   return `**🎯 Health Risk Assessment**
 
@@ -345,11 +278,40 @@ ${riskEmoji} **Risk Level: ${riskLevel.toUpperCase()}**
 • Assessment Date: ${formattedDate}`;
 };
 
+// Whether the user may open a patient's records, see useAccessiblePatients
+type PatientAccess = (patientId: string) => boolean;
+
+// Answer for a patient the user may not open; names nothing the user could not see already
+const noAccess = (patient: string): QueryResponse => ({
+  message: `🔒 Patient "${patient}" is not assigned to you. Other records open only with emergency access.`
+});
+
 // Enhanced query processing with better pattern matching
-export const processChatQuery = async (query: string): Promise<QueryResponse> => {
+// Patients `canAccess` refuses are left out of every answer
+export const processChatQuery = async (query: string, canAccess: PatientAccess = () => true): Promise<QueryResponse> => {
   try {
+    const accessible = <T extends { id: string }>(patients: T[]) => patients.filter(patient => canAccess(patient.id));
+    // Alerts and monitors without a patient are about the room
+    const aboutAccessible = (patientId?: string) => !patientId || canAccess(patientId);
+    // Rooms still count every occupied bed, but only name the patients the user may open
+    const namingAccessible = <T extends { patients: Array<{ patientId: string }> }>(rooms: T[]) =>
+      rooms.map(room => ({ ...room, patients: room.patients.filter(patient => canAccess(patient.patientId)) }));
+
     // Extract patient name or ID from query
     const extractPatientInfo = (query: string) => {
+      // Explicit IDs first, so "record for patient 2" is not read as a patient named "patient"
+      // Pattern 1: "patient_1", "P1001" anywhere in the query
+      const formattedIdMatch = query.match(/\b(patient_\d+|P\d+)\b/);
+      if (formattedIdMatch) {
+        return { type: 'id', value: formattedIdMatch[1] };
+      }
+      
+      // Pattern 2: "patient 2", "patient 1", etc.
+      const simpleIdMatch = query.match(/\bpatient\s+(\d+)\b/i);
+      if (simpleIdMatch) {
+        return { type: 'id', value: simpleIdMatch[1] };
+      }
+      
       // Try to extract patient name (improved patterns)
       // Pattern 1: "show patient record for [Name]"
       const recordNameMatch = query.match(/(?:show|get|find)\s+patient\s+record\s+for\s+([A-Za-z][A-Za-z\s]{2,})(?:\s|$|,|\.)/i);
@@ -363,20 +325,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
         return { type: 'name', value: nameMatch[1].trim() };
       }
       
-      // Try to extract patient ID - improved patterns to be more specific
-      // Pattern 1: "patient 2", "patient 1", etc.
-      const simpleIdMatch = query.match(/\bpatient\s+(\d+)\b/i);
-      if (simpleIdMatch) {
-        return { type: 'id', value: simpleIdMatch[1] };
-      }
-      
-      // Pattern 2: "patient P1001", "patient_1", etc.
-      const formattedIdMatch = query.match(/\bpatient\s+(P\d+|patient_\d+)\b/i);
-      if (formattedIdMatch) {
-        return { type: 'id', value: formattedIdMatch[1] };
-      }
-      
-      // Pattern 3: For general patient ID patterns (only if no "record" or other keywords nearby)
+      // For general patient ID patterns (only if no "record" or other keywords nearby)
       if (!query.toLowerCase().includes('record')) {
         const generalIdMatch = query.match(/\bpatient\s+([\w-]+)\b/i);
         if (generalIdMatch && generalIdMatch[1] && !generalIdMatch[1].toLowerCase().includes('record')) {
@@ -395,7 +344,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
     
     // Patient status queries
     if (/critical\s+patient|patient.*critical|show.*critical/i.test(query)) {
-      const patients = await fetchPatientsByStatus('critical');
+      const patients = accessible(await fetchPatientsByStatus('critical'));
       return {
         message: patients.length > 0 
           ? `**🚨 Critical Patients (${patients.length} found):**\n\n${formatPatientData(patients)}`
@@ -410,7 +359,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
       if (patientInfo) {
         try {
           if (patientInfo.type === 'name') {
-            const patients = await searchPatientsByName(patientInfo.value);
+            const patients = accessible(await searchPatientsByName(patientInfo.value));
             if (patients.length === 0) {
               return {
                 message: `❌ No patients found with name "${patientInfo.value}". Please check the spelling or try a patient ID.`
@@ -427,6 +376,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
             }
           } else {
             const patientRecord = await fetchPatientRecord(patientInfo.value);
+            if (!canAccess(patientRecord.id)) return noAccess(patientInfo.value);
             return {
               message: formatPatientRecord(patientRecord)
             };
@@ -444,13 +394,14 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
     }
     
     // Patient vitals queries
-    if (/patient.*vital|vital.*patient|show.*vital.*patient/i.test(query)) {
+    // "vitals for <name>" counts too, unless it asks for a room's monitor
+    if (/patient.*vital|vital.*patient|show.*vital.*patient|vitals?\s+(?:for|of)\s+(?!room\b)/i.test(query)) {
       const patientInfo = extractPatientInfo(query);
       
       if (patientInfo) {
         try {
           if (patientInfo.type === 'name') {
-            const patients = await searchPatientsByName(patientInfo.value);
+            const patients = accessible(await searchPatientsByName(patientInfo.value));
             if (patients.length === 0) {
               return {
                 message: `❌ No patients found with name "${patientInfo.value}".`
@@ -467,6 +418,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
             }
           } else {
             const vitals = await fetchPatientVitals(patientInfo.value);
+            if (!aboutAccessible(vitals.patientId)) return noAccess(patientInfo.value);
             return {
               message: `**Patient ${patientInfo.value}**\n\n${formatVitalSigns(vitals)}`
             };
@@ -488,6 +440,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
       const roomNumber = extractRoomNumber(query);
       if (roomNumber) {
         const vitals = await fetchMonitorVitals(roomNumber);
+        if (vitals && !aboutAccessible(vitals.patientId)) return noAccess(vitals.patientId!);
         return {
           message: vitals 
             ? `**🏥 Room ${roomNumber} Monitor**\n\n${formatVitalSigns(vitals)}`
@@ -530,7 +483,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
       if (patientInfo) {
         try {
           if (patientInfo.type === 'name') {
-            const patients = await searchPatientsByName(patientInfo.value);
+            const patients = accessible(await searchPatientsByName(patientInfo.value));
             if (patients.length === 0) {
               return {
                 message: `❌ No patients found with name "${patientInfo.value}".`
@@ -547,6 +500,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
             }
           } else {
             const riskPrediction = await fetchHealthRiskPrediction(patientInfo.value);
+            if (!aboutAccessible(riskPrediction.patientId)) return noAccess(patientInfo.value);
             return {
               message: `**Patient ${patientInfo.value}**\n\n${formatHealthRiskPrediction(riskPrediction)}`
             };
@@ -564,21 +518,21 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
     }
     
     // Room occupancy queries
-    if (/room.*occup|occup.*room|show.*room.*status/i.test(query)) {
+    if (/room.*occup|occup.*room|available.*room|show.*room.*status/i.test(query)) {
       const roomNumber = extractRoomNumber(query);
       if (roomNumber) {
-        const occupancy = await fetchRoomOccupancy(roomNumber);
+        const occupancy = namingAccessible(await fetchRoomOccupancy(roomNumber));
         return {
           message: `**🏥 Room ${roomNumber} Status:**\n\n${formatRoomOccupancy(occupancy)}`
         };
       } else if (/occupied/i.test(query)) {
-        const allOccupancy = await fetchRoomOccupancy();
+        const allOccupancy = namingAccessible(await fetchRoomOccupancy());
         const occupiedRooms = allOccupancy.filter(room => room.isOccupied);
         return {
           message: `**🔴 Occupied Rooms (${occupiedRooms.length} total):**\n\n${formatRoomOccupancy(occupiedRooms)}`
         };
       } else if (/available/i.test(query)) {
-        const allOccupancy = await fetchRoomOccupancy();
+        const allOccupancy = namingAccessible(await fetchRoomOccupancy());
         const availableRooms = allOccupancy.filter(room => !room.isOccupied);
         return {
           message: `**🟢 Available Rooms (${availableRooms.length} total):**\n\n${formatRoomOccupancy(availableRooms)}`
@@ -590,7 +544,7 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
     if (/room.*alert|alert.*room/i.test(query)) {
       const roomNumber = extractRoomNumber(query);
       if (roomNumber) {
-        const alerts = await fetchRoomAlerts(roomNumber);
+        const alerts = (await fetchRoomAlerts(roomNumber)).filter(alert => aboutAccessible(alert.patientId));
         return {
           message: alerts.length > 0 
             ? `**🚨 Room ${roomNumber} Alerts (${alerts.length} found):**\n\n${formatAlerts(alerts)}`
@@ -604,14 +558,14 @@ export const processChatQuery = async (query: string): Promise<QueryResponse> =>
     
     // General alert queries
     if (/high.*alert|critical.*alert|urgent.*alert/i.test(query)) {
-      const alerts = await fetchAlerts('high');
+      const alerts = (await fetchAlerts('high')).filter(alert => aboutAccessible(alert.patientId));
       return {
         message: `**🚨 High Priority Alerts (${alerts.length} found):**\n\n${formatAlerts(alerts)}`
       };
     }
     
     if (/all.*alert|show.*alert/i.test(query)) {
-      const alerts = await fetchAlerts('all');
+      const alerts = (await fetchAlerts('all')).filter(alert => aboutAccessible(alert.patientId));
       return {
         message: `**📢 All Current Alerts (${alerts.length} found):**\n\n${formatAlerts(alerts)}`
       };
@@ -33,6 +33,8 @@ class TextToSpeechService {
   private currentUtterance: SpeechSynthesisUtterance | null = null;
   private audioContext: AudioContext | null = null;
   private isPlaying: boolean = false;
+  // Applied to everything read out, e.g. privacy mode replacing patient names with initials
+  private redact: ((text: string) => string) | null = null;
 
   constructor(config: TTSConfig = {}) {
     // Get environment variables with fallbacks
@@ -289,8 +291,16 @@ class TextToSpeechService {
       .trim();
   }
 
+  // Set or clear (null) the redaction of read-outs; it also covers text sent to Google TTS
+  setRedaction(redact: ((text: string) => string) | null) {
+    this.redact = redact;
+  }
+
   // Main speak method - chooses between Web API and Google TTS
   async speak(text: string): Promise<void> {
+    if (this.redact) {
+      text = this.redact(text);
+    }
     if (this.config.useGoogleTTS && this.config.googleAPIKey) {
       await this.speakWithGoogleTTS(text);
     } else {
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  selectActiveAlerts,
+  selectCriticalPatients,
+  useActiveAlerts,
+  useEntity,
+  usePatientDevices,
+  usePatientLocation,
+  useRoomDevices,
+  useRoomPatients,
+  useStaffPatients,
+} from './hospitalSelectors';
+import { EntityKind, HospitalEntities, getHospitalState, setEntities } from './hospitalStore';
+import { Room } from '../api/hooks/useRooms';
+import { IoTDevice, Patient, StaffMember } from '../api/types';
+
+// Only the fields the selectors and indexes read
+const patient = (name: string, status: string, roomId = ''): Patient => ({
+  personalInfo: { name, roomId, bedId: '' },
+  currentStatus: { status },
+} as unknown as Patient);
+
+const device = (roomId: string, currentPatientId?: string, alerts: IoTDevice['alerts'] = {}): IoTDevice => ({
+  deviceInfo: { type: 'vitals_monitor', roomId, currentPatientId },
+  alerts,
+} as unknown as IoTDevice);
+
+const alert = (type: 'critical' | 'warning', resolved = false) => ({
+  type,
+  message: 'SpO2 86%',
+  timestamp: '2025-03-10T12:00:00',
+  resolved,
+});
+
+const buildEntities = (): HospitalEntities => ({
+  patients: {
+    patient_001: patient('John Smith', 'critical', 'room_101'),
+    // The room record has her before her own record does
+    patient_004: patient('Patricia Davis', 'stable'),
+  },
+  staff: {
+    staff_002: {
+      personalInfo: { name: 'Emma Wilson' },
+      schedule: { '2025-03-10': { patientAssignments: ['patient_001', 'patient_004'] } },
+    } as unknown as StaffMember,
+  },
+  devices: {
+    vitals_monitor_001: device('room_101', 'patient_001', {
+      low_spo2: alert('critical'),
+      old: alert('warning', true),
+    }),
+    vitals_monitor_004: device('room_201', 'patient_004', { high_hr: alert('warning') }),
+    env_sensor_201: device('room_201'),
+  },
+  rooms: {
+    room_101: { roomId: 'room_101', assignedPatient: 'patient_001', assignedDevices: [] } as unknown as Room,
+    room_201: { roomId: 'room_201', assignedPatient: 'patient_004', assignedDevices: ['env_sensor_201'] } as unknown as Room,
+  },
+});
+
+const load = (entities: HospitalEntities) =>
+  (Object.keys(entities) as EntityKind[]).forEach(kind => setEntities(kind, entities[kind]));
+
+describe('hospital selectors', () => {
+  afterEach(() => {
+    act(() => load({ patients: {}, staff: {}, devices: {}, rooms: {} }));
+  });
+
+  it('selects the open alerts and the critical patients', () => {
+    const entities = buildEntities();
+    const state = { ...getHospitalState(), entities };
+
+    expect(selectActiveAlerts(state)).toEqual([
+      { deviceId: 'vitals_monitor_001', alertId: 'low_spo2', alert: entities.devices.vitals_monitor_001.alerts.low_spo2 },
+      { deviceId: 'vitals_monitor_004', alertId: 'high_hr', alert: entities.devices.vitals_monitor_004.alerts.high_hr },
+    ]);
+    expect(selectCriticalPatients(state)).toEqual([entities.patients.patient_001]);
+  });
+
+  it('looks up what belongs to a patient, room or staff member', () => {
+    load(buildEntities());
+
+    expect(renderHook(() => usePatientLocation('patient_004')).result.current).toEqual({ roomId: 'room_201' });
+    expect(renderHook(() => usePatientLocation('patient_999')).result.current).toEqual({});
+    expect(renderHook(() => useRoomPatients('room_201')).result.current.map(([id]) => id)).toEqual(['patient_004']);
+    expect(renderHook(() => useRoomDevices('room_201')).result.current.map(([id]) => id))
+      .toEqual(['env_sensor_201', 'vitals_monitor_004']);
+    expect(renderHook(() => usePatientDevices('patient_001')).result.current.map(([id]) => id))
+      .toEqual(['vitals_monitor_001']);
+    expect(renderHook(() => useStaffPatients('staff_002')).result.current.map(([id]) => id))
+      .toEqual(['patient_001', 'patient_004']);
+    expect(renderHook(() => useEntity('patients', 'patient_001')).result.current?.personalInfo.name).toBe('John Smith');
+    expect(renderHook(() => useEntity('patients', undefined)).result.current).toBeUndefined();
+  });
+
+  it('keeps unchanged records through a refresh, so their readers do not re-render', () => {
+    load(buildEntities());
+    const before = getHospitalState();
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return { john: useEntity('patients', 'patient_001'), alerts: useActiveAlerts() };
+    });
+    const shown = result.current;
+
+    // The same data again, as fresh objects from the backend
+    act(() => load(buildEntities()));
+    expect(getHospitalState()).toBe(before);
+
+    const refreshed = buildEntities();
+    refreshed.patients.patient_004.currentStatus.status = 'critical';
+    act(() => load(refreshed));
+
+    const { patients } = getHospitalState().entities;
+    expect(patients).not.toBe(before.entities.patients);
+    expect(patients.patient_001).toBe(before.entities.patients.patient_001);
+    expect(patients.patient_004).not.toBe(before.entities.patients.patient_004);
+    expect(getHospitalState().indexes).toBe(before.indexes);
+    expect(result.current.john).toBe(shown.john);
+    expect(result.current.alerts).toBe(shown.alerts);
+    expect(renders).toBe(1);
+  });
+});
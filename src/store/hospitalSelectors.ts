@@ -0,0 +1,118 @@
+import { useCallback } from 'react';
+import { Patient, IoTDevice } from '../api/types';
+import {
+  EntityKind,
+  HospitalEntities,
+  HospitalState,
+  PatientLocation,
+  shallowEqual,
+  useHospitalStore,
+} from './hospitalStore';
+
+export interface ActiveAlert {
+  deviceId: string;
+  alertId: string;
+  alert: IoTDevice['alerts'][string];
+}
+
+const noIds: string[] = [];
+const noLocation: PatientLocation = {};
+
+// Plain selectors, usable outside React through getHospitalState()
+
+export const selectCriticalPatients = (state: HospitalState): Patient[] =>
+  Object.values(state.entities.patients).filter(patient => patient.currentStatus?.status === 'critical');
+
+export const selectActiveAlerts = (state: HospitalState): ActiveAlert[] =>
+  Object.entries(state.entities.devices).flatMap(([deviceId, device]) =>
+    Object.entries(device.alerts || {})
+      .filter(([, alert]) => !alert.resolved)
+      .map(([alertId, alert]) => ({ deviceId, alertId, alert }))
+  );
+
+// Unchanged alerts keep their object through a refresh, so comparing those is enough
+const sameAlerts = (a: ActiveAlert[], b: ActiveAlert[]) =>
+  a.length === b.length && a.every((item, index) => item.alert === b[index].alert && item.alertId === b[index].alertId);
+
+const pickIds = <T>(records: Record<string, T>, ids: string[]): Array<[string, T]> =>
+  ids.filter(id => records[id] !== undefined).map(id => [id, records[id]]);
+
+const sameEntries = <T>(a: Array<[string, T]>, b: Array<[string, T]>) =>
+  a.length === b.length && a.every(([id, entity], index) => id === b[index][0] && entity === b[index][1]);
+
+/**
+ * A whole entity collection, keyed by id. Re-renders when any record in it changes.
+ */
+export const useEntities = <K extends EntityKind>(kind: K): HospitalEntities[K] =>
+  useHospitalStore(useCallback((state: HospitalState) => state.entities[kind], [kind]));
+
+/**
+ * A single record, or undefined while it is not loaded. Re-renders only when that record changes.
+ */
+export const useEntity = <K extends EntityKind>(kind: K, id: string | undefined): HospitalEntities[K][string] | undefined =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => (id ? state.entities[kind][id] : undefined) as HospitalEntities[K][string] | undefined,
+    [kind, id]
+  ));
+
+export const usePatientLocation = (patientId: string | undefined): PatientLocation =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => (patientId && state.indexes.patientLocation[patientId]) || noLocation,
+    [patientId]
+  ));
+
+/**
+ * Devices currently assigned to a patient, as [deviceId, device] pairs
+ */
+export const usePatientDevices = (patientId: string | undefined): Array<[string, IoTDevice]> =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => pickIds(state.entities.devices, (patientId && state.indexes.devicesByPatient[patientId]) || noIds),
+    [patientId]
+  ), sameEntries);
+
+/**
+ * Devices installed in a room, as [deviceId, device] pairs
+ */
+export const useRoomDevices = (roomId: string | undefined): Array<[string, IoTDevice]> =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => pickIds(state.entities.devices, (roomId && state.indexes.devicesByRoom[roomId]) || noIds),
+    [roomId]
+  ), sameEntries);
+
+/**
+ * Patients placed in a room, as [patientId, patient] pairs
+ */
+export const useRoomPatients = (roomId: string | undefined): Array<[string, Patient]> =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => pickIds(state.entities.patients, (roomId && state.indexes.patientsByRoom[roomId]) || noIds),
+    [roomId]
+  ), sameEntries);
+
+/**
+ * Patients on a staff member's schedule, as [patientId, patient] pairs
+ */
+export const useStaffPatients = (staffId: string | undefined): Array<[string, Patient]> =>
+  useHospitalStore(useCallback(
+    (state: HospitalState) => pickIds(state.entities.patients, (staffId && state.indexes.patientsByStaff[staffId]) || noIds),
+    [staffId]
+  ), sameEntries);
+
+export const useCriticalPatients = (): Patient[] =>
+  useHospitalStore(selectCriticalPatients, shallowEqual);
+
+export const useActiveAlerts = (): ActiveAlert[] =>
+  useHospitalStore(selectActiveAlerts, sameAlerts);
+
+const selectLoadState = (state: HospitalState) => ({ loading: state.status.loading, error: state.status.error });
+
+/**
+ * Combined loading flag and first error of the hospital data requests
+ */
+export const useHospitalLoadState = () => useHospitalStore(selectLoadState, shallowEqual);
+
+const selectConnectivity = (state: HospitalState) => ({
+  connectivity: state.status.connectivity,
+  lastConnectivityIssue: state.status.lastConnectivityIssue,
+});
+
+export const useConnectivity = () => useHospitalStore(selectConnectivity, shallowEqual);
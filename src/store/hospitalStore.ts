@@ -0,0 +1,236 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { ApiError } from '../api/errors';
+import { Room } from '../api/hooks/useRooms';
+import { Patient, StaffMember, IoTDevice } from '../api/types';
+
+// Normalized hospital data shared by the dashboards. Components read it through selector hooks
+// and only re-render when the slice they selected changes, not on every refresh.
+
+export type ConnectivityStatus = 'online' | 'degraded' | 'offline';
+
+export interface HospitalEntities {
+  patients: Record<string, Patient>;
+  staff: Record<string, StaffMember>;
+  devices: Record<string, IoTDevice>;
+  rooms: Record<string, Room>;
+}
+
+export type EntityKind = keyof HospitalEntities;
+
+export interface PatientLocation {
+  roomId?: string;
+  bedId?: string;
+}
+
+export interface HospitalIndexes {
+  patientLocation: Record<string, PatientLocation>;
+  patientsByRoom: Record<string, string[]>;
+  devicesByPatient: Record<string, string[]>;
+  devicesByRoom: Record<string, string[]>;
+  patientsByStaff: Record<string, string[]>;
+}
+
+export interface HospitalStatus {
+  loading: boolean;
+  error: ApiError | null;
+  connectivity: ConnectivityStatus;
+  lastConnectivityIssue: Date | null;
+}
+
+export interface HospitalState {
+  entities: HospitalEntities;
+  indexes: HospitalIndexes;
+  status: HospitalStatus;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    return keysA.length === Object.keys(b).length
+      && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+/**
+ * Equality for selectors that build a new array or object on every call
+ */
+export const shallowEqual = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    return keysA.length === Object.keys(b).length && keysA.every(key => Object.is(a[key], b[key]));
+  }
+  return false;
+};
+
+/**
+ * Keep the previous object for every entity that did not change, and the previous record when
+ * nothing changed at all, so reference checks in selectors stay cheap.
+ */
+const reconcileRecord = <T>(prev: Record<string, T>, next: Record<string, T>): Record<string, T> => {
+  let changed = Object.keys(prev).length !== Object.keys(next).length;
+  const merged: Record<string, T> = {};
+
+  Object.entries(next).forEach(([id, entity]) => {
+    if (Object.prototype.hasOwnProperty.call(prev, id) && deepEqual(prev[id], entity)) {
+      merged[id] = prev[id];
+    } else {
+      merged[id] = entity;
+      changed = true;
+    }
+  });
+
+  return changed ? merged : prev;
+};
+
+const pushId = (index: Record<string, string[]>, key: string | undefined, id: string) => {
+  if (!key) return;
+  if (!index[key]) index[key] = [];
+  if (!index[key].includes(id)) index[key].push(id);
+};
+
+const buildIndexes = ({ patients, staff, devices, rooms }: HospitalEntities): HospitalIndexes => {
+  const patientLocation: Record<string, PatientLocation> = {};
+  const patientsByRoom: Record<string, string[]> = {};
+  const devicesByPatient: Record<string, string[]> = {};
+  const devicesByRoom: Record<string, string[]> = {};
+  const patientsByStaff: Record<string, string[]> = {};
+
+  Object.entries(patients).forEach(([patientId, patient]) => {
+    const { roomId, bedId } = patient.personalInfo || {};
+    patientLocation[patientId] = { roomId: roomId || undefined, bedId: bedId || undefined };
+  });
+
+  // The room record is the source of truth for occupancy when the patient record lags behind
+  Object.entries(rooms).forEach(([roomId, room]) => {
+    if (room.assignedPatient) {
+      patientLocation[room.assignedPatient] = { ...patientLocation[room.assignedPatient], roomId };
+    }
+    (room.assignedDevices || []).forEach(deviceId => pushId(devicesByRoom, roomId, deviceId));
+  });
+
+  Object.entries(patientLocation).forEach(([patientId, location]) => pushId(patientsByRoom, location.roomId, patientId));
+
+  Object.entries(devices).forEach(([deviceId, device]) => {
+    pushId(devicesByRoom, device.deviceInfo?.roomId, deviceId);
+    pushId(devicesByPatient, device.deviceInfo?.currentPatientId, deviceId);
+  });
+
+  Object.entries(staff).forEach(([staffId, member]) => {
+    Object.values(member.schedule || {}).forEach(shift => {
+      (shift.patientAssignments || []).forEach(patientId => pushId(patientsByStaff, staffId, patientId));
+    });
+  });
+
+  return { patientLocation, patientsByRoom, devicesByPatient, devicesByRoom, patientsByStaff };
+};
+
+// Index entries are rebuilt from scratch, so unchanged lists get their old array back
+const reconcileIndexes = (prev: HospitalIndexes, next: HospitalIndexes): HospitalIndexes => {
+  const patientLocation = reconcileRecord(prev.patientLocation, next.patientLocation);
+  const patientsByRoom = reconcileRecord(prev.patientsByRoom, next.patientsByRoom);
+  const devicesByPatient = reconcileRecord(prev.devicesByPatient, next.devicesByPatient);
+  const devicesByRoom = reconcileRecord(prev.devicesByRoom, next.devicesByRoom);
+  const patientsByStaff = reconcileRecord(prev.patientsByStaff, next.patientsByStaff);
+
+  if (
+    patientLocation === prev.patientLocation
+    && patientsByRoom === prev.patientsByRoom
+    && devicesByPatient === prev.devicesByPatient
+    && devicesByRoom === prev.devicesByRoom
+    && patientsByStaff === prev.patientsByStaff
+  ) {
+    return prev;
+  }
+  return { patientLocation, patientsByRoom, devicesByPatient, devicesByRoom, patientsByStaff };
+};
+
+const emptyEntities: HospitalEntities = { patients: {}, staff: {}, devices: {}, rooms: {} };
+
+let state: HospitalState = {
+  entities: emptyEntities,
+  indexes: buildIndexes(emptyEntities),
+  status: {
+    loading: false,
+    error: null,
+    connectivity: 'online',
+    lastConnectivityIssue: null,
+  },
+};
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getHospitalState = (): HospitalState => state;
+
+/**
+ * Replace one entity collection with a fresh backend snapshot
+ */
+export const setEntities = <K extends EntityKind>(kind: K, records: HospitalEntities[K] | null | undefined) => {
+  const current: Record<string, unknown> = state.entities[kind];
+  const next = reconcileRecord(current, records || {});
+  if (next === current) return;
+
+  const entities = { ...state.entities, [kind]: next };
+  state = {
+    ...state,
+    entities,
+    indexes: reconcileIndexes(state.indexes, buildIndexes(entities)),
+  };
+  notify();
+};
+
+export const setStatus = (update: Partial<HospitalStatus>) => {
+  const changed = (Object.keys(update) as Array<keyof HospitalStatus>)
+    .some(key => !Object.is(state.status[key], update[key]));
+  if (!changed) return;
+
+  state = { ...state, status: { ...state.status, ...update } };
+  notify();
+};
+
+/**
+ * Subscribe to store changes. Returns a function that unsubscribes again.
+ */
+export const subscribeToHospitalStore = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Read a slice of the store. The component re-renders only when `isEqual` says the selected
+ * value changed; pass `shallowEqual` for selectors that return new arrays or objects.
+ */
+export const useHospitalStore = <T>(
+  selector: (state: HospitalState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T => {
+  const selectedRef = useRef<{ state: HospitalState; selector: typeof selector; value: T } | null>(null);
+
+  const getSnapshot = useCallback(() => {
+    const current = getHospitalState();
+    const previous = selectedRef.current;
+    if (previous && previous.state === current && previous.selector === selector) return previous.value;
+
+    const selected = selector(current);
+    const value = previous && isEqual(previous.value, selected) ? previous.value : selected;
+    selectedRef.current = { state: current, selector, value };
+    return value;
+  }, [selector, isEqual]);
+
+  return useSyncExternalStore(subscribeToHospitalStore, getSnapshot);
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { navigate, useLocation, useSearchParam } from './locationStore';
+
+const SearchField = () => {
+  const [query, setQuery] = useSearchParam('q');
+  const { pathname } = useLocation();
+  return <input aria-label={pathname} value={query} onChange={(e) => setQuery(e.target.value)} />;
+};
+
+describe('locationStore', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('keeps a query parameter in the address without adding history entries', () => {
+    navigate('/admin/devices?sort=id');
+    const entries = window.history.length;
+    render(<SearchField />);
+
+    fireEvent.change(screen.getByLabelText('/admin/devices'), { target: { value: 'monitor 3' } });
+    expect(window.location.search).toBe('?sort=id&q=monitor+3');
+    fireEvent.change(screen.getByLabelText('/admin/devices'), { target: { value: '' } });
+    expect(window.location.search).toBe('?sort=id');
+    expect(window.history.length).toBe(entries);
+  });
+
+  it('follows the browser back button', async () => {
+    window.history.replaceState(null, '', '/doctor/alerts?q=spo2');
+    render(<SearchField />);
+    expect(screen.getByLabelText('/doctor/alerts')).toHaveProperty('value', 'spo2');
+
+    act(() => navigate('/doctor/monitoring'));
+    expect(screen.getByLabelText('/doctor/monitoring')).toHaveProperty('value', '');
+
+    await act(async () => {
+      const popped = new Promise(resolve => window.addEventListener('popstate', resolve, { once: true }));
+      window.history.back();
+      await popped;
+    });
+    expect(screen.getByLabelText('/doctor/alerts')).toHaveProperty('value', 'spo2');
+  });
+});
@@ -0,0 +1,77 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// The browser address as a store: screens follow back/forward, and whatever is kept in the URL
+// (the open view, filters, searches) survives a reload and can be bookmarked or shared
+
+export interface AppLocation {
+  pathname: string;
+  search: string;
+}
+
+const readLocation = (): AppLocation => ({ pathname: window.location.pathname, search: window.location.search });
+
+let location = readLocation();
+const listeners = new Set<() => void>();
+
+const update = () => {
+  const next = readLocation();
+  if (next.pathname === location.pathname && next.search === location.search) return;
+  location = next;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  if (listeners.size === 0) {
+    // The address may have changed while nobody listened
+    update();
+    window.addEventListener('popstate', update);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('popstate', update);
+  };
+};
+
+const getLocation = () => location;
+
+/**
+ * Open a URL of the app without reloading. Replacing keeps the current history entry, for changes
+ * that back should not step through one by one, like typing into a search field.
+ */
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (to === `${window.location.pathname}${window.location.search}`) return;
+  if (options.replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  update();
+};
+
+export const useLocation = (): AppLocation => useSyncExternalStore(subscribe, getLocation);
+
+// Unlike useLocation, does not re-render for changes of the query, e.g. while typing into a search
+export const usePathname = (): string => useSyncExternalStore(subscribe, () => location.pathname);
+
+/**
+ * A query parameter of the current URL as state. Setting the fallback removes the parameter, so
+ * untouched filters do not clutter the address.
+ */
+export const useSearchParam = (name: string, fallback = ''): [string, (value: string) => void] => {
+  const { search } = useLocation();
+  const value = new URLSearchParams(search).get(name) ?? fallback;
+
+  const setValue = useCallback((next: string) => {
+    const params = new URLSearchParams(window.location.search);
+    if (next === fallback) {
+      params.delete(name);
+    } else {
+      params.set(name, next);
+    }
+    const query = params.toString();
+    navigate(`${window.location.pathname}${query ? `?${query}` : ''}`, { replace: true });
+  }, [name, fallback]);
+
+  return [value, setValue];
+};
@@ -0,0 +1,49 @@
+import { useSyncExternalStore } from 'react';
+
+// Short-lived messages shown by <Toaster />, e.g. when an optimistic change had to be undone
+
+export type ToastKind = 'error' | 'success' | 'info';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  title: string;
+  message?: string;
+}
+
+const TOAST_DURATION_MS = 6000;
+const MAX_TOASTS = 4;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const dismissToast = (id: number) => {
+  if (!toasts.some(toast => toast.id === id)) return;
+  toasts = toasts.filter(toast => toast.id !== id);
+  notify();
+};
+
+/**
+ * Show a toast that closes by itself after a few seconds. Returns its id.
+ */
+export const showToast = (toast: Omit<Toast, 'id'>): number => {
+  const id = nextId++;
+  toasts = [...toasts, { ...toast, id }].slice(-MAX_TOASTS);
+  notify();
+  setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+  return id;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getToasts = () => toasts;
+
+export const useToasts = (): Toast[] => useSyncExternalStore(subscribe, getToasts);
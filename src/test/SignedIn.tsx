@@ -0,0 +1,10 @@
+import React, { ReactNode } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+// Holds the screen back until the session of setupMockBackend has been restored
+const SignedIn: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  return user ? <div data-testid="signed-in">{children}</div> : null;
+};
+
+export default SignedIn;
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach } from 'vitest';
+import Api from '../api/api';
+import { authAPI } from '../api/auth';
+import { ENDPOINTS } from '../api/config';
+import { clearQueryCache } from '../api/queryCache';
+import { MOCK_PASSWORD } from '../api/mock/fixtures';
+import { MockBackend, MockBackendOptions } from '../api/mock/mockBackend';
+import { IoTDevice } from '../api/types';
+import { toBackendTimestamp } from '../utils/dateUtils';
+
+// Fixed clock for fixtures and simulated readings, so every run sees the same data
+export const TEST_NOW = new Date('2025-03-10T12:00:00Z');
+
+export const minutesAfter = (minutes: number) => new Date(TEST_NOW.getTime() + minutes * 60 * 1000);
+
+/**
+ * Put an open alert raised at TEST_NOW on a device of the mock backend
+ */
+export const raiseAlert = (
+  backend: MockBackend,
+  deviceId: string,
+  alertId: string,
+  type: IoTDevice['alerts'][string]['type'] = 'critical'
+) => {
+  backend.db.devices[deviceId].alerts[alertId] = {
+    type,
+    message: 'SpO2 86%',
+    timestamp: toBackendTimestamp(TEST_NOW),
+    resolved: false,
+  };
+};
+
+/**
+ * An alert of a device as the backend returns it
+ */
+export const fetchAlert = async (deviceId: string, alertId: string) => {
+  const { data } = await Api.get<IoTDevice>(ENDPOINTS.iot.getById(deviceId));
+  return data!.alerts[alertId];
+};
+
+/**
+ * Route the shared API client to a fresh mock backend for each test of the
+ * enclosing suite, signed in as `email`. Read the backend from the returned
+ * object inside tests; it is replaced before every test.
+ */
+export const setupMockBackend = (email = 'admin@hospital.com', options: MockBackendOptions = {}) => {
+  const server = {} as { backend: MockBackend };
+  let restoreFetch = () => {};
+
+  beforeEach(async () => {
+    server.backend = new MockBackend({ tickMs: 0, now: TEST_NOW, ...options });
+    restoreFetch = Api.setFetch(server.backend.fetch);
+    await authAPI.login({ email, password: MOCK_PASSWORD });
+  });
+
+  afterEach(async () => {
+    await authAPI.logout();
+    clearQueryCache();
+    restoreFetch();
+  });
+
+  return server;
+};
+
+/**
+ * Answer `method` requests to `path` with `status` and `body` instead of the mock backend,
+ * e.g. to reproduce a server-side validation error. Lasts until the end of the test.
+ */
+export const overrideRoute = (backend: MockBackend, method: string, path: string, status: number, body: unknown) => {
+  const normalize = (pathname: string) => pathname.replace(/\/+$/, '');
+  Api.setFetch(async (input, init = {}) => {
+    const { pathname } = new URL(input.toString());
+    if ((init.method ?? 'GET').toUpperCase() === method && normalize(pathname) === normalize(path)) {
+      return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    }
+    return backend.fetch(input, init);
+  });
+};
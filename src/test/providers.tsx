@@ -0,0 +1,21 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { AuthProvider } from '../contexts/AuthContext';
+import { HospitalDataProvider } from '../contexts/HospitalDataContext';
+import SignedIn from './SignedIn';
+
+/**
+ * Render `ui` inside the app providers as the user signed in by setupMockBackend,
+ * resolving once their account has loaded, so permission checks see the real role.
+ */
+export const renderSignedIn = async (ui: React.ReactElement) => {
+  const view = render(
+    <AuthProvider>
+      <HospitalDataProvider>
+        <SignedIn>{ui}</SignedIn>
+      </HospitalDataProvider>
+    </AuthProvider>
+  );
+  await screen.findByTestId('signed-in');
+  return view;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CorrelatedAlert, groupAlerts, incidentSparkline } from './alertCorrelation';
+
+const alert = (minute: number, message: string, overrides: Partial<CorrelatedAlert> = {}): CorrelatedAlert => ({
+  deviceId: 'vitals_monitor_004',
+  type: 'critical',
+  message,
+  timestamp: `2025-03-10T12:${String(minute).padStart(2, '0')}:00Z`,
+  resolved: false,
+  ...overrides,
+});
+
+describe('alert correlation', () => {
+  it('collapses repeats with other readings into one incident', () => {
+    const [incident, ...others] = groupAlerts([
+      alert(4, 'SpO2 87%'),
+      alert(0, 'SpO2 86%'),
+      alert(2, 'SpO2 84%'),
+    ]);
+
+    expect(others).toEqual([]);
+    expect(incident.count).toBe(3);
+    expect(incident.latest.message).toBe('SpO2 87%');
+    expect(incident.lastAt - incident.firstAt).toBe(4 * 60 * 1000);
+    expect(incidentSparkline(incident)).toEqual([86, 84, 87]);
+  });
+
+  it('keeps devices, severities and messages apart', () => {
+    const incidents = groupAlerts([
+      alert(0, 'SpO2 86%'),
+      alert(1, 'SpO2 86%', { deviceId: 'vitals_monitor_001' }),
+      alert(2, 'SpO2 86%', { type: 'warning' }),
+      alert(3, 'Heart rate 130 bpm'),
+    ]);
+
+    expect(incidents.map(incident => incident.count)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('starts a new incident after a quiet window', () => {
+    const incidents = groupAlerts([
+      alert(0, 'SpO2 86%'),
+      alert(8, 'SpO2 85%'),
+      alert(25, 'SpO2 86%'),
+    ], 10 * 60 * 1000);
+
+    expect(incidents.map(incident => incident.count)).toEqual([2, 1]);
+    expect(incidents[0].id).not.toBe(incidents[1].id);
+  });
+
+  it('is resolved only once every alert in it is', () => {
+    const [incident] = groupAlerts([alert(0, 'Probe off', { resolved: true }), alert(1, 'Probe off')]);
+
+    expect(incident.resolved).toBe(false);
+    expect(incidentSparkline(incident)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,91 @@
+import { toTimestampMs } from './dateUtils';
+
+// Alarm fatigue: a flapping sensor raises the same alert over and over, with the reading in the
+// message changing a little each time. Alerts of one device with the same severity and the same
+// message up to its numbers form one incident while each comes within the window of the one before.
+
+export const DEFAULT_CORRELATION_WINDOW_MS = 10 * 60 * 1000;
+
+export interface CorrelatedAlert {
+  deviceId: string;
+  type: 'critical' | 'warning' | 'info';
+  message: string;
+  // Backend timestamp, not formatted for display
+  timestamp: string;
+  resolved: boolean;
+}
+
+export interface AlertIncident<T extends CorrelatedAlert> {
+  // Stays the same while the incident grows
+  id: string;
+  // Oldest first
+  alerts: T[];
+  latest: T;
+  count: number;
+  // Times of the first and the latest alert (ms)
+  firstAt: number;
+  lastAt: number;
+  // Only once every alert of it is
+  resolved: boolean;
+}
+
+const NUMBERS = /\d+(\.\d+)?/g;
+
+/**
+ * What repeated alerts have in common: device, severity and message without its numbers
+ */
+export const correlationKey = (alert: CorrelatedAlert) =>
+  `${alert.deviceId}|${alert.type}|${alert.message.replace(NUMBERS, '#')}`;
+
+/**
+ * Alerts grouped into incidents, oldest incident first
+ */
+export const groupAlerts = <T extends CorrelatedAlert>(
+  alerts: T[],
+  windowMs: number = DEFAULT_CORRELATION_WINDOW_MS
+): AlertIncident<T>[] => {
+  const incidents: AlertIncident<T>[] = [];
+  // The latest incident per key, which the next alert with the key may join
+  const latestByKey = new Map<string, AlertIncident<T>>();
+
+  [...alerts]
+    .sort((a, b) => toTimestampMs(a.timestamp) - toTimestampMs(b.timestamp))
+    .forEach(alert => {
+      const key = correlationKey(alert);
+      const at = toTimestampMs(alert.timestamp);
+      const incident = latestByKey.get(key);
+      if (incident && at - incident.lastAt <= windowMs) {
+        incident.alerts.push(alert);
+        incident.latest = alert;
+        incident.count += 1;
+        incident.lastAt = at;
+        incident.resolved = incident.resolved && alert.resolved;
+        return;
+      }
+      const started: AlertIncident<T> = {
+        id: `${key}|${alert.timestamp}`,
+        alerts: [alert],
+        latest: alert,
+        count: 1,
+        firstAt: at,
+        lastAt: at,
+        resolved: alert.resolved,
+      };
+      latestByKey.set(key, started);
+      incidents.push(started);
+    });
+
+  return incidents;
+};
+
+/**
+ * Points of an incident's sparkline: the reading each alert reports (the last number of its message,
+ * e.g. 86 for "SpO2 86%"), or the running count when a message has none
+ */
+export const incidentSparkline = (incident: AlertIncident<CorrelatedAlert>): number[] => {
+  const readings = incident.alerts.map(alert => {
+    const numbers = alert.message.match(NUMBERS);
+    return numbers ? Number(numbers[numbers.length - 1]) : Number.NaN;
+  });
+  return readings.every(Number.isFinite) ? readings : incident.alerts.map((_, index) => index + 1);
+};
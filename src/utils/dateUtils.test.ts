@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareTimestampsDesc,
+  formatRelativeTime,
+  formatTimestamp,
+  getLatestEntry,
+  parseTimestamp,
+  sortByTimestampDesc,
+  toBackendTimestamp,
+} from './dateUtils';
+
+const NEW_YORK = 'America/New_York';
+
+const iso = (value: string, timeZone = 'UTC') => parseTimestamp(value, timeZone)?.toISOString();
+
+describe('parseTimestamp', () => {
+  it('reads backend keys as wall-clock time in the hospital zone', () => {
+    expect(iso('2025-07-30_12-11-06')).toBe('2025-07-30T12:11:06.000Z');
+    expect(iso('2025-07-30_12-11')).toBe('2025-07-30T12:11:00.000Z');
+    expect(iso('2025-07-30_12-11-06', 'Asia/Kolkata')).toBe('2025-07-30T06:41:06.000Z');
+  });
+
+  it('keeps the date of a backend key, which replacing every "-" with ":" corrupted', () => {
+    expect(parseTimestamp('2025-07-30_12-11-06', 'UTC')?.getUTCDate()).toBe(30);
+    expect(parseTimestamp('2025:07:30_12:11:06', 'UTC')).toBeNull();
+  });
+
+  it('follows daylight saving time of the hospital zone', () => {
+    expect(iso('2025-01-15_12-00-00', NEW_YORK)).toBe('2025-01-15T17:00:00.000Z');
+    expect(iso('2025-07-15_12-00-00', NEW_YORK)).toBe('2025-07-15T16:00:00.000Z');
+    // 01:30 EST and 03:30 EDT on the night the clocks spring forward are one hour apart
+    const before = parseTimestamp('2025-03-09_01-30-00', NEW_YORK)!.getTime();
+    const after = parseTimestamp('2025-03-09_03-30-00', NEW_YORK)!.getTime();
+    expect(after - before).toBe(60 * 60 * 1000);
+  });
+
+  it('keeps exact instants and rejects what it cannot read', () => {
+    expect(iso('2025-07-30T12:11:06+02:00', NEW_YORK)).toBe('2025-07-30T10:11:06.000Z');
+    expect(iso('2025-07-30', NEW_YORK)).toBe('2025-07-30T04:00:00.000Z');
+    expect(parseTimestamp(Date.UTC(2025, 6, 30))?.toISOString()).toBe('2025-07-30T00:00:00.000Z');
+    expect(parseTimestamp('2025-13-01_00-00-00')).toBeNull();
+    expect(parseTimestamp('yesterday')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('toBackendTimestamp', () => {
+  it('writes keys that read back as the same instant', () => {
+    const instant = new Date('2025-03-09T07:30:00Z');
+
+    expect(toBackendTimestamp(instant, NEW_YORK)).toBe('2025-03-09_03-30-00');
+    expect(parseTimestamp(toBackendTimestamp(instant, NEW_YORK), NEW_YORK)).toEqual(instant);
+    expect(toBackendTimestamp(instant, 'Asia/Kolkata')).toBe('2025-03-09_13-00-00');
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('shows the time in the hospital zone', () => {
+    expect(formatTimestamp('2025-07-30T16:11:06Z', { timeZone: NEW_YORK })).toBe('Jul 30, 2025, 12:11:06 PM');
+    expect(formatTimestamp('2025-07-30_12-11-06', { timeZone: NEW_YORK, style: 'date' })).toBe('Jul 30, 2025');
+  });
+
+  it('says when there is no timestamp or it cannot be read', () => {
+    expect(formatTimestamp(null, { fallback: 'Never' })).toBe('Never');
+    expect(formatTimestamp('not a date')).toBe('Invalid date');
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const now = Date.UTC(2025, 6, 30, 12, 0, 0);
+  const ago = (ms: number) => new Date(now - ms);
+  const MINUTE = 60 * 1000;
+
+  it('gives the age in the largest whole unit', () => {
+    expect(formatRelativeTime(ago(30 * 1000), now)).toBe('Just now');
+    expect(formatRelativeTime(ago(5 * MINUTE), now)).toBe('5m ago');
+    expect(formatRelativeTime(ago(3 * 60 * MINUTE), now)).toBe('3h ago');
+    expect(formatRelativeTime(ago(2 * 24 * 60 * MINUTE), now)).toBe('2d ago');
+    expect(formatRelativeTime(ago(15 * 24 * 60 * MINUTE), now)).toBe('2w ago');
+  });
+
+  it('treats readings slightly in the future as new', () => {
+    expect(formatRelativeTime(new Date(now + 20 * 1000), now)).toBe('Just now');
+    expect(formatRelativeTime('garbage', now)).toBe('Unknown time');
+  });
+});
+
+describe('sorting', () => {
+  it('puts the newest first and unreadable timestamps last', () => {
+    const sorted = ['2025-07-30_09-05-00', 'broken', '2025-07-30_10-00-00', '2025-07-29_23-59-59'].sort(compareTimestampsDesc);
+
+    expect(sorted).toEqual(['2025-07-30_10-00-00', '2025-07-30_09-05-00', '2025-07-29_23-59-59', 'broken']);
+  });
+
+  it('orders by time, not by text', () => {
+    const readings = [{ at: '2025-07-30T09:00:00Z' }, { at: '2025-07-30T10:00:00+02:00' }];
+
+    expect(sortByTimestampDesc(readings, reading => reading.at).map(reading => reading.at)).toEqual([
+      '2025-07-30T09:00:00Z',
+      '2025-07-30T10:00:00+02:00',
+    ]);
+  });
+
+  it('finds the latest entry of a record keyed by backend timestamps', () => {
+    expect(getLatestEntry({ '2025-07-30_09-59-59': 'older', '2025-07-30_10-00-00': 'latest' })).toEqual([
+      '2025-07-30_10-00-00',
+      'latest',
+    ]);
+    expect(getLatestEntry({})).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+import { HOSPITAL_TIME_ZONE } from '../api/config';
+
+export type TimestampInput = string | number | Date | null | undefined;
+
+// Backend (Firebase key) format: YYYY-MM-DD_HH-MM-SS, seconds optional
+const BACKEND_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})(?:-(\d{2}))?$/;
+// ISO date or date-time without a zone designator, e.g. from <input type="date">
+const LOCAL_ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZoneFormatter = (timeZone: string) => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock fields of an instant as seen in the given time zone
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = getZoneFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+/**
+ * Convert a wall-clock time in the given zone to an instant, correct across DST changes
+ */
+const fromZonedWallClock = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): Date => {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+  };
+
+  const firstGuess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  const secondOffset = offsetAt(firstGuess);
+  return new Date(wallClockAsUtc - secondOffset);
+};
+
+/**
+ * Parse any timestamp the backend or the UI produces into a Date.
+ * Backend keys (YYYY-MM-DD_HH-MM-SS) and ISO strings without an offset are read as
+ * hospital wall-clock time; ISO strings with `Z` or an offset and epoch milliseconds are exact.
+ * Returns null for empty or unparseable input.
+ */
+export const parseTimestamp = (value: TimestampInput, timeZone: string = HOSPITAL_TIME_ZONE): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? new Date(value) : null;
+  }
+
+  const text = value.trim();
+  const wallClock = text.match(BACKEND_TIMESTAMP) || text.match(LOCAL_ISO_TIMESTAMP);
+  if (wallClock) {
+    const [year, month, day, hour = 0, minute = 0, second = 0] = wallClock.slice(1).map(part => Number(part || 0));
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+      return null;
+    }
+    return fromZonedWallClock(year, month, day, hour, minute, second, timeZone);
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Epoch milliseconds for sorting, or NaN when the value cannot be parsed
+ */
+export const toTimestampMs = (value: TimestampInput): number => parseTimestamp(value)?.getTime() ?? Number.NaN;
+
+/**
+ * Comparator that puts the newest timestamp first and unparseable ones last
+ */
+export const compareTimestampsDesc = (a: TimestampInput, b: TimestampInput): number => {
+  const timeA = toTimestampMs(a);
+  const timeB = toTimestampMs(b);
+  if (isNaN(timeA) && isNaN(timeB)) return 0;
+  if (isNaN(timeA)) return 1;
+  if (isNaN(timeB)) return -1;
+  return timeB - timeA;
+};
+
+/**
+ * Copy of `items` sorted newest first by the timestamp `getTimestamp` returns
+ */
+export const sortByTimestampDesc = <T>(items: T[], getTimestamp: (item: T) => TimestampInput): T[] =>
+  [...items].sort((a, b) => compareTimestampsDesc(getTimestamp(a), getTimestamp(b)));
+
+/**
+ * Latest entry of a record keyed by timestamp, such as a device's vitals for one patient
+ */
+export const getLatestEntry = <T>(entries: Record<string, T>): [string, T] | null =>
+  sortByTimestampDesc(Object.entries(entries), ([key]) => key)[0] ?? null;
+
+type TimestampStyle = 'datetime' | 'short' | 'date' | 'time';
+
+const STYLE_OPTIONS: Record<TimestampStyle, Intl.DateTimeFormatOptions> = {
+  datetime: {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: true
+  },
+  // Same day and time without the year, for live readings
+  short: {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: true
+  },
+  date: {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  },
+  time: {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: true
+  }
+};
+
+interface FormatTimestampOptions {
+  style?: TimestampStyle;
+  // Shown for empty input
+  fallback?: string;
+  timeZone?: string;
+  // Append the zone abbreviation, e.g. "GMT+5"
+  showTimeZone?: boolean;
+}
+
+/**
+ * Human-readable timestamp in the hospital time zone, e.g. "Jul 30, 2025, 12:11:06 PM"
+ */
+export const formatTimestamp = (value: TimestampInput, options: FormatTimestampOptions = {}): string => {
+  const { style = 'datetime', fallback = 'No data available', timeZone = HOSPITAL_TIME_ZONE, showTimeZone = false } = options;
+  if (value === null || value === undefined || value === '') return fallback;
+
+  const date = parseTimestamp(value, timeZone);
+  if (!date) {
+    console.warn('Invalid timestamp:', value);
+    return 'Invalid date';
+  }
+  return date.toLocaleString('en-US', {
+    ...STYLE_OPTIONS[style],
+    timeZone,
+    ...(showTimeZone ? { timeZoneName: 'short' } : {})
+  });
+};
+
+/**
+ * Short age of a timestamp such as "Just now", "5m ago", "3h ago" or "2d ago".
+ * Older than four weeks falls back to the date.
+ */
+export const formatRelativeTime = (value: TimestampInput, now: number = Date.now()): string => {
+  const date = parseTimestamp(value);
+  if (!date) return 'Unknown time';
+
+  const diffMins = Math.floor((now - date.getTime()) / (1000 * 60));
+  // Small clock skew between backend and browser can put readings slightly in the future
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  const diffWeeks = Math.floor(diffDays / 7);
+  if (diffWeeks < 4) return `${diffWeeks}w ago`;
+
+  return formatTimestamp(date, { style: 'date' });
+};
+
+/**
+ * Time left as minutes and seconds, e.g. "4:05"; never negative
+ */
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Backend key format (YYYY-MM-DD_HH-MM-SS) in the hospital time zone
+ */
+export const toBackendTimestamp = (value: TimestampInput = new Date(), timeZone: string = HOSPITAL_TIME_ZONE): string => {
+  const date = parseTimestamp(value, timeZone) ?? new Date();
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}_${pad(p.hour)}-${pad(p.minute)}-${pad(p.second)}`;
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) in the hospital time zone, for <input type="date">
+ */
+export const toDateInputValue = (value: TimestampInput = new Date(), timeZone: string = HOSPITAL_TIME_ZONE): string =>
+  toBackendTimestamp(value, timeZone).split('_')[0];
+
+/**
+ * ISO 8601 string for a timestamp, or null when it cannot be parsed
+ */
+export const toIsoTimestamp = (value: TimestampInput): string | null => parseTimestamp(value)?.toISOString() ?? null;
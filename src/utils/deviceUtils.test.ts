@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { IoTDevice, VitalReading } from '../api/types';
+import { getLatestVitals, getPatientLatestVitals } from './deviceUtils';
+
+const reading = (timestamp: string, heartRate: number, patientId = 'patient_001'): VitalReading => ({
+  heartRate,
+  oxygenLevel: 97,
+  temperature: 98.6,
+  bloodPressure: { systolic: 120, diastolic: 80 },
+  respiratoryRate: 16,
+  glucose: 100,
+  bedOccupancy: true,
+  patientId,
+  deviceStatus: 'online',
+  batteryLevel: 90,
+  signalStrength: 95,
+  timestamp,
+});
+
+const monitor = (vitals: IoTDevice['vitals'], currentPatientId?: string): IoTDevice => ({
+  vitals,
+  deviceInfo: {
+    type: 'vitals_monitor',
+    manufacturer: 'Philips',
+    model: 'IntelliVue MX450',
+    roomId: 'room_101',
+    bedId: 'bed_101_A',
+    currentPatientId,
+    lastCalibrated: '2025-01-01_00-00-00',
+    calibrationDue: '2025-07-01_00-00-00',
+    maintenanceSchedule: 'quarterly',
+  },
+  alerts: {},
+});
+
+describe('getLatestVitals', () => {
+  it('returns the newest reading of the assigned patient', () => {
+    const device = monitor({
+      patient_001: {
+        '2025-03-10_11-59-00': reading('2025-03-10_11-59-00', 80),
+        '2025-03-10_12-01-00': reading('2025-03-10_12-01-00', 84),
+        '2025-03-10_12-00-00': reading('2025-03-10_12-00-00', 82),
+      },
+    }, 'patient_001');
+
+    expect(getLatestVitals(device)).toMatchObject({ heartRate: 84, timestamp: '2025-03-10_12-01-00' });
+  });
+
+  it('orders readings by time across day boundaries', () => {
+    const device = monitor({
+      patient_001: {
+        '2025-03-09_23-59-59': reading('2025-03-09_23-59-59', 80),
+        '2025-03-10_00-00-01': reading('2025-03-10_00-00-01', 91),
+      },
+    }, 'patient_001');
+
+    expect(getLatestVitals(device)).toMatchObject({ heartRate: 91 });
+  });
+
+  it('ignores readings of patients previously on the monitor', () => {
+    const device = monitor({
+      patient_001: { '2025-03-10_12-05-00': reading('2025-03-10_12-05-00', 120) },
+      patient_002: { '2025-03-10_12-00-00': reading('2025-03-10_12-00-00', 70, 'patient_002') },
+    }, 'patient_002');
+
+    expect(getLatestVitals(device)).toMatchObject({ heartRate: 70, patientId: 'patient_002' });
+  });
+
+  it('returns null when no patient is assigned', () => {
+    const device = monitor({ patient_001: { '2025-03-10_12-00-00': reading('2025-03-10_12-00-00', 80) } });
+
+    expect(getLatestVitals(device)).toBeNull();
+  });
+
+  it('returns null when the assigned patient has no readings yet', () => {
+    expect(getLatestVitals(monitor({}, 'patient_001'))).toBeNull();
+    expect(getLatestVitals(monitor({
+      patient_002: { '2025-03-10_12-00-00': reading('2025-03-10_12-00-00', 80, 'patient_002') },
+    }, 'patient_001'))).toBeNull();
+  });
+});
+
+describe('getPatientLatestVitals', () => {
+  it('reads any patient that has readings on the device', () => {
+    const device = monitor({
+      patient_001: { '2025-03-10_12-05-00': reading('2025-03-10_12-05-00', 120) },
+    }, 'patient_002');
+
+    expect(getPatientLatestVitals(device, 'patient_001')).toMatchObject({ heartRate: 120 });
+    expect(getPatientLatestVitals(device, 'patient_003')).toBeNull();
+  });
+});
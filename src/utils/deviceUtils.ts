@@ -1,4 +1,5 @@
 import { IoTDevice, VitalReading, EnvironmentalReading } from '../api/types';
+import { getLatestEntry } from './dateUtils';
 
 /**
  * Type guard to check if a reading is a vital reading
@@ -23,7 +24,6 @@ export const isEnvironmentalSensor = (device: IoTDevice): boolean => {
 
 /**
  * Utility function to get the latest vitals from a device
- * Handles Firebase timestamp format (YYYY-MM-DD_HH-MM-SS)
  * Only returns vitals for the currently assigned patient
  */
 export const getLatestVitals = (device: IoTDevice) => {
@@ -43,21 +43,8 @@ export const getLatestVitals = (device: IoTDevice) => {
     return null;
   }
   
-  const vitalsEntries = Object.entries(patientVitals as Record<string, VitalReading | EnvironmentalReading>);
-  if (vitalsEntries.length === 0) {
-    return null;
-  }
-  
-  // Sort timestamps and get the latest one
-  const sortedEntries = vitalsEntries
-    .sort(([a], [b]) => {
-      // Convert Firebase timestamp format (YYYY-MM-DD_HH-MM-SS) to comparable date
-      const dateA = new Date(a.replace(/_/g, ' ').replace(/-/g, ':'));
-      const dateB = new Date(b.replace(/_/g, ' ').replace(/-/g, ':'));
-      return dateB.getTime() - dateA.getTime();
-    });
-  
-  return sortedEntries.length > 0 ? sortedEntries[0][1] : null;
+  // Readings are keyed by their Firebase timestamp (YYYY-MM-DD_HH-MM-SS)
+  return getLatestEntry(patientVitals as Record<string, VitalReading | EnvironmentalReading>)?.[1] ?? null;
 };
 
 /**
@@ -73,15 +60,23 @@ export const getPatientLatestVitals = (device: IoTDevice, patientId: string): Vi
     return null;
   }
   
-  // Sort timestamps and get the latest one
-  const sortedEntries = Object.entries(patientVitals as Record<string, VitalReading>)
-    .sort(([a], [b]) => {
-      const dateA = new Date(a.replace(/_/g, ' ').replace(/-/g, ':'));
-      const dateB = new Date(b.replace(/_/g, ' ').replace(/-/g, ':'));
-      return dateB.getTime() - dateA.getTime();
-    });
-  
-  return sortedEntries.length > 0 ? sortedEntries[0][1] : null;
+  return getLatestEntry(patientVitals as Record<string, VitalReading>)?.[1] ?? null;
+};
+
+/**
+ * Every stored reading of a patient on a device, oldest first
+ */
+export const getPatientVitalHistory = (device: IoTDevice, patientId: string): VitalReading[] => {
+  const patientVitals = device.vitals?.[patientId];
+  if (!patientVitals || typeof patientVitals !== 'object' || Array.isArray(patientVitals)) {
+    return [];
+  }
+
+  // Keys are backend timestamps, which sort chronologically
+  return Object.entries(patientVitals as Record<string, VitalReading | EnvironmentalReading>)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, reading]) => reading)
+    .filter(isVitalReading);
 };
 
 /**
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { StaffMember } from '../api/types';
+import { findStaffRecord, PERMISSIONS, permissionsFor } from './permissions';
+
+const member = (name: string, email?: string) => ({
+  personalInfo: { name, contact: email ? { email } : undefined },
+}) as StaffMember;
+
+describe('permissionsFor', () => {
+  it('grants an admin everything', () => {
+    expect([...permissionsFor({ role: 'admin' })].sort()).toEqual([...PERMISSIONS].sort());
+  });
+
+  it('narrows a staff account to the job role on its staff record', () => {
+    const technician = permissionsFor({ role: 'staff', jobRole: 'technician' });
+    expect(technician.has('device.manage')).toBe(true);
+    expect(technician.has('patient.view')).toBe(false);
+
+    const nurse = permissionsFor({ role: 'staff', jobRole: 'nurse' });
+    expect(nurse.has('alert.resolve')).toBe(true);
+    expect(nurse.has('device.manage')).toBe(false);
+  });
+
+  it('does not raise a staff account to a stronger job role', () => {
+    const permissions = permissionsFor({ role: 'staff', jobRole: 'admin' });
+
+    expect(permissions.has('staff.manage')).toBe(false);
+    expect(permissions).toEqual(permissionsFor({ role: 'staff' }));
+  });
+
+  it('adds the permissions of the department', () => {
+    expect(permissionsFor({ role: 'staff' }).has('alert.resolve')).toBe(false);
+    expect(permissionsFor({ role: 'staff', department: 'ICU' }).has('alert.resolve')).toBe(true);
+    expect(permissionsFor({ role: 'doctor', department: 'Biomedical Engineering' }).has('device.manage')).toBe(true);
+    expect(permissionsFor({ role: 'doctor', department: 'Cardiology' }).has('device.manage')).toBe(false);
+  });
+});
+
+describe('findStaffRecord', () => {
+  const staff = {
+    staff_001: member('Emma Wilson', 'Staff@Hospital.com'),
+    staff_002: member('Priya Patel'),
+  };
+
+  it('matches the contact email regardless of case', () => {
+    expect(findStaffRecord(staff, { email: 'staff@hospital.com' })).toBe(staff.staff_001);
+    expect(findStaffRecord(staff, { email: 'nobody@hospital.com' })).toBeUndefined();
+  });
+
+  it('does not match on the name alone', () => {
+    expect(findStaffRecord(staff, { email: 'p.patel@hospital.com' })).toBeUndefined();
+  });
+
+  it('prefers the staff record linked to the account', () => {
+    expect(findStaffRecord(staff, { email: 'staff@hospital.com', staffId: 'staff_002' })).toBe(staff.staff_002);
+    expect(findStaffRecord(staff, { email: 'staff@hospital.com', staffId: 'staff_999' })).toBe(staff.staff_001);
+  });
+});
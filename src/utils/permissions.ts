@@ -0,0 +1,127 @@
+import type { UserRole } from '../contexts/AuthContext';
+import type { StaffMember } from '../api/types';
+
+// Capabilities the UI checks before showing an action. Components ask for a capability
+// (usePermission / <Can>), never for a role, so who may do what is decided here only.
+export const PERMISSIONS = [
+  'patient.view',
+  // Every patient record, not only the patients on one's own schedule
+  'patient.view.all',
+  'patient.create',
+  'patient.edit',
+  'bed.assign',
+  'room.view',
+  'room.manage',
+  'device.view',
+  'device.manage',
+  'device.assign',
+  'alert.view',
+  // Saying one has seen an alert, which stops its escalation
+  'alert.acknowledge',
+  'alert.resolve',
+  // Snoozing the alerts of a patient or device for a while
+  'alert.suppress',
+  // When vital signs count as a warning or critical, per patient and ward
+  'vitals.thresholds',
+  'staff.view',
+  'staff.manage',
+  'schedule.view',
+  'schedule.publish',
+  'task.update',
+  'analytics.view',
+  // Counts of every facility of the group side by side
+  'facility.compare',
+  'diagnostics.view',
+  'audit.view',
+  'audit.review',
+  // Sign-in accounts: invitations, approvals, roles and passwords
+  'user.manage',
+  'settings.manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Role on the staff record, which is finer than the account role ('staff' covers nurses and technicians)
+export type JobRole = StaffMember['personalInfo']['role'];
+
+export interface PermissionSubject {
+  role: UserRole;
+  jobRole?: JobRole;
+  department?: string;
+}
+
+const STAFF_PERMISSIONS: Permission[] = [
+  'patient.view',
+  'room.view',
+  'device.view',
+  'alert.view',
+  'alert.acknowledge',
+  'schedule.view',
+  'task.update',
+];
+
+const ROLE_PERMISSIONS: Record<UserRole | JobRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  doctor: [
+    'patient.view',
+    'patient.create',
+    'patient.edit',
+    'bed.assign',
+    'room.view',
+    'device.view',
+    'alert.view',
+    'alert.acknowledge',
+    'alert.resolve',
+    'alert.suppress',
+    'vitals.thresholds',
+    'staff.view',
+    'schedule.view',
+    'analytics.view',
+  ],
+  staff: STAFF_PERMISSIONS,
+  nurse: [...STAFF_PERMISSIONS, 'alert.resolve', 'alert.suppress', 'bed.assign'],
+  technician: [
+    'room.view',
+    'device.view',
+    'device.manage',
+    'device.assign',
+    'alert.view',
+    'alert.acknowledge',
+    'schedule.view',
+    'task.update',
+  ],
+};
+
+// Added to whatever the role grants, for everyone working in the department
+const DEPARTMENT_PERMISSIONS: Record<string, readonly Permission[]> = {
+  ICU: ['alert.resolve', 'bed.assign'],
+  Emergency: ['alert.resolve', 'bed.assign'],
+  'Biomedical Engineering': ['device.manage', 'device.assign'],
+  Administration: ['staff.view', 'schedule.publish'],
+};
+
+/**
+ * Everything a user may do. A 'staff' account is narrowed to the job role on its staff
+ * record; admin and doctor accounts keep their account role whatever the record says.
+ */
+export const permissionsFor = ({ role, jobRole, department }: PermissionSubject): ReadonlySet<Permission> => {
+  const effectiveRole = role === 'staff' && (jobRole === 'nurse' || jobRole === 'technician') ? jobRole : role;
+  return new Set([
+    ...(ROLE_PERMISSIONS[effectiveRole] ?? []),
+    ...(department ? DEPARTMENT_PERMISSIONS[department] ?? [] : []),
+  ]);
+};
+
+/**
+ * The staff record of a signed-in user: the one an admin linked to the account, otherwise the one
+ * with the account's contact email. Never matched on the name, which two people can share and
+ * which would hand one of them the other's permissions and patients.
+ */
+export const findStaffRecord = (
+  staff: Record<string, StaffMember>,
+  user: { email: string; staffId?: string }
+): StaffMember | undefined => {
+  if (user.staffId && staff[user.staffId]) return staff[user.staffId];
+  const email = user.email.toLowerCase();
+  return Object.values(staff).find(member => member.personalInfo.contact?.email?.toLowerCase() === email);
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { initials, maskNames } from './privacy';
+
+describe('privacy masking', () => {
+  it('shortens names to initials', () => {
+    expect(initials('Sarah Johnson')).toBe('S. J.');
+    expect(initials('  maría  de la Cruz ')).toBe('M. D. L. C.');
+  });
+
+  it('masks every known name in a text, longest first', () => {
+    const names = ['Ann Lee', 'Mary Ann Lee', 'Robert Brown'];
+    expect(maskNames('Mary Ann Lee: SpO2 88%. Robert Brown and robert brown are stable.', names))
+      .toBe('M. A. L.: SpO2 88%. R. B. and R. B. are stable.');
+    expect(maskNames('Roberta Browning is fine', names)).toBe('Roberta Browning is fine');
+  });
+});
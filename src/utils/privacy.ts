@@ -0,0 +1,24 @@
+// Patient identifiers as shown in privacy mode, see api/privacy.ts
+
+/**
+ * "Sarah Johnson" -> "S. J."
+ */
+export const initials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => `${part[0].toUpperCase()}.`)
+    .join(' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace every full name in the text with its initials, e.g. in alert messages and read-outs.
+ * Longer names go first, so "Mary Ann Lee" is not masked as "Mary A. L." because of "Ann Lee".
+ */
+export const maskNames = (text: string, names: string[]): string => {
+  const unique = [...new Set(names.map(name => name.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (unique.length === 0) return text;
+  const pattern = new RegExp(`\\b(${unique.map(escapeRegExp).join('|')})\\b`, 'gi');
+  return text.replace(pattern, match => initials(match));
+};
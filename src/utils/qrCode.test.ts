@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createQrCode } from './qrCode';
+
+const FINDER = [
+  '#######',
+  '#.....#',
+  '#.###.#',
+  '#.###.#',
+  '#.###.#',
+  '#.....#',
+  '#######',
+];
+
+// otpauth://totp/test?secret=ABC as encoded by the qrcode package (version 3, level M, byte mode, mask 4)
+const REFERENCE = [
+  '#######.####......#...#######',
+  '#.....#..#..#...####..#.....#',
+  '#.###.#..###.#.####.#.#.###.#',
+  '#.###.#.#.#.#.###.#...#.###.#',
+  '#.###.#.#...###.#.....#.###.#',
+  '#.....#.#.##.###.###..#.....#',
+  '#######.#.#.#.#.#.#.#.#######',
+  '........#.##..#..#.#.........',
+  '#...#.#####.######.#.#####..#',
+  '.#.#.#.##..#......#..######.#',
+  '.###..###.##.###.##.#.#.##..#',
+  '.###...#.#...#.########.##.##',
+  '##.#####..#..#...#...#.......',
+  '###.#...#..#.##.#...#####.###',
+  '##.##.#.##.#....###..###.#..#',
+  '.#####.#..###.#..#..###..#.##',
+  '.#.#..#.####.#######...#...#.',
+  '#.##...#.#.#.....#....###.###',
+  '....###..#...###.##.#...#...#',
+  '...##........#.#####....##...',
+  '###.#####...##.....#######.##',
+  '........###..##.#.#.#...##..#',
+  '#######.#####...##.##.#.#...#',
+  '#.....#..#.#..#..####...#..#.',
+  '#.###.#.########...######..##',
+  '#.###.#..##.#.....#.##...#.#.',
+  '#.###.#..###.#.#...#...#..###',
+  '#.....#..#......##..#.#.#..##',
+  '#######.#..####.....#..#.#.#.',
+];
+
+const draw = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+const region = (modules: boolean[][], left: number, top: number, size: number) =>
+  draw(modules.slice(top, top + size).map(row => row.slice(left, left + size)));
+
+describe('createQrCode', () => {
+  it('picks the smallest version that fits the text', () => {
+    expect(createQrCode('HELLO')).toHaveLength(21);
+    // An authenticator provisioning URI with a 160-bit secret
+    const uri = 'otpauth://totp/Smart%20Hospital:doctor%40hospital.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=Smart%20Hospital&algorithm=SHA1&digits=6&period=30';
+    expect(createQrCode(uri)).toHaveLength(8 * 4 + 17);
+    expect(() => createQrCode('x'.repeat(300))).toThrow('Text too long for a QR code');
+  });
+
+  it('draws the finder and timing patterns', () => {
+    const modules = createQrCode('otpauth://totp/test?secret=ABC');
+    const size = modules.length;
+
+    expect(region(modules, 0, 0, 7)).toEqual(FINDER);
+    expect(region(modules, size - 7, 0, 7)).toEqual(FINDER);
+    expect(region(modules, 0, size - 7, 7)).toEqual(FINDER);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    // Always dark, next to the bottom-left finder
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('matches a reference encoder module for module', () => {
+    expect(draw(createQrCode('otpauth://totp/test?secret=ABC'))).toEqual(REFERENCE);
+  });
+});
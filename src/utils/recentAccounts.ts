@@ -0,0 +1,40 @@
+import type { User } from '../contexts/AuthContext';
+
+// Accounts recently signed in on this terminal, shown as tiles on the switch user screen
+
+const STORAGE_KEY = 'recent_accounts';
+
+export const MAX_RECENT_ACCOUNTS = 6;
+
+export interface RecentAccount extends Pick<User, 'id' | 'email' | 'name' | 'role' | 'department'> {
+  // ISO time the account was last active here
+  lastActiveAt: string;
+}
+
+const writeAccounts = (accounts: RecentAccount[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+};
+
+/**
+ * Most recently active first
+ */
+export const listRecentAccounts = (): RecentAccount[] => {
+  try {
+    const accounts: RecentAccount[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return [...accounts].sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt));
+  } catch {
+    return [];
+  }
+};
+
+export const rememberAccount = (user: User, activeAt = new Date()) => {
+  const { id, email, name, role, department } = user;
+  writeAccounts([
+    { id, email, name, role, department, lastActiveAt: activeAt.toISOString() },
+    ...listRecentAccounts().filter(account => account.id !== id),
+  ].slice(0, MAX_RECENT_ACCOUNTS));
+};
+
+export const forgetAccount = (userId: string) => {
+  writeAccounts(listRecentAccounts().filter(account => account.id !== userId));
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DASHBOARD_ROUTES, belongsToRole, buildPath, matchRoute, patientMonitoringPath, roomEditPath, viewPath } from './routes';
+
+describe('dashboard routes', () => {
+  it('opens the screen of a nested route with its parameters', () => {
+    expect(matchRoute('doctor', '/doctor/patients/patient_001/monitoring')).toEqual({
+      route: expect.objectContaining({ view: 'monitoring', permission: 'patient.view' }),
+      params: { patientId: 'patient_001' },
+    });
+    expect(matchRoute('admin', '/admin/rooms/room_101/edit/')).toEqual({
+      route: expect.objectContaining({ view: 'rooms', permission: 'room.manage' }),
+      params: { roomId: 'room_101' },
+    });
+    expect(matchRoute('staff', '/staff')?.route.view).toBe('overview');
+  });
+
+  it('round-trips parameters that need escaping', () => {
+    const path = patientMonitoringPath('ward 3/bed #2');
+    expect(path).toBe('/doctor/patients/ward%203%2Fbed%20%232/monitoring');
+    expect(matchRoute('doctor', path)?.params).toEqual({ patientId: 'ward 3/bed #2' });
+    expect(roomEditPath('room_101')).toBe('/admin/rooms/room_101/edit');
+  });
+
+  it('does not match paths of other roles, unknown paths or malformed escapes', () => {
+    expect(matchRoute('doctor', '/admin/users')).toBeNull();
+    expect(belongsToRole('doctor', '/admin/users')).toBe(false);
+    expect(matchRoute('doctor', '/doctor/nowhere')).toBeNull();
+    expect(belongsToRole('doctor', '/doctor/nowhere')).toBe(true);
+    expect(matchRoute('doctor', '/doctor/patients/%E0%A4%A/monitoring')).toBeNull();
+  });
+
+  it('links sidebar items to the route of their view without parameters', () => {
+    expect(viewPath('doctor', 'monitoring')).toBe('/doctor/monitoring');
+    expect(viewPath('admin', 'overview')).toBe('/admin');
+    expect(viewPath('staff', 'unknown')).toBe('/staff');
+    expect(() => buildPath('admin', 'rooms/:roomId/edit')).toThrow('Missing route parameter :roomId');
+  });
+
+  it('guards every screen but the overview with a permission', () => {
+    const unguarded = Object.values(DASHBOARD_ROUTES).flat().filter(route => !route.permission);
+    expect(unguarded.map(route => route.view)).toEqual(['overview', 'overview', 'overview']);
+  });
+});
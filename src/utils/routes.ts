@@ -0,0 +1,130 @@
+import type { UserRole } from '../contexts/AuthContext';
+import type { Permission } from './permissions';
+
+// Dashboard URLs. Every role has its own tree under /<role>, so a link names the screen it opens
+// and who it is for, e.g. /doctor/patients/patient_001/monitoring or /admin/rooms/room_101/edit.
+
+export interface DashboardRoute {
+  // The screen the dashboard of the role renders, and the sidebar item that is highlighted
+  view: string;
+  // Below /<role>; ':name' segments are parameters
+  path: string;
+  // Shown as "Permission denied" to users without it, and left out of their sidebar
+  permission?: Permission;
+}
+
+export type RouteParams = Record<string, string>;
+
+export interface RouteMatch {
+  route: DashboardRoute;
+  params: RouteParams;
+}
+
+export const DASHBOARD_ROUTES: Record<UserRole, readonly DashboardRoute[]> = {
+  admin: [
+    { view: 'overview', path: '' },
+    { view: 'patients', path: 'patients', permission: 'patient.view' },
+    { view: 'staff', path: 'staff', permission: 'staff.view' },
+    { view: 'users', path: 'users', permission: 'user.manage' },
+    { view: 'rooms', path: 'rooms', permission: 'room.view' },
+    { view: 'rooms', path: 'rooms/:roomId/edit', permission: 'room.manage' },
+    { view: 'devices', path: 'devices', permission: 'device.view' },
+    { view: 'alerts', path: 'alerts', permission: 'alert.view' },
+    { view: 'analytics', path: 'analytics', permission: 'analytics.view' },
+    { view: 'diagnostics', path: 'diagnostics', permission: 'diagnostics.view' },
+    { view: 'audit', path: 'audit', permission: 'audit.view' },
+    { view: 'emergency-access', path: 'emergency-access', permission: 'audit.review' },
+    { view: 'settings', path: 'settings', permission: 'settings.manage' },
+  ],
+  doctor: [
+    { view: 'overview', path: '' },
+    { view: 'patients', path: 'patients', permission: 'patient.view' },
+    { view: 'monitoring', path: 'patients/:patientId/monitoring', permission: 'patient.view' },
+    { view: 'alerts', path: 'alerts', permission: 'alert.view' },
+    { view: 'monitoring', path: 'monitoring', permission: 'patient.view' },
+    { view: 'analytics', path: 'analytics', permission: 'analytics.view' },
+  ],
+  staff: [
+    { view: 'overview', path: '' },
+    { view: 'schedule', path: 'schedule', permission: 'schedule.view' },
+    { view: 'rooms', path: 'rooms', permission: 'room.view' },
+    { view: 'patients', path: 'patients', permission: 'patient.view' },
+    { view: 'devices', path: 'devices', permission: 'device.manage' },
+    { view: 'tasks', path: 'tasks', permission: 'task.update' },
+  ],
+};
+
+const segments = (path: string) => path.split('/').filter(Boolean);
+
+// Null for a malformed escape, which a hand-edited address can contain
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+export const homePath = (role: UserRole) => `/${role}`;
+
+/**
+ * The URL of a route of the role, with its parameters filled in. Throws for a parameter that is
+ * missing, since the link would open a different screen.
+ */
+export const buildPath = (role: UserRole, path: string, params: RouteParams = {}): string => {
+  const filled = segments(path).map(segment => {
+    if (!segment.startsWith(':')) return segment;
+    const value = params[segment.slice(1)];
+    if (value === undefined) throw new Error(`Missing route parameter ${segment} in ${path}`);
+    return encodeURIComponent(value);
+  });
+  return [homePath(role), ...filled].join('/');
+};
+
+/**
+ * The route the sidebar item of a view opens, i.e. the first route of the view without parameters
+ */
+export const findViewRoute = (role: UserRole, view: string): DashboardRoute | undefined =>
+  DASHBOARD_ROUTES[role].find(route => route.view === view && !route.path.includes(':'));
+
+export const viewPath = (role: UserRole, view: string): string => {
+  const route = findViewRoute(role, view);
+  return route ? buildPath(role, route.path) : homePath(role);
+};
+
+/**
+ * Whether the pathname is somewhere in the tree of the role, whether or not a route matches it
+ */
+export const belongsToRole = (role: UserRole, pathname: string) => segments(pathname)[0] === role;
+
+/**
+ * The route of the role the pathname opens, with its decoded parameters. Null for any other path,
+ * including paths of other roles.
+ */
+export const matchRoute = (role: UserRole, pathname: string): RouteMatch | null => {
+  const [first, ...rest] = segments(pathname);
+  if (first !== role) return null;
+
+  for (const route of DASHBOARD_ROUTES[role]) {
+    const pattern = segments(route.path);
+    if (pattern.length !== rest.length) continue;
+
+    const params: RouteParams = {};
+    const matches = pattern.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        const value = decodeSegment(rest[i]);
+        if (value === null) return false;
+        params[segment.slice(1)] = value;
+        return true;
+      }
+      return segment === rest[i];
+    });
+    if (matches) return { route, params };
+  }
+  return null;
+};
+
+export const patientMonitoringPath = (patientId: string) =>
+  buildPath('doctor', 'patients/:patientId/monitoring', { patientId });
+
+export const roomEditPath = (roomId: string) => buildPath('admin', 'rooms/:roomId/edit', { roomId });
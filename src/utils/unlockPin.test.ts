@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PBKDF2_ITERATIONS } from '../api/sessionVault';
+import { hasUnlockPin, setUnlockPin, verifyUnlockPin } from './unlockPin';
+
+const sha256 = async (text: string) =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))),
+    byte => byte.toString(16).padStart(2, '0')
+  ).join('');
+
+const storedPins = () => JSON.parse(localStorage.getItem('unlock_pins') ?? '{}');
+
+describe('unlock PINs', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps no hash of the PIN that is fast to guess', async () => {
+    await setUnlockPin('doctor-1', '2468');
+
+    const { salt, hash, iterations } = storedPins()['doctor-1'];
+    expect(iterations).toBe(PBKDF2_ITERATIONS);
+    expect(hash).not.toBe(await sha256(`${salt}:2468`));
+    expect(hash).not.toBe(await sha256('2468'));
+    expect(JSON.stringify(storedPins())).not.toContain('2468');
+    expect(await verifyUnlockPin('doctor-1', '2468')).toBe(true);
+    expect(await verifyUnlockPin('doctor-1', '1357')).toBe(false);
+  });
+
+  it('drops PINs stored as a single SHA-256', async () => {
+    const salt = 'abcd';
+    localStorage.setItem('unlock_pins', JSON.stringify({
+      'doctor-1': { salt, hash: await sha256(`${salt}:2468`), failedAttempts: 0 },
+    }));
+
+    expect(hasUnlockPin('doctor-1')).toBe(false);
+    expect(await verifyUnlockPin('doctor-1', '2468')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { PBKDF2_ITERATIONS } from '../api/sessionVault';
+
+// PINs that unlock a locked screen on this terminal, per user. Only a salted PBKDF2 hash is kept, as
+// slow to guess as the session vault's key, and a PIN never signs anyone in: it resumes a session
+// that is still valid, see AuthContext.resumeSession.
+
+const STORAGE_KEY = 'unlock_pins';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+// Wrong PINs in a row before the PIN is removed and the password is needed
+export const MAX_PIN_ATTEMPTS = 5;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  iterations: number;
+  failedAttempts: number;
+}
+
+// PINs hashed with other settings, like the single SHA-256 of earlier versions, are dropped;
+// their owners unlock with the password once and set the PIN again
+const readPins = (): Record<string, StoredPin> => {
+  try {
+    const pins: Record<string, StoredPin> = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return Object.fromEntries(Object.entries(pins).filter(([, pin]) => pin.iterations === PBKDF2_ITERATIONS));
+  } catch {
+    return {};
+  }
+};
+
+const writePins = (pins: Record<string, StoredPin>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    256
+  );
+  return toHex(bits);
+};
+
+export const hasUnlockPin = (userId: string): boolean => !!readPins()[userId];
+
+export const setUnlockPin = async (userId: string, pin: string): Promise<void> => {
+  if (!PIN_PATTERN.test(pin)) {
+    throw new Error('The PIN must be 4 to 8 digits');
+  }
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const hash = await hashPin(pin, salt);
+  writePins({ ...readPins(), [userId]: { salt, hash, iterations: PBKDF2_ITERATIONS, failedAttempts: 0 } });
+};
+
+export const clearUnlockPin = (userId: string) => {
+  const pins = readPins();
+  delete pins[userId];
+  writePins(pins);
+};
+
+/**
+ * Check a PIN. Wrong ones are counted; after MAX_PIN_ATTEMPTS the PIN is removed.
+ */
+export const verifyUnlockPin = async (userId: string, pin: string): Promise<boolean> => {
+  const stored = readPins()[userId];
+  if (!stored) return false;
+
+  if (await hashPin(pin, stored.salt) === stored.hash) {
+    writePins({ ...readPins(), [userId]: { ...stored, failedAttempts: 0 } });
+    return true;
+  }
+
+  const failedAttempts = stored.failedAttempts + 1;
+  if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+    clearUnlockPin(userId);
+  } else {
+    writePins({ ...readPins(), [userId]: { ...stored, failedAttempts } });
+  }
+  return false;
+};
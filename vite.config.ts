@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['src/test/setup.ts'],
+    // Backend timestamps carry no offset; pin the zone they are read in so results do not depend on the machine
+    env: { VITE_HOSPITAL_TIMEZONE: 'UTC' },
+  },
 });